@@ -1,4 +1,4 @@
-import { createPoll, getPolls, updatePoll, deletePoll, getPollById, submitVote } from '@/lib/actions/polls'
+import { createPoll, getPolls, updatePoll, deletePoll, restorePoll, getPollById, submitVote, getPollResults, promoteWriteIn } from '@/lib/actions/polls'
 import { createClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
 import { CreatePollData } from '@/lib/types/database'
@@ -6,6 +6,12 @@ import { CreatePollData } from '@/lib/types/database'
 // Mock the Supabase client
 jest.mock('@/lib/supabase/server')
 jest.mock('next/cache')
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(async () => ({ get: jest.fn(), set: jest.fn() })),
+  headers: jest.fn(async () => new Headers({ 'user-agent': 'jest', 'x-forwarded-for': '203.0.113.7' })),
+}))
+
+process.env.VOTER_TOKEN_SECRET = 'test-secret'
 
 const mockCreateClient = createClient as jest.MockedFunction<typeof createClient>
 const mockRevalidatePath = revalidatePath as jest.MockedFunction<typeof revalidatePath>
@@ -35,10 +41,10 @@ describe('Poll Actions', () => {
     
     // Create a more robust mock that handles method chaining
     const createRobustMockTable = () => {
-      const mockTable = {}
+      const mockTable: Record<string, jest.Mock> = {}
       
       // Define all the methods that should be chainable
-      const chainableMethods = ['select', 'insert', 'update', 'delete', 'eq', 'in', 'order']
+      const chainableMethods = ['select', 'insert', 'update', 'delete', 'eq', 'in', 'is', 'not', 'order', 'or', 'limit']
       
       // Create each method as a jest mock that returns the table itself
       chainableMethods.forEach(method => {
@@ -47,6 +53,8 @@ describe('Poll Actions', () => {
       
       // single() is not chainable, it returns a promise
       mockTable.single = jest.fn()
+      // maybeSingle() finds nothing unless a test says otherwise
+      mockTable.maybeSingle = jest.fn().mockResolvedValue({ data: null, error: null })
       
       return mockTable
     }
@@ -55,6 +63,7 @@ describe('Poll Actions', () => {
       auth: {
         getUser: jest.fn(),
       },
+      rpc: jest.fn().mockResolvedValue({ data: false, error: null }),
       from: jest.fn((table) => {
         // Return the appropriate table mock based on the table name
         switch (table) {
@@ -117,6 +126,15 @@ describe('Poll Actions', () => {
       expect(result.error).toBe('You must be logged in to create a poll')
     })
 
+    it('should reject selection limits that exceed the options', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
+
+      const result = await createPoll({ ...validPollData, vote_type: 'multiple', min_selections: 4 })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Minimum selections cannot exceed the number of options')
+    })
+
     it('should handle profile not found error', async () => {
       mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
       mockSupabase.profiles.select().eq().single.mockResolvedValue({ data: null, error: { message: 'Profile not found' } })
@@ -217,6 +235,33 @@ describe('Poll Actions', () => {
       expect(mockRevalidatePath).toHaveBeenCalledWith('/polls')
     })
 
+    it('should not change the voting method once the poll has votes', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
+      mockSupabase.polls.select().eq().single.mockResolvedValue({ data: { ...mockPoll, vote_type: 'single', score_max: 5, vote_credits: 100 }, error: null })
+      mockSupabase.votes.eq.mockResolvedValue({ count: 3, error: null })
+
+      const result = await updatePoll('poll-123', { ...validPollData, vote_type: 'ranked' })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('The voting method can\'t be changed once the poll has votes')
+      expect(mockSupabase.polls.update).not.toHaveBeenCalled()
+    })
+
+    it('should keep a poll that closed on its turnout closed when it is edited', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
+      mockSupabase.polls.single.mockResolvedValue({
+        data: { ...mockPoll, status: 'expired', starts_at: null, expires_at: null, vote_type: 'single', score_max: 5, vote_credits: 100 },
+        error: null,
+      })
+      mockSupabase.rpc.mockResolvedValue({ data: true, error: null })
+
+      const result = await updatePoll('poll-123', { ...validPollData, vote_type: 'single', close_after_votes: 10 })
+
+      expect(result.success).toBe(true)
+      expect(mockSupabase.polls.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'expired' }))
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('close_poll_if_complete', { poll_uuid: 'poll-123' })
+    })
+
     it('should handle unauthorized update attempt', async () => {
       const unauthorizedPoll = { created_by: 'other-user-123' }
       mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
@@ -267,15 +312,52 @@ describe('Poll Actions', () => {
       expect(result.error).toBe('You can only delete your own polls')
     })
 
-    it('should handle poll options deletion error', async () => {
+    it('should move the poll to the trash instead of deleting it', async () => {
       mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
-      mockSupabase.polls.select().eq().single.mockResolvedValue({ data: mockPoll, error: null })
-      mockSupabase.poll_options.delete().eq.mockResolvedValue({ error: { message: 'Options deletion failed' } })
+      mockSupabase.polls.single.mockResolvedValue({ data: mockPoll, error: null })
+
+      await deletePoll('poll-123')
+
+      expect(mockSupabase.polls.is).toHaveBeenCalledWith('deleted_at', null)
+      expect(mockSupabase.polls.update).toHaveBeenCalledWith({ deleted_at: expect.any(String) })
+      expect(mockSupabase.polls.delete).not.toHaveBeenCalled()
+      expect(mockSupabase.poll_options.delete).not.toHaveBeenCalled()
+    })
+
+    it('should not find polls that are already in the trash', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
+      mockSupabase.polls.single.mockResolvedValue({ data: null, error: { message: 'No rows found' } })
 
       const result = await deletePoll('poll-123')
 
       expect(result.success).toBe(false)
-      expect(result.error).toBe('Failed to delete poll options: Options deletion failed')
+      expect(result.error).toBe('Poll not found')
+    })
+  })
+
+  describe('restorePoll', () => {
+    const mockUser = { id: 'user-123' }
+
+    it('should take the poll out of the trash', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
+      mockSupabase.polls.single.mockResolvedValue({ data: { created_by: 'user-123' }, error: null })
+
+      const result = await restorePoll('poll-123')
+
+      expect(result.success).toBe(true)
+      expect(mockSupabase.polls.not).toHaveBeenCalledWith('deleted_at', 'is', null)
+      expect(mockSupabase.polls.update).toHaveBeenCalledWith({ deleted_at: null })
+    })
+
+    it('should only restore the user\'s own polls', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
+      mockSupabase.polls.single.mockResolvedValue({ data: { created_by: 'other-user-123' }, error: null })
+
+      const result = await restorePoll('poll-123')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('You can only restore your own polls')
+      expect(mockSupabase.polls.update).not.toHaveBeenCalled()
     })
   })
 
@@ -345,6 +427,49 @@ describe('Poll Actions', () => {
       expect(result.success).toBe(true)
     })
 
+    it('should reject a repeat vote from the same anonymous browser', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null }, error: null })
+      mockSupabase.polls.select().eq().single.mockResolvedValue({ data: { ...mockPoll, duplicate_protection: 'cookie' }, error: null })
+      mockSupabase.poll_options.select().eq().in.mockResolvedValue({ data: mockOptions, error: null })
+      mockSupabase.rpc.mockResolvedValue({ data: true, error: null })
+
+      const result = await submitVote(voteData)
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('You have already voted on this poll')
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('has_anonymous_vote', {
+        poll_uuid: voteData.poll_id,
+        token_hash: expect.stringMatching(/^[0-9a-f]{64}$/),
+        fingerprint_hash: null,
+      })
+    })
+
+    it('should reject a second anonymous ballot on a multiple-choice poll', async () => {
+      const approvalPoll = { ...mockPoll, vote_type: 'multiple', allow_multiple_votes: true, duplicate_protection: 'cookie' }
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null }, error: null })
+      mockSupabase.polls.select().eq().single.mockResolvedValue({ data: approvalPoll, error: null })
+      mockSupabase.poll_options.select().eq().in.mockResolvedValue({ data: mockOptions, error: null })
+      mockSupabase.rpc.mockResolvedValue({ data: true, error: null })
+
+      const result = await submitVote(voteData)
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('You have already voted on this poll')
+      expect(mockSupabase.votes.insert).not.toHaveBeenCalled()
+    })
+
+    it('should reject anonymous votes when the repeat check fails', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null }, error: null })
+      mockSupabase.polls.select().eq().single.mockResolvedValue({ data: { ...mockPoll, duplicate_protection: 'cookie' }, error: null })
+      mockSupabase.poll_options.select().eq().in.mockResolvedValue({ data: mockOptions, error: null })
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'connection lost' } })
+
+      const result = await submitVote(voteData)
+
+      expect(result.success).toBe(false)
+      expect(mockSupabase.votes.insert).not.toHaveBeenCalled()
+    })
+
     it('should handle poll not found error', async () => {
       mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
       mockSupabase.polls.select().eq().single.mockResolvedValue({ data: null, error: { message: 'Poll not found' } })
@@ -377,6 +502,88 @@ describe('Poll Actions', () => {
       expect(result.error).toBe('Poll has expired')
     })
 
+    it('should reject ranked ballots that rank an option twice', async () => {
+      const rankedPoll = { ...mockPoll, vote_type: 'ranked' }
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
+      mockSupabase.polls.select().eq().single.mockResolvedValue({ data: rankedPoll, error: null })
+
+      const result = await submitVote({ ...voteData, option_ids: ['opt-1', 'opt-1'] })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Each option can only be ranked once')
+    })
+
+    it('should reject score ballots with ratings outside the scale', async () => {
+      const scorePoll = { ...mockPoll, vote_type: 'score', score_max: 5 }
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
+      mockSupabase.polls.select().eq().single.mockResolvedValue({ data: scorePoll, error: null })
+
+      const result = await submitVote({ ...voteData, scores: { 'opt-1': 6 } })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Each rating must be a whole number from 1 to 5')
+    })
+
+    it('should reject quadratic ballots that overspend the credit budget', async () => {
+      const quadraticPoll = { ...mockPoll, vote_type: 'quadratic', vote_credits: 100 }
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
+      mockSupabase.polls.select().eq().single.mockResolvedValue({ data: quadraticPoll, error: null })
+
+      const result = await submitVote({ ...voteData, option_ids: ['opt-1', 'opt-2'], allocations: { 'opt-1': 8, 'opt-2': -7 } })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('You can spend at most 100 credits')
+    })
+
+    it('should reject pairwise ballots that compare the same pair twice', async () => {
+      const pairwisePoll = { ...mockPoll, vote_type: 'pairwise' }
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
+      mockSupabase.polls.select().eq().single.mockResolvedValue({ data: pairwisePoll, error: null })
+
+      const result = await submitVote({
+        ...voteData,
+        option_ids: ['opt-1', 'opt-2'],
+        comparisons: [
+          { winner_id: 'opt-1', loser_id: 'opt-2' },
+          { winner_id: 'opt-2', loser_id: 'opt-1' },
+        ],
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Each pair of options can only be compared once')
+    })
+
+    it('should reject write-in answers when the poll does not allow them', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
+      mockSupabase.polls.select().eq().single.mockResolvedValue({ data: { ...mockPoll, allow_write_in: false }, error: null })
+
+      const result = await submitVote({ ...voteData, option_ids: [], write_in: 'Something else' })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Write-in answers are not allowed on this poll')
+    })
+
+    it('should count a write-in towards the single choice', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
+      mockSupabase.polls.select().eq().single.mockResolvedValue({ data: { ...mockPoll, vote_type: 'single', allow_write_in: true }, error: null })
+
+      const result = await submitVote({ ...voteData, write_in: 'Something else' })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Please select only one option')
+    })
+
+    it('should reject approval ballots above the maximum selections', async () => {
+      const approvalPoll = { ...mockPoll, vote_type: 'multiple', allow_multiple_votes: true, min_selections: 1, max_selections: 1 }
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
+      mockSupabase.polls.select().eq().single.mockResolvedValue({ data: approvalPoll, error: null })
+
+      const result = await submitVote({ ...voteData, option_ids: ['opt-1', 'opt-2'] })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('You can select at most 1 option')
+    })
+
     it('should handle invalid options error', async () => {
       mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
       mockSupabase.polls.select().eq().single.mockResolvedValue({ data: mockPoll, error: null })
@@ -428,4 +635,41 @@ describe('Poll Actions', () => {
       expect(result.error).toBe('Failed to submit vote: Vote insertion failed')
     })
   })
-})
\ No newline at end of file
+
+  describe('promoteWriteIn', () => {
+    const mockUser = { id: 'user-123' }
+
+    it('should only let the poll owner promote write-in answers', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: mockUser }, error: null })
+      mockSupabase.polls.select().eq().single.mockResolvedValue({ data: { created_by: 'other-user-123', vote_type: 'single' }, error: null })
+
+      const result = await promoteWriteIn('poll-123', 'Pizza')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('You can only promote write-in answers on your own polls')
+    })
+  })
+
+  describe('getPollResults', () => {
+    it('should return results when they are visible', async () => {
+      const results = [{ option_id: 'opt-1', option_text: 'Option 1', vote_count: 2, percentage: 100 }]
+      mockSupabase.rpc
+        .mockResolvedValueOnce({ data: true, error: null })
+        .mockResolvedValueOnce({ data: results, error: null })
+
+      const result = await getPollResults('poll-123')
+
+      expect(result).toEqual({ success: true, data: results })
+      expect(mockSupabase.rpc).toHaveBeenLastCalledWith('get_poll_results', { poll_uuid: 'poll-123', voter_token_hash: null })
+    })
+
+    it('should withhold results hidden by the poll', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: false, error: null })
+
+      const result = await getPollResults('poll-123')
+
+      expect(result).toEqual({ success: true, data: [], hidden: true })
+      expect(mockSupabase.rpc).not.toHaveBeenCalledWith('get_poll_results', expect.anything())
+    })
+  })
+})
@@ -0,0 +1,52 @@
+import { isAccessToken, pollAccessCookieName, pollAccessHeader, unlistedPollUrl } from '@/lib/polls/access'
+import { pollSettingsFromForm } from '@/lib/polls/settings'
+
+describe('Unlisted Polls', () => {
+  const token = 'ab12'.repeat(16)
+
+  describe('pollSettingsFromForm', () => {
+    it('should keep unlisted polls out of the public listings', () => {
+      expect(pollSettingsFromForm({ title: 'Offsite', options: [], is_public: false, is_unlisted: true }))
+        .toMatchObject({ is_public: false, is_unlisted: true })
+    })
+
+    it('should ignore the unlisted setting on public polls', () => {
+      expect(pollSettingsFromForm({ title: 'Offsite', options: [], is_unlisted: true }))
+        .toMatchObject({ is_public: true, is_unlisted: false })
+    })
+  })
+
+  describe('isAccessToken', () => {
+    it('should accept hex tokens', () => {
+      expect(isAccessToken(token)).toBe(true)
+    })
+
+    it('should reject values that could break the forwarded header', () => {
+      expect(isAccessToken(`${token},${token}`)).toBe(false)
+      expect(isAccessToken('short')).toBe(false)
+    })
+  })
+
+  describe('pollAccessHeader', () => {
+    it('should join the tokens of every secret link the browser opened', () => {
+      const other = 'cd34'.repeat(16)
+
+      expect(pollAccessHeader([
+        { name: pollAccessCookieName('poll-1'), value: token },
+        { name: 'sb-access-token', value: 'session' },
+        { name: pollAccessCookieName('poll-2'), value: other },
+      ])).toBe(`${token},${other}`)
+    })
+
+    it('should skip malformed tokens and return null without any', () => {
+      expect(pollAccessHeader([{ name: pollAccessCookieName('poll-1'), value: 'not a token' }])).toBeNull()
+      expect(pollAccessHeader([])).toBeNull()
+    })
+  })
+
+  describe('unlistedPollUrl', () => {
+    it('should build the secret link for a token', () => {
+      expect(unlistedPollUrl('https://polls.example.com', token)).toBe(`https://polls.example.com/u/${token}`)
+    })
+  })
+})
@@ -0,0 +1,46 @@
+import { closeProgress, formatCloseProgress, hasCloseConditions, validateCloseConditions } from '@/lib/polls/close-conditions'
+
+describe('Poll Close Conditions', () => {
+  const base = { title: 'Lunch spot', options: ['Pizza', 'Sushi'] }
+
+  describe('validateCloseConditions', () => {
+    it('should accept vote and voter targets', () => {
+      expect(validateCloseConditions({ ...base, close_after_votes: 20, close_after_voters: 10 })).toBeNull()
+    })
+
+    it('should reject targets below one', () => {
+      expect(validateCloseConditions({ ...base, close_after_votes: 0 })).toBe('The vote target must be a whole number of at least 1')
+      expect(validateCloseConditions({ ...base, close_after_voters: 2.5 })).toBe('The voter target must be a whole number of at least 1')
+    })
+
+    it('should require a target for a decisive lead', () => {
+      expect(validateCloseConditions({ ...base, close_on_decisive_lead: true }))
+        .toBe('Closing on a decisive lead needs a vote or voter target')
+    })
+
+    it('should require a vote target for a decisive lead on multiple choice polls', () => {
+      expect(validateCloseConditions({ ...base, vote_type: 'multiple', close_after_voters: 10, close_on_decisive_lead: true }))
+        .toBe('Closing a multiple choice poll on a decisive lead needs a vote target')
+    })
+
+    it('should only allow a decisive lead on choice polls', () => {
+      expect(validateCloseConditions({ ...base, vote_type: 'ranked', close_after_votes: 10, close_on_decisive_lead: true }))
+        .toBe('Closing on a decisive lead is only available for single and multiple choice polls')
+    })
+  })
+
+  describe('closeProgress', () => {
+    const poll = { close_after_votes: 20, close_after_voters: null, close_on_decisive_lead: false }
+
+    it('should report progress towards each target', () => {
+      expect(closeProgress(poll, { ballots: 12, voters: 9 })).toEqual([{ unit: 'votes', current: 12, target: 20 }])
+      expect(hasCloseConditions(poll)).toBe(true)
+      expect(hasCloseConditions({ close_after_votes: null, close_after_voters: null })).toBe(false)
+    })
+
+    it('should format progress as votes needed', () => {
+      expect(formatCloseProgress({ unit: 'votes', current: 12, target: 20 })).toBe('12/20 votes needed')
+      expect(formatCloseProgress({ unit: 'voters', current: 25, target: 20 })).toBe('20/20 voters needed')
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import {
+  checkEligibility,
+  describeEligibility,
+  hasEligibilityRules,
+  parseEmailDomains,
+  validateEligibility,
+} from '@/lib/polls/eligibility'
+import { pollSettingsFromForm, validateDraft } from '@/lib/polls/settings'
+
+const NO_RULES = { allowed_email_domains: [], min_account_age_days: null, require_verified_email: false }
+const NOW = new Date('2026-03-10T12:00:00Z')
+
+const account = (overrides = {}) => ({
+  email: 'ana@ourcompany.com',
+  created_at: '2026-01-01T00:00:00Z',
+  email_confirmed_at: '2026-01-01T00:05:00Z',
+  ...overrides,
+})
+
+describe('Voter Eligibility', () => {
+  describe('hasEligibilityRules', () => {
+    it('should be false for polls anyone can vote on', () => {
+      expect(hasEligibilityRules(NO_RULES)).toBe(false)
+      expect(hasEligibilityRules({})).toBe(false)
+    })
+
+    it('should be true when any rule is set', () => {
+      expect(hasEligibilityRules({ ...NO_RULES, allowed_email_domains: ['ourcompany.com'] })).toBe(true)
+      expect(hasEligibilityRules({ ...NO_RULES, min_account_age_days: 7 })).toBe(true)
+      expect(hasEligibilityRules({ ...NO_RULES, require_verified_email: true })).toBe(true)
+    })
+  })
+
+  describe('parseEmailDomains', () => {
+    it('should split, lowercase and deduplicate domains', () => {
+      expect(parseEmailDomains('OurCompany.com, @partner.org\nourcompany.com')).toEqual(['ourcompany.com', 'partner.org'])
+    })
+
+    it('should ignore blank entries', () => {
+      expect(parseEmailDomains(' , ')).toEqual([])
+    })
+  })
+
+  describe('checkEligibility', () => {
+    it('should let anyone vote on polls without rules', () => {
+      expect(checkEligibility(NO_RULES, null, NOW)).toBeNull()
+    })
+
+    it('should ask anonymous visitors to sign in', () => {
+      expect(checkEligibility({ ...NO_RULES, require_verified_email: true }, null, NOW)).toBe('Sign in to vote on this poll')
+    })
+
+    it('should only accept addresses on the allowed domains', () => {
+      const rules = { ...NO_RULES, allowed_email_domains: ['ourcompany.com', 'partner.org'] }
+
+      expect(checkEligibility(rules, account(), NOW)).toBeNull()
+      expect(checkEligibility(rules, account({ email: 'Ben@Partner.org' }), NOW)).toBeNull()
+      expect(checkEligibility(rules, account({ email: 'eve@ourcompany.com.evil.io' }), NOW))
+        .toBe('Only @ourcompany.com or @partner.org accounts can vote on this poll')
+    })
+
+    it('should reject accounts younger than the minimum age', () => {
+      const rules = { ...NO_RULES, min_account_age_days: 7 }
+
+      expect(checkEligibility(rules, account(), NOW)).toBeNull()
+      expect(checkEligibility(rules, account({ created_at: '2026-03-05T12:00:00Z' }), NOW))
+        .toBe('Only accounts older than 7 days can vote on this poll')
+    })
+
+    it('should reject unconfirmed addresses when verification is required', () => {
+      const rules = { ...NO_RULES, require_verified_email: true }
+
+      expect(checkEligibility(rules, account(), NOW)).toBeNull()
+      expect(checkEligibility(rules, account({ email_confirmed_at: undefined }), NOW))
+        .toBe('Confirm your email address to vote on this poll')
+    })
+  })
+
+  describe('describeEligibility', () => {
+    it('should describe every rule in one sentence', () => {
+      expect(describeEligibility({ allowed_email_domains: ['ourcompany.com'], min_account_age_days: 1, require_verified_email: true }))
+        .toBe('Voting requires an @ourcompany.com address, an account older than 1 day and a confirmed email address.')
+    })
+
+    it('should be null for polls without rules', () => {
+      expect(describeEligibility(NO_RULES)).toBeNull()
+    })
+  })
+
+  describe('validateEligibility', () => {
+    it('should accept usable rules', () => {
+      expect(validateEligibility({ allowed_email_domains: ['ourcompany.com'], min_account_age_days: 30 })).toBeNull()
+      expect(validateEligibility({})).toBeNull()
+    })
+
+    it('should reject entries that are not domains', () => {
+      expect(validateEligibility({ allowed_email_domains: ['localhost'] })).toBe('Not an email domain: localhost')
+    })
+
+    it('should reject account ages that are not whole days', () => {
+      expect(validateEligibility({ min_account_age_days: 0 })).toMatch(/minimum account age/)
+      expect(validateEligibility({ min_account_age_days: 2.5 })).toMatch(/minimum account age/)
+    })
+
+    it('should be checked for drafts too', () => {
+      expect(validateDraft({ title: 'Lunch spot', options: [], allowed_email_domains: ['not a domain'] }))
+        .toBe('Not an email domain: not a domain')
+    })
+  })
+
+  describe('pollSettingsFromForm', () => {
+    it('should store normalized rules', () => {
+      expect(pollSettingsFromForm({ title: 'Lunch spot', options: [], allowed_email_domains: ['@OurCompany.com'] }))
+        .toMatchObject({ allowed_email_domains: ['ourcompany.com'], min_account_age_days: null, require_verified_email: false })
+    })
+  })
+})
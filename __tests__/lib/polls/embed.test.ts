@@ -0,0 +1,116 @@
+import {
+  COMPACT_EMBED_HEIGHT,
+  DEFAULT_EMBED_OPTIONS,
+  EMBED_HEIGHT,
+  EMBED_WIDTH,
+  embedContentSecurityPolicy,
+  embedIframeHtml,
+  embedSize,
+  embedUrl,
+  needsVoterCookies,
+  parseEmbedOptions,
+  pollIdFromUrl,
+} from '@/lib/polls/embed'
+
+const ORIGIN = 'https://pollly.example.com'
+const POLL_ID = '0f8fad5b-d9cb-469f-a165-70867728950e'
+
+describe('Poll embeds', () => {
+  describe('parseEmbedOptions', () => {
+    it('should fall back to the defaults', () => {
+      expect(parseEmbedOptions(new URLSearchParams())).toEqual(DEFAULT_EMBED_OPTIONS)
+    })
+
+    it('should read the theme and compact layout', () => {
+      expect(parseEmbedOptions(new URLSearchParams('theme=dark&compact=1'))).toEqual({ theme: 'dark', compact: true })
+      expect(parseEmbedOptions(new URLSearchParams('compact=true')).compact).toBe(true)
+      expect(parseEmbedOptions(new URLSearchParams('compact=0')).compact).toBe(false)
+    })
+
+    it('should ignore unknown themes', () => {
+      expect(parseEmbedOptions(new URLSearchParams('theme=neon')).theme).toBe('light')
+    })
+  })
+
+  describe('embedUrl', () => {
+    it('should leave out default options', () => {
+      expect(embedUrl(ORIGIN, POLL_ID)).toBe(`${ORIGIN}/embed/${POLL_ID}`)
+    })
+
+    it('should round-trip through parseEmbedOptions', () => {
+      const options = { theme: 'dark' as const, compact: true }
+      const url = new URL(embedUrl(ORIGIN, POLL_ID, options))
+
+      expect(parseEmbedOptions(url.searchParams)).toEqual(options)
+    })
+  })
+
+  describe('pollIdFromUrl', () => {
+    it('should find the poll of a poll page or embed', () => {
+      expect(pollIdFromUrl(`${ORIGIN}/polls/${POLL_ID}`, ORIGIN)).toBe(POLL_ID)
+      expect(pollIdFromUrl(`${ORIGIN}/embed/${POLL_ID.toUpperCase()}?theme=dark`, ORIGIN)).toBe(POLL_ID)
+    })
+
+    it('should reject other sites and pages', () => {
+      expect(pollIdFromUrl(`https://elsewhere.example.com/polls/${POLL_ID}`, ORIGIN)).toBeNull()
+      expect(pollIdFromUrl(`${ORIGIN}/polls/${POLL_ID}/edit`, ORIGIN)).toBeNull()
+      expect(pollIdFromUrl(`${ORIGIN}/polls/not-a-poll`, ORIGIN)).toBeNull()
+      expect(pollIdFromUrl('not a url', ORIGIN)).toBeNull()
+    })
+  })
+
+  describe('embedSize', () => {
+    it('should use a shorter iframe for compact embeds', () => {
+      expect(embedSize(DEFAULT_EMBED_OPTIONS)).toEqual({ width: EMBED_WIDTH, height: EMBED_HEIGHT })
+      expect(embedSize({ theme: 'light', compact: true }).height).toBe(COMPACT_EMBED_HEIGHT)
+    })
+
+    it('should shrink to the maximum size but never grow', () => {
+      expect(embedSize(DEFAULT_EMBED_OPTIONS, 400, 300)).toEqual({ width: 400, height: 300 })
+      expect(embedSize(DEFAULT_EMBED_OPTIONS, 2000, 2000)).toEqual({ width: EMBED_WIDTH, height: EMBED_HEIGHT })
+    })
+  })
+
+  describe('embedIframeHtml', () => {
+    it('should escape the source and title', () => {
+      const html = embedIframeHtml(`${ORIGIN}/embed/${POLL_ID}?theme=dark&compact=1`, 'Tabs "or" <spaces>', 600, 480)
+
+      expect(html).toContain(`src="${ORIGIN}/embed/${POLL_ID}?theme=dark&amp;compact=1"`)
+      expect(html).toContain('title="Tabs &quot;or&quot; &lt;spaces&gt;"')
+      expect(html).toContain('width="600" height="480"')
+    })
+  })
+
+  describe('needsVoterCookies', () => {
+    const openPoll = {
+      duplicate_protection: 'off' as const,
+      is_invite_only: false,
+      has_password: false,
+      allowed_email_domains: [],
+      min_account_age_days: null,
+      require_verified_email: false,
+    }
+
+    it('should let polls open to anyone be voted on in place', () => {
+      expect(needsVoterCookies(openPoll)).toBe(false)
+    })
+
+    it('should send polls that need to know the voter to their own page', () => {
+      expect(needsVoterCookies({ ...openPoll, duplicate_protection: 'cookie' })).toBe(true)
+      expect(needsVoterCookies({ ...openPoll, is_invite_only: true })).toBe(true)
+      expect(needsVoterCookies({ ...openPoll, has_password: true })).toBe(true)
+      expect(needsVoterCookies({ ...openPoll, allowed_email_domains: ['example.com'] })).toBe(true)
+    })
+  })
+
+  describe('embedContentSecurityPolicy', () => {
+    it('should only allow this site by default', () => {
+      expect(embedContentSecurityPolicy(undefined)).toBe("frame-ancestors 'self'")
+      expect(embedContentSecurityPolicy(' ')).toBe("frame-ancestors 'self'")
+    })
+
+    it('should limit framing to the configured sites', () => {
+      expect(embedContentSecurityPolicy(' https://wiki.example.com ')).toBe('frame-ancestors https://wiki.example.com')
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import {
+  invitationCookieName,
+  invitationEmail,
+  invitationHeader,
+  invitationTurnout,
+  invitationUrl,
+  parseInviteeEmails,
+} from '@/lib/polls/invitations'
+
+describe('Poll Invitations', () => {
+  describe('parseInviteeEmails', () => {
+    it('should split addresses on commas, semicolons and whitespace', () => {
+      expect(parseInviteeEmails('ana@example.com, ben@example.com;cy@example.com\ndee@example.com eve@example.com').emails)
+        .toEqual(['ana@example.com', 'ben@example.com', 'cy@example.com', 'dee@example.com', 'eve@example.com'])
+    })
+
+    it('should lower-case addresses and drop duplicates', () => {
+      expect(parseInviteeEmails('Ana@Example.com\nana@example.com').emails).toEqual(['ana@example.com'])
+    })
+
+    it('should accept addresses copied with a name', () => {
+      expect(parseInviteeEmails('Ana Lima <ana@example.com>, Ben <ben@example.com>').emails)
+        .toEqual(['ana@example.com', 'ben@example.com'])
+    })
+
+    it('should report entries that are not addresses', () => {
+      expect(parseInviteeEmails('ana@example.com, ben, cy@localhost')).toEqual({
+        emails: ['ana@example.com'],
+        invalid: ['ben', 'cy@localhost'],
+      })
+    })
+
+    it('should ignore blank input', () => {
+      expect(parseInviteeEmails(' ,\n ;')).toEqual({ emails: [], invalid: [] })
+    })
+  })
+
+  describe('invitationTurnout', () => {
+    it('should mark invitations with votes recorded under them', () => {
+      const invitations = [{ id: 'inv-1' }, { id: 'inv-2' }]
+      const votes = [{ invitation_id: 'inv-2' }, { invitation_id: 'inv-2' }, { invitation_id: null }]
+
+      expect(invitationTurnout(invitations, votes)).toEqual([
+        { id: 'inv-1', has_voted: false },
+        { id: 'inv-2', has_voted: true },
+      ])
+    })
+  })
+
+  describe('invitationHeader', () => {
+    const token = `123e4567-e89b-12d3-a456-426614174000.${'ab'.repeat(32)}`
+
+    it('should join the links of every invitation the browser opened', () => {
+      const other = `123e4567-e89b-12d3-a456-426614174001.${'cd'.repeat(32)}`
+
+      expect(invitationHeader([
+        { name: invitationCookieName('poll-1'), value: token },
+        { name: 'sb-access-token', value: 'session' },
+        { name: invitationCookieName('poll-2'), value: other },
+      ])).toBe(`${token},${other}`)
+    })
+
+    it('should skip malformed links and return null without any', () => {
+      expect(invitationHeader([{ name: invitationCookieName('poll-1'), value: `${token},x` }])).toBeNull()
+      expect(invitationHeader([])).toBeNull()
+    })
+  })
+
+  describe('invitationEmail', () => {
+    it('should name the inviter and poll and include the personal link', () => {
+      const url = invitationUrl('https://polls.example.com', 'inv-1.signature')
+      const email = invitationEmail('Team offsite', 'Ana', url)
+
+      expect(email.subject).toBe('Ana invited you to vote: Team offsite')
+      expect(email.text).toContain('https://polls.example.com/i/inv-1.signature')
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import { canEditPoll, getPollRole } from '@/lib/polls/members'
+
+const poll = { id: 'poll-1', created_by: 'owner-1', workspace_id: null }
+const workspacePoll = { ...poll, workspace_id: 'workspace-1' }
+
+// A client whose poll_members lookup finds the given membership
+const clientWithMember = (member: { role: string } | null, error: { message: string } | null = null) => {
+  const table: any = {}
+  table.select = jest.fn(() => table)
+  table.eq = jest.fn(() => table)
+  table.maybeSingle = jest.fn().mockResolvedValue({ data: member, error })
+  return { from: jest.fn(() => table) } as any
+}
+
+// A client whose poll_members and workspace_members lookups find the given memberships
+const clientWithMemberships = (member: { role: string } | null, workspaceMember: { role: string } | null) => {
+  const tableFor = (data: { role: string } | null) => {
+    const table: any = {}
+    table.select = jest.fn(() => table)
+    table.eq = jest.fn(() => table)
+    table.maybeSingle = jest.fn().mockResolvedValue({ data, error: null })
+    return table
+  }
+  const tables: Record<string, any> = {
+    poll_members: tableFor(member),
+    workspace_members: tableFor(workspaceMember),
+  }
+  return { from: jest.fn((name: string) => tables[name]) } as any
+}
+
+describe('Poll Members', () => {
+  describe('canEditPoll', () => {
+    it('should let the creator and editors edit', () => {
+      expect(canEditPoll('owner')).toBe(true)
+      expect(canEditPoll('editor')).toBe(true)
+    })
+
+    it('should not let viewers or strangers edit', () => {
+      expect(canEditPoll('viewer')).toBe(false)
+      expect(canEditPoll(null)).toBe(false)
+    })
+  })
+
+  describe('getPollRole', () => {
+    it('should recognise the creator without a lookup', async () => {
+      const supabase = clientWithMember(null)
+
+      expect(await getPollRole(supabase, poll, 'owner-1')).toBe('owner')
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should return a member\'s role', async () => {
+      const supabase = clientWithMember({ role: 'editor' })
+
+      expect(await getPollRole(supabase, poll, 'user-2')).toBe('editor')
+      expect(supabase.from).toHaveBeenCalledWith('poll_members')
+    })
+
+    it('should return null for users the poll isn\'t shared with', async () => {
+      expect(await getPollRole(clientWithMember(null), poll, 'user-3')).toBeNull()
+      expect(await getPollRole(clientWithMember(null), poll, null)).toBeNull()
+    })
+
+    it('should treat a failed lookup as no access', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      expect(await getPollRole(clientWithMember(null, { message: 'boom' }), poll, 'user-2')).toBeNull()
+    })
+
+    it('should give workspace admins and owners edit access to the workspace\'s polls', async () => {
+      expect(await getPollRole(clientWithMemberships(null, { role: 'admin' }), workspacePoll, 'user-2')).toBe('editor')
+      expect(await getPollRole(clientWithMemberships(null, { role: 'owner' }), workspacePoll, 'user-2')).toBe('editor')
+    })
+
+    it('should give other workspace members view access', async () => {
+      expect(await getPollRole(clientWithMemberships(null, { role: 'member' }), workspacePoll, 'user-2')).toBe('viewer')
+    })
+
+    it('should use the stronger of a poll role and a workspace role', async () => {
+      expect(await getPollRole(clientWithMemberships({ role: 'viewer' }, { role: 'admin' }), workspacePoll, 'user-2')).toBe('editor')
+      expect(await getPollRole(clientWithMemberships({ role: 'editor' }, { role: 'member' }), workspacePoll, 'user-2')).toBe('editor')
+    })
+
+    it('should not look up workspace members for personal polls', async () => {
+      const supabase = clientWithMemberships(null, { role: 'admin' })
+
+      expect(await getPollRole(supabase, poll, 'user-2')).toBeNull()
+      expect(supabase.from).not.toHaveBeenCalledWith('workspace_members')
+    })
+  })
+})
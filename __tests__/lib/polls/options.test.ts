@@ -0,0 +1,65 @@
+import { diffPollOptions } from '@/lib/polls/options'
+
+describe('Poll Option Editing', () => {
+  const existing = [
+    { id: 'opt-1', text: 'Pizza', order_index: 1 },
+    { id: 'opt-2', text: 'Tacos', order_index: 2 },
+    { id: 'opt-3', text: 'Sushi', order_index: 3 },
+  ]
+
+  describe('diffPollOptions', () => {
+    it('should keep the id of renamed and reordered options', () => {
+      const diff = diffPollOptions(existing, {
+        options: ['Sushi', 'Pizza ', 'Tacos al pastor'],
+        option_ids: ['opt-3', 'opt-1', 'opt-2'],
+      })
+
+      expect(diff.updates).toEqual([
+        { id: 'opt-3', text: 'Sushi', order_index: 1 },
+        { id: 'opt-1', text: 'Pizza', order_index: 2 },
+        { id: 'opt-2', text: 'Tacos al pastor', order_index: 3 },
+      ])
+      expect(diff.inserts).toEqual([])
+      expect(diff.removals).toEqual([])
+    })
+
+    it('should add new options and remove dropped ones', () => {
+      const diff = diffPollOptions(existing, {
+        options: ['Pizza', 'Burgers'],
+        option_ids: ['opt-1', null],
+      })
+
+      expect(diff.updates).toEqual([{ id: 'opt-1', text: 'Pizza', order_index: 1 }])
+      expect(diff.inserts).toEqual([{ text: 'Burgers', order_index: 2 }])
+      expect(diff.removals).toEqual(['opt-2', 'opt-3'])
+    })
+
+    it('should match options by text when no ids are sent', () => {
+      const diff = diffPollOptions(existing, { options: ['Tacos', 'Pizza', 'Curry'] })
+
+      expect(diff.updates.map(option => option.id)).toEqual(['opt-2', 'opt-1'])
+      expect(diff.inserts).toEqual([{ text: 'Curry', order_index: 3 }])
+      expect(diff.removals).toEqual(['opt-3'])
+    })
+
+    it('should not reuse an option id twice', () => {
+      const diff = diffPollOptions(existing, {
+        options: ['Pizza', 'Pizza again'],
+        option_ids: ['opt-1', 'opt-1'],
+      })
+
+      expect(diff.updates).toHaveLength(1)
+      expect(diff.inserts).toEqual([{ text: 'Pizza again', order_index: 2 }])
+    })
+
+    it('should ignore ids that belong to other polls', () => {
+      const diff = diffPollOptions(existing, {
+        options: ['Pizza', 'Tacos', 'Sushi'],
+        option_ids: ['opt-1', 'opt-2', 'other-poll-option'],
+      })
+
+      expect(diff.inserts).toEqual([{ text: 'Sushi', order_index: 3 }])
+      expect(diff.removals).toEqual(['opt-3'])
+    })
+  })
+})
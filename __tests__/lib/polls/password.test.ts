@@ -0,0 +1,50 @@
+import { pollPasswordCookieName, pollPasswordHeader, validatePollPassword } from '@/lib/polls/password'
+import { validateDraft } from '@/lib/polls/settings'
+
+describe('Poll Passwords', () => {
+  describe('validatePollPassword', () => {
+    it('should accept passwords of a usable length', () => {
+      expect(validatePollPassword({ password: 'open sesame' })).toBeNull()
+    })
+
+    it('should reject passwords that are too short or too long', () => {
+      expect(validatePollPassword({ password: 'abc' })).toBe('Passwords must be 4 to 100 characters')
+      expect(validatePollPassword({ password: 'a'.repeat(101) })).toBe('Passwords must be 4 to 100 characters')
+    })
+
+    it('should leave kept and removed passwords alone', () => {
+      expect(validatePollPassword({})).toBeNull()
+      expect(validatePollPassword({ password: null })).toBeNull()
+    })
+
+    it('should be checked for drafts too', () => {
+      expect(validateDraft({ title: 'Lunch spot', options: [], password: '' })).toBe('Passwords must be 4 to 100 characters')
+    })
+  })
+
+  describe('pollPasswordCookieName', () => {
+    it('should name a cookie per poll', () => {
+      expect(pollPasswordCookieName('poll-1')).not.toBe(pollPasswordCookieName('poll-2'))
+    })
+  })
+
+  describe('pollPasswordHeader', () => {
+    const pollId = '123e4567-e89b-12d3-a456-426614174000'
+    const otherPollId = '123e4567-e89b-12d3-a456-426614174001'
+    const grant = `1700000000000.${'ab'.repeat(32)}`
+
+    it('should join every grant with its poll ID', () => {
+      expect(pollPasswordHeader([
+        { name: pollPasswordCookieName(pollId), value: grant },
+        { name: 'sb-access-token', value: 'session' },
+        { name: pollPasswordCookieName(otherPollId), value: grant },
+      ])).toBe(`${pollId}.${grant},${otherPollId}.${grant}`)
+    })
+
+    it('should skip malformed grants and return null without any', () => {
+      expect(pollPasswordHeader([{ name: pollPasswordCookieName(pollId), value: 'not a grant' }])).toBeNull()
+      expect(pollPasswordHeader([{ name: pollPasswordCookieName('poll-1,x'), value: grant }])).toBeNull()
+      expect(pollPasswordHeader([])).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,38 @@
+import { DEFAULT_QR_OPTIONS, parseQrOptions, qrQuery } from '@/lib/polls/qr'
+
+describe('QR codes', () => {
+  describe('parseQrOptions', () => {
+    it('should fall back to the defaults', () => {
+      expect(parseQrOptions(new URLSearchParams())).toEqual({ options: DEFAULT_QR_OPTIONS, error: null })
+    })
+
+    it('should read the format, size and error correction level', () => {
+      expect(parseQrOptions(new URLSearchParams('format=png&size=1024&ec=h')).options)
+        .toEqual({ format: 'png', size: 1024, errorCorrection: 'H' })
+    })
+
+    it('should reject unsupported formats', () => {
+      expect(parseQrOptions(new URLSearchParams('format=gif')).error).toBe('Format must be svg or png')
+    })
+
+    it('should reject sizes out of range', () => {
+      expect(parseQrOptions(new URLSearchParams('size=4096')).error)
+        .toBe('Size must be a whole number of pixels from 64 to 2048')
+      expect(parseQrOptions(new URLSearchParams('size=big')).options).toBeNull()
+    })
+
+    it('should reject unknown error correction levels', () => {
+      expect(parseQrOptions(new URLSearchParams('ec=X')).error).toBe('Error correction must be L, M, Q or H')
+    })
+  })
+
+  describe('qrQuery', () => {
+    it('should round-trip through parseQrOptions', () => {
+      const options = { format: 'png' as const, size: 256, errorCorrection: 'Q' as const }
+      const params = new URLSearchParams(qrQuery(options, { share: 'poll_1a2b3c4d' }))
+
+      expect(parseQrOptions(params).options).toEqual(options)
+      expect(params.get('share')).toBe('poll_1a2b3c4d')
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import {
+  formatCountdown,
+  pollCountdown,
+  pollScheduleFromForm,
+  statusForSchedule,
+  validateSchedule,
+} from '@/lib/polls/schedule'
+
+describe('Poll Scheduling', () => {
+  const now = new Date('2026-03-01T12:00:00Z')
+  const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString()
+
+  describe('statusForSchedule', () => {
+    it('should keep polls that open later inactive', () => {
+      expect(statusForSchedule({ starts_at: hoursFromNow(2), expires_at: null }, now)).toBe('inactive')
+    })
+
+    it('should open polls once their start time has passed', () => {
+      expect(statusForSchedule({ starts_at: hoursFromNow(-1), expires_at: hoursFromNow(5) }, now)).toBe('active')
+    })
+
+    it('should expire polls past their closing time', () => {
+      expect(statusForSchedule({ starts_at: null, expires_at: hoursFromNow(-1) }, now)).toBe('expired')
+    })
+  })
+
+  describe('pollScheduleFromForm', () => {
+    it('should keep stored times the form leaves out', () => {
+      const current = { starts_at: hoursFromNow(3), expires_at: hoursFromNow(6) }
+
+      expect(pollScheduleFromForm({ title: 'Poll', options: [] }, current, now)).toEqual({
+        ...current,
+        status: 'inactive',
+      })
+    })
+
+    it('should reopen a scheduled poll when its start time is cleared', () => {
+      const current = { starts_at: hoursFromNow(3), expires_at: null }
+
+      expect(pollScheduleFromForm({ title: 'Poll', options: [], starts_at: null }, current, now).status).toBe('active')
+    })
+
+    it('should keep a closed poll closed while its times are unchanged', () => {
+      const current = { starts_at: null, expires_at: hoursFromNow(6), status: 'expired' as const }
+
+      expect(pollScheduleFromForm({ title: 'Poll', options: [] }, current, now).status).toBe('expired')
+      expect(pollScheduleFromForm(
+        { title: 'Poll', options: [], expires_at: new Date(hoursFromNow(6)).toISOString() },
+        { ...current, expires_at: hoursFromNow(6).replace('Z', '+00:00') },
+        now
+      ).status).toBe('expired')
+    })
+
+    it('should reopen a closed poll when its closing time is moved', () => {
+      const current = { starts_at: null, expires_at: hoursFromNow(6), status: 'expired' as const }
+
+      expect(pollScheduleFromForm({ title: 'Poll', options: [], expires_at: hoursFromNow(12) }, current, now).status).toBe('active')
+    })
+  })
+
+  describe('validateSchedule', () => {
+    it('should reject polls that close before they open', () => {
+      expect(validateSchedule({
+        title: 'Poll',
+        options: [],
+        starts_at: hoursFromNow(5),
+        expires_at: hoursFromNow(2),
+      })).toBe('The poll must close after it opens')
+    })
+
+    it('should accept polls without a schedule', () => {
+      expect(validateSchedule({ title: 'Poll', options: [] })).toBeNull()
+    })
+  })
+
+  describe('formatCountdown', () => {
+    it('should show the two largest units', () => {
+      expect(formatCountdown(26 * 60 * 60 * 1000)).toBe('1d 2h')
+      expect(formatCountdown(90 * 60 * 1000)).toBe('1h 30m')
+      expect(formatCountdown(5 * 60 * 1000)).toBe('5m')
+      expect(formatCountdown(30 * 1000)).toBe('less than a minute')
+    })
+  })
+
+  describe('pollCountdown', () => {
+    it('should count down to the opening of scheduled polls', () => {
+      expect(pollCountdown({ status: 'inactive', starts_at: hoursFromNow(2), expires_at: hoursFromNow(8) }, now))
+        .toBe('Opens in 2h')
+    })
+
+    it('should count down to the closing of open polls', () => {
+      expect(pollCountdown({ status: 'active', starts_at: null, expires_at: hoursFromNow(50) }, now))
+        .toBe('Closes in 2d 2h')
+    })
+
+    it('should show nothing for polls without an upcoming change', () => {
+      expect(pollCountdown({ status: 'active', starts_at: null, expires_at: null }, now)).toBeNull()
+      expect(pollCountdown({ status: 'expired', starts_at: null, expires_at: hoursFromNow(-1) }, now)).toBeNull()
+    })
+  })
+})
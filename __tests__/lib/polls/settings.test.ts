@@ -0,0 +1,68 @@
+import { changesVotingMethod, validateDraft, validatePublishable } from '@/lib/polls/settings'
+
+describe('Poll Drafts', () => {
+  describe('validateDraft', () => {
+    it('should accept a draft with only a title', () => {
+      expect(validateDraft({ title: 'Lunch spot', options: [] })).toBeNull()
+    })
+
+    it('should require a title', () => {
+      expect(validateDraft({ title: '  ', options: ['Pizza'] })).toBe('Poll title is required')
+    })
+
+    it('should still reject an invalid schedule', () => {
+      expect(validateDraft({
+        title: 'Lunch spot',
+        options: [],
+        starts_at: '2026-03-02T12:00:00Z',
+        expires_at: '2026-03-01T12:00:00Z',
+      })).toBe('The poll must close after it opens')
+    })
+  })
+
+  describe('validatePublishable', () => {
+    it('should accept a complete poll', () => {
+      expect(validatePublishable({ title: 'Lunch spot', options: ['Pizza', 'Sushi'] })).toBeNull()
+    })
+
+    it('should require at least two options', () => {
+      expect(validatePublishable({ title: 'Lunch spot', options: ['Pizza'] })).toBe('A poll needs at least 2 options')
+    })
+
+    it('should reject blank options', () => {
+      expect(validatePublishable({ title: 'Lunch spot', options: ['Pizza', ' '] })).toBe('All options must be filled')
+    })
+
+    it('should reject duplicate options', () => {
+      expect(validatePublishable({ title: 'Lunch spot', options: ['Pizza', 'Pizza '] })).toBe('Options must be unique')
+    })
+
+    it('should apply the voting method settings', () => {
+      expect(validatePublishable({
+        title: 'Lunch spot',
+        options: ['Pizza', 'Sushi'],
+        vote_type: 'multiple',
+        min_selections: 3,
+      })).toBe('Minimum selections cannot exceed the number of options')
+    })
+  })
+})
+
+describe('Voting method changes', () => {
+  const form = { title: 'Lunch spot', options: ['Pizza', 'Sushi'] }
+
+  it('should notice a new vote type', () => {
+    expect(changesVotingMethod({ vote_type: 'single', score_max: 5, vote_credits: 100 }, { ...form, vote_type: 'ranked' })).toBe(true)
+    expect(changesVotingMethod({ vote_type: 'single', score_max: 5, vote_credits: 100 }, { ...form, allow_multiple_votes: true })).toBe(true)
+  })
+
+  it('should notice a new scale or budget only where the method uses it', () => {
+    expect(changesVotingMethod({ vote_type: 'score', score_max: 5, vote_credits: 100 }, { ...form, vote_type: 'score', score_max: 10 })).toBe(true)
+    expect(changesVotingMethod({ vote_type: 'quadratic', score_max: 5, vote_credits: 100 }, { ...form, vote_type: 'quadratic', vote_credits: 50 })).toBe(true)
+    expect(changesVotingMethod({ vote_type: 'single', score_max: 7, vote_credits: 100 }, { ...form, vote_type: 'single', score_max: 10 })).toBe(false)
+  })
+
+  it('should accept an unchanged method', () => {
+    expect(changesVotingMethod({ vote_type: 'score', score_max: 7, vote_credits: 100 }, { ...form, vote_type: 'score', score_max: 7 })).toBe(false)
+  })
+})
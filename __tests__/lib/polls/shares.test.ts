@@ -0,0 +1,66 @@
+import { countShareVotes, shareStatus, shareUrl, validateShareSettings } from '@/lib/polls/shares'
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(() => Promise.resolve({ get: jest.fn() })),
+}))
+
+describe('Share codes', () => {
+  const now = new Date('2026-05-01T12:00:00Z')
+
+  describe('shareUrl', () => {
+    it('should build the short link for a code', () => {
+      expect(shareUrl('https://polls.example.com', 'poll_1a2b3c4d')).toBe('https://polls.example.com/s/poll_1a2b3c4d')
+    })
+  })
+
+  describe('shareStatus', () => {
+    it('should treat codes without an expiry as active', () => {
+      expect(shareStatus({ is_active: true, expires_at: null }, now)).toBe('active')
+    })
+
+    it('should report disabled codes before checking the expiry', () => {
+      expect(shareStatus({ is_active: false, expires_at: '2026-04-01T00:00:00Z' }, now)).toBe('disabled')
+    })
+
+    it('should report codes past their expiry as expired', () => {
+      expect(shareStatus({ is_active: true, expires_at: '2026-05-01T12:00:00Z' }, now)).toBe('expired')
+      expect(shareStatus({ is_active: true, expires_at: '2026-05-02T00:00:00Z' }, now)).toBe('active')
+    })
+  })
+
+  describe('validateShareSettings', () => {
+    it('should accept a label and a future expiry', () => {
+      expect(validateShareSettings({ label: 'Newsletter', expires_at: '2026-06-01T00:00:00Z' }, now)).toBeNull()
+    })
+
+    it('should reject labels that are too long', () => {
+      expect(validateShareSettings({ label: 'x'.repeat(51) }, now)).toBe('Labels can be at most 50 characters')
+    })
+
+    it('should reject invalid and past expiry times', () => {
+      expect(validateShareSettings({ expires_at: 'soon' }, now)).toBe('Invalid expiry time')
+      expect(validateShareSettings({ expires_at: '2026-04-30T00:00:00Z' }, now)).toBe('The expiry must be in the future')
+    })
+  })
+
+  describe('countShareVotes', () => {
+    it('should count each ballot once per share code', () => {
+      const counts = countShareVotes([
+        { share_id: 'newsletter', ballot_id: 'b1' },
+        { share_id: 'newsletter', ballot_id: 'b1' },
+        { share_id: 'newsletter', ballot_id: 'b2' },
+        { share_id: 'chat', ballot_id: 'b3' },
+        { share_id: null, ballot_id: 'b4' },
+      ])
+
+      expect(counts).toEqual({ newsletter: 2, chat: 1 })
+    })
+
+    it('should count rows without a ballot ID on their own', () => {
+      expect(countShareVotes([
+        { share_id: 'chat', ballot_id: null },
+        { share_id: 'chat', ballot_id: null },
+      ])).toEqual({ chat: 2 })
+    })
+  })
+})
@@ -0,0 +1,158 @@
+import { questionsToForm, tallySurveyQuestion, validateSurveyAnswer, SurveyVoteRow } from '@/lib/polls/survey'
+import { validateDraft, validatePollSettings } from '@/lib/polls/settings'
+import { CreatePollData, SurveyQuestion } from '@/lib/types/database'
+
+describe('Surveys', () => {
+  const question = (id: string, overrides: Partial<SurveyQuestion> = {}): SurveyQuestion => ({
+    id,
+    poll_id: 'poll-1',
+    prompt: `Question ${id}`,
+    order_index: 1,
+    vote_type: 'single',
+    score_max: 5,
+    min_selections: 1,
+    max_selections: null,
+    vote_credits: 100,
+    created_at: '2026-03-01T09:00:00Z',
+    updated_at: '2026-03-01T09:00:00Z',
+    poll_options: [
+      { id: `${id}-a`, text: 'A', order_index: 1 },
+      { id: `${id}-b`, text: 'B', order_index: 2 },
+      { id: `${id}-c`, text: 'C', order_index: 3 },
+    ],
+    ...overrides,
+  })
+
+  const row = (questionId: string, ballotId: string, optionId: string, overrides: Partial<SurveyVoteRow> = {}): SurveyVoteRow => ({
+    question_id: questionId,
+    ballot_id: ballotId,
+    option_id: optionId,
+    rank: null,
+    score: null,
+    weight: null,
+    opponent_id: null,
+    ...overrides,
+  })
+
+  const survey: CreatePollData = {
+    title: 'Team offsite',
+    options: [],
+    questions: [
+      { prompt: 'Where should we go?', options: ['Lake', 'Mountains'] },
+      { prompt: 'Rank the activities', vote_type: 'ranked', options: ['Hiking', 'Kayaking', 'Cooking'] },
+    ],
+  }
+
+  describe('validatePollSettings', () => {
+    it('should accept complete questions', () => {
+      expect(validatePollSettings(survey)).toBeNull()
+    })
+
+    it('should require at least two questions', () => {
+      expect(validatePollSettings({ ...survey, questions: survey.questions!.slice(0, 1) }))
+        .toBe('A survey needs at least 2 questions')
+    })
+
+    it('should name the question with a problem', () => {
+      expect(validatePollSettings({
+        ...survey,
+        questions: [survey.questions![0], { prompt: 'Rank the activities', options: ['Hiking', 'Hiking'] }],
+      })).toBe('Question 2: Options must be unique')
+    })
+
+    it('should apply the selection limits of each question', () => {
+      expect(validatePollSettings({
+        ...survey,
+        questions: [
+          survey.questions![0],
+          { prompt: 'Pick snacks', vote_type: 'multiple', min_selections: 3, options: ['Chips', 'Fruit'] },
+        ],
+      })).toBe('Question 2: Minimum selections cannot exceed the number of options')
+    })
+
+    it('should reject closing on a decisive lead', () => {
+      expect(validatePollSettings({ ...survey, close_after_votes: 10, close_on_decisive_lead: true }))
+        .toBe('Closing on a decisive lead is not available for surveys')
+    })
+  })
+
+  describe('validateDraft', () => {
+    it('should accept unfinished questions', () => {
+      expect(validateDraft({ ...survey, questions: [{ prompt: '', options: ['Lake'] }] })).toBeNull()
+    })
+  })
+
+  describe('validateSurveyAnswer', () => {
+    it('should accept an answer within the question\'s options', () => {
+      expect(validateSurveyAnswer(question('q1'), { option_ids: ['q1-a'] }, ['q1-a', 'q1-b', 'q1-c'])).toBeNull()
+    })
+
+    it('should reject options of another question', () => {
+      expect(validateSurveyAnswer(question('q1'), { option_ids: ['q2-a'] }, ['q1-a', 'q1-b', 'q1-c']))
+        .toBe('Invalid options selected')
+    })
+
+    it('should apply the question\'s voting method', () => {
+      expect(validateSurveyAnswer(question('q1'), { option_ids: ['q1-a', 'q1-b'] }, ['q1-a', 'q1-b', 'q1-c']))
+        .toBe('Please select only one option')
+    })
+
+    it('should require every option to be rated on score questions', () => {
+      expect(validateSurveyAnswer(
+        question('q1', { vote_type: 'score' }),
+        { option_ids: ['q1-a'], scores: { 'q1-a': 4 } },
+        ['q1-a', 'q1-b', 'q1-c']
+      )).toBe('Please rate every option')
+    })
+  })
+
+  describe('tallySurveyQuestion', () => {
+    it('should count the answers to a choice question', () => {
+      const result = tallySurveyQuestion(question('q1'), [
+        row('q1', 'r1', 'q1-a'),
+        row('q1', 'r2', 'q1-a'),
+        row('q1', 'r3', 'q1-b'),
+        row('q2', 'r1', 'q2-a'),
+      ])
+
+      expect(result).toMatchObject({ question_id: 'q1', vote_type: 'single', responses: 3 })
+      expect(result.vote_type === 'single' && result.counts.map(count => count.vote_count)).toEqual([2, 1, 0])
+    })
+
+    it('should keep ranked ballots apart from the other answers of a response', () => {
+      // Both responses answered q1 and ranked q2, with one ballot ID per response
+      const rows = [
+        row('q1', 'r1', 'q1-c'),
+        row('q2', 'r1', 'q2-b', { rank: 1 }),
+        row('q2', 'r1', 'q2-a', { rank: 2 }),
+        row('q1', 'r2', 'q1-a'),
+        row('q2', 'r2', 'q2-b', { rank: 1 }),
+      ]
+
+      const result = tallySurveyQuestion(question('q2', { vote_type: 'ranked' }), rows)
+
+      expect(result.responses).toBe(2)
+      expect(result.vote_type === 'ranked' && result.runoff).toMatchObject({ winner: 'q2-b', totalBallots: 2 })
+    })
+  })
+
+  describe('questionsToForm', () => {
+    it('should restore questions and options in order', () => {
+      const stored = [
+        question('q2', { order_index: 2, prompt: 'Second', vote_type: 'ranked' }),
+        question('q1', {
+          prompt: 'First',
+          poll_options: [
+            { id: 'q1-b', text: 'B', order_index: 2 },
+            { id: 'q1-a', text: 'A', order_index: 1 },
+          ],
+        }),
+      ]
+
+      expect(questionsToForm(stored)).toEqual([
+        expect.objectContaining({ prompt: 'First', vote_type: 'single', options: ['A', 'B'] }),
+        expect.objectContaining({ prompt: 'Second', vote_type: 'ranked', options: ['A', 'B', 'C'] }),
+      ])
+    })
+  })
+})
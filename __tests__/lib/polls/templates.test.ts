@@ -0,0 +1,113 @@
+import { BUILT_IN_TEMPLATES, formDataFromTemplate, templateSettingsFromPoll } from '@/lib/polls/templates'
+import { validatePublishable } from '@/lib/polls/settings'
+import { Poll } from '@/lib/types/database'
+
+describe('Poll Templates', () => {
+  const poll: Poll = {
+    id: 'poll-1',
+    title: 'Weekly retro',
+    description: null,
+    created_by: 'user-1',
+    is_public: false,
+    is_unlisted: true,
+    access_token: 'a'.repeat(64),
+    has_password: false,
+    is_invite_only: true,
+    allowed_email_domains: ['example.com'],
+    min_account_age_days: 7,
+    require_verified_email: false,
+    allow_multiple_votes: true,
+    vote_type: 'multiple',
+    score_max: 5,
+    min_selections: 2,
+    max_selections: 3,
+    vote_credits: 100,
+    allow_write_in: true,
+    lock_votes: true,
+    duplicate_protection: 'strict',
+    results_visibility: 'after_close',
+    close_after_votes: 20,
+    close_after_voters: null,
+    close_on_decisive_lead: true,
+    is_draft: false,
+    starts_at: '2026-03-01T09:00:00Z',
+    deleted_at: null,
+    expires_at: '2026-03-02T09:00:00Z',
+    workspace_id: null,
+    status: 'expired',
+    created_at: '2026-02-28T09:00:00Z',
+    updated_at: '2026-02-28T09:00:00Z',
+  }
+
+  describe('templateSettingsFromPoll', () => {
+    it('should keep the voting settings of the poll', () => {
+      expect(templateSettingsFromPoll(poll)).toEqual({
+        is_public: false,
+        is_unlisted: true,
+        is_invite_only: true,
+        allowed_email_domains: ['example.com'],
+        min_account_age_days: 7,
+        require_verified_email: false,
+        allow_multiple_votes: true,
+        vote_type: 'multiple',
+        score_max: 5,
+        min_selections: 2,
+        max_selections: 3,
+        vote_credits: 100,
+        allow_write_in: true,
+        lock_votes: true,
+        duplicate_protection: 'strict',
+        results_visibility: 'after_close',
+        close_after_votes: 20,
+        close_after_voters: null,
+        close_on_decisive_lead: true,
+      })
+    })
+
+    it('should leave out the schedule and status', () => {
+      const settings = templateSettingsFromPoll(poll)
+
+      expect(settings).not.toHaveProperty('starts_at')
+      expect(settings).not.toHaveProperty('expires_at')
+      expect(settings).not.toHaveProperty('status')
+    })
+
+    it('should leave out the secret link\'s access token', () => {
+      expect(templateSettingsFromPoll(poll)).not.toHaveProperty('access_token')
+    })
+  })
+
+  describe('formDataFromTemplate', () => {
+    it('should restore the saved poll into form data', () => {
+      const formData = formDataFromTemplate({
+        title: poll.title,
+        description: null,
+        options: ['Went well', 'To improve', 'Ideas'],
+        settings: templateSettingsFromPoll(poll),
+      })
+
+      expect(formData).toMatchObject({
+        title: 'Weekly retro',
+        description: '',
+        options: ['Went well', 'To improve', 'Ideas'],
+        vote_type: 'multiple',
+        min_selections: 2,
+        results_visibility: 'after_close',
+      })
+    })
+
+    it('should always offer at least two options', () => {
+      const formData = formDataFromTemplate({ title: 'Lunch', description: null, options: ['Pizza'], settings: {} })
+
+      expect(formData.options).toEqual(['Pizza', ''])
+    })
+  })
+
+  describe('BUILT_IN_TEMPLATES', () => {
+    it('should only need a title to be published', () => {
+      BUILT_IN_TEMPLATES.forEach(template => {
+        expect(validatePublishable({ ...template.poll, title: 'Question' })).toBeNull()
+      })
+    })
+  })
+})
@@ -0,0 +1,33 @@
+import { DEFAULT_TRASH_RETENTION_DAYS, daysUntilPurge, purgeDate, trashRetentionDays } from '@/lib/polls/trash'
+
+describe('Poll Trash', () => {
+  describe('trashRetentionDays', () => {
+    it('should read the configured retention period', () => {
+      expect(trashRetentionDays('7')).toBe(7)
+    })
+
+    it('should fall back to the default for missing or invalid values', () => {
+      expect(trashRetentionDays(undefined)).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+      expect(trashRetentionDays('0')).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+      expect(trashRetentionDays('a week')).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+    })
+  })
+
+  describe('purgeDate', () => {
+    it('should add the retention period to the deletion time', () => {
+      expect(purgeDate('2026-03-01T12:00:00Z', 30).toISOString()).toBe('2026-03-31T12:00:00.000Z')
+    })
+  })
+
+  describe('daysUntilPurge', () => {
+    const deletedAt = '2026-03-01T12:00:00Z'
+
+    it('should count a partial day as a day', () => {
+      expect(daysUntilPurge(deletedAt, 30, new Date('2026-03-30T18:00:00Z'))).toBe(1)
+    })
+
+    it('should not go below zero once the retention period is over', () => {
+      expect(daysUntilPurge(deletedAt, 30, new Date('2026-04-05T12:00:00Z'))).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,40 @@
+import { ballotFromRows, buildVoteRows } from '@/lib/voting/ballot'
+
+describe('Ballot', () => {
+  describe('ballotFromRows', () => {
+    it('should restore a ranking in preference order', () => {
+      const rules = { vote_type: 'ranked' as const }
+      const rows = buildVoteRows('poll-123', rules, { option_ids: ['c', 'a', 'b'] }, 'user-123').reverse()
+
+      expect(ballotFromRows(rules, rows).option_ids).toEqual(['c', 'a', 'b'])
+    })
+
+    it('should restore scores and allocations', () => {
+      const scoreRules = { vote_type: 'score' as const }
+      const scoreRows = buildVoteRows('poll-123', scoreRules, { option_ids: ['a', 'b'], scores: { a: 4, b: 2 } }, 'user-123')
+      const quadraticRules = { vote_type: 'quadratic' as const }
+      const quadraticRows = buildVoteRows('poll-123', quadraticRules, { option_ids: ['a'], allocations: { a: -3 } }, 'user-123')
+
+      expect(ballotFromRows(scoreRules, scoreRows).scores).toEqual({ a: 4, b: 2 })
+      expect(ballotFromRows(quadraticRules, quadraticRows).allocations).toEqual({ a: -3 })
+    })
+
+    it('should restore pairwise comparisons', () => {
+      const rules = { vote_type: 'pairwise' as const }
+      const comparisons = [{ winner_id: 'a', loser_id: 'b' }, { winner_id: 'c', loser_id: 'a' }]
+      const rows = buildVoteRows('poll-123', rules, { option_ids: ['a', 'b', 'c'], comparisons }, 'user-123')
+
+      const ballot = ballotFromRows(rules, rows)
+
+      expect(ballot.comparisons).toEqual(comparisons)
+      expect(ballot.option_ids.sort()).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should keep a write-in answer apart from the selected options', () => {
+      const rules = { vote_type: 'multiple' as const, allow_write_in: true }
+      const rows = buildVoteRows('poll-123', rules, { option_ids: ['a'], write_in: 'Something else' }, 'user-123')
+
+      expect(ballotFromRows(rules, rows)).toEqual({ option_ids: ['a'], write_in: 'Something else' })
+    })
+  })
+})
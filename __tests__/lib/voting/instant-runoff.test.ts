@@ -0,0 +1,69 @@
+import { groupRankedBallots, tallyInstantRunoff } from '@/lib/voting/instant-runoff'
+
+describe('Instant Runoff', () => {
+  const options = ['a', 'b', 'c']
+
+  describe('groupRankedBallots', () => {
+    it('should group rows by ballot and order them by rank', () => {
+      const rows = [
+        { ballot_id: 'ballot-1', option_id: 'b', rank: 2 },
+        { ballot_id: 'ballot-2', option_id: 'c', rank: 1 },
+        { ballot_id: 'ballot-1', option_id: 'a', rank: 1 },
+      ]
+
+      expect(groupRankedBallots(rows)).toEqual([['a', 'b'], ['c']])
+    })
+
+    it('should treat rows without a ballot as single-preference ballots', () => {
+      const rows = [
+        { ballot_id: null, option_id: 'a', rank: null },
+        { ballot_id: null, option_id: 'b', rank: null },
+      ]
+
+      expect(groupRankedBallots(rows)).toEqual([['a'], ['b']])
+    })
+  })
+
+  describe('tallyInstantRunoff', () => {
+    it('should elect a first-round majority winner', () => {
+      const result = tallyInstantRunoff(options, [['a'], ['a', 'b'], ['b']])
+
+      expect(result.winner).toBe('a')
+      expect(result.rounds).toHaveLength(1)
+      expect(result.rounds[0].tallies).toEqual({ a: 2, b: 1, c: 0 })
+    })
+
+    it('should transfer votes from eliminated options', () => {
+      const ballots = [
+        ['a', 'c'],
+        ['a'],
+        ['b', 'c'],
+        ['b'],
+        ['c', 'b'],
+      ]
+
+      const result = tallyInstantRunoff(options, ballots)
+
+      expect(result.rounds[0].eliminated).toEqual(['c'])
+      expect(result.rounds[1].tallies).toEqual({ a: 2, b: 3 })
+      expect(result.winner).toBe('b')
+      expect(result.totalBallots).toBe(5)
+    })
+
+    it('should count ballots with no remaining preferences as exhausted', () => {
+      const ballots = [['a'], ['a'], ['b'], ['b'], ['c']]
+
+      const result = tallyInstantRunoff(options, ballots)
+
+      expect(result.rounds[1].exhausted).toBe(1)
+      expect(result.winner).toBeNull()
+    })
+
+    it('should return no rounds when there are no ballots', () => {
+      const result = tallyInstantRunoff(options, [])
+
+      expect(result.rounds).toEqual([])
+      expect(result.winner).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,43 @@
+import { invitationIdFromToken, signInvitationToken, verifyInvitationToken } from '@/lib/voting/invitations'
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(),
+}))
+
+describe('Invitation Links', () => {
+  const invitation = { id: 'invitation-1', secret: 'secret-1' }
+
+  describe('invitationIdFromToken', () => {
+    it('should read the invitation a token names', () => {
+      expect(invitationIdFromToken(signInvitationToken(invitation))).toBe('invitation-1')
+    })
+
+    it('should reject unsigned or missing tokens', () => {
+      expect(invitationIdFromToken('invitation-1')).toBeNull()
+      expect(invitationIdFromToken(undefined)).toBeNull()
+    })
+  })
+
+  describe('verifyInvitationToken', () => {
+    it('should accept a token it signed', () => {
+      expect(verifyInvitationToken(signInvitationToken(invitation), invitation)).toBe(true)
+    })
+
+    it('should reject tokens pointed at another invitation', () => {
+      const [, signature] = signInvitationToken(invitation).split('.')
+      const other = { id: 'invitation-2', secret: 'secret-1' }
+
+      expect(verifyInvitationToken(`invitation-2.${signature}`, other)).toBe(false)
+      expect(verifyInvitationToken(signInvitationToken(invitation), other)).toBe(false)
+    })
+
+    it('should reject tokens signed with another secret', () => {
+      expect(verifyInvitationToken(signInvitationToken({ ...invitation, secret: 'secret-2' }), invitation)).toBe(false)
+    })
+
+    it('should reject unsigned or missing tokens', () => {
+      expect(verifyInvitationToken('invitation-1', invitation)).toBe(false)
+      expect(verifyInvitationToken(undefined, invitation)).toBe(false)
+    })
+  })
+})
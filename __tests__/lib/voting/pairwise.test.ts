@@ -0,0 +1,102 @@
+import {
+  buildWinMatrix,
+  findCondorcetWinner,
+  pairKey,
+  selectNextPair,
+  tallyPairwise,
+  toComparisons,
+} from '@/lib/voting/pairwise'
+
+describe('Pairwise Comparison', () => {
+  const options = ['a', 'b', 'c']
+  const beats = (winner_id: string, loser_id: string) => ({ winner_id, loser_id })
+
+  describe('toComparisons', () => {
+    it('should skip rows without an opponent', () => {
+      const rows = [
+        { option_id: 'a', opponent_id: 'b' },
+        { option_id: 'c', opponent_id: null },
+      ]
+
+      expect(toComparisons(rows)).toEqual([beats('a', 'b')])
+    })
+  })
+
+  describe('buildWinMatrix', () => {
+    it('should count head-to-head wins and ignore unknown options', () => {
+      const matrix = buildWinMatrix(options, [beats('a', 'b'), beats('a', 'b'), beats('b', 'a'), beats('a', 'z')])
+
+      expect(matrix.a.b).toBe(2)
+      expect(matrix.b.a).toBe(1)
+      expect(matrix.a.c).toBe(0)
+    })
+  })
+
+  describe('findCondorcetWinner', () => {
+    it('should find the option that beats every other one', () => {
+      const matrix = buildWinMatrix(options, [beats('b', 'a'), beats('b', 'c'), beats('a', 'c')])
+
+      expect(findCondorcetWinner(options, matrix)).toBe('b')
+    })
+
+    it('should return null for a preference cycle', () => {
+      const matrix = buildWinMatrix(options, [beats('a', 'b'), beats('b', 'c'), beats('c', 'a')])
+
+      expect(findCondorcetWinner(options, matrix)).toBeNull()
+    })
+  })
+
+  describe('tallyPairwise', () => {
+    it('should rank a full Condorcet order', () => {
+      const result = tallyPairwise(options, [beats('c', 'a'), beats('c', 'b'), beats('a', 'b')])
+
+      expect(result.condorcetWinner).toBe('c')
+      expect(result.ranking.map(entry => entry.option_id)).toEqual(['c', 'a', 'b'])
+      expect(result.ranking.every(entry => entry.condorcet)).toBe(true)
+      expect(result.ranking[0]).toMatchObject({ wins: 2, losses: 0 })
+      expect(result.totalComparisons).toBe(3)
+    })
+
+    it('should fall back to ratings when there is no Condorcet winner', () => {
+      const comparisons = [
+        beats('a', 'b'), beats('a', 'b'), beats('a', 'b'),
+        beats('b', 'c'),
+        beats('c', 'a'),
+      ]
+
+      const result = tallyPairwise(options, comparisons)
+
+      expect(result.condorcetWinner).toBeNull()
+      expect(result.ranking[0].option_id).toBe('a')
+      expect(result.ranking.every(entry => !entry.condorcet)).toBe(true)
+      expect(result.ranking[0].rating).toBeGreaterThan(result.ranking[2].rating)
+    })
+
+    it('should rate every option at the base when nothing has been compared', () => {
+      const result = tallyPairwise(options, [])
+
+      expect(result.condorcetWinner).toBeNull()
+      expect(result.ranking.map(entry => entry.rating)).toEqual([1500, 1500, 1500])
+    })
+  })
+
+  describe('selectNextPair', () => {
+    it('should prefer options that have not been shown yet', () => {
+      const seen = new Set([pairKey('a', 'b')])
+
+      expect(selectNextPair(['a', 'b', 'c', 'd'], seen)).toEqual(['c', 'd'])
+    })
+
+    it('should prefer the pair with the closest ratings', () => {
+      const ratings = { a: 1700, b: 1400, c: 1650 }
+
+      expect(selectNextPair(options, new Set(), ratings)).toEqual(['a', 'c'])
+    })
+
+    it('should return null once every pair has been seen', () => {
+      const seen = new Set([pairKey('a', 'b'), pairKey('a', 'c'), pairKey('b', 'c')])
+
+      expect(selectNextPair(options, seen)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,54 @@
+import {
+  hashPollPassword,
+  signPasswordGrant,
+  verifyPasswordGrant,
+  verifyPollPasswordHash,
+} from '@/lib/voting/poll-password'
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(),
+}))
+
+describe('Poll Password Verification', () => {
+  describe('verifyPollPasswordHash', () => {
+    it('should accept the password it hashed', async () => {
+      const hash = await hashPollPassword('open sesame')
+
+      expect(await verifyPollPasswordHash('open sesame', hash)).toBe(true)
+      expect(await verifyPollPasswordHash('open says me', hash)).toBe(false)
+    })
+
+    it('should salt every hash', async () => {
+      expect(await hashPollPassword('open sesame')).not.toBe(await hashPollPassword('open sesame'))
+    })
+
+    it('should reject malformed hashes', async () => {
+      expect(await verifyPollPasswordHash('open sesame', 'not-a-hash')).toBe(false)
+    })
+  })
+
+  describe('verifyPasswordGrant', () => {
+    const now = Date.UTC(2025, 0, 1)
+    const grant = signPasswordGrant('poll-1', 'hash-1', now + 60_000)
+
+    it('should accept an unexpired grant for the same poll and password', () => {
+      expect(verifyPasswordGrant(grant, 'poll-1', 'hash-1', now)).toBe(true)
+    })
+
+    it('should reject expired grants', () => {
+      expect(verifyPasswordGrant(grant, 'poll-1', 'hash-1', now + 60_000)).toBe(false)
+    })
+
+    it('should reject grants for another poll or an old password', () => {
+      expect(verifyPasswordGrant(grant, 'poll-2', 'hash-1', now)).toBe(false)
+      expect(verifyPasswordGrant(grant, 'poll-1', 'hash-2', now)).toBe(false)
+    })
+
+    it('should reject grants with a moved expiry', () => {
+      const [, signature] = grant.split('.')
+
+      expect(verifyPasswordGrant(`${now + 120_000}.${signature}`, 'poll-1', 'hash-1', now)).toBe(false)
+      expect(verifyPasswordGrant(signature, 'poll-1', 'hash-1', now)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,40 @@
+import { quadraticCost, tallyQuadratic } from '@/lib/voting/quadratic'
+
+describe('Quadratic Voting', () => {
+  describe('quadraticCost', () => {
+    it('should charge the square of the votes on each option', () => {
+      expect(quadraticCost({ a: 3, b: -2 })).toBe(13)
+    })
+
+    it('should cost nothing for an empty allocation', () => {
+      expect(quadraticCost({})).toBe(0)
+    })
+  })
+
+  describe('tallyQuadratic', () => {
+    it('should net votes for and against each option', () => {
+      const rows = [
+        { option_id: 'a', weight: 3 },
+        { option_id: 'a', weight: -1 },
+        { option_id: 'b', weight: 2 },
+      ]
+
+      expect(tallyQuadratic(['a', 'b', 'c'], rows)).toEqual([
+        { option_id: 'a', votes: 2, votesFor: 3, votesAgainst: 1, voters: 2 },
+        { option_id: 'b', votes: 2, votesFor: 2, votesAgainst: 0, voters: 1 },
+        { option_id: 'c', votes: 0, votesFor: 0, votesAgainst: 0, voters: 0 },
+      ])
+    })
+
+    it('should ignore rows without a weight or for unknown options', () => {
+      const rows = [
+        { option_id: 'a', weight: null },
+        { option_id: 'z', weight: 4 },
+      ]
+
+      expect(tallyQuadratic(['a'], rows)).toEqual([
+        { option_id: 'a', votes: 0, votesFor: 0, votesAgainst: 0, voters: 0 },
+      ])
+    })
+  })
+})
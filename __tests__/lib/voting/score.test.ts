@@ -0,0 +1,33 @@
+import { tallyScores } from '@/lib/voting/score'
+
+describe('Score Voting', () => {
+  describe('tallyScores', () => {
+    it('should compute averages, counts and distributions per option', () => {
+      const rows = [
+        { option_id: 'a', score: 5 },
+        { option_id: 'a', score: 3 },
+        { option_id: 'b', score: 1 },
+      ]
+
+      const result = tallyScores(['a', 'b'], rows, 5)
+
+      expect(result).toEqual([
+        { option_id: 'a', average: 4, count: 2, distribution: [0, 0, 1, 0, 1] },
+        { option_id: 'b', average: 1, count: 1, distribution: [1, 0, 0, 0, 0] },
+      ])
+    })
+
+    it('should ignore rows without a score or outside the scale', () => {
+      const rows = [
+        { option_id: 'a', score: null },
+        { option_id: 'a', score: 7 },
+        { option_id: 'unknown', score: 3 },
+      ]
+
+      const result = tallyScores(['a'], rows, 5)
+
+      expect(result[0].count).toBe(0)
+      expect(result[0].average).toBe(0)
+    })
+  })
+})
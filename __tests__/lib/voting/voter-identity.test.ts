@@ -0,0 +1,49 @@
+import { anonymousVoterFor, signVoterToken, verifyVoterToken } from '@/lib/voting/voter-identity'
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(),
+  headers: jest.fn(),
+}))
+
+describe('Voter Identity', () => {
+  const originalSecret = process.env.VOTER_TOKEN_SECRET
+
+  beforeAll(() => {
+    process.env.VOTER_TOKEN_SECRET = 'test-secret'
+  })
+
+  afterAll(() => {
+    process.env.VOTER_TOKEN_SECRET = originalSecret
+  })
+
+  describe('verifyVoterToken', () => {
+    it('should accept a token it signed', () => {
+      expect(verifyVoterToken(signVoterToken('token-123'))).toBe('token-123')
+    })
+
+    it('should reject tampered or missing cookies', () => {
+      const signed = signVoterToken('token-123')
+
+      expect(verifyVoterToken(signed.replace('token-123', 'token-456'))).toBeNull()
+      expect(verifyVoterToken('token-123')).toBeNull()
+      expect(verifyVoterToken(undefined)).toBeNull()
+    })
+  })
+
+  describe('anonymousVoterFor', () => {
+    it('should give the same browser a different identity on each poll', () => {
+      const first = anonymousVoterFor('poll-1', 'token-123', '203.0.113.7', 'Firefox')
+      const second = anonymousVoterFor('poll-2', 'token-123', '203.0.113.7', 'Firefox')
+
+      expect(first.token).not.toBe(second.token)
+      expect(first.fingerprint).not.toBe(second.fingerprint)
+    })
+
+    it('should not store the raw token or IP address', () => {
+      const voter = anonymousVoterFor('poll-1', 'token-123', '203.0.113.7', 'Firefox')
+
+      expect(voter.token).not.toContain('token-123')
+      expect(voter.fingerprint).not.toContain('203.0.113.7')
+    })
+  })
+})
@@ -0,0 +1,35 @@
+import { groupWriteIns, normalizeWriteIn, writeInKey } from '@/lib/voting/write-ins'
+
+describe('Write-in Answers', () => {
+  describe('normalizeWriteIn', () => {
+    it('should trim and collapse whitespace', () => {
+      expect(normalizeWriteIn('  Deep   dish \n pizza ')).toBe('Deep dish pizza')
+    })
+  })
+
+  describe('writeInKey', () => {
+    it('should ignore case and spacing', () => {
+      expect(writeInKey(' PIZZA ')).toBe(writeInKey('pizza'))
+    })
+  })
+
+  describe('groupWriteIns', () => {
+    it('should group answers case-insensitively under the most common spelling', () => {
+      const rows = [
+        { write_in: 'Pizza' },
+        { write_in: 'pizza ' },
+        { write_in: 'Pizza' },
+        { write_in: 'Tacos' },
+      ]
+
+      expect(groupWriteIns(rows)).toEqual([
+        { text: 'Pizza', count: 3 },
+        { text: 'Tacos', count: 1 },
+      ])
+    })
+
+    it('should skip empty answers', () => {
+      expect(groupWriteIns([{ write_in: null }, { write_in: '   ' }])).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,49 @@
+import {
+  canManageWorkspace,
+  MAX_WORKSPACE_NAME_LENGTH,
+  pollRoleFromWorkspaceRole,
+  validateWorkspaceName,
+} from '@/lib/workspaces/members'
+
+describe('Workspace Members', () => {
+  describe('canManageWorkspace', () => {
+    it('should let the owner and admins manage the workspace', () => {
+      expect(canManageWorkspace('owner')).toBe(true)
+      expect(canManageWorkspace('admin')).toBe(true)
+    })
+
+    it('should not let members or strangers manage the workspace', () => {
+      expect(canManageWorkspace('member')).toBe(false)
+      expect(canManageWorkspace(null)).toBe(false)
+    })
+  })
+
+  describe('pollRoleFromWorkspaceRole', () => {
+    it('should make the owner and admins editors of the workspace\'s polls', () => {
+      expect(pollRoleFromWorkspaceRole('owner')).toBe('editor')
+      expect(pollRoleFromWorkspaceRole('admin')).toBe('editor')
+    })
+
+    it('should make members viewers of the workspace\'s polls', () => {
+      expect(pollRoleFromWorkspaceRole('member')).toBe('viewer')
+    })
+  })
+
+  describe('validateWorkspaceName', () => {
+    it('should accept a name', () => {
+      expect(validateWorkspaceName('Marketing team')).toBeNull()
+    })
+
+    it('should reject a blank name', () => {
+      expect(validateWorkspaceName('   ')).toBe('Workspace name is required')
+    })
+
+    it('should reject a name that is too long', () => {
+      expect(validateWorkspaceName('a'.repeat(MAX_WORKSPACE_NAME_LENGTH + 1))).toMatch(/at most/)
+    })
+
+    it('should ignore surrounding spaces when checking the length', () => {
+      expect(validateWorkspaceName(` ${'a'.repeat(MAX_WORKSPACE_NAME_LENGTH)} `)).toBeNull()
+    })
+  })
+})
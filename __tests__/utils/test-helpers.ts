@@ -23,6 +23,11 @@ export const createMockPoll = (overrides = {}) => ({
   status: 'active' as const,
   is_public: true,
   allow_multiple_votes: false,
+  vote_type: 'single' as const,
+  score_max: 5,
+  min_selections: 1,
+  max_selections: null,
+  vote_credits: 100,
   expires_at: null,
   created_by: 'profile-123',
   created_at: '2024-01-01T00:00:00Z',
@@ -47,6 +52,11 @@ export const createMockVote = (overrides = {}) => ({
   voter_id: 'user-123',
   voter_email: null,
   voter_name: null,
+  ballot_id: 'ballot-123',
+  rank: null,
+  score: null,
+  weight: null,
+  opponent_id: null,
   created_at: '2024-01-01T00:00:00Z',
   ...overrides,
 })
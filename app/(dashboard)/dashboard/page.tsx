@@ -1,13 +1,20 @@
 'use client';
 
 import { useAuth } from '@/lib/hooks/useAuth';
-import { PollWithOptions } from '@/lib/types/database';
+import { Poll, PollMemberRole, PollWithOptions, WorkspaceWithRole } from '@/lib/types/database';
 import { DashboardPollCard } from '@/components/polls/DashboardPollCard';
+import { TrashedPollCard } from '@/components/polls/TrashedPollCard';
+import { SharedPollCard } from '@/components/polls/SharedPollCard';
+import { WorkspaceSwitcher } from '@/components/workspaces/WorkspaceSwitcher';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import Link from 'next/link';
-import { useState, useEffect } from 'react';
+import { use, useState, useEffect, useCallback } from 'react';
 import { createClient } from '@/lib/supabase/client';
+import { getTrashedPolls } from '@/lib/actions/polls';
+import { getWorkspaces } from '@/lib/actions/workspaces';
+import { pollRoleFromWorkspaceRole } from '@/lib/workspaces/members';
+import { Trash2 } from 'lucide-react';
 
 /**
  * User dashboard page component displaying poll management interface.
@@ -16,7 +23,12 @@ import { createClient } from '@/lib/supabase/client';
  * - Welcome message with user information
  * - Statistics cards showing poll counts and metrics
  * - List of user's created polls with management actions
+ * - Unpublished drafts in a section of their own
+ * - Polls other users shared with them, as editor or viewer
+ * - A trash view for restoring deleted polls
  * - Quick access to poll creation
+ * - A workspace switcher: with ?workspace=<id> the dashboard lists the
+ *   polls of that workspace, by any of its members, instead of the user's own
  * 
  * The dashboard fetches user-specific polls on mount and provides real-time
  * updates when polls are deleted. It includes loading states and empty states
@@ -30,10 +42,37 @@ import { createClient } from '@/lib/supabase/client';
  * 
  * @returns JSX element containing the user dashboard interface
  */
-function DashboardPage() {
+function DashboardPage({ searchParams }: { searchParams: Promise<{ workspace?: string }> }) {
+  const { workspace: workspaceId } = use(searchParams);
   const { user } = useAuth();
   const [polls, setPolls] = useState<PollWithOptions[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [showTrash, setShowTrash] = useState(false);
+  const [trashedPolls, setTrashedPolls] = useState<PollWithOptions[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [sharedPolls, setSharedPolls] = useState<{ poll: Poll; role: PollMemberRole }[]>([]);
+  const [workspaces, setWorkspaces] = useState<WorkspaceWithRole[]>([]);
+
+  const activeWorkspace = workspaces.find(workspace => workspace.id === workspaceId) ?? null;
+  const createPollHref = workspaceId ? `/polls/create?workspace=${workspaceId}` : '/polls/create';
+
+  /**
+   * Loads the user's workspaces for the switcher. Reloaded on every
+   * switch, which also follows up on leaving or deleting a workspace.
+   */
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+
+    getWorkspaces().then(result => {
+      if (result.error) {
+        console.error('Error fetching workspaces:', result.error);
+      }
+      setWorkspaces(result.workspaces);
+    });
+  }, [user, workspaceId]);
 
   /**
    * Handles poll deletion by removing it from the local state.
@@ -41,6 +80,79 @@ function DashboardPage() {
    */
   const handlePollDeleted = (pollId: string) => {
     setPolls(prevPolls => prevPolls.filter(poll => poll.id !== pollId));
+    if (showTrash) {
+      loadTrash();
+    }
+  };
+
+  /**
+   * Loads the user's trashed polls for the trash view.
+   */
+  const loadTrash = useCallback(async () => {
+    const result = await getTrashedPolls();
+    if (result.error) {
+      console.error('Error fetching trash:', result.error);
+    }
+    setTrashedPolls(result.polls);
+    setRetentionDays(result.retentionDays);
+  }, []);
+
+  useEffect(() => {
+    if (showTrash) {
+      loadTrash();
+    }
+  }, [showTrash, loadTrash]);
+
+  /**
+   * Handles a restore by taking the poll out of the trash and reloading
+   * the user's polls, where it reappears with its votes.
+   */
+  const handlePollRestored = (pollId: string) => {
+    setTrashedPolls(prevPolls => prevPolls.filter(poll => poll.id !== pollId));
+    setReloadKey(key => key + 1);
+  };
+
+  const handlePollPurged = (pollId: string) => {
+    setTrashedPolls(prevPolls => prevPolls.filter(poll => poll.id !== pollId));
+  };
+
+  /**
+   * Handles publishing a draft by moving it out of the drafts section.
+   * Its status is refreshed on the next load, once the server has set it
+   * from the poll's schedule.
+   */
+  const handlePollPublished = (pollId: string) => {
+    setPolls(prevPolls => prevPolls.map(poll =>
+      poll.id === pollId ? { ...poll, is_draft: false } : poll
+    ));
+  };
+
+  const drafts = polls.filter(poll => poll.is_draft);
+  const publishedPolls = polls.filter(poll => !poll.is_draft);
+
+  /**
+   * A poll card for the list. In a workspace, polls by other members get
+   * the shared poll card, with the access the user's workspace role gives.
+   */
+  const renderPollCard = (poll: PollWithOptions) => {
+    if (poll.created_by !== user?.id) {
+      return (
+        <SharedPollCard
+          key={poll.id}
+          poll={poll}
+          role={activeWorkspace ? pollRoleFromWorkspaceRole(activeWorkspace.role) : 'viewer'}
+        />
+      );
+    }
+
+    return (
+      <DashboardPollCard 
+        key={poll.id} 
+        poll={poll} 
+        onPollDeleted={handlePollDeleted}
+        onPollPublished={poll.is_draft ? handlePollPublished : undefined}
+      />
+    );
   };
 
   /**
@@ -54,10 +166,12 @@ function DashboardPage() {
         return;
       }
 
+      setIsLoading(true);
+
       try {
         const supabase = createClient();
-        // Fetch user's polls with their options for complete data
-        const { data, error } = await supabase
+        // Fetch user's polls, or the workspace's, with their options for complete data
+        let query = supabase
           .from('polls')
           .select(`
             *,
@@ -65,9 +179,21 @@ function DashboardPage() {
               id,
               text,
               order_index
+            ),
+            poll_questions (
+              *,
+              poll_options (
+                id,
+                text,
+                order_index
+              )
             )
-          `)
-          .eq('created_by', user.id) // Only user's own polls
+          `);
+        query = workspaceId
+          ? query.eq('workspace_id', workspaceId) // Polls by every member of the workspace
+          : query.eq('created_by', user.id).is('workspace_id', null); // Only user's own polls
+        const { data, error } = await query
+          .is('deleted_at', null) // Trashed polls are listed in the trash view
           .order('created_at', { ascending: false }); // Newest first
 
         if (error) {
@@ -75,6 +201,38 @@ function DashboardPage() {
         } else {
           setPolls(data || []);
         }
+
+        // Polls shared with the user, looked up through their memberships,
+        // are listed with their own polls
+        if (workspaceId) {
+          setSharedPolls([]);
+          return;
+        }
+
+        const { data: memberships, error: membershipsError } = await supabase
+          .from('poll_members')
+          .select('poll_id, role')
+          .eq('user_id', user.id);
+
+        if (membershipsError) {
+          console.error('Error fetching shared polls:', membershipsError);
+        } else if (memberships && memberships.length > 0) {
+          const { data: shared, error: sharedError } = await supabase
+            .from('polls')
+            .select('*')
+            .in('id', memberships.map(membership => membership.poll_id))
+            .is('deleted_at', null)
+            .order('created_at', { ascending: false });
+
+          if (sharedError) {
+            console.error('Error fetching shared polls:', sharedError);
+          } else {
+            setSharedPolls((shared || []).map(poll => ({
+              poll,
+              role: memberships.find(membership => membership.poll_id === poll.id)!.role,
+            })));
+          }
+        }
       } catch (error) {
         console.error('Error fetching polls:', error);
       } finally {
@@ -83,17 +241,24 @@ function DashboardPage() {
     };
 
     fetchUserPolls();
-  }, [user]);
+  }, [user, workspaceId, reloadKey]);
 
   return (
     <div className="container mx-auto px-4 py-12">
       <div className="space-y-8">
         {/* Welcome Section */}
-        <div className="space-y-2">
-          <h1 className="text-3xl font-bold">Welcome back, {(user as any)?.user_metadata?.full_name || user?.email || 'User'}!</h1>
-          <p className="text-muted-foreground">
-            Here's an overview of your polls and recent activity
-          </p>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold">Welcome back, {(user as any)?.user_metadata?.full_name || user?.email || 'User'}!</h1>
+            <p className="text-muted-foreground">
+              {activeWorkspace
+                ? `Here's an overview of the polls in ${activeWorkspace.name}`
+                : "Here's an overview of your polls and recent activity"}
+            </p>
+          </div>
+          {user && (
+            <WorkspaceSwitcher workspaces={workspaces} activeWorkspace={activeWorkspace} userId={user.id} />
+          )}
         </div>
 
         {/* Stats Cards */}
@@ -105,7 +270,7 @@ function DashboardPage() {
             <CardContent>
               <div className="text-2xl font-bold">{polls.length}</div>
               <p className="text-xs text-muted-foreground">
-                Your created polls
+                {workspaceId ? 'Created in this workspace' : 'Your created polls'}
               </p>
             </CardContent>
           </Card>
@@ -121,7 +286,7 @@ function DashboardPage() {
                 )}
               </div>
               <p className="text-xs text-muted-foreground">
-                Across all your polls
+                {workspaceId ? 'Across the workspace\'s polls' : 'Across all your polls'}
               </p>
             </CardContent>
           </Card>
@@ -132,7 +297,7 @@ function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                {polls.filter(poll => poll.status === 'active').length}
+                {publishedPolls.filter(poll => poll.status === 'active').length}
               </div>
               <p className="text-xs text-muted-foreground">
                 Currently running
@@ -141,13 +306,36 @@ function DashboardPage() {
           </Card>
         </div>
 
+        {/* Drafts */}
+        {drafts.length > 0 && (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <h2 className="text-xl font-semibold">Drafts</h2>
+              <p className="text-sm text-muted-foreground">
+                {workspaceId
+                  ? 'Only the workspace\'s members and the people these polls are shared with can see them until they\'re published'
+                  : 'Only you and the people you share them with can see these polls until you publish them'}
+              </p>
+            </div>
+            <div className="grid gap-6">
+              {drafts.map(renderPollCard)}
+            </div>
+          </div>
+        )}
+
         {/* Recent Polls */}
         <div className="space-y-4">
           <div className="flex items-center justify-between">
-            <h2 className="text-xl font-semibold">Your Recent Polls</h2>
-            <Button asChild>
-              <Link href="/polls/create">Create New Poll</Link>
-            </Button>
+            <h2 className="text-xl font-semibold">{workspaceId ? 'Recent Polls' : 'Your Recent Polls'}</h2>
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={() => setShowTrash(show => !show)}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                {showTrash ? 'Hide Trash' : 'Trash'}
+              </Button>
+              <Button asChild>
+                <Link href={createPollHref}>Create New Poll</Link>
+              </Button>
+            </div>
           </div>
 
           {isLoading ? (
@@ -156,32 +344,76 @@ function DashboardPage() {
                 <p className="text-muted-foreground">Loading your polls...</p>
               </CardContent>
             </Card>
-          ) : polls.length > 0 ? (
+          ) : publishedPolls.length > 0 ? (
             <div className="grid gap-6">
-              {polls.map((poll) => (
-                <DashboardPollCard 
-                  key={poll.id} 
-                  poll={poll} 
-                  onPollDeleted={handlePollDeleted}
-                />
-              ))}
+              {publishedPolls.map(renderPollCard)}
             </div>
           ) : (
             <Card>
               <CardContent className="flex flex-col items-center justify-center py-12">
                 <p className="text-muted-foreground mb-4">
-                  You haven't created any polls yet
+                  {workspaceId
+                    ? drafts.length > 0 ? 'No polls have been published in this workspace yet' : 'No polls have been created in this workspace yet'
+                    : drafts.length > 0 ? "You haven't published any polls yet" : "You haven't created any polls yet"}
                 </p>
                 <Button asChild>
-                  <Link href="/polls/create">Create your first poll</Link>
+                  <Link href={createPollHref}>Create your first poll</Link>
                 </Button>
               </CardContent>
             </Card>
           )}
         </div>
+
+        {/* Shared with the user */}
+        {sharedPolls.length > 0 && (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <h2 className="text-xl font-semibold">Shared with You</h2>
+              <p className="text-sm text-muted-foreground">
+                Polls other people added you to as an editor or viewer
+              </p>
+            </div>
+            <div className="grid gap-4">
+              {sharedPolls.map(({ poll, role }) => (
+                <SharedPollCard key={poll.id} poll={poll} role={role} />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Trash */}
+        {showTrash && (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <h2 className="text-xl font-semibold">Trash</h2>
+              <p className="text-sm text-muted-foreground">
+                Deleted polls are kept for {retentionDays} days with their votes, then deleted forever
+              </p>
+            </div>
+            {trashedPolls.length > 0 ? (
+              <div className="grid gap-4">
+                {trashedPolls.map((poll) => (
+                  <TrashedPollCard
+                    key={poll.id}
+                    poll={poll}
+                    retentionDays={retentionDays}
+                    onPollRestored={handlePollRestored}
+                    onPollPurged={handlePollPurged}
+                  />
+                ))}
+              </div>
+            ) : (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-12">
+                  <p className="text-muted-foreground">The trash is empty</p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
 }
 
-export default DashboardPage;
+export default DashboardPage;
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { revalidatePath } from 'next/cache';
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+/**
+ * Opens scheduled polls and expires polls past their closing time.
+ *
+ * Meant to be called every few minutes by a cron job (for example Vercel
+ * Cron) with an `Authorization: Bearer <CRON_SECRET>` header. Pages listing
+ * or showing a poll whose status changed are revalidated.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase.rpc('transition_poll_statuses');
+
+    if (error) {
+      return NextResponse.json({ error: `Failed to update poll statuses: ${error.message}` }, { status: 500 });
+    }
+
+    const transitions: { poll_id: string; new_status: string }[] = data || [];
+
+    if (transitions.length > 0) {
+      revalidatePath('/polls');
+      revalidatePath('/dashboard');
+      transitions.forEach(({ poll_id }) => revalidatePath(`/polls/${poll_id}`));
+    }
+
+    return NextResponse.json({ success: true, transitions });
+  } catch (error) {
+    console.error('Error updating poll statuses:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to update poll statuses' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { trashRetentionDays } from '@/lib/polls/trash';
+
+/**
+ * Permanently deletes polls that have been in the trash for longer than
+ * TRASH_RETENTION_DAYS (30 days by default), with their options and votes.
+ *
+ * Meant to be called daily by a cron job with an
+ * `Authorization: Bearer <CRON_SECRET>` header, like the poll status route.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase.rpc('purge_trashed_polls', {
+      retention: `${trashRetentionDays()} days`,
+    });
+
+    if (error) {
+      return NextResponse.json({ error: `Failed to purge trash: ${error.message}` }, { status: 500 });
+    }
+
+    const purged: string[] = data || [];
+
+    return NextResponse.json({ success: true, purged });
+  } catch (error) {
+    console.error('Error purging trash:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to purge trash' }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { createClient } from '@/lib/supabase/server';
+import { type NextRequest, NextResponse } from 'next/server';
+import { embedIframeHtml, embedSize, embedUrl, parseEmbedOptions, pollIdFromUrl } from '@/lib/polls/embed';
+
+/**
+ * oEmbed endpoint for polls. Given the URL of a poll's page or embed on
+ * this site, returns a `rich` response whose HTML is an iframe of the
+ * poll's embed, for wikis and blogs that turn pasted links into embeds.
+ *
+ * Query parameters: `url` (required), `maxwidth` and `maxheight` to shrink
+ * the iframe, and `format`, of which only json is supported. Theme and
+ * compact options on an embed URL carry over to the iframe.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const searchParams = req.nextUrl.searchParams;
+
+    const format = searchParams.get('format');
+    if (format && format !== 'json') {
+      return NextResponse.json({ error: 'Only the json format is supported' }, { status: 501 });
+    }
+
+    const url = searchParams.get('url');
+    if (!url) {
+      return NextResponse.json({ error: 'A url parameter is required' }, { status: 400 });
+    }
+
+    const origin = req.nextUrl.origin;
+    const pollId = pollIdFromUrl(url, origin);
+    if (!pollId) {
+      return NextResponse.json({ error: 'No poll found at that URL' }, { status: 404 });
+    }
+
+    // Without a session only published public polls are found
+    const supabase = await createClient();
+    const { data: poll, error } = await supabase
+      .from('polls')
+      .select('id, title')
+      .eq('id', pollId)
+      .eq('is_draft', false)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ error: `Failed to fetch poll: ${error.message}` }, { status: 500 });
+    }
+
+    if (!poll) {
+      return NextResponse.json({ error: 'No poll found at that URL' }, { status: 404 });
+    }
+
+    const options = parseEmbedOptions(new URL(url).searchParams);
+    const { width, height } = embedSize(
+      options,
+      Number(searchParams.get('maxwidth')) || null,
+      Number(searchParams.get('maxheight')) || null
+    );
+
+    return NextResponse.json({
+      version: '1.0',
+      type: 'rich',
+      provider_name: 'Pollly',
+      provider_url: origin,
+      title: poll.title,
+      width,
+      height,
+      html: embedIframeHtml(embedUrl(origin, poll.id, options), poll.title, width, height),
+    });
+  } catch (error) {
+    console.error('Error building oEmbed response:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to embed poll' }, { status: 500 });
+  }
+}
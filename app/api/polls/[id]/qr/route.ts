@@ -0,0 +1,89 @@
+import { createClient } from '@/lib/supabase/server';
+import { type NextRequest, NextResponse } from 'next/server';
+import QRCode from 'qrcode';
+import { parseQrOptions } from '@/lib/polls/qr';
+import { shareUrl } from '@/lib/polls/shares';
+import { unlistedPollUrl } from '@/lib/polls/access';
+
+/**
+ * Returns a QR code linking to a poll, or to one of its share codes when
+ * `share` names one. Unlisted polls are linked by their secret link.
+ *
+ * Query parameters: `format` (svg or png), `size` in pixels, `ec` for the
+ * error correction level (L, M, Q or H) and `download` to receive the image
+ * as a file. Codes are rendered here without calling out to other services.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const searchParams = req.nextUrl.searchParams;
+
+    const { options, error: optionsError } = parseQrOptions(searchParams);
+    if (!options) {
+      return NextResponse.json({ error: optionsError }, { status: 400 });
+    }
+
+    const supabase = await createClient();
+    const { data: poll, error } = await supabase
+      .from('polls')
+      .select('id, is_unlisted, access_token')
+      .eq('id', id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ error: `Failed to fetch poll: ${error.message}` }, { status: 500 });
+    }
+
+    if (!poll) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 });
+    }
+
+    const shareCode = searchParams.get('share');
+    // Unlisted polls only open through their secret link
+    let url = poll.is_unlisted
+      ? unlistedPollUrl(req.nextUrl.origin, poll.access_token)
+      : `${req.nextUrl.origin}/polls/${poll.id}`;
+
+    if (shareCode) {
+      const { data: share, error: shareError } = await supabase
+        .from('poll_shares')
+        .select('share_code')
+        .eq('share_code', shareCode)
+        .eq('poll_id', poll.id)
+        .maybeSingle();
+
+      if (shareError) {
+        return NextResponse.json({ error: `Failed to fetch share code: ${shareError.message}` }, { status: 500 });
+      }
+
+      if (!share) {
+        return NextResponse.json({ error: 'Share code not found' }, { status: 404 });
+      }
+
+      url = shareUrl(req.nextUrl.origin, share.share_code);
+    }
+
+    const renderOptions = {
+      errorCorrectionLevel: options.errorCorrection,
+      width: options.size,
+      margin: 4,
+    };
+    const body = options.format === 'svg'
+      ? await QRCode.toString(url, { ...renderOptions, type: 'svg' })
+      : new Uint8Array(await QRCode.toBuffer(url, { ...renderOptions, type: 'png' }));
+
+    const filename = `${shareCode ?? `poll-${poll.id}`}-qr.${options.format}`;
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': options.format === 'svg' ? 'image/svg+xml' : 'image/png',
+        'Content-Disposition': `${searchParams.has('download') ? 'attachment' : 'inline'}; filename="${filename}"`,
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating QR code:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to generate QR code' }, { status: 500 });
+  }
+}
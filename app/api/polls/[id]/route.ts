@@ -2,6 +2,13 @@
 import { createClient } from '@/lib/supabase/server';
 import { type NextRequest, NextResponse } from 'next/server';
 import { CreatePollData } from '@/lib/types/database';
+import { pollSettingsFromForm, validatePollSettings } from '@/lib/polls/settings';
+import { pollScheduleFromForm } from '@/lib/polls/schedule';
+import { closePollIfComplete } from '@/lib/polls/close-conditions';
+import { checkVotingMethodChange, syncPollOptions } from '@/lib/polls/options';
+import { isSurvey, syncSurveyQuestions } from '@/lib/polls/survey';
+import { hasPasswordAccess, syncPollPassword } from '@/lib/voting/poll-password';
+import { canEditPoll, getPollRole } from '@/lib/polls/members';
 
 export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -15,9 +22,18 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
           id,
           text,
           order_index
+        ),
+        poll_questions (
+          *,
+          poll_options (
+            id,
+            text,
+            order_index
+          )
         )
       `)
       .eq('id', id)
+      .is('deleted_at', null)
       .maybeSingle();
 
     if (error) {
@@ -28,7 +44,15 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
       return NextResponse.json({ error: 'Poll not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ success: true, poll });
+    const { data: { user } } = await supabase.auth.getUser();
+    if (poll.has_password && !(await hasPasswordAccess(id, poll, user?.id ?? null))) {
+      return NextResponse.json({ error: 'This poll is password protected', password_required: true }, { status: 403 });
+    }
+
+    // The caller's role: owner, editor or viewer, or null for everyone else
+    const role = await getPollRole(supabase, poll, user?.id ?? null);
+
+    return NextResponse.json({ success: true, poll, role });
   } catch (error) {
     console.error('Error fetching poll:', error);
     return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to fetch poll', poll: null }, { status: 500 });
@@ -47,8 +71,9 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ id:
 
     const { data: existingPoll, error: pollCheckError } = await supabase
       .from('polls')
-      .select('created_by')
+      .select('created_by, workspace_id, is_draft, status, starts_at, expires_at, vote_type, score_max, vote_credits, poll_questions ( id )')
       .eq('id', id)
+      .is('deleted_at', null)
       .maybeSingle();
 
     if (pollCheckError) {
@@ -59,20 +84,42 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ id:
       return NextResponse.json({ error: 'Poll not found' }, { status: 404 });
     }
 
-    if (existingPoll.created_by !== user.id) {
+    // The poll's editors can update it too
+    if (!canEditPoll(await getPollRole(supabase, { id, created_by: existingPoll.created_by, workspace_id: existingPoll.workspace_id }, user.id))) {
       return NextResponse.json({ error: 'You can only update your own polls' }, { status: 403 });
     }
 
     const formData: CreatePollData = await req.json();
 
+    const settingsError = validatePollSettings(formData);
+    if (settingsError) {
+      return NextResponse.json({ error: settingsError }, { status: 400 });
+    }
+
+    // Votes already cast fix the voting method
+    if (!isSurvey(existingPoll)) {
+      const methodResult = await checkVotingMethodChange(supabase, id, existingPoll, formData);
+      if (!methodResult.success) {
+        return NextResponse.json({ error: methodResult.error }, { status: methodResult.status });
+      }
+    }
+
+    // Option edits stop before changing anything when removing options
+    // would delete votes the creator hasn't confirmed
+    const optionsResult = isSurvey(existingPoll)
+      ? await syncSurveyQuestions(supabase, id, existingPoll, formData.questions)
+      : await syncPollOptions(supabase, id, formData);
+    if (!optionsResult.success) {
+      return NextResponse.json({ error: optionsResult.error }, { status: optionsResult.status });
+    }
+
     const { error: pollError } = await supabase
       .from('polls')
       .update({
         title: formData.title,
         description: formData.description,
-        is_public: formData.is_public ?? true,
-        allow_multiple_votes: formData.allow_multiple_votes ?? false,
-        expires_at: formData.expires_at,
+        ...pollSettingsFromForm(formData),
+        ...pollScheduleFromForm(formData, existingPoll),
       })
       .eq('id', id);
 
@@ -80,27 +127,12 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ id:
       return NextResponse.json({ error: `Failed to update poll: ${pollError.message}` }, { status: 500 });
     }
 
-    const { error: deleteOptionsError } = await supabase
-      .from('poll_options')
-      .delete()
-      .eq('poll_id', id);
+    // Lowered targets may already be met
+    await closePollIfComplete(supabase, id, pollSettingsFromForm(formData));
 
-    if (deleteOptionsError) {
-      return NextResponse.json({ error: `Failed to delete existing options: ${deleteOptionsError.message}` }, { status: 500 });
-    }
-
-    const optionsData = formData.options.map((text, index) => ({
-      poll_id: id,
-      text: text.trim(),
-      order_index: index + 1
-    }));
-
-    const { error: optionsError } = await supabase
-      .from('poll_options')
-      .insert(optionsData);
-
-    if (optionsError) {
-      return NextResponse.json({ error: `Failed to create poll options: ${optionsError.message}` }, { status: 500 });
+    const passwordResult = await syncPollPassword(supabase, id, formData.password);
+    if (!passwordResult.success) {
+      return NextResponse.json({ error: passwordResult.error }, { status: 500 });
     }
 
     return NextResponse.json({ success: true, pollId: id });
@@ -124,6 +156,7 @@ export async function DELETE(req: NextRequest, { params }: { params: Promise<{ i
       .from('polls')
       .select('created_by')
       .eq('id', id)
+      .is('deleted_at', null)
       .maybeSingle();
 
     if (pollCheckError) {
@@ -134,22 +167,15 @@ export async function DELETE(req: NextRequest, { params }: { params: Promise<{ i
       return NextResponse.json({ error: 'Poll not found' }, { status: 404 });
     }
 
+    // Editors can change a poll, but only its creator can delete it
     if (existingPoll.created_by !== user.id) {
       return NextResponse.json({ error: 'You can only delete your own polls' }, { status: 403 });
     }
 
-    const { error: optionsError } = await supabase
-      .from('poll_options')
-      .delete()
-      .eq('poll_id', id);
-
-    if (optionsError) {
-      return NextResponse.json({ error: `Failed to delete poll options: ${optionsError.message}` }, { status: 500 });
-    }
-
+    // Deleting moves the poll to the trash, where it can still be restored
     const { error: pollError } = await supabase
       .from('polls')
-      .delete()
+      .update({ deleted_at: new Date().toISOString() })
       .eq('id', id);
 
     if (pollError) {
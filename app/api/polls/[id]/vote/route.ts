@@ -1,77 +1,73 @@
-
 import { createClient } from '@/lib/supabase/server';
 import { type NextRequest, NextResponse } from 'next/server';
+import { BallotSubmission } from '@/lib/voting/ballot';
+import { castSurveyResponse, castVote, changeVote, retractVote } from '@/lib/voting/cast-vote';
+import { SurveyResponse } from '@/lib/polls/survey';
+import { getShareAttribution } from '@/lib/polls/shares';
+import { getAnonymousVoter } from '@/lib/voting/voter-identity';
 
 export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const { id } = await params;
+    // The client forwards the access tokens of secret links this browser
+    // opened, so unlisted polls only accept votes from their holders
     const supabase = await createClient();
     const { data: { user } } = await supabase.auth.getUser();
-    const voteData: { option_ids: string[]; voter_name?: string; voter_email?: string; } = await req.json();
+    const voteData: BallotSubmission | SurveyResponse = await req.json();
+    const anonymousVoter = user ? null : await getAnonymousVoter(id);
+    const shareId = await getShareAttribution(supabase, id);
 
-    const { data: poll, error: pollError } = await supabase
-      .from('polls')
-      .select('status, expires_at, allow_multiple_votes')
-      .eq('id', id)
-      .single();
+    // Survey responses carry a ballot per question under `answers`
+    const result = 'answers' in voteData
+      ? await castSurveyResponse(supabase, id, voteData, user?.id || null, anonymousVoter, shareId)
+      : await castVote(supabase, id, voteData, user?.id || null, anonymousVoter, shareId);
 
-    if (pollError || !poll) {
-      return NextResponse.json({ error: 'Poll not found' }, { status: 404 });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
 
-    if (poll.status !== 'active') {
-      return NextResponse.json({ error: 'Poll is not active' }, { status: 400 });
-    }
+    return NextResponse.json({ success: true, closed: Boolean(result.closed) });
+  } catch (error) {
+    console.error('Error submitting vote:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to submit vote' }, { status: 500 });
+  }
+}
 
-    if (poll.expires_at && new Date(poll.expires_at) < new Date()) {
-      return NextResponse.json({ error: 'Poll has expired' }, { status: 400 });
-    }
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    const voteData: BallotSubmission = await req.json();
 
-    const { data: options, error: optionsError } = await supabase
-      .from('poll_options')
-      .select('id')
-      .eq('poll_id', id)
-      .in('id', voteData.option_ids);
+    const result = await changeVote(supabase, id, voteData, user?.id || null);
 
-    if (optionsError || options.length !== voteData.option_ids.length) {
-      return NextResponse.json({ error: 'Invalid options selected' }, { status: 400 });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
 
-    if (user) {
-      const { data: existingVotes, error: voteCheckError } = await supabase
-        .from('votes')
-        .select('id')
-        .eq('poll_id', id)
-        .eq('voter_id', user.id);
-
-      if (voteCheckError) {
-        console.error('Error checking existing votes:', voteCheckError);
-      } else if (existingVotes && existingVotes.length > 0) {
-        if (!poll.allow_multiple_votes) {
-          return NextResponse.json({ error: 'You have already voted on this poll' }, { status: 400 });
-        }
-      }
-    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error changing vote:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to change vote' }, { status: 500 });
+  }
+}
 
-    const votesToInsert = voteData.option_ids.map(optionId => ({
-      poll_id: id,
-      option_id: optionId,
-      voter_id: user?.id || null,
-      voter_email: voteData.voter_email || null,
-      voter_name: voteData.voter_name || null,
-    }));
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
 
-    const { error: insertError } = await supabase
-      .from('votes')
-      .insert(votesToInsert);
+    const result = await retractVote(supabase, id, user?.id || null);
 
-    if (insertError) {
-      return NextResponse.json({ error: `Failed to submit vote: ${insertError.message}` }, { status: 500 });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
 
     return NextResponse.json({ success: true });
   } catch (error) {
-    console.error('Error submitting vote:', error);
-    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to submit vote' }, { status: 500 });
+    console.error('Error withdrawing vote:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to withdraw vote' }, { status: 500 });
   }
 }
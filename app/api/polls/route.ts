@@ -2,6 +2,11 @@
 import { createClient } from '@/lib/supabase/server';
 import { type NextRequest, NextResponse } from 'next/server';
 import { CreatePollData } from '@/lib/types/database';
+import { pollSettingsFromForm, validateDraft, validatePollSettings } from '@/lib/polls/settings';
+import { pollScheduleFromForm } from '@/lib/polls/schedule';
+import { insertSurveyQuestions } from '@/lib/polls/survey';
+import { syncPollPassword } from '@/lib/voting/poll-password';
+import { getWorkspaceRole } from '@/lib/workspaces/members';
 
 export async function POST(req: NextRequest) {
   try {
@@ -24,14 +29,25 @@ export async function POST(req: NextRequest) {
 
     const formData: CreatePollData = await req.json();
 
+    const isDraft = Boolean(formData.is_draft);
+    const settingsError = isDraft ? validateDraft(formData) : validatePollSettings(formData);
+    if (settingsError) {
+      return NextResponse.json({ error: settingsError }, { status: 400 });
+    }
+
+    if (formData.workspace_id && !(await getWorkspaceRole(supabase, formData.workspace_id, user.id))) {
+      return NextResponse.json({ error: 'You can only create polls in workspaces you belong to' }, { status: 403 });
+    }
+
     const { data: poll, error: pollError } = await supabase
       .from('polls')
       .insert({
         title: formData.title,
         description: formData.description,
-        is_public: formData.is_public ?? true,
-        allow_multiple_votes: formData.allow_multiple_votes ?? false,
-        expires_at: formData.expires_at,
+        ...pollSettingsFromForm(formData),
+        ...pollScheduleFromForm(formData),
+        is_draft: isDraft,
+        workspace_id: formData.workspace_id || null,
         created_by: profile.id
       })
       .select()
@@ -41,22 +57,44 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: `Failed to create poll: ${pollError.message}` }, { status: 500 });
     }
 
-    const optionsData = formData.options.map((text, index) => ({
-      poll_id: poll.id,
-      text: text.trim(),
-      order_index: index + 1
-    }));
+    const passwordResult = await syncPollPassword(supabase, poll.id, formData.password);
+    if (!passwordResult.success) {
+      await supabase.from('polls').delete().eq('id', poll.id);
+      return NextResponse.json({ error: passwordResult.error }, { status: 500 });
+    }
 
-    const { error: optionsError } = await supabase
-      .from('poll_options')
-      .insert(optionsData);
+    if (formData.questions?.length) {
+      const questionsResult = await insertSurveyQuestions(supabase, poll.id, formData.questions, isDraft);
 
-    if (optionsError) {
-      await supabase.from('polls').delete().eq('id', poll.id);
-      return NextResponse.json({ error: `Failed to create poll options: ${optionsError.message}` }, { status: 500 });
+      if (!questionsResult.success) {
+        await supabase.from('polls').delete().eq('id', poll.id);
+        return NextResponse.json({ error: questionsResult.error }, { status: 500 });
+      }
+
+      return NextResponse.json({ success: true, pollId: poll.id, redirect: isDraft ? '/dashboard' : '/polls' });
     }
 
-    return NextResponse.json({ success: true, pollId: poll.id, redirect: '/polls' });
+    const optionsData = formData.options
+      .map(text => text.trim())
+      .filter(text => !isDraft || text)
+      .map((text, index) => ({
+        poll_id: poll.id,
+        text,
+        order_index: index + 1
+      }));
+
+    if (optionsData.length > 0) {
+      const { error: optionsError } = await supabase
+        .from('poll_options')
+        .insert(optionsData);
+
+      if (optionsError) {
+        await supabase.from('polls').delete().eq('id', poll.id);
+        return NextResponse.json({ error: `Failed to create poll options: ${optionsError.message}` }, { status: 500 });
+      }
+    }
+
+    return NextResponse.json({ success: true, pollId: poll.id, redirect: isDraft ? '/dashboard' : '/polls' });
   } catch (error) {
     console.error('Error creating poll:', error);
     return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to create poll' }, { status: 500 });
@@ -75,12 +113,23 @@ export async function GET() {
           text,
           order_index
         ),
+        poll_questions (
+          *,
+          poll_options (
+            id,
+            text,
+            order_index
+          )
+        ),
         profiles!polls_created_by_fkey (
           name
         )
       `)
       .eq('is_public', true)
-      .eq('status', 'active')
+      .eq('is_draft', false)
+      .is('deleted_at', null)
+      .in('status', ['active', 'inactive'])
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
       .order('created_at', { ascending: false });
 
     if (error) {
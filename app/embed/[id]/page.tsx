@@ -0,0 +1,51 @@
+import { notFound } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { PollEmbed } from '@/components/polls/PollEmbed';
+import { getPollById } from '@/lib/actions/polls';
+import { parseEmbedOptions } from '@/lib/polls/embed';
+
+interface PollEmbedPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+/**
+ * A poll on its own, for an iframe on another site: no app header, in the
+ * theme and layout picked by the embed's ?theme and ?compact options.
+ */
+export default async function PollEmbedPage({ params, searchParams }: PollEmbedPageProps) {
+  const { id } = await params;
+  const query = await searchParams;
+
+  const { theme, compact } = parseEmbedOptions(
+    new URLSearchParams(
+      Object.entries(query).flatMap(([key, value]) => typeof value === 'string' ? [[key, value]] : [])
+    )
+  );
+
+  const { success, poll, passwordRequired } = await getPollById(id);
+  const pollUrl = `/polls/${id}`;
+
+  if (!passwordRequired && (!success || !poll)) {
+    notFound();
+  }
+
+  return (
+    <div className={theme === 'dark' ? 'dark' : ''}>
+      <div className={`min-h-screen bg-background text-foreground ${compact ? 'p-3' : 'p-6'}`}>
+        {passwordRequired || !poll ? (
+          <div className="space-y-3">
+            <p className="text-muted-foreground">This poll is password protected.</p>
+            <Button asChild size="sm">
+              <a href={pollUrl} target="_blank" rel="noopener noreferrer">Open in Pollly</a>
+            </Button>
+          </div>
+        ) : (
+          <PollEmbed poll={poll} compact={compact} pollUrl={pollUrl} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { createAdminClient } from '@/lib/supabase/admin';
+import { type NextRequest, NextResponse } from 'next/server';
+import { INVITATION_COOKIE_MAX_AGE, invitationCookieName } from '@/lib/polls/invitations';
+import { POLL_ACCESS_COOKIE_MAX_AGE, pollAccessCookieName } from '@/lib/polls/access';
+import { invitationIdFromToken, verifyInvitationToken } from '@/lib/voting/invitations';
+
+/**
+ * Opens an invite-only poll from an invitee's personal link.
+ *
+ * Remembers the signed invitation in a cookie, so the browser's vote is
+ * recorded under it, and redirects to the poll. Links to unlisted polls
+ * also grant the access the poll's secret link would. Tampered links,
+ * removed invitations, drafts and polls in the trash get a 404.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params;
+
+    const invitationId = invitationIdFromToken(token);
+    if (!invitationId) {
+      return new NextResponse('This invitation link is invalid or no longer active', { status: 404 });
+    }
+
+    // Invitees can't read the invitation list, or an unlisted poll before
+    // holding its access token
+    const supabase = createAdminClient();
+    const { data: invitation, error } = await supabase
+      .from('poll_invitations')
+      .select('id, poll_id, secret')
+      .eq('id', invitationId)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error resolving invitation link:', error);
+      return new NextResponse('Failed to open this invitation link', { status: 500 });
+    }
+
+    if (!invitation || !verifyInvitationToken(token, invitation)) {
+      return new NextResponse('This invitation link is invalid or no longer active', { status: 404 });
+    }
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('is_unlisted, access_token')
+      .eq('id', invitation.poll_id)
+      .eq('is_draft', false)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (pollError) {
+      console.error('Error resolving invitation link:', pollError);
+      return new NextResponse('Failed to open this invitation link', { status: 500 });
+    }
+
+    if (!poll) {
+      return new NextResponse('This invitation link is invalid or no longer active', { status: 404 });
+    }
+
+    const cookieOptions = {
+      httpOnly: true,
+      sameSite: 'lax' as const,
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+    };
+
+    const response = NextResponse.redirect(new URL(`/polls/${invitation.poll_id}`, req.url));
+    response.cookies.set(invitationCookieName(invitation.poll_id), token, {
+      ...cookieOptions,
+      maxAge: INVITATION_COOKIE_MAX_AGE,
+    });
+    if (poll.is_unlisted) {
+      response.cookies.set(pollAccessCookieName(invitation.poll_id), poll.access_token, {
+        ...cookieOptions,
+        maxAge: POLL_ACCESS_COOKIE_MAX_AGE,
+      });
+    }
+    return response;
+  } catch (error) {
+    console.error('Error resolving invitation link:', error);
+    return new NextResponse('Failed to open this invitation link', { status: 500 });
+  }
+}
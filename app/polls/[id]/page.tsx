@@ -1,7 +1,10 @@
 import { notFound } from 'next/navigation';
 import { PollDetail } from '@/components/polls/PollDetail';
+import { PollPasswordGate } from '@/components/polls/PollPasswordGate';
 import { PollWithOptions } from '@/lib/types/database';
 import { getPollById } from '@/lib/actions/polls';
+import { getPollRole } from '@/lib/polls/members';
+import { createClient } from '@/lib/supabase/server';
 
 interface PollDetailPageProps {
   params: Promise<{
@@ -16,15 +19,28 @@ export default async function PollDetailPage({ params }: PollDetailPageProps) {
     notFound();
   }
 
-  const { success, poll, error } = await getPollById(id);
+  const { success, poll, error, passwordRequired } = await getPollById(id);
+
+  if (passwordRequired) {
+    return (
+      <div className="container mx-auto px-4 py-12">
+        <PollPasswordGate pollId={id} />
+      </div>
+    );
+  }
   
   if (!success || !poll) {
     notFound();
   }
 
+  // Editors get the creator's controls on the page
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  const role = await getPollRole(supabase, poll, user?.id ?? null);
+
   return (
     <div className="container mx-auto px-4 py-12">
-      <PollDetail poll={poll} />
+      <PollDetail poll={poll} role={role} />
     </div>
   );
 }
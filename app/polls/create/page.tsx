@@ -1,9 +1,13 @@
 'use client';
 
+import { use } from 'react';
 import { CreatePollForm } from '@/components/polls/CreatePollForm';
 import withAuth from '@/lib/hooks/withAuth';
 
-function CreatePollPage() {
+// Opened from a workspace's dashboard, ?workspace=<id> picks that workspace
+function CreatePollPage({ searchParams }: { searchParams: Promise<{ workspace?: string }> }) {
+  const { workspace } = use(searchParams);
+
   return (
     <div className="container mx-auto px-4 py-12">
       <div className="max-w-4xl mx-auto">
@@ -14,7 +18,7 @@ function CreatePollPage() {
           </p>
         </div>
         
-        <CreatePollForm />
+        <CreatePollForm workspaceId={workspace} />
       </div>
     </div>
   );
@@ -0,0 +1,42 @@
+import { createClient } from '@/lib/supabase/server';
+import { type NextRequest, NextResponse } from 'next/server';
+import { SHARE_COOKIE_MAX_AGE, shareCookieName } from '@/lib/polls/shares';
+
+/**
+ * Resolves a share link to its poll.
+ *
+ * Counts the visit, remembers the code in a cookie so the visitor's vote is
+ * credited to it, and redirects to the poll. Disabled, expired and unknown
+ * codes get a 404.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ code: string }> }) {
+  try {
+    const { code } = await params;
+    const supabase = await createClient();
+
+    const { data, error } = await supabase.rpc('record_share_visit', { code });
+
+    if (error) {
+      console.error('Error resolving share link:', error);
+      return new NextResponse('Failed to open this share link', { status: 500 });
+    }
+
+    const share: { share_id: string; poll_id: string } | undefined = data?.[0];
+    if (!share) {
+      return new NextResponse('This share link is invalid or no longer active', { status: 404 });
+    }
+
+    const response = NextResponse.redirect(new URL(`/polls/${share.poll_id}`, req.url));
+    response.cookies.set(shareCookieName(share.poll_id), share.share_id, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: SHARE_COOKIE_MAX_AGE,
+      path: '/',
+    });
+    return response;
+  } catch (error) {
+    console.error('Error resolving share link:', error);
+    return new NextResponse('Failed to open this share link', { status: 500 });
+  }
+}
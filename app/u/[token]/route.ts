@@ -0,0 +1,45 @@
+import { createClient } from '@/lib/supabase/server';
+import { type NextRequest, NextResponse } from 'next/server';
+import { POLL_ACCESS_COOKIE_MAX_AGE, isAccessToken, pollAccessCookieName } from '@/lib/polls/access';
+
+/**
+ * Opens an unlisted poll from its secret link.
+ *
+ * Remembers the access token in a cookie, which later requests forward to
+ * the database so the browser can view and vote on the poll, and redirects
+ * to the poll. Unknown tokens, drafts and polls in the trash get a 404.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params;
+
+    if (!isAccessToken(token)) {
+      return new NextResponse('This link is invalid or no longer active', { status: 404 });
+    }
+
+    const supabase = await createClient();
+    const { data: pollId, error } = await supabase.rpc('resolve_unlisted_poll', { token });
+
+    if (error) {
+      console.error('Error resolving secret link:', error);
+      return new NextResponse('Failed to open this link', { status: 500 });
+    }
+
+    if (!pollId) {
+      return new NextResponse('This link is invalid or no longer active', { status: 404 });
+    }
+
+    const response = NextResponse.redirect(new URL(`/polls/${pollId}`, req.url));
+    response.cookies.set(pollAccessCookieName(pollId), token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: POLL_ACCESS_COOKIE_MAX_AGE,
+      path: '/',
+    });
+    return response;
+  } catch (error) {
+    console.error('Error resolving secret link:', error);
+    return new NextResponse('Failed to open this link', { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '@/lib/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -12,13 +13,34 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { CreateWorkspaceDialog } from '@/components/workspaces/CreateWorkspaceDialog';
 import { createClient } from '@/lib/supabase/client';
-import { useRouter } from 'next/navigation';
+import { getWorkspaces } from '@/lib/actions/workspaces';
+import { WorkspaceWithRole } from '@/lib/types/database';
+import { usePathname, useRouter } from 'next/navigation';
 import { toast } from 'sonner';
 
 export function Header() {
   const { user } = useAuth();
   const router = useRouter();
+  const pathname = usePathname();
+  const [workspaces, setWorkspaces] = useState<WorkspaceWithRole[]>([]);
+  const [isCreateWorkspaceOpen, setIsCreateWorkspaceOpen] = useState(false);
+
+  const loadWorkspaces = useCallback(async () => {
+    const result = await getWorkspaces();
+    setWorkspaces(result.workspaces);
+  }, []);
+
+  // Loaded on sign in, and again whenever the menu opens to pick up
+  // workspaces created, joined or left since
+  useEffect(() => {
+    if (user) {
+      loadWorkspaces();
+    } else {
+      setWorkspaces([]);
+    }
+  }, [user, loadWorkspaces]);
 
   const handleLogout = async () => {
     const supabase = createClient();
@@ -27,6 +49,11 @@ export function Header() {
     router.push('/login');
   };
 
+  // Embeds are framed by other sites, which bring their own page around them
+  if (pathname.startsWith('/embed/')) {
+    return null;
+  }
+
   return (
     <header className="border-b">
       <div className="container mx-auto px-4 py-4 flex items-center justify-between">
@@ -47,7 +74,7 @@ export function Header() {
 
         <div className="flex items-center space-x-4">
           {user ? (
-            <DropdownMenu>
+            <DropdownMenu onOpenChange={(open) => open && loadWorkspaces()}>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" className="relative h-8 w-8 rounded-full">
                   <Avatar className="h-8 w-8">
@@ -73,6 +100,20 @@ export function Header() {
                   <Link href="/profile">Profile</Link>
                 </DropdownMenuItem>
                 <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                  Workspaces
+                </DropdownMenuLabel>
+                {workspaces.map((workspace) => (
+                  <DropdownMenuItem key={workspace.id} asChild>
+                    <Link href={`/dashboard?workspace=${workspace.id}`} className="truncate">
+                      {workspace.name}
+                    </Link>
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuItem onClick={() => setIsCreateWorkspaceOpen(true)}>
+                  New workspace
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={handleLogout}>
                   Log out
                 </DropdownMenuItem>
@@ -90,6 +131,10 @@ export function Header() {
           )}
         </div>
       </div>
+
+      {user && (
+        <CreateWorkspaceDialog open={isCreateWorkspaceOpen} onOpenChange={setIsCreateWorkspaceOpen} />
+      )}
     </header>
   );
 }
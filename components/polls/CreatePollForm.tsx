@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,10 +9,29 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toast } from 'sonner';
 
-import { CreatePollData } from '@/lib/types/database';
+import { CreatePollData, PollTemplate, WorkspaceWithRole } from '@/lib/types/database';
 import { createPoll } from '@/lib/actions/polls';
+import { deletePollTemplate, getPollTemplates } from '@/lib/actions/templates';
+import { getWorkspaces } from '@/lib/actions/workspaces';
+import { BUILT_IN_TEMPLATES, formDataFromTemplate } from '@/lib/polls/templates';
+import { maxOptionsFor, resolveVoteType, validateDraft, validatePollSettings } from '@/lib/polls/settings';
+import { MAX_POLL_PASSWORD_LENGTH, MIN_POLL_PASSWORD_LENGTH } from '@/lib/polls/password';
+import { VotingMethodFields } from '@/components/polls/VotingMethodFields';
+import { PollScheduleFields } from '@/components/polls/PollScheduleFields';
+import { PollCloseConditionFields } from '@/components/polls/PollCloseConditionFields';
+import { PollEligibilityFields } from '@/components/polls/PollEligibilityFields';
+import { EMPTY_QUESTION, SurveyQuestionsFields } from '@/components/polls/SurveyQuestionsFields';
 
 /**
  * Interactive form component for creating new polls.
@@ -20,9 +39,13 @@ import { createPoll } from '@/lib/actions/polls';
  * This component provides a comprehensive interface for poll creation with:
  * - Dynamic option management (add/remove options)
  * - Form validation (required fields, unique options)
- * - Poll settings (public/private, multiple votes)
+ * - Poll settings (public/private, voting method, opening and closing times, close conditions, who can vote)
  * - Real-time feedback and error handling
  * - Automatic redirect on successful creation
+ * - Saving a half-finished poll as a draft to publish later
+ * - Starting from a built-in or saved template
+ * - Building a survey of several questions, each with its own voting method
+ * - Creating the poll in one of the user's workspaces instead of their personal polls
  * 
  * The form uses controlled components with local state management and
  * integrates with the createPoll server action for data persistence.
@@ -30,39 +53,95 @@ import { createPoll } from '@/lib/actions/polls';
  * before server submission.
  * 
  * Features:
- * - Minimum 2 options, maximum 10 options
+ * - Minimum 2 options, maximum 10 options (50 for pairwise polls)
  * - Option uniqueness validation
  * - Loading states and success feedback
  * - Responsive design with shadcn/ui components
  * 
+ * @param workspaceId - The workspace the poll is created in unless another is picked
  * @returns JSX element containing the poll creation form
  * 
  * @example
  * ```tsx
  * // Used in poll creation page
- * <CreatePollForm />
+ * <CreatePollForm workspaceId={workspace} />
  * ```
  */
-export function CreatePollForm() {
-  const [formData, setFormData] = useState<CreatePollData>({
-    title: '',
-    description: '',
-    options: ['', ''],
-    is_public: true,
-    allow_multiple_votes: false,
-  });
+const EMPTY_POLL: CreatePollData = {
+  title: '',
+  description: '',
+  options: ['', ''],
+  is_public: true,
+  allow_multiple_votes: false,
+  vote_type: 'single',
+};
+
+// Select value for creating the poll outside any workspace
+const PERSONAL_POLL = 'personal';
+
+interface CreatePollFormProps {
+  workspaceId?: string;
+}
+
+export function CreatePollForm({ workspaceId }: CreatePollFormProps) {
+  const [formData, setFormData] = useState<CreatePollData>(EMPTY_POLL);
+  const [templates, setTemplates] = useState<PollTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [workspaces, setWorkspaces] = useState<WorkspaceWithRole[]>([]);
+  // Kept apart from the form so applying a template doesn't reset it
+  const [workspace, setWorkspace] = useState(workspaceId || PERSONAL_POLL);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [isSuccess, setIsSuccess] = useState(false);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
 
   const router = useRouter();
+  const maxOptions = maxOptionsFor(resolveVoteType(formData));
+  const isSurvey = Boolean(formData.questions);
+
+  // Load the user's saved templates for the template picker, and their workspaces
+  useEffect(() => {
+    getPollTemplates().then(result => setTemplates(result.templates));
+    getWorkspaces().then(result => setWorkspaces(result.workspaces));
+  }, []);
+
+  const workspaceIdToSave = workspace === PERSONAL_POLL ? null : workspace;
+
+  /**
+   * Replaces the form with a built-in or saved template.
+   */
+  const applyTemplate = (id: string) => {
+    const builtIn = BUILT_IN_TEMPLATES.find(template => template.id === id);
+    const saved = templates.find(template => template.id === id);
+    const poll = builtIn ? builtIn.poll : saved ? formDataFromTemplate(saved) : null;
+
+    if (poll) {
+      setTemplateId(id);
+      setFormData({ ...EMPTY_POLL, ...poll });
+      setError('');
+    }
+  };
+
+  /**
+   * Deletes the selected saved template. The form keeps what was filled in.
+   */
+  const removeTemplate = async () => {
+    const result = await deletePollTemplate(templateId);
+    if (result.success) {
+      setTemplates(prev => prev.filter(template => template.id !== templateId));
+      setTemplateId('');
+      toast.success('Template deleted');
+    } else {
+      toast.error(result.error || 'Failed to delete template');
+    }
+  };
 
   /**
    * Adds a new empty option to the poll.
-   * Enforces maximum limit of 10 options to prevent UI clutter.
+   * Enforces the vote type's option limit (10, or 50 for pairwise polls).
    */
   const addOption = () => {
-    if (formData.options.length < 10) {
+    if (formData.options.length < maxOptions) {
       setFormData(prev => ({
         ...prev,
         options: [...prev.options, ''],
@@ -94,6 +173,17 @@ export function CreatePollForm() {
     }));
   };
 
+  /**
+   * Switches between a single-question poll and a survey. A new survey
+   * starts with two empty questions.
+   */
+  const toggleSurvey = (checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      questions: checked ? [EMPTY_QUESTION, EMPTY_QUESTION] : undefined,
+    }));
+  };
+
   /**
    * Handles form submission with comprehensive validation and error handling.
    * 
@@ -101,6 +191,7 @@ export function CreatePollForm() {
    * - Title is required and not empty
    * - All options must be filled
    * - Options must be unique (case-sensitive)
+   * - Survey questions are checked by validatePollSettings instead
    * 
    * On successful creation, shows success feedback and redirects to polls page.
    */
@@ -116,22 +207,37 @@ export function CreatePollForm() {
       return;
     }
 
+    // Surveys have their options on the questions
+    const pollData: CreatePollData = {
+      ...formData,
+      options: isSurvey ? [] : formData.options,
+      workspace_id: workspaceIdToSave,
+    };
+
     // Ensure all options are filled
-    if (formData.options.some(option => !option.trim())) {
+    if (pollData.options.some(option => !option.trim())) {
       setError('All options must be filled');
       setIsLoading(false);
       return;
     }
 
     // Check for duplicate options using Set for uniqueness
-    if (new Set(formData.options.map(opt => opt.trim())).size !== formData.options.length) {
+    if (new Set(pollData.options.map(opt => opt.trim())).size !== pollData.options.length) {
       setError('Options must be unique');
       setIsLoading(false);
       return;
     }
 
+    // Option count and selection limits must suit the voting method
+    const settingsError = validatePollSettings(pollData);
+    if (settingsError) {
+      setError(settingsError);
+      setIsLoading(false);
+      return;
+    }
+
     try {
-      const result = await createPoll(formData);
+      const result = await createPoll(pollData);
       
       if (result.success) {
         setIsSuccess(true);
@@ -151,6 +257,49 @@ export function CreatePollForm() {
     }
   };
 
+  /**
+   * Saves the poll as a draft without the full validation: only the title
+   * is required and blank options are left out. Drafts stay hidden until
+   * they're published from the dashboard.
+   */
+  const handleSaveDraft = async () => {
+    setIsSavingDraft(true);
+    setError('');
+
+    const draft: CreatePollData = {
+      ...formData,
+      options: isSurvey ? [] : formData.options.filter(option => option.trim()),
+      questions: formData.questions?.map(question => ({
+        ...question,
+        options: question.options.filter(option => option.trim()),
+      })),
+      is_draft: true,
+      workspace_id: workspaceIdToSave,
+    };
+
+    const draftError = validateDraft(draft);
+    if (draftError) {
+      setError(draftError);
+      setIsSavingDraft(false);
+      return;
+    }
+
+    try {
+      const result = await createPoll(draft);
+
+      if (result.success) {
+        toast.success('Draft saved. You can finish and publish it from your dashboard.');
+        router.push(result.redirect || '/dashboard');
+      } else {
+        setError(result.error || 'Failed to save draft. Please try again.');
+      }
+    } catch (err) {
+      setError('Failed to save draft. Please try again.');
+    } finally {
+      setIsSavingDraft(false);
+    }
+  };
+
   return (
     <Card className="w-full max-w-2xl mx-auto">
       <CardHeader>
@@ -161,6 +310,66 @@ export function CreatePollForm() {
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="template">Start from a template (Optional)</Label>
+            <div className="flex items-center space-x-2">
+              <Select value={templateId} onValueChange={applyTemplate}>
+                <SelectTrigger id="template" className="w-full">
+                  <SelectValue placeholder="Blank poll" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    <SelectLabel>Built-in</SelectLabel>
+                    {BUILT_IN_TEMPLATES.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                  {templates.length > 0 && (
+                    <SelectGroup>
+                      <SelectLabel>Your templates</SelectLabel>
+                      {templates.map((template) => (
+                        <SelectItem key={template.id} value={template.id}>
+                          {template.name}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  )}
+                </SelectContent>
+              </Select>
+              {templates.some(template => template.id === templateId) && (
+                <Button type="button" variant="outline" size="sm" onClick={removeTemplate}>
+                  Delete Template
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {workspaces.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="workspace">Workspace</Label>
+              <Select value={workspace} onValueChange={setWorkspace}>
+                <SelectTrigger id="workspace" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PERSONAL_POLL}>Personal</SelectItem>
+                  {workspaces.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {workspace === PERSONAL_POLL
+                  ? 'Only you and the people you share it with can manage this poll'
+                  : 'Everyone in the workspace can see this poll, and its owner and admins can edit it'}
+              </p>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="title">Poll Title *</Label>
             <Input
@@ -183,44 +392,63 @@ export function CreatePollForm() {
             />
           </div>
 
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <Label>Poll Options *</Label>
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={addOption}
-                disabled={formData.options.length >= 10}
-              >
-                Add Option
-              </Button>
-            </div>
-            
-            <div className="space-y-3">
-              {formData.options.map((option, index) => (
-                <div key={index} className="flex items-center space-x-2">
-                  <Input
-                    placeholder={`Option ${index + 1}`}
-                    value={option}
-                    onChange={(e) => updateOption(index, e.target.value)}
-                    required
-                  />
-                  {formData.options.length > 2 && (
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      onClick={() => removeOption(index)}
-                    >
-                      Remove
-                    </Button>
-                  )}
-                </div>
-              ))}
-            </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="isSurvey"
+              checked={isSurvey}
+              onCheckedChange={(checked) => toggleSurvey(checked as boolean)}
+              aria-label="Ask several questions as a survey"
+            />
+            <Label htmlFor="isSurvey">Ask several questions as a survey</Label>
           </div>
 
+          {isSurvey ? (
+            <SurveyQuestionsFields
+              questions={formData.questions ?? []}
+              onChange={(questions) => setFormData(prev => ({ ...prev, questions }))}
+            />
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label>
+                  Poll Options * <span className="font-normal text-muted-foreground">(up to {maxOptions})</span>
+                </Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={addOption}
+                  disabled={formData.options.length >= maxOptions}
+                >
+                  Add Option
+                </Button>
+              </div>
+              
+              <div className="space-y-3">
+                {formData.options.map((option, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <Input
+                      placeholder={`Option ${index + 1}`}
+                      value={option}
+                      onChange={(e) => updateOption(index, e.target.value)}
+                      required
+                    />
+                    {formData.options.length > 2 && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => removeOption(index)}
+                      >
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="space-y-4">
             <div className="flex items-center space-x-2">
               <Checkbox
@@ -232,15 +460,95 @@ export function CreatePollForm() {
               <Label htmlFor="isPublic">Make this poll public</Label>
             </div>
 
+            {!formData.is_public && (
+              <div className="space-y-1 pl-6">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="isUnlisted"
+                    checked={Boolean(formData.is_unlisted)}
+                    onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_unlisted: checked as boolean }))}
+                  />
+                  <Label htmlFor="isUnlisted">Anyone with the secret link can view and vote</Label>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  The poll stays out of the public listings. Copy its link from your dashboard.
+                </p>
+              </div>
+            )}
+
+            {(formData.is_public || formData.is_unlisted) && (
+              <div className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="isInviteOnly"
+                    checked={Boolean(formData.is_invite_only)}
+                    onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_invite_only: checked as boolean }))}
+                  />
+                  <Label htmlFor="isInviteOnly">Only invited people can vote</Label>
+                </div>
+                <p className="text-xs text-muted-foreground pl-6">
+                  Add invitees and send their invitations from your dashboard.
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="requirePassword"
+                  checked={formData.password !== undefined}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, password: checked ? '' : undefined }))}
+                  aria-label="Require a password"
+                />
+                <Label htmlFor="requirePassword">Require a password to view and vote</Label>
+              </div>
+              {formData.password !== undefined && (
+                <div className="pl-6">
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Access password"
+                    value={formData.password ?? ''}
+                    onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+                    minLength={MIN_POLL_PASSWORD_LENGTH}
+                    maxLength={MAX_POLL_PASSWORD_LENGTH}
+                    autoComplete="new-password"
+                  />
+                </div>
+              )}
+            </div>
+
             <div className="flex items-center space-x-2">
               <Checkbox
-                id="allowMultipleVotes"
-                checked={formData.allow_multiple_votes}
-                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, allow_multiple_votes: checked as boolean }))}
-                aria-label="Allow multiple votes per user"
+                id="lockVotes"
+                checked={Boolean(formData.lock_votes)}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, lock_votes: checked as boolean }))}
+                aria-label="Lock votes once cast"
               />
-              <Label htmlFor="allowMultipleVotes">Allow multiple votes per user</Label>
+              <Label htmlFor="lockVotes">Lock votes once cast</Label>
             </div>
+
+            <VotingMethodFields
+              settings={formData}
+              onChange={(patch) => setFormData(prev => ({ ...prev, ...patch }))}
+              isSurvey={isSurvey}
+            />
+
+            <PollScheduleFields
+              settings={formData}
+              onChange={(patch) => setFormData(prev => ({ ...prev, ...patch }))}
+            />
+
+            <PollCloseConditionFields
+              settings={formData}
+              onChange={(patch) => setFormData(prev => ({ ...prev, ...patch }))}
+              isSurvey={isSurvey}
+            />
+
+            <PollEligibilityFields
+              settings={formData}
+              onChange={(patch) => setFormData(prev => ({ ...prev, ...patch }))}
+            />
           </div>
 
           {error && (
@@ -263,7 +571,15 @@ export function CreatePollForm() {
             >
               Cancel
             </Button>
-            <Button type="submit" disabled={isLoading || isSuccess}>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleSaveDraft}
+              disabled={isLoading || isSavingDraft || isSuccess}
+            >
+              {isSavingDraft ? 'Saving...' : 'Save as Draft'}
+            </Button>
+            <Button type="submit" disabled={isLoading || isSavingDraft || isSuccess}>
               {isLoading ? 'Creating...' : isSuccess ? 'Created!' : 'Create Poll'}
             </Button>
           </div>
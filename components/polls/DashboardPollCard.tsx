@@ -12,15 +12,35 @@ import {
   DropdownMenuTrigger,
   DropdownMenuSeparator
 } from '@/components/ui/dropdown-menu';
-import { MoreVertical, Edit, Trash2, Eye, Share2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MoreVertical, Edit, Trash2, Eye, Share2, Send, Copy, BookmarkPlus, Link2, QrCode, RotateCcw, Mail, Code } from 'lucide-react';
+import { PollCountdown } from '@/components/polls/PollCountdown';
+import { ShareLinksDialog } from '@/components/polls/ShareLinksDialog';
+import { PollQrDialog } from '@/components/polls/PollQrDialog';
+import { InvitationsDialog } from '@/components/polls/InvitationsDialog';
 import { useState, useEffect } from 'react';
 import { toast } from 'sonner';
 import { useRouter } from 'next/navigation';
-import { getPollResults } from '@/lib/actions/polls';
+import { duplicatePoll, getPollResults, publishPoll, resetPollAccessLink } from '@/lib/actions/polls';
+import { savePollAsTemplate } from '@/lib/actions/templates';
+import { VOTE_TYPE_BADGES, isChoiceVoteType } from '@/lib/voting/vote-types';
+import { sortedQuestions } from '@/lib/polls/survey';
+import { unlistedPollUrl } from '@/lib/polls/access';
+import { EMBED_HEIGHT, EMBED_WIDTH, embedIframeHtml, embedUrl } from '@/lib/polls/embed';
 
 interface DashboardPollCardProps {
   poll: PollWithOptions;
   onPollDeleted: (pollId: string) => void;
+  onPollPublished?: (pollId: string) => void;
 }
 
 interface PollResult {
@@ -39,17 +59,24 @@ interface PollResult {
  * 
  * Features:
  * - Poll information display (title, description, options preview)
- * - Status badges (public/private, multiple votes, expired, active)
+ * - Status badges (public/private/unlisted, multiple votes, expired, active)
  * - Action dropdown menu with poll management options
  * - Direct poll deletion with confirmation
- * - Share functionality with clipboard integration
+ * - Share functionality with clipboard integration, copying the secret
+ *   link of unlisted polls, which can be reset
+ * - Share codes with per-link visit and vote counts
+ * - QR codes for the poll and its share codes, downloadable as SVG or PNG
+ * - Iframe embed code for public polls
  * - Navigation to poll view and edit pages
+ * - Preview and publishing of draft polls
+ * - Duplicating a poll into a new draft and saving it as a template
  * 
  * The component handles poll deletion through direct database calls and
  * notifies the parent component via callback for state synchronization.
  * 
  * @param poll - The poll data to display and manage
  * @param onPollDeleted - Callback function called when poll is deleted
+ * @param onPollPublished - Callback function called when a draft is published
  * @returns JSX element containing the poll card with management interface
  * 
  * @example
@@ -60,14 +87,25 @@ interface PollResult {
  * />
  * ```
  */
-export function DashboardPollCard({ poll, onPollDeleted }: DashboardPollCardProps) {
+export function DashboardPollCard({ poll, onPollDeleted, onPollPublished }: DashboardPollCardProps) {
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [isDuplicating, setIsDuplicating] = useState(false);
+  const [templateName, setTemplateName] = useState<string | null>(null);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [isShareLinksOpen, setIsShareLinksOpen] = useState(false);
+  const [isQrOpen, setIsQrOpen] = useState(false);
+  const [isInvitationsOpen, setIsInvitationsOpen] = useState(false);
+  const [accessToken, setAccessToken] = useState(poll.access_token);
+  const [isResettingLink, setIsResettingLink] = useState(false);
   const [pollResults, setPollResults] = useState<PollResult[]>([]);
   const [isLoadingResults, setIsLoadingResults] = useState(true);
   const router = useRouter();
   
   const isExpired = poll.expires_at && new Date(poll.expires_at) < new Date();
-  const options = poll.poll_options || [];
+  // Survey options belong to their questions, which are previewed instead
+  const questions = sortedQuestions(poll.poll_questions);
+  const options = questions.length > 0 ? [] : poll.poll_options || [];
 
   // Fetch poll results on component mount
   useEffect(() => {
@@ -92,13 +130,13 @@ export function DashboardPollCard({ poll, onPollDeleted }: DashboardPollCardProp
   const totalVotes = pollResults.reduce((sum, result) => sum + Number(result.vote_count), 0);
 
   /**
-   * Handles poll deletion with confirmation and proper cleanup.
+   * Handles poll deletion with confirmation.
    * 
-   * Deletes poll options first due to foreign key constraints, then deletes
-   * the poll itself. Provides user feedback and updates parent component state.
+   * Moves the poll to the trash, where it can be restored until the trash
+   * is purged. Provides user feedback and updates parent component state.
    */
   const handleDelete = async () => {
-    if (!confirm('Are you sure you want to delete this poll? This action cannot be undone.')) {
+    if (!confirm('Move this poll to the trash? You can restore it, votes included, from the trash on your dashboard.')) {
       return;
     }
 
@@ -113,7 +151,7 @@ export function DashboardPollCard({ poll, onPollDeleted }: DashboardPollCardProp
         throw new Error(result.error || 'Failed to delete poll');
       }
 
-      toast.success('Poll deleted successfully');
+      toast.success('Poll moved to trash');
       onPollDeleted(poll.id);
     } catch (error) {
       console.error('Error deleting poll:', error);
@@ -137,14 +175,127 @@ export function DashboardPollCard({ poll, onPollDeleted }: DashboardPollCardProp
     router.push(`/polls/${poll.id}`);
   };
 
+  /**
+   * Publishes a draft so it becomes visible and open to votes.
+   * The server checks the draft is complete and reports what's missing.
+   */
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    try {
+      const result = await publishPoll(poll.id);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to publish poll');
+      }
+
+      toast.success('Poll published');
+      onPollPublished?.(poll.id);
+    } catch (error) {
+      console.error('Error publishing poll:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to publish poll. Please try again.');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  /**
+   * Copies the poll into a new draft and opens it for editing, so the
+   * copy can be adjusted before it's published.
+   */
+  const handleDuplicate = async () => {
+    setIsDuplicating(true);
+    try {
+      const result = await duplicatePoll(poll.id);
+
+      if (!result.success || !result.pollId) {
+        throw new Error(result.error || 'Failed to duplicate poll');
+      }
+
+      toast.success('Poll duplicated as a draft');
+      router.push(`/polls/${result.pollId}/edit`);
+    } catch (error) {
+      console.error('Error duplicating poll:', error);
+      toast.error('Failed to duplicate poll. Please try again.');
+    } finally {
+      setIsDuplicating(false);
+    }
+  };
+
+  /**
+   * Saves the poll as a personal template under the name entered in the
+   * template dialog.
+   */
+  const handleSaveTemplate = async () => {
+    if (!templateName?.trim()) {
+      return;
+    }
+
+    setIsSavingTemplate(true);
+    try {
+      const result = await savePollAsTemplate(poll.id, templateName);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save template');
+      }
+
+      toast.success(`Saved template "${templateName.trim()}"`);
+      setTemplateName(null);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save template. Please try again.');
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
   /**
    * Copies the poll URL to clipboard for sharing.
    * Uses the Clipboard API for modern browsers.
+   * Unlisted polls are shared by their secret link instead.
    */
   const handleShare = () => {
-    const pollUrl = `${window.location.origin}/polls/${poll.id}`;
+    const pollUrl = poll.is_unlisted
+      ? unlistedPollUrl(window.location.origin, accessToken)
+      : `${window.location.origin}/polls/${poll.id}`;
     navigator.clipboard.writeText(pollUrl);
-    toast.success('Poll link copied to clipboard!');
+    toast.success(poll.is_unlisted ? 'Secret link copied to clipboard!' : 'Poll link copied to clipboard!');
+  };
+
+  /**
+   * Copies the iframe HTML that embeds the poll in another site.
+   */
+  const handleCopyEmbedCode = () => {
+    const src = embedUrl(window.location.origin, poll.id);
+    navigator.clipboard.writeText(embedIframeHtml(src, poll.title, EMBED_WIDTH, EMBED_HEIGHT));
+    toast.success('Embed code copied to clipboard!');
+  };
+
+  /**
+   * Replaces an unlisted poll's secret link, so people holding the old
+   * one lose access, and copies the new link.
+   */
+  const handleResetLink = async () => {
+    if (!confirm('Reset the secret link? Anyone using the current link will lose access to this poll.')) {
+      return;
+    }
+
+    setIsResettingLink(true);
+    try {
+      const result = await resetPollAccessLink(poll.id);
+
+      if (!result.success || !result.accessToken) {
+        throw new Error(result.error || 'Failed to reset poll link');
+      }
+
+      setAccessToken(result.accessToken);
+      navigator.clipboard.writeText(unlistedPollUrl(window.location.origin, result.accessToken));
+      toast.success('New secret link copied to clipboard!');
+    } catch (error) {
+      console.error('Error resetting poll link:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reset poll link. Please try again.');
+    } finally {
+      setIsResettingLink(false);
+    }
   };
 
   return (
@@ -172,17 +323,62 @@ export function DashboardPollCard({ poll, onPollDeleted }: DashboardPollCardProp
             <DropdownMenuContent align="end">
               <DropdownMenuItem onClick={handleView}>
                 <Eye className="mr-2 h-4 w-4" />
-                View Poll
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={handleShare}>
-                <Share2 className="mr-2 h-4 w-4" />
-                Share Link
+                {poll.is_draft ? 'Preview Poll' : 'View Poll'}
               </DropdownMenuItem>
+              {poll.is_draft ? (
+                <DropdownMenuItem onClick={handlePublish} disabled={isPublishing}>
+                  <Send className="mr-2 h-4 w-4" />
+                  {isPublishing ? 'Publishing...' : 'Publish Poll'}
+                </DropdownMenuItem>
+              ) : (
+                <>
+                  <DropdownMenuItem onClick={handleShare}>
+                    <Share2 className="mr-2 h-4 w-4" />
+                    {poll.is_unlisted ? 'Copy Secret Link' : 'Share Link'}
+                  </DropdownMenuItem>
+                  {poll.is_unlisted && (
+                    <DropdownMenuItem onClick={handleResetLink} disabled={isResettingLink}>
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      {isResettingLink ? 'Resetting...' : 'Reset Secret Link'}
+                    </DropdownMenuItem>
+                  )}
+                  {poll.is_public && (
+                    <DropdownMenuItem onClick={() => setIsShareLinksOpen(true)}>
+                      <Link2 className="mr-2 h-4 w-4" />
+                      Share Codes
+                    </DropdownMenuItem>
+                  )}
+                  {poll.is_public && (
+                    <DropdownMenuItem onClick={handleCopyEmbedCode}>
+                      <Code className="mr-2 h-4 w-4" />
+                      Copy Embed Code
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={() => setIsQrOpen(true)}>
+                    <QrCode className="mr-2 h-4 w-4" />
+                    QR Code
+                  </DropdownMenuItem>
+                </>
+              )}
+              {poll.is_invite_only && (
+                <DropdownMenuItem onClick={() => setIsInvitationsOpen(true)}>
+                  <Mail className="mr-2 h-4 w-4" />
+                  Invitations
+                </DropdownMenuItem>
+              )}
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={handleEdit}>
                 <Edit className="mr-2 h-4 w-4" />
                 Edit Poll
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleDuplicate} disabled={isDuplicating}>
+                <Copy className="mr-2 h-4 w-4" />
+                {isDuplicating ? 'Duplicating...' : 'Duplicate'}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setTemplateName(poll.title)}>
+                <BookmarkPlus className="mr-2 h-4 w-4" />
+                Save as Template
+              </DropdownMenuItem>
               <DropdownMenuItem 
                 onClick={handleDelete}
                 disabled={isDeleting}
@@ -198,7 +394,17 @@ export function DashboardPollCard({ poll, onPollDeleted }: DashboardPollCardProp
         <div className="flex flex-wrap gap-2">
           {!poll.is_public && (
             <Badge variant="secondary" className="text-xs">
-              Private
+              {poll.is_unlisted ? 'Unlisted' : 'Private'}
+            </Badge>
+          )}
+          {poll.has_password && (
+            <Badge variant="secondary" className="text-xs">
+              Password
+            </Badge>
+          )}
+          {poll.is_invite_only && (
+            <Badge variant="secondary" className="text-xs">
+              Invite only
             </Badge>
           )}
           {poll.allow_multiple_votes && (
@@ -206,24 +412,45 @@ export function DashboardPollCard({ poll, onPollDeleted }: DashboardPollCardProp
               Multiple votes
             </Badge>
           )}
+          {!isChoiceVoteType(poll.vote_type) && (
+            <Badge variant="outline" className="text-xs">
+              {VOTE_TYPE_BADGES[poll.vote_type]}
+            </Badge>
+          )}
           {isExpired && (
             <Badge variant="destructive" className="text-xs">
               Expired
             </Badge>
           )}
-          <Badge variant={poll.status === 'active' ? 'default' : 'secondary'} className="text-xs">
-            {poll.status}
-          </Badge>
+          {poll.is_draft ? (
+            <Badge variant="outline" className="text-xs">
+              Draft
+            </Badge>
+          ) : (
+            <Badge variant={poll.status === 'active' ? 'default' : 'secondary'} className="text-xs">
+              {poll.status === 'inactive' && poll.starts_at ? 'scheduled' : poll.status}
+            </Badge>
+          )}
         </div>
       </CardHeader>
       
       <CardContent>
         <div className="space-y-3">
           <div className="text-sm text-muted-foreground">
-            {options.length} options • {totalVotes} votes • Created {new Date(poll.created_at).toLocaleDateString()}
+            {questions.length > 0 ? `Survey • ${questions.length} questions` : `${options.length} options • ${totalVotes} votes`} • Created {new Date(poll.created_at).toLocaleDateString()}
           </div>
           
           <div className="space-y-2">
+            {questions.slice(0, 3).map((question, index) => (
+              <div key={question.id} className="text-sm truncate">
+                {index + 1}. {question.prompt}
+              </div>
+            ))}
+            {questions.length > 3 && (
+              <div className="text-sm text-muted-foreground">
+                +{questions.length - 3} more questions
+              </div>
+            )}
             {options.slice(0, 3).map((option) => {
               const result = pollResults.find(r => r.option_id === option.id);
               const voteCount = result ? Number(result.vote_count) : 0;
@@ -245,20 +472,65 @@ export function DashboardPollCard({ poll, onPollDeleted }: DashboardPollCardProp
           </div>
 
           <div className="flex justify-between items-center pt-2">
-            <div className="text-xs text-muted-foreground">
-              {poll.expires_at ? `Expires ${new Date(poll.expires_at).toLocaleDateString()}` : 'No expiration'}
+            <div className="flex flex-col gap-1">
+              <div className="text-xs text-muted-foreground">
+                {poll.expires_at ? `Expires ${new Date(poll.expires_at).toLocaleDateString()}` : 'No expiration'}
+              </div>
+              {!poll.is_draft && <PollCountdown poll={poll} />}
             </div>
             <div className="flex space-x-2">
               <Button size="sm" variant="outline" onClick={handleView}>
-                View
+                {poll.is_draft ? 'Preview' : 'View'}
               </Button>
               <Button size="sm" variant="outline" onClick={handleEdit}>
                 Edit
               </Button>
+              {poll.is_draft && (
+                <Button size="sm" onClick={handlePublish} disabled={isPublishing}>
+                  {isPublishing ? 'Publishing...' : 'Publish'}
+                </Button>
+              )}
             </div>
           </div>
         </div>
       </CardContent>
+
+      <Dialog open={templateName !== null} onOpenChange={(open) => !open && setTemplateName(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save as template</DialogTitle>
+            <DialogDescription>
+              The poll&apos;s title, description, options and settings are saved so you can start new polls from them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`template-name-${poll.id}`}>Template name</Label>
+            <Input
+              id={`template-name-${poll.id}`}
+              value={templateName ?? ''}
+              onChange={(e) => setTemplateName(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTemplateName(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveTemplate} disabled={isSavingTemplate || !templateName?.trim()}>
+              {isSavingTemplate ? 'Saving...' : 'Save Template'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {!poll.is_draft && (
+        <>
+          <ShareLinksDialog pollId={poll.id} open={isShareLinksOpen} onOpenChange={setIsShareLinksOpen} />
+          <PollQrDialog pollId={poll.id} open={isQrOpen} onOpenChange={setIsQrOpen} />
+        </>
+      )}
+      {poll.is_invite_only && (
+        <InvitationsDialog pollId={poll.id} open={isInvitationsOpen} onOpenChange={setIsInvitationsOpen} />
+      )}
     </Card>
   );
 }
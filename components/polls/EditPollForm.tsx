@@ -8,8 +8,27 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { toast } from 'sonner';
 import { EditPollFormData, PollWithOptions, EditPollData } from '@/lib/types/database';
+import { VotingMethodFields } from '@/components/polls/VotingMethodFields';
+import { PollScheduleFields } from '@/components/polls/PollScheduleFields';
+import { PollCloseConditionFields } from '@/components/polls/PollCloseConditionFields';
+import { PollEligibilityFields } from '@/components/polls/PollEligibilityFields';
+import { PollMembersPanel } from '@/components/polls/PollMembersPanel';
+import { PollRole, canEditPoll } from '@/lib/polls/members';
+import { SurveyQuestionsFields } from '@/components/polls/SurveyQuestionsFields';
+import { maxOptionsFor, resolveVoteType, validatePollSettings } from '@/lib/polls/settings';
+import { MAX_POLL_PASSWORD_LENGTH, MIN_POLL_PASSWORD_LENGTH } from '@/lib/polls/password';
+import { getOptionVoteCounts } from '@/lib/actions/polls';
+import { isSurvey as isSurveyPoll, questionsToForm } from '@/lib/polls/survey';
 
 interface EditPollFormProps {
   pollId: string;
@@ -21,13 +40,28 @@ export function EditPollForm({ pollId }: EditPollFormProps) {
     description: '',
     options: ['', ''],
     is_public: true,
+    is_unlisted: false,
+    is_invite_only: false,
     allow_multiple_votes: false,
+    vote_type: 'single',
   });
   const [isLoading, setIsLoading] = useState(false);
   const [isInitialLoading, setIsInitialLoading] = useState(true);
   const [error, setError] = useState('');
+  const [originalOptions, setOriginalOptions] = useState<PollWithOptions['poll_options']>([]);
+  const [voteCounts, setVoteCounts] = useState<Record<string, number>>({});
+  const [removalWarning, setRemovalWarning] = useState<string | null>(null);
+  const [isDraft, setIsDraft] = useState(false);
+  // The stored password is never sent back, so a blank password field keeps it
+  const [hadPassword, setHadPassword] = useState(false);
+  const [requirePassword, setRequirePassword] = useState(false);
+  const [role, setRole] = useState<PollRole | null>(null);
 
   const router = useRouter();
+  const hasVotes = Object.values(voteCounts).some(count => count > 0);
+  const optionVotes = (index: number) => voteCounts[formData.option_ids?.[index] ?? ''] ?? 0;
+  const maxOptions = maxOptionsFor(resolveVoteType(formData));
+  const isSurvey = Boolean(formData.questions);
 
   useEffect(() => {
     const fetchPoll = async () => {
@@ -35,29 +69,91 @@ export function EditPollForm({ pollId }: EditPollFormProps) {
         const response = await fetch(`/api/polls/${pollId}`);
         const result = await response.json();
         
-        if (response.ok && result.poll) {
+        if (response.ok && result.poll && !canEditPoll(result.role)) {
+          setError('You can only edit your own polls');
+        } else if (response.ok && result.poll) {
           const poll = result.poll as PollWithOptions;
+          // Survey questions are edited separately from the poll's own options
+          const survey = isSurveyPoll(poll);
+          const pollOptions = survey ? [] : poll.poll_options;
           // Transform PollWithOptions to EditPollData format
           const editPollData: EditPollData = {
             id: poll.id,
             title: poll.title,
             description: poll.description,
-            options: poll.poll_options.map(option => option.text),
+            options: pollOptions.map(option => option.text),
+            option_ids: pollOptions.map(option => option.id),
             is_public: poll.is_public,
+            is_unlisted: poll.is_unlisted,
+            is_invite_only: poll.is_invite_only,
+            allowed_email_domains: poll.allowed_email_domains,
+            min_account_age_days: poll.min_account_age_days,
+            require_verified_email: poll.require_verified_email,
+            has_password: poll.has_password,
             allow_multiple_votes: poll.allow_multiple_votes,
+            vote_type: poll.vote_type,
+            score_max: poll.score_max,
+            min_selections: poll.min_selections,
+            max_selections: poll.max_selections,
+            vote_credits: poll.vote_credits,
+            allow_write_in: poll.allow_write_in,
+            lock_votes: poll.lock_votes,
+            duplicate_protection: poll.duplicate_protection,
+            results_visibility: poll.results_visibility,
+            close_after_votes: poll.close_after_votes,
+            close_after_voters: poll.close_after_voters,
+            close_on_decisive_lead: poll.close_on_decisive_lead,
+            is_draft: poll.is_draft,
+            starts_at: poll.starts_at,
             expires_at: poll.expires_at,
             created_at: poll.created_at,
             updated_at: poll.updated_at,
             created_by: poll.created_by,
           };
+          // Drafts can be saved with fewer than the two options a poll needs
+          const missingOptions = survey ? 0 : Math.max(0, 2 - editPollData.options.length);
           setFormData({
             title: poll.title,
             description: poll.description || '',
-            options: poll.poll_options.map(option => option.text),
+            options: [...editPollData.options, ...Array(missingOptions).fill('')],
+            option_ids: [...editPollData.option_ids, ...Array(missingOptions).fill(null)],
             is_public: poll.is_public,
+            is_unlisted: poll.is_unlisted,
+            is_invite_only: poll.is_invite_only,
+            allowed_email_domains: poll.allowed_email_domains,
+            min_account_age_days: poll.min_account_age_days,
+            require_verified_email: poll.require_verified_email,
             allow_multiple_votes: poll.allow_multiple_votes,
-            expires_at: poll.expires_at || undefined,
+            vote_type: poll.vote_type,
+            score_max: poll.score_max,
+            min_selections: poll.min_selections,
+            max_selections: poll.max_selections,
+            vote_credits: poll.vote_credits,
+            allow_write_in: poll.allow_write_in,
+            lock_votes: poll.lock_votes,
+            duplicate_protection: poll.duplicate_protection,
+            results_visibility: poll.results_visibility,
+            close_after_votes: poll.close_after_votes,
+            close_after_voters: poll.close_after_voters,
+            close_on_decisive_lead: poll.close_on_decisive_lead,
+            starts_at: poll.starts_at,
+            expires_at: poll.expires_at,
+            // Draft survey questions can likewise be short of options
+            questions: survey
+              ? questionsToForm(poll.poll_questions).map(question => ({
+                ...question,
+                options: [...question.options, ...Array(Math.max(0, 2 - question.options.length)).fill('')],
+              }))
+              : undefined,
           });
+          setOriginalOptions(pollOptions);
+          setIsDraft(poll.is_draft);
+          setHadPassword(editPollData.has_password);
+          setRequirePassword(editPollData.has_password);
+          setRole(result.role);
+
+          const counts = await getOptionVoteCounts(pollId);
+          setVoteCounts(counts.data ?? {});
         } else {
           setError(result.error || 'Failed to load poll');
         }
@@ -72,10 +168,11 @@ export function EditPollForm({ pollId }: EditPollFormProps) {
   }, [pollId]);
 
   const addOption = () => {
-    if (formData.options.length < 10) {
+    if (formData.options.length < maxOptions) {
       setFormData((prev: EditPollFormData) => ({
         ...prev,
         options: [...prev.options, ''],
+        option_ids: [...(prev.option_ids ?? []), null],
       }));
     }
   };
@@ -85,6 +182,7 @@ export function EditPollForm({ pollId }: EditPollFormProps) {
       setFormData((prev: EditPollFormData) => ({
         ...prev,
         options: prev.options.filter((_: string, i: number) => i !== index),
+        option_ids: prev.option_ids?.filter((_, i: number) => i !== index),
       }));
     }
   };
@@ -120,13 +218,51 @@ export function EditPollForm({ pollId }: EditPollFormProps) {
       return;
     }
 
+    const settingsError = validatePollSettings(submittedData());
+    if (settingsError) {
+      setError(settingsError);
+      setIsLoading(false);
+      return;
+    }
+
+    // Removing an option deletes the votes cast for it, so ask first
+    const removedWithVotes = originalOptions.filter(option =>
+      !formData.option_ids?.includes(option.id) && (voteCounts[option.id] ?? 0) > 0
+    );
+    if (removedWithVotes.length > 0) {
+      const lostVotes = removedWithVotes.reduce((sum, option) => sum + voteCounts[option.id], 0);
+      setRemovalWarning(
+        `Removing ${removedWithVotes.map(option => `"${option.text}"`).join(', ')} will delete ` +
+        `${lostVotes} vote${lostVotes !== 1 ? 's' : ''}. This cannot be undone.`
+      );
+      setIsLoading(false);
+      return;
+    }
+
+    await saveChanges(false);
+  };
+
+  // Published survey questions can't change, so only drafts send them.
+  // An existing password is kept unless a new one is typed or it's turned off.
+  const submittedData = (): EditPollFormData => ({
+    ...formData,
+    questions: isSurvey && !isDraft ? undefined : formData.questions,
+    password: !requirePassword
+      ? (hadPassword ? null : undefined)
+      : formData.password || (hadPassword ? undefined : ''),
+  });
+
+  const saveChanges = async (confirmRemoval: boolean) => {
+    setIsLoading(true);
+    setRemovalWarning(null);
+
     try {
       const response = await fetch(`/api/polls/${pollId}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({ ...submittedData(), confirm_option_removal: confirmRemoval }),
       });
 
       const result = await response.json();
@@ -134,6 +270,9 @@ export function EditPollForm({ pollId }: EditPollFormProps) {
       if (response.ok) {
         toast.success('Poll updated successfully!');
         router.push('/dashboard');
+      } else if (response.status === 409) {
+        // Votes were cast for a removed option since the form was loaded
+        setRemovalWarning(result.error);
       } else {
         setError(result.error || 'Failed to update poll. Please try again.');
       }
@@ -168,119 +307,252 @@ export function EditPollForm({ pollId }: EditPollFormProps) {
   }
 
   return (
-    <Card className="w-full max-w-2xl mx-auto">
-      <CardHeader>
-        <CardTitle>Edit Poll</CardTitle>
-        <CardDescription>
-          Update your poll details and options
-        </CardDescription>
-      </CardHeader>
-      <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div className="space-y-2">
-            <Label htmlFor="title">Poll Title *</Label>
-            <Input
-              id="title"
-              placeholder="What's your question?"
-              value={formData.title}
-              onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
-              required
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="description">Description (Optional)</Label>
-            <Textarea
-              id="description"
-              placeholder="Add more context to your poll..."
-              value={formData.description}
-              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
-              rows={3}
-            />
-          </div>
-
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <Label>Poll Options *</Label>
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={addOption}
-                disabled={formData.options.length >= 10}
-              >
-                Add Option
-              </Button>
+    <div className="space-y-6">
+      <Card className="w-full max-w-2xl mx-auto">
+        <CardHeader>
+          <CardTitle>Edit Poll</CardTitle>
+          <CardDescription>
+            Update your poll details and options
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {hasVotes && !isSurvey && (
+            <div className="mb-6 rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800">
+              This poll already has votes. Renaming or reordering options keeps their votes,
+              but removing an option deletes the votes cast for it.
             </div>
-            
-            <div className="space-y-3">
-              {formData.options.map((option, index) => (
-                <div key={index} className="flex items-center space-x-2">
-                  <Input
-                    placeholder={`Option ${index + 1}`}
-                    value={option}
-                    onChange={(e) => updateOption(index, e.target.value)}
-                    required
-                  />
-                  {formData.options.length > 2 && (
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      onClick={() => removeOption(index)}
-                    >
-                      Remove
-                    </Button>
-                  )}
-                </div>
-              ))}
+          )}
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="title">Poll Title *</Label>
+              <Input
+                id="title"
+                placeholder="What's your question?"
+                value={formData.title}
+                onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                required
+              />
             </div>
-          </div>
-
-          <div className="space-y-4">
-            <div className="flex items-center space-x-2">
-              <input
-                type="checkbox"
-                id="isPublic"
-                checked={formData.is_public}
-                onChange={(e) => setFormData(prev => ({ ...prev, is_public: e.target.checked }))}
-                className="rounded"
+
+            <div className="space-y-2">
+              <Label htmlFor="description">Description (Optional)</Label>
+              <Textarea
+                id="description"
+                placeholder="Add more context to your poll..."
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                rows={3}
               />
-              <Label htmlFor="isPublic">Make this poll public</Label>
             </div>
 
-            <div className="flex items-center space-x-2">
-              <input
-                type="checkbox"
-                id="allowMultipleVotes"
-                checked={formData.allow_multiple_votes}
-                onChange={(e) => setFormData(prev => ({ ...prev, allow_multiple_votes: e.target.checked }))}
-                className="rounded"
+            {isSurvey ? (
+              <SurveyQuestionsFields
+                questions={formData.questions ?? []}
+                onChange={(questions) => setFormData(prev => ({ ...prev, questions }))}
+                readOnly={!isDraft}
+              />
+            ) : (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label>
+                    Poll Options * <span className="font-normal text-muted-foreground">(up to {maxOptions})</span>
+                  </Label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={addOption}
+                    disabled={formData.options.length >= maxOptions}
+                  >
+                    Add Option
+                  </Button>
+                </div>
+                
+                <div className="space-y-3">
+                  {formData.options.map((option, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <Input
+                        placeholder={`Option ${index + 1}`}
+                        value={option}
+                        onChange={(e) => updateOption(index, e.target.value)}
+                        required
+                      />
+                      {optionVotes(index) > 0 && (
+                        <span className="whitespace-nowrap text-xs text-muted-foreground">
+                          {optionVotes(index)} vote{optionVotes(index) !== 1 ? 's' : ''}
+                        </span>
+                      )}
+                      {formData.options.length > 2 && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => removeOption(index)}
+                        >
+                          Remove
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="isPublic"
+                  checked={formData.is_public}
+                  onChange={(e) => setFormData(prev => ({ ...prev, is_public: e.target.checked }))}
+                  className="rounded"
+                />
+                <Label htmlFor="isPublic">Make this poll public</Label>
+              </div>
+
+              {!formData.is_public && (
+                <div className="space-y-1 pl-6">
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="isUnlisted"
+                      checked={formData.is_unlisted}
+                      onChange={(e) => setFormData(prev => ({ ...prev, is_unlisted: e.target.checked }))}
+                      className="rounded"
+                    />
+                    <Label htmlFor="isUnlisted">Anyone with the secret link can view and vote</Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    The poll stays out of the public listings. Copy its link from your dashboard.
+                  </p>
+                </div>
+              )}
+
+              {(formData.is_public || formData.is_unlisted) && (
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="isInviteOnly"
+                      checked={formData.is_invite_only}
+                      onChange={(e) => setFormData(prev => ({ ...prev, is_invite_only: e.target.checked }))}
+                      className="rounded"
+                    />
+                    <Label htmlFor="isInviteOnly">Only invited people can vote</Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground pl-6">
+                    Add invitees and send their invitations from your dashboard.
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="requirePassword"
+                    checked={requirePassword}
+                    onChange={(e) => setRequirePassword(e.target.checked)}
+                    className="rounded"
+                  />
+                  <Label htmlFor="requirePassword">Require a password to view and vote</Label>
+                </div>
+                {requirePassword && (
+                  <div className="space-y-1 pl-6">
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder={hadPassword ? 'New password' : 'Access password'}
+                      value={formData.password ?? ''}
+                      onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+                      minLength={MIN_POLL_PASSWORD_LENGTH}
+                      maxLength={MAX_POLL_PASSWORD_LENGTH}
+                      autoComplete="new-password"
+                    />
+                    {hadPassword && (
+                      <p className="text-xs text-muted-foreground">
+                        Leave blank to keep the current password. Changing it locks out everyone who entered the old one.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="lockVotes"
+                  checked={Boolean(formData.lock_votes)}
+                  onChange={(e) => setFormData(prev => ({ ...prev, lock_votes: e.target.checked }))}
+                  className="rounded"
+                />
+                <Label htmlFor="lockVotes">Lock votes once cast</Label>
+              </div>
+
+              <VotingMethodFields
+                settings={formData}
+                onChange={(patch) => setFormData(prev => ({ ...prev, ...patch }))}
+                isSurvey={isSurvey}
+                lockVotingMethod={hasVotes}
+              />
+
+              <PollScheduleFields
+                settings={formData}
+                onChange={(patch) => setFormData(prev => ({ ...prev, ...patch }))}
+              />
+
+              <PollCloseConditionFields
+                settings={formData}
+                onChange={(patch) => setFormData(prev => ({ ...prev, ...patch }))}
+                isSurvey={isSurvey}
+              />
+
+              <PollEligibilityFields
+                settings={formData}
+                onChange={(patch) => setFormData(prev => ({ ...prev, ...patch }))}
               />
-              <Label htmlFor="allowMultipleVotes">Allow multiple votes per user</Label>
             </div>
-          </div>
 
-          {error && (
-            <div className="text-sm text-red-600">
-              {error}
+            {error && (
+              <div className="text-sm text-red-600">
+                {error}
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => router.push('/dashboard')}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Updating...' : 'Update Poll'}
+              </Button>
             </div>
-          )}
+          </form>
+
+          <Dialog open={removalWarning !== null} onOpenChange={(open) => !open && setRemovalWarning(null)}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Remove options with votes?</DialogTitle>
+                <DialogDescription>{removalWarning}</DialogDescription>
+              </DialogHeader>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setRemovalWarning(null)}>
+                  Keep Editing
+                </Button>
+                <Button variant="destructive" onClick={() => saveChanges(true)} disabled={isLoading}>
+                  Remove and Update
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </CardContent>
+      </Card>
 
-          <div className="flex justify-end space-x-2">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={() => router.push('/dashboard')}
-            >
-              Cancel
-            </Button>
-            <Button type="submit" disabled={isLoading}>
-              {isLoading ? 'Updating...' : 'Update Poll'}
-            </Button>
-          </div>
-        </form>
-      </CardContent>
-    </Card>
+      <PollMembersPanel pollId={pollId} canManage={role === 'owner'} />
+    </div>
   );
 }
@@ -0,0 +1,214 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Copy, Mail, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { PollInvitationWithStatus } from '@/lib/types/database';
+import { addInvitations, getInvitations, removeInvitation, sendInvitations } from '@/lib/actions/invitations';
+
+interface InvitationsDialogProps {
+  pollId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Manages the invitation list of an invite-only poll: invitees are added
+ * by pasting their addresses, and the list shows who has voted. Invitations
+ * can be emailed one at a time or to everyone who hasn't voted yet, and
+ * each invitee's personal link can be copied to share it another way.
+ */
+export function InvitationsDialog({ pollId, open, onOpenChange }: InvitationsDialogProps) {
+  const [invitations, setInvitations] = useState<PollInvitationWithStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [emails, setEmails] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  const [isSendingAll, setIsSendingAll] = useState(false);
+
+  const fetchInvitations = useCallback(async () => {
+    const result = await getInvitations(pollId);
+    if (result.error) {
+      toast.error(result.error);
+    }
+    setInvitations(result.invitations);
+  }, [pollId]);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    setIsLoading(true);
+    fetchInvitations().finally(() => setIsLoading(false));
+  }, [open, fetchInvitations]);
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    try {
+      const result = await addInvitations(pollId, emails);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to add invitations');
+      }
+
+      setEmails('');
+      toast.success(result.added === 0
+        ? 'Everyone listed was already invited'
+        : `${result.added} ${result.added === 1 ? 'person' : 'people'} added. Send their invitations when you're ready.`);
+      await fetchInvitations();
+    } catch (error) {
+      console.error('Error adding invitations:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add invitations. Please try again.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleSend = async (invitationId?: string) => {
+    if (invitationId) {
+      setSendingId(invitationId);
+    } else {
+      setIsSendingAll(true);
+    }
+    try {
+      const result = await sendInvitations(pollId, invitationId ? [invitationId] : undefined);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to send invitations');
+      }
+
+      toast.success(`${result.sent} invitation${result.sent !== 1 ? 's' : ''} sent`);
+      if (result.failed) {
+        toast.error(`${result.failed} invitation${result.failed !== 1 ? 's' : ''} couldn't be sent`);
+      }
+      await fetchInvitations();
+    } catch (error) {
+      console.error('Error sending invitations:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send invitations. Please try again.');
+    } finally {
+      setSendingId(null);
+      setIsSendingAll(false);
+    }
+  };
+
+  const handleRemove = async (invitationId: string) => {
+    const result = await removeInvitation(invitationId);
+
+    if (result.success) {
+      setInvitations(invitations.filter(invitation => invitation.id !== invitationId));
+    } else {
+      toast.error(result.error || 'Failed to remove invitation');
+    }
+  };
+
+  const handleCopy = (url: string) => {
+    navigator.clipboard.writeText(url);
+    toast.success('Invitation link copied to clipboard!');
+  };
+
+  const votedCount = invitations.filter(invitation => invitation.has_voted).length;
+  const nonVoterCount = invitations.length - votedCount;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Invitations</DialogTitle>
+          <DialogDescription>
+            Only the people you invite can vote, signed in with the invited address or through their personal link.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor={`invitees-${pollId}`}>Invite people</Label>
+          <Textarea
+            id={`invitees-${pollId}`}
+            placeholder="Paste email addresses, separated by commas or new lines"
+            rows={3}
+            value={emails}
+            onChange={(e) => setEmails(e.target.value)}
+          />
+          <div className="flex justify-end">
+            <Button onClick={handleAdd} disabled={isAdding || !emails.trim()}>
+              {isAdding ? 'Adding...' : 'Add Invitees'}
+            </Button>
+          </div>
+        </div>
+
+        {invitations.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-2 border-t pt-4">
+            <span className="text-sm text-muted-foreground">
+              {votedCount} of {invitations.length} invitee{invitations.length !== 1 ? 's' : ''} voted
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isSendingAll || nonVoterCount === 0}
+              onClick={() => handleSend()}
+            >
+              <Mail className="mr-2 h-4 w-4" />
+              {isSendingAll ? 'Sending...' : `Email ${nonVoterCount} Non-voter${nonVoterCount !== 1 ? 's' : ''}`}
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading invitations...</p>
+          ) : invitations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nobody invited yet.</p>
+          ) : (
+            invitations.map((invitation) => (
+              <div key={invitation.id} className="flex items-center justify-between gap-2 rounded-md border p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">{invitation.email}</span>
+                    <Badge variant={invitation.has_voted ? 'default' : 'outline'} className="text-xs">
+                      {invitation.has_voted ? 'Voted' : 'Not voted'}
+                    </Badge>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {invitation.sent_at
+                      ? `Sent ${invitation.send_count} time${invitation.send_count !== 1 ? 's' : ''}, last ${new Date(invitation.sent_at).toLocaleString()}`
+                      : 'Not sent yet'}
+                  </div>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => handleCopy(invitation.url)} aria-label="Copy invitation link">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  {!invitation.has_voted && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={sendingId === invitation.id}
+                      onClick={() => handleSend(invitation.id)}
+                      aria-label={invitation.sent_at ? 'Resend invitation' : 'Send invitation'}
+                    >
+                      <Mail className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(invitation.id)} aria-label="Remove invitation">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
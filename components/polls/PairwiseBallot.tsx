@@ -0,0 +1,93 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { PollWithOptions } from '@/lib/types/database';
+import { PairwiseComparison, pairKey, selectNextPair } from '@/lib/voting/pairwise';
+import { Undo2 } from 'lucide-react';
+
+interface PairwiseBallotProps {
+  options: PollWithOptions['poll_options'];
+  comparisons: PairwiseComparison[];
+  ratings: Record<string, number>;
+  onComparisonsChange: (comparisons: PairwiseComparison[]) => void;
+}
+
+/**
+ * Ballot for pairwise polls.
+ *
+ * Shows one pair of options at a time and records which one the voter
+ * prefers. Pairs are picked adaptively so every option comes up early and
+ * close contests are asked about first. Voters can skip a pair, undo their
+ * last pick and submit whenever they have compared enough.
+ */
+export function PairwiseBallot({ options, comparisons, ratings, onComparisonsChange }: PairwiseBallotProps) {
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const optionText = (optionId: string) =>
+    options.find(option => option.id === optionId)?.text ?? '';
+
+  const optionIds = useMemo(() => options.map(option => option.id), [options]);
+  const pair = useMemo(() => {
+    const seen = new Set(skipped);
+    comparisons.forEach(c => seen.add(pairKey(c.winner_id, c.loser_id)));
+    return selectNextPair(optionIds, seen, ratings);
+  }, [optionIds, comparisons, skipped, ratings]);
+
+  const pick = (winnerId: string, loserId: string) => {
+    onComparisonsChange([...comparisons, { winner_id: winnerId, loser_id: loserId }]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {pair ? (
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium">Which do you prefer?</h3>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {[0, 1].map((index) => (
+              <Button
+                key={pair[index]}
+                type="button"
+                variant="outline"
+                className="h-auto whitespace-normal py-4 text-base"
+                onClick={() => pick(pair[index], pair[1 - index])}
+              >
+                {optionText(pair[index])}
+              </Button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          You have seen every pair. Submit your vote when you are ready.
+        </p>
+      )}
+
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>
+          {comparisons.length} comparison{comparisons.length !== 1 ? 's' : ''} made
+        </span>
+        <div className="flex items-center space-x-2">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onComparisonsChange(comparisons.slice(0, -1))}
+            disabled={comparisons.length === 0}
+          >
+            <Undo2 className="mr-1 h-4 w-4" />
+            Undo
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => pair && setSkipped(prev => [...prev, pairKey(pair[0], pair[1])])}
+            disabled={!pair}
+          >
+            Skip pair
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { PollWithOptions } from '@/lib/types/database';
+import { PairwiseResult } from '@/lib/voting/pairwise';
+import { cn } from '@/lib/utils';
+
+interface PairwiseResultsProps {
+  options: PollWithOptions['poll_options'];
+  result: PairwiseResult | null;
+  isLoading: boolean;
+}
+
+/**
+ * Results for pairwise polls: the full ranking with each option's rating
+ * and record, followed by the head-to-head win matrix.
+ */
+export function PairwiseResults({ options, result, isLoading }: PairwiseResultsProps) {
+  const optionText = (optionId: string) =>
+    options.find(option => option.id === optionId)?.text ?? 'Unknown option';
+  const totalComparisons = result?.totalComparisons ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Current Results</CardTitle>
+        <CardDescription>
+          {totalComparisons} comparison{totalComparisons !== 1 ? 's' : ''} • pairwise ranking
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading results...</p>
+        ) : !result || totalComparisons === 0 ? (
+          <p className="text-sm text-muted-foreground">No comparisons have been made yet.</p>
+        ) : (
+          <div className="space-y-6">
+            <ol className="space-y-2">
+              {result.ranking.map((entry, index) => (
+                <li key={entry.option_id} className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-medium">
+                      {index + 1}. {optionText(entry.option_id)}
+                    </span>
+                    {entry.option_id === result.condorcetWinner && (
+                      <Badge variant="default" className="text-xs">Condorcet winner</Badge>
+                    )}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {entry.rating} • {entry.wins}–{entry.losses}
+                  </div>
+                </li>
+              ))}
+            </ol>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Head-to-head wins</h3>
+              <p className="text-xs text-muted-foreground">
+                Each cell shows how often the row option was preferred over the column option.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="text-xs">
+                  <thead>
+                    <tr>
+                      <th />
+                      {result.ranking.map((_, index) => (
+                        <th key={index} className="px-2 py-1 font-medium">{index + 1}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.ranking.map((row, rowIndex) => (
+                      <tr key={row.option_id}>
+                        <th className="max-w-40 truncate px-2 py-1 text-left font-medium">
+                          {rowIndex + 1}. {optionText(row.option_id)}
+                        </th>
+                        {result.ranking.map((column) => {
+                          if (row.option_id === column.option_id) {
+                            return <td key={column.option_id} className="px-2 py-1 text-center text-muted-foreground">–</td>;
+                          }
+                          const wins = result.matrix[row.option_id][column.option_id];
+                          const losses = result.matrix[column.option_id][row.option_id];
+                          return (
+                            <td
+                              key={column.option_id}
+                              className={cn(
+                                'px-2 py-1 text-center tabular-nums',
+                                wins > losses && 'font-semibold text-green-600',
+                                wins < losses && 'text-muted-foreground'
+                              )}
+                            >
+                              {wins}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { getPollResults } from '@/lib/actions/polls';
+import { VOTE_TYPE_BADGES, isChoiceVoteType } from '@/lib/voting/vote-types';
+import { statusForSchedule } from '@/lib/polls/schedule';
+import { sortedQuestions } from '@/lib/polls/survey';
+import { PollCountdown } from '@/components/polls/PollCountdown';
 
 interface PollCardProps {
   poll: PollWithOptions;
@@ -22,11 +26,15 @@ interface PollResult {
 export function PollCard({ poll }: PollCardProps) {
   const [pollResults, setPollResults] = useState<PollResult[]>([]);
   const [isLoadingResults, setIsLoadingResults] = useState(true);
+  const [resultsHidden, setResultsHidden] = useState(false);
   
-  const isExpired = Boolean(poll.expires_at && new Date(poll.expires_at) < new Date());
+  const isExpired = poll.status === 'expired' || Boolean(poll.expires_at && new Date(poll.expires_at) < new Date());
+  const isScheduled = !isExpired && statusForSchedule(poll) === 'inactive';
   
+  // Survey options belong to their questions, which are previewed instead
+  const questions = sortedQuestions(poll.poll_questions);
   // Ensure poll_options is always an array
-  const options = poll.poll_options || [];
+  const options = questions.length > 0 ? [] : poll.poll_options || [];
 
   // Fetch poll results on component mount
   useEffect(() => {
@@ -36,6 +44,7 @@ export function PollCard({ poll }: PollCardProps) {
         const result = await getPollResults(poll.id);
         if (result.success && result.data) {
           setPollResults(result.data);
+          setResultsHidden(Boolean('hidden' in result && result.hidden));
         }
       } catch (error) {
         console.error('Error fetching poll results:', error);
@@ -70,7 +79,17 @@ export function PollCard({ poll }: PollCardProps) {
             <div className="flex space-x-1">
               {!poll.is_public && (
                 <Badge variant="secondary" className="text-xs">
-                  Private
+                  {poll.is_unlisted ? 'Unlisted' : 'Private'}
+                </Badge>
+              )}
+              {poll.has_password && (
+                <Badge variant="secondary" className="text-xs">
+                  Password
+                </Badge>
+              )}
+              {poll.is_invite_only && (
+                <Badge variant="secondary" className="text-xs">
+                  Invite only
                 </Badge>
               )}
               {poll.allow_multiple_votes && (
@@ -78,6 +97,16 @@ export function PollCard({ poll }: PollCardProps) {
                   Multiple votes
                 </Badge>
               )}
+              {!isChoiceVoteType(poll.vote_type) && (
+                <Badge variant="outline" className="text-xs">
+                  {VOTE_TYPE_BADGES[poll.vote_type]}
+                </Badge>
+              )}
+              {isScheduled && (
+                <Badge variant="secondary" className="text-xs">
+                  Scheduled
+                </Badge>
+              )}
               {isExpired && (
                 <Badge variant="destructive" className="text-xs">
                   Expired
@@ -90,10 +119,22 @@ export function PollCard({ poll }: PollCardProps) {
       <CardContent>
         <div className="space-y-3">
           <div className="text-sm text-muted-foreground">
-            {options.length} options • {totalVotes} votes
+            {questions.length > 0
+              ? `Survey • ${questions.length} questions`
+              : `${options.length} options • ${resultsHidden ? 'results hidden' : `${totalVotes} votes`}`}
           </div>
           
           <div className="space-y-2">
+            {questions.slice(0, 3).map((question, index) => (
+              <div key={question.id} className="text-sm truncate">
+                {index + 1}. {question.prompt}
+              </div>
+            ))}
+            {questions.length > 3 && (
+              <div className="text-sm text-muted-foreground">
+                +{questions.length - 3} more questions
+              </div>
+            )}
             {options.slice(0, 3).map((option) => {
               const result = pollResults.find(r => r.option_id === option.id);
               const voteCount = result ? Number(result.vote_count) : 0;
@@ -103,16 +144,20 @@ export function PollCard({ poll }: PollCardProps) {
                 <div key={option.id} className="space-y-1">
                   <div className="flex justify-between text-sm">
                     <span className="truncate">{option.text}</span>
-                    <span className="text-muted-foreground">
-                      {isLoadingResults ? '...' : `${voteCount} vote${voteCount !== 1 ? 's' : ''}`}
-                    </span>
-                  </div>
-                  <div className="w-full bg-secondary rounded-full h-2">
-                    <div
-                      className="bg-primary h-2 rounded-full transition-all"
-                      style={{ width: `${percentage}%` }}
-                    />
+                    {!resultsHidden && (
+                      <span className="text-muted-foreground">
+                        {isLoadingResults ? '...' : `${voteCount} vote${voteCount !== 1 ? 's' : ''}`}
+                      </span>
+                    )}
                   </div>
+                  {!resultsHidden && (
+                    <div className="w-full bg-secondary rounded-full h-2">
+                      <div
+                        className="bg-primary h-2 rounded-full transition-all"
+                        style={{ width: `${percentage}%` }}
+                      />
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -124,12 +169,15 @@ export function PollCard({ poll }: PollCardProps) {
           </div>
 
           <div className="flex justify-between items-center pt-2">
-            <div className="text-xs text-muted-foreground">
-              Created {new Date(poll.created_at).toLocaleDateString()}
+            <div className="flex flex-col gap-1">
+              <div className="text-xs text-muted-foreground">
+                Created {new Date(poll.created_at).toLocaleDateString()}
+              </div>
+              <PollCountdown poll={poll} />
             </div>
             <Button size="sm" asChild>
               <Link href={`/polls/${poll.id}`}>
-                {isExpired ? 'View Results' : 'Vote Now'}
+                {isExpired ? 'View Results' : isScheduled ? 'View Poll' : 'Vote Now'}
               </Link>
             </Button>
           </div>
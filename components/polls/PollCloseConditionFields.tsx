@@ -0,0 +1,75 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CreatePollData } from '@/lib/types/database';
+import { isChoiceVoteType } from '@/lib/voting/vote-types';
+
+export type PollCloseConditionSettings = Pick<
+  CreatePollData,
+  'vote_type' | 'close_after_votes' | 'close_after_voters' | 'close_on_decisive_lead'
+>;
+
+interface PollCloseConditionFieldsProps {
+  settings: PollCloseConditionSettings;
+  onChange: (patch: Partial<PollCloseConditionSettings>) => void;
+  /** Surveys count whole responses, so no single option can lead. */
+  isSurvey?: boolean;
+}
+
+/**
+ * Turnout targets that close a poll automatically, shared by the create
+ * and edit poll forms. They apply alongside the closing time: whichever
+ * comes first closes the poll.
+ */
+export function PollCloseConditionFields({ settings, onChange, isSurvey = false }: PollCloseConditionFieldsProps) {
+  const parseTarget = (value: string) => (value ? Math.floor(Number(value)) : null);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="closeAfterVotes">Close after votes</Label>
+          <Input
+            id="closeAfterVotes"
+            type="number"
+            min={1}
+            placeholder="No limit"
+            value={settings.close_after_votes ?? ''}
+            onChange={(e) => onChange({ close_after_votes: parseTarget(e.target.value) })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="closeAfterVoters">Close after voters</Label>
+          <Input
+            id="closeAfterVoters"
+            type="number"
+            min={1}
+            placeholder="No limit"
+            value={settings.close_after_voters ?? ''}
+            onChange={(e) => onChange({ close_after_voters: parseTarget(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      {!isSurvey && isChoiceVoteType(settings.vote_type ?? 'single') && (
+        <div className="space-y-1">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="closeOnDecisiveLead"
+              checked={Boolean(settings.close_on_decisive_lead)}
+              onCheckedChange={(checked) => onChange({ close_on_decisive_lead: checked as boolean })}
+              aria-label="Close early once an option can't be caught"
+            />
+            <Label htmlFor="closeOnDecisiveLead">Close early once an option can&apos;t be caught</Label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Closes the poll as soon as the leading option is ahead by more votes than are left before the target.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
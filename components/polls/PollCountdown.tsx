@@ -0,0 +1,45 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { PollStatus } from '@/lib/types/database';
+import { pollCountdown } from '@/lib/polls/schedule';
+
+interface PollCountdownProps {
+  poll: {
+    status: PollStatus;
+    starts_at: string | null;
+    expires_at: string | null;
+  };
+  className?: string;
+}
+
+const TICK_INTERVAL = 30 * 1000;
+
+/**
+ * Live "Opens in …" / "Closes in …" countdown for a scheduled poll.
+ * Renders nothing when the poll has no upcoming opening or closing time.
+ *
+ * The time is only read after mounting, so server and client renders match.
+ */
+export function PollCountdown({ poll, className }: PollCountdownProps) {
+  const [now, setNow] = useState<Date | null>(null);
+
+  useEffect(() => {
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), TICK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  const countdown = now ? pollCountdown(poll, now) : null;
+  if (!countdown) {
+    return null;
+  }
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs text-muted-foreground ${className ?? ''}`}>
+      <Clock className="h-3 w-3" />
+      {countdown}
+    </span>
+  );
+}
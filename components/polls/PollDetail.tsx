@@ -1,6 +1,8 @@
 'use client';
 
 import { useState, useMemo, useCallback, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { PollWithOptions } from '@/lib/types/database';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -8,12 +10,53 @@ import { Badge } from '@/components/ui/badge';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import { toast } from 'sonner';
-import { getPollResults } from '@/lib/actions/polls';
+import {
+  getPairwiseResults,
+  getPollResults,
+  getQuadraticResults,
+  getRankedChoiceResults,
+  getScoreResults,
+  getSurveyResults,
+  getWriteInResults,
+  getMyVote,
+  getPollTurnout,
+  promoteWriteIn,
+  publishPoll,
+} from '@/lib/actions/polls';
+import { PollTurnout, closeProgress, formatCloseProgress, hasCloseConditions } from '@/lib/polls/close-conditions';
+import { SurveyQuestionResult, isSurvey, sortedQuestions, validateSurveyAnswer } from '@/lib/polls/survey';
+import { checkEligibility, describeEligibility, hasEligibilityRules } from '@/lib/polls/eligibility';
+import { PollRole, canEditPoll } from '@/lib/polls/members';
+import { BallotSubmission } from '@/lib/voting/ballot';
+import { RunoffResult } from '@/lib/voting/instant-runoff';
+import { OptionScore } from '@/lib/voting/score';
+import { OptionQuadraticTally, quadraticCost } from '@/lib/voting/quadratic';
+import { PairwiseComparison, PairwiseResult } from '@/lib/voting/pairwise';
+import { MAX_WRITE_IN_LENGTH, WriteInGroup } from '@/lib/voting/write-ins';
+import { PollCountdown } from '@/components/polls/PollCountdown';
+import { VOTE_TYPE_INSTRUCTIONS, VOTE_TYPE_LABELS, selectionLimitInstructions } from '@/lib/voting/vote-types';
+import { RankedChoiceBallot } from '@/components/polls/RankedChoiceBallot';
+import { RankedChoiceResults } from '@/components/polls/RankedChoiceResults';
+import { ScoreBallot } from '@/components/polls/ScoreBallot';
+import { ScoreResults } from '@/components/polls/ScoreResults';
+import { QuadraticBallot } from '@/components/polls/QuadraticBallot';
+import { QuadraticResults } from '@/components/polls/QuadraticResults';
+import { PairwiseBallot } from '@/components/polls/PairwiseBallot';
+import { PairwiseResults } from '@/components/polls/PairwiseResults';
+import { WriteInResults } from '@/components/polls/WriteInResults';
+import { SurveyResults } from '@/components/polls/SurveyResults';
+import { useAuth } from '@/lib/hooks/useAuth';
+
+// Stands in for the write-in answer among the selected options
+const WRITE_IN_OPTION = 'write-in';
 
 interface PollDetailProps {
   poll: PollWithOptions;
+  /** The viewer's role on the poll, if it was shared with them or is theirs. */
+  role?: PollRole | null;
 }
 
 interface PollResult {
@@ -54,11 +97,35 @@ function PollHeader({ poll, isExpired }: { poll: PollWithOptions; isExpired: boo
           )}
           <div className="flex flex-wrap gap-2">
             {!poll.is_public && (
-              <Badge variant="secondary">Private</Badge>
+              <Badge variant="secondary">{poll.is_unlisted ? 'Unlisted' : 'Private'}</Badge>
+            )}
+            {poll.has_password && (
+              <Badge variant="secondary">Password</Badge>
+            )}
+            {poll.is_invite_only && (
+              <Badge variant="secondary">Invite only</Badge>
+            )}
+            {hasEligibilityRules(poll) && (
+              <Badge variant="secondary">Restricted voting</Badge>
             )}
             {poll.allow_multiple_votes && (
               <Badge variant="outline">Multiple votes allowed</Badge>
             )}
+            {isSurvey(poll) && (
+              <Badge variant="outline">Survey • {poll.poll_questions?.length} questions</Badge>
+            )}
+            {poll.vote_type === 'ranked' && (
+              <Badge variant="outline">Ranked choice</Badge>
+            )}
+            {poll.vote_type === 'score' && (
+              <Badge variant="outline">Rated 1–{poll.score_max}</Badge>
+            )}
+            {poll.vote_type === 'pairwise' && (
+              <Badge variant="outline">Pairwise comparison</Badge>
+            )}
+            {poll.vote_type === 'quadratic' && (
+              <Badge variant="outline">{poll.vote_credits} credits per voter</Badge>
+            )}
             {isExpired && (
               <Badge variant="destructive">Expired</Badge>
             )}
@@ -112,14 +179,35 @@ function VotingOptions({
   options,
   selectedOptions,
   allowMultipleVotes,
-  onOptionChange
+  maxSelections,
+  writeIn,
+  onOptionChange,
+  onWriteInChange
 }: {
   options: PollWithOptions['poll_options'];
   selectedOptions: string[];
   allowMultipleVotes: boolean;
+  maxSelections: number | null;
+  writeIn: string | null;
   onOptionChange: (optionId: string, checked: boolean) => void;
+  onWriteInChange: (text: string) => void;
 }) {
+  const isWritingIn = selectedOptions.includes(WRITE_IN_OPTION);
+  const writeInInput = writeIn !== null && isWritingIn && (
+    <Input
+      aria-label="Your answer"
+      placeholder="Your answer"
+      value={writeIn}
+      maxLength={MAX_WRITE_IN_LENGTH}
+      onChange={(e) => onWriteInChange(e.target.value)}
+      autoFocus
+    />
+  );
+
   if (allowMultipleVotes) {
+    // Once the maximum is reached only already-selected options can be toggled
+    const isAtMax = maxSelections !== null && selectedOptions.length >= maxSelections;
+
     return (
       <div className="space-y-3">
         {options.map((option) => (
@@ -127,6 +215,7 @@ function VotingOptions({
             <Checkbox
               id={option.id}
               checked={selectedOptions.includes(option.id)}
+              disabled={isAtMax && !selectedOptions.includes(option.id)}
               onCheckedChange={(checked) => 
                 onOptionChange(option.id, checked as boolean)
               }
@@ -139,6 +228,20 @@ function VotingOptions({
             </Label>
           </div>
         ))}
+        {writeIn !== null && (
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={WRITE_IN_OPTION}
+              checked={isWritingIn}
+              disabled={isAtMax && !isWritingIn}
+              onCheckedChange={(checked) =>
+                onOptionChange(WRITE_IN_OPTION, checked as boolean)
+              }
+            />
+            <Label htmlFor={WRITE_IN_OPTION}>Other</Label>
+          </div>
+        )}
+        {writeInInput}
       </div>
     );
   }
@@ -154,6 +257,13 @@ function VotingOptions({
           <Label htmlFor={option.id}>{option.text}</Label>
         </div>
       ))}
+      {writeIn !== null && (
+        <div className="flex items-center space-x-2">
+          <RadioGroupItem value={WRITE_IN_OPTION} id={WRITE_IN_OPTION} />
+          <Label htmlFor={WRITE_IN_OPTION}>Other</Label>
+        </div>
+      )}
+      {writeInInput}
     </RadioGroup>
   );
 }
@@ -200,41 +310,103 @@ function VotingForm({
   poll,
   options,
   selectedOptions,
+  scores,
+  allocations,
+  comparisons,
+  ratings,
+  writeIn,
   voterInfo,
   isSubmitting,
+  canSubmit,
+  isChangingVote,
+  isRetracting,
   onOptionChange,
   onVoterInfoChange,
+  onRankingChange,
+  onScoreChange,
+  onAllocationChange,
+  onComparisonsChange,
+  onWriteInChange,
+  onRetract,
   onSubmit
 }: {
   poll: PollWithOptions;
   options: PollWithOptions['poll_options'];
   selectedOptions: string[];
+  scores: Record<string, number>;
+  allocations: Record<string, number>;
+  comparisons: PairwiseComparison[];
+  ratings: Record<string, number>;
+  writeIn: string;
   voterInfo: VoterInfo;
   isSubmitting: boolean;
+  canSubmit: boolean;
+  isChangingVote: boolean;
+  isRetracting: boolean;
   onOptionChange: (optionId: string, checked: boolean) => void;
   onVoterInfoChange: (field: keyof VoterInfo, value: string) => void;
+  onRankingChange: (ranking: string[]) => void;
+  onScoreChange: (optionId: string, score: number) => void;
+  onAllocationChange: (optionId: string, votes: number) => void;
+  onComparisonsChange: (comparisons: PairwiseComparison[]) => void;
+  onWriteInChange: (text: string) => void;
+  onRetract: () => void;
   onSubmit: (e: React.FormEvent) => void;
 }) {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Cast Your Vote</CardTitle>
+        <CardTitle>{isChangingVote ? 'Change Your Vote' : 'Cast Your Vote'}</CardTitle>
         <CardDescription>
-          {Boolean(poll.allow_multiple_votes)
+          {poll.vote_type === 'multiple'
+            ? selectionLimitInstructions(poll.min_selections ?? 1, poll.max_selections ?? null)
+            : VOTE_TYPE_INSTRUCTIONS[poll.vote_type] ?? (Boolean(poll.allow_multiple_votes)
             ? 'You can select multiple options' 
             : 'Please select one option'
-          }
+          )}
         </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={onSubmit} className="space-y-6">
           <div className="space-y-3">
-            <VotingOptions
-              options={options}
-              selectedOptions={selectedOptions}
-              allowMultipleVotes={poll.allow_multiple_votes}
-              onOptionChange={onOptionChange}
-            />
+            {poll.vote_type === 'ranked' ? (
+              <RankedChoiceBallot
+                options={options}
+                ranking={selectedOptions}
+                onRankingChange={onRankingChange}
+              />
+            ) : poll.vote_type === 'score' ? (
+              <ScoreBallot
+                options={options}
+                scoreMax={poll.score_max}
+                scores={scores}
+                onScoreChange={onScoreChange}
+              />
+            ) : poll.vote_type === 'quadratic' ? (
+              <QuadraticBallot
+                options={options}
+                credits={poll.vote_credits}
+                allocations={allocations}
+                onAllocationChange={onAllocationChange}
+              />
+            ) : poll.vote_type === 'pairwise' ? (
+              <PairwiseBallot
+                options={options}
+                comparisons={comparisons}
+                ratings={ratings}
+                onComparisonsChange={onComparisonsChange}
+              />
+            ) : (
+              <VotingOptions
+                options={options}
+                selectedOptions={selectedOptions}
+                allowMultipleVotes={poll.allow_multiple_votes}
+                maxSelections={poll.max_selections ?? null}
+                writeIn={poll.allow_write_in ? writeIn : null}
+                onOptionChange={onOptionChange}
+                onWriteInChange={onWriteInChange}
+              />
+            )}
           </div>
 
           <VoterInformationForm
@@ -245,17 +417,108 @@ function VotingForm({
           <Button 
             type="submit" 
             className="w-full" 
-            disabled={isSubmitting || selectedOptions.length === 0}
+            disabled={isSubmitting || isRetracting || !canSubmit}
           >
-            {isSubmitting ? 'Submitting Vote...' : 'Submit Vote'}
+            {isChangingVote
+              ? (isSubmitting ? 'Updating Vote...' : 'Update Vote')
+              : (isSubmitting ? 'Submitting Vote...' : 'Submit Vote')}
           </Button>
+
+          {isChangingVote && (
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={onRetract}
+              disabled={isSubmitting || isRetracting}
+            >
+              {isRetracting ? 'Withdrawing Vote...' : 'Withdraw Vote'}
+            </Button>
+          )}
         </form>
       </CardContent>
     </Card>
   );
 }
 
-function PollClosedMessage({ isExpired }: { isExpired: boolean }) {
+/**
+ * Shown above a draft, which only its creator and members can open. The
+ * rest of the page previews the poll as voters will see it, with voting
+ * disabled. Viewers get the preview without the edit and publish buttons.
+ */
+function DraftPreviewBanner({ poll, canEdit }: { poll: PollWithOptions; canEdit: boolean }) {
+  const [isPublishing, setIsPublishing] = useState(false);
+  const router = useRouter();
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    try {
+      const result = await publishPoll(poll.id);
+      if (result.success) {
+        toast.success('Poll published');
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to publish poll');
+      }
+    } catch (error) {
+      toast.error('Failed to publish poll. Please try again.');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4 p-4 rounded-md border border-yellow-200 bg-yellow-50 text-sm text-yellow-800">
+      <p>
+        This is a preview of a draft. Only you and the people it&apos;s shared with can see it, and voting opens once it is published.
+      </p>
+      {canEdit && (
+        <div className="flex shrink-0 gap-2">
+          <Button size="sm" variant="outline" onClick={() => router.push(`/polls/${poll.id}/edit`)}>
+            Edit
+          </Button>
+          <Button size="sm" onClick={handlePublish} disabled={isPublishing}>
+            {isPublishing ? 'Publishing...' : 'Publish'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Progress towards the turnout targets that close the poll, such as
+ * "12/20 votes needed".
+ */
+function CloseProgressCard({ poll, turnout }: { poll: PollWithOptions; turnout: PollTurnout }) {
+  const progress = closeProgress(poll, turnout);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Closes automatically</CardTitle>
+        {poll.close_on_decisive_lead && (
+          <CardDescription>
+            The poll may close sooner, once the leading option can&apos;t be caught.
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {progress.map((item) => (
+          <div key={item.unit} className="space-y-2">
+            <div className="text-sm text-muted-foreground">{formatCloseProgress(item)}</div>
+            <Progress value={Math.min(100, (item.current / item.target) * 100)} className="h-2" />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PollClosedMessage({ poll, isExpired }: { poll: PollWithOptions; isExpired: boolean }) {
+  const opensLater = !isExpired && Boolean(poll.starts_at && new Date(poll.starts_at) > new Date());
+  const closedOnTurnout = !isExpired && poll.status === 'expired' && hasCloseConditions(poll);
+
   return (
     <Card>
       <CardContent className="flex flex-col items-center justify-center py-12">
@@ -265,9 +528,79 @@ function PollClosedMessage({ isExpired }: { isExpired: boolean }) {
           <p className="text-muted-foreground">
             {isExpired 
               ? 'This poll has expired and is no longer accepting votes.'
-              : 'This poll is currently inactive.'
+              : closedOnTurnout
+                ? 'This poll reached its closing condition and is no longer accepting votes.'
+              : opensLater
+                ? `This poll opens on ${new Date(poll.starts_at as string).toLocaleString()}.`
+                : 'This poll is currently inactive.'
             }
           </p>
+          {opensLater && <PollCountdown poll={poll} />}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Whether a results action withheld the results under the poll's results visibility.
+ */
+function isHidden(result: object) {
+  return 'hidden' in result && Boolean(result.hidden);
+}
+
+function ResultsHiddenMessage({ poll }: { poll: PollWithOptions }) {
+  const closes = poll.expires_at ? ` on ${new Date(poll.expires_at).toLocaleString()}` : '';
+  const explanation = {
+    always: '',
+    after_vote: `Results will be shown once you have voted, and to everyone when the poll closes${closes}.`,
+    after_close: `Results will be shown when the poll closes${closes}.`,
+    owner: 'Only the poll creator can see the results of this poll.',
+  }[poll.results_visibility];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Results are hidden</CardTitle>
+        <CardDescription>{explanation}</CardDescription>
+      </CardHeader>
+    </Card>
+  );
+}
+
+/**
+ * Shown in place of the voting form when the visitor doesn't meet the
+ * poll's eligibility rules, so they learn why before trying to vote.
+ */
+function IneligibleMessage({ reason, isSignedIn }: { reason: string; isSignedIn: boolean }) {
+  return (
+    <Card>
+      <CardContent className="flex flex-col items-center justify-center py-12">
+        <div className="text-center space-y-4">
+          <div className="text-4xl">🚫</div>
+          <h2 className="text-xl font-semibold">You can&apos;t vote on this poll</h2>
+          <p className="text-muted-foreground">{reason}.</p>
+          {!isSignedIn && (
+            <Button asChild>
+              <Link href="/login">Sign in</Link>
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function VoteLockedMessage() {
+  return (
+    <Card>
+      <CardContent className="flex flex-col items-center justify-center py-12">
+        <div className="text-center space-y-4">
+          <div className="text-4xl">✅</div>
+          <h2 className="text-xl font-semibold">You have already voted</h2>
+          <p className="text-muted-foreground">
+            Votes on this poll are locked once cast, so yours can&apos;t be changed.
+          </p>
         </div>
       </CardContent>
     </Card>
@@ -282,11 +615,23 @@ function PollInformation({ poll, options }: { poll: PollWithOptions; options: Po
       </CardHeader>
       <CardContent className="space-y-2 text-sm text-muted-foreground">
         <div>Created: {new Date(poll.created_at).toLocaleDateString()}</div>
+        {poll.starts_at && (
+          <div>Opens: {new Date(poll.starts_at).toLocaleString()}</div>
+        )}
         {poll.expires_at && (
           <div>Expires: {new Date(poll.expires_at).toLocaleDateString()}</div>
         )}
-        <div>Total options: {options.length}</div>
-        <div>Voting type: {Boolean(poll.allow_multiple_votes) ? 'Multiple choice' : 'Single choice'}</div>
+        {hasEligibilityRules(poll) && (
+          <div>{describeEligibility(poll)}</div>
+        )}
+        {isSurvey(poll) ? (
+          <div>Questions: {poll.poll_questions?.length}</div>
+        ) : (
+          <>
+            <div>Total options: {options.length}</div>
+            <div>Voting type: {VOTE_TYPE_LABELS[poll.vote_type] ?? (Boolean(poll.allow_multiple_votes) ? 'Multiple choice' : 'Single choice')}</div>
+          </>
+        )}
       </CardContent>
     </Card>
   );
@@ -313,28 +658,506 @@ function ThankYouMessage() {
   );
 }
 
-export function PollDetail({ poll }: PollDetailProps) {
+/**
+ * Shown to a signed-in voter who has already answered the survey. Answers
+ * can't be changed one by one, only withdrawn to answer again.
+ */
+function SurveyAnsweredMessage({ isRetracting, onRetract }: { isRetracting: boolean; onRetract: () => void }) {
+  return (
+    <Card>
+      <CardContent className="flex flex-col items-center justify-center py-12">
+        <div className="text-center space-y-4">
+          <div className="text-4xl">✅</div>
+          <h2 className="text-xl font-semibold">You have answered this survey</h2>
+          <p className="text-muted-foreground">
+            To change your answers, withdraw them and answer the survey again.
+          </p>
+          <Button variant="outline" onClick={onRetract} disabled={isRetracting}>
+            {isRetracting ? 'Withdrawing Answers...' : 'Withdraw Answers'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Walks a voter through a survey one question at a time and submits all
+ * answers together once the last question is answered.
+ */
+function SurveyResponseForm({
+  poll,
+  questions,
+  canSubmit,
+  onSubmitted
+}: {
+  poll: PollWithOptions;
+  questions: ReturnType<typeof sortedQuestions>;
+  canSubmit: boolean;
+  onSubmitted: () => void;
+}) {
+  const [page, setPage] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, BallotSubmission>>({});
+  const [voterInfo, setVoterInfo] = useState<VoterInfo>({ name: '', email: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const question = questions[page];
+  const options = question.poll_options;
+  const isLastPage = page === questions.length - 1;
+  const answer = answers[question.id] ?? { option_ids: [] };
+  const answerError = validateSurveyAnswer(question, answer, options.map(option => option.id));
+
+  const setAnswer = (next: BallotSubmission) => {
+    setAnswers(prev => ({ ...prev, [question.id]: next }));
+  };
+
+  const handleOptionChange = (optionId: string, checked: boolean) => {
+    if (question.vote_type === 'multiple') {
+      setAnswer({
+        option_ids: checked
+          ? [...answer.option_ids, optionId]
+          : answer.option_ids.filter(id => id !== optionId),
+      });
+    } else {
+      setAnswer({ option_ids: checked ? [optionId] : [] });
+    }
+  };
+
+  const handleScoreChange = (optionId: string, score: number) => {
+    const scores = { ...answer.scores, [optionId]: score };
+    setAnswer({ option_ids: Object.keys(scores), scores });
+  };
+
+  // Options brought back to zero votes are dropped so they are not submitted
+  const handleAllocationChange = (optionId: string, votes: number) => {
+    const { [optionId]: _previous, ...rest } = answer.allocations ?? {};
+    const allocations = votes === 0 ? rest : { ...rest, [optionId]: votes };
+    setAnswer({ option_ids: Object.keys(allocations), allocations });
+  };
+
+  const handleComparisonsChange = (comparisons: PairwiseComparison[]) => {
+    setAnswer({
+      option_ids: Array.from(new Set(comparisons.flatMap(c => [c.winner_id, c.loser_id]))),
+      comparisons,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (answerError) {
+      toast.error(answerError);
+      return;
+    }
+
+    if (!isLastPage) {
+      setPage(page + 1);
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/polls/${poll.id}/vote`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          answers,
+          voter_name: voterInfo.name || undefined,
+          voter_email: voterInfo.email || undefined,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        toast.success('Answers submitted successfully!');
+        if (result.closed) {
+          toast.info('Your answers completed the survey, so it is now closed.');
+        }
+        onSubmitted();
+      } else {
+        toast.error(result.error || 'Failed to submit answers');
+      }
+    } catch (error) {
+      toast.error('Failed to submit answers. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Answer the Survey</CardTitle>
+        <CardDescription>
+          Question {page + 1} of {questions.length}
+        </CardDescription>
+        <Progress value={((page + 1) / questions.length) * 100} className="h-2" />
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-3">
+            <h3 className="font-medium">{question.prompt}</h3>
+            <p className="text-sm text-muted-foreground">
+              {question.vote_type === 'multiple'
+                ? selectionLimitInstructions(question.min_selections ?? 1, question.max_selections ?? null)
+                : VOTE_TYPE_INSTRUCTIONS[question.vote_type] ?? 'Please select one option'}
+            </p>
+            {question.vote_type === 'ranked' ? (
+              <RankedChoiceBallot
+                options={options}
+                ranking={answer.option_ids}
+                onRankingChange={(ranking) => setAnswer({ option_ids: ranking })}
+              />
+            ) : question.vote_type === 'score' ? (
+              <ScoreBallot
+                options={options}
+                scoreMax={question.score_max}
+                scores={answer.scores ?? {}}
+                onScoreChange={handleScoreChange}
+              />
+            ) : question.vote_type === 'quadratic' ? (
+              <QuadraticBallot
+                options={options}
+                credits={question.vote_credits}
+                allocations={answer.allocations ?? {}}
+                onAllocationChange={handleAllocationChange}
+              />
+            ) : question.vote_type === 'pairwise' ? (
+              <PairwiseBallot
+                options={options}
+                comparisons={answer.comparisons ?? []}
+                ratings={{}}
+                onComparisonsChange={handleComparisonsChange}
+              />
+            ) : (
+              <VotingOptions
+                options={options}
+                selectedOptions={answer.option_ids}
+                allowMultipleVotes={question.vote_type === 'multiple'}
+                maxSelections={question.max_selections ?? null}
+                writeIn={null}
+                onOptionChange={handleOptionChange}
+                onWriteInChange={() => {}}
+              />
+            )}
+          </div>
+
+          {isLastPage && (
+            <VoterInformationForm
+              voterInfo={voterInfo}
+              onVoterInfoChange={(field, value) => setVoterInfo(prev => ({ ...prev, [field]: value }))}
+            />
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1"
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0 || isSubmitting}
+            >
+              Back
+            </Button>
+            <Button
+              type="submit"
+              className="flex-1"
+              disabled={isSubmitting || (isLastPage && !canSubmit)}
+            >
+              {!isLastPage ? 'Next' : isSubmitting ? 'Submitting Answers...' : 'Submit Answers'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Poll page for surveys: the results of every question, and a response
+ * form that records all answers in one submission.
+ */
+function SurveyDetail({ poll, role = null }: PollDetailProps) {
+  const [results, setResults] = useState<SurveyQuestionResult[]>([]);
+  const [isLoadingResults, setIsLoadingResults] = useState(true);
+  const [resultsHidden, setResultsHidden] = useState(false);
+  const [hasAnswered, setHasAnswered] = useState(false);
+  const [hasResponded, setHasResponded] = useState(false);
+  const [isRetracting, setIsRetracting] = useState(false);
+  const [turnout, setTurnout] = useState<PollTurnout | null>(null);
+
+  const isExpired = Boolean(poll.expires_at && new Date(poll.expires_at) < new Date());
+  const isOpen = !isExpired && poll.status === 'active';
+  const questions = useMemo(() => sortedQuestions(poll.poll_questions), [poll.poll_questions]);
+  const { user, loading: isLoadingUser } = useAuth();
+  const ineligibleReason = isLoadingUser ? null : checkEligibility(poll, user);
+
+  const loadResults = useCallback(async () => {
+    setResultsHidden(false);
+
+    const result = await getSurveyResults(poll.id);
+    if (isHidden(result)) {
+      setResultsHidden(true);
+      return;
+    }
+    if (result.success) {
+      setResults(result.data);
+    } else {
+      console.error('Failed to fetch survey results:', result.error);
+    }
+  }, [poll.id]);
+
+  useEffect(() => {
+    const fetchResults = async () => {
+      setIsLoadingResults(true);
+      try {
+        await loadResults();
+      } catch (error) {
+        console.error('Error fetching survey results:', error);
+      } finally {
+        setIsLoadingResults(false);
+      }
+    };
+
+    fetchResults();
+  }, [loadResults]);
+
+  // Turnout is only needed to show progress towards the survey's close conditions
+  useEffect(() => {
+    if (!hasCloseConditions(poll)) {
+      return;
+    }
+
+    getPollTurnout(poll.id).then(result => setTurnout(result.data));
+  }, [poll]);
+
+  // Signed-in voters who already answered can only withdraw their answers
+  useEffect(() => {
+    if (!user) {
+      setHasAnswered(false);
+      return;
+    }
+
+    getMyVote(poll.id).then(result => {
+      if (result.success) {
+        setHasAnswered(Boolean(result.data));
+      } else {
+        console.error('Failed to fetch your answers:', result.error);
+      }
+    });
+  }, [poll.id, user]);
+
+  const handleRetract = useCallback(async () => {
+    setIsRetracting(true);
+
+    try {
+      const response = await fetch(`/api/polls/${poll.id}/vote`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (response.ok) {
+        toast.success('Your answers have been withdrawn');
+        setHasAnswered(false);
+
+        try {
+          await loadResults();
+        } catch (error) {
+          console.error('Error refreshing survey results:', error);
+        }
+      } else {
+        toast.error(result.error || 'Failed to withdraw answers');
+      }
+    } catch (error) {
+      toast.error('Failed to withdraw answers. Please try again.');
+    } finally {
+      setIsRetracting(false);
+    }
+  }, [poll.id, loadResults]);
+
+  if (hasResponded) {
+    return <ThankYouMessage />;
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      {poll.is_draft && <DraftPreviewBanner poll={poll} canEdit={canEditPoll(role)} />}
+      <PollHeader poll={poll} isExpired={isExpired} />
+
+      {isOpen && hasAnswered && poll.lock_votes ? (
+        <VoteLockedMessage />
+      ) : isOpen && hasAnswered ? (
+        <SurveyAnsweredMessage isRetracting={isRetracting} onRetract={handleRetract} />
+      ) : isOpen && ineligibleReason ? (
+        <IneligibleMessage reason={ineligibleReason} isSignedIn={Boolean(user)} />
+      ) : isOpen ? (
+        <SurveyResponseForm
+          poll={poll}
+          questions={questions}
+          canSubmit={!poll.is_draft}
+          onSubmitted={() => setHasResponded(true)}
+        />
+      ) : (
+        <PollClosedMessage poll={poll} isExpired={isExpired} />
+      )}
+
+      {resultsHidden ? (
+        <ResultsHiddenMessage poll={poll} />
+      ) : (
+        <SurveyResults questions={questions} results={results} isLoading={isLoadingResults} />
+      )}
+
+      {turnout && isOpen && (
+        <CloseProgressCard poll={poll} turnout={turnout} />
+      )}
+
+      <PollInformation poll={poll} options={poll.poll_options || []} />
+    </div>
+  );
+}
+
+/**
+ * Poll page body: surveys are shown question by question, other polls
+ * with a single ballot.
+ */
+export function PollDetail({ poll, role = null }: PollDetailProps) {
+  return isSurvey(poll) ? <SurveyDetail poll={poll} role={role} /> : <SingleQuestionDetail poll={poll} role={role} />;
+}
+
+function SingleQuestionDetail({ poll, role = null }: PollDetailProps) {
   const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [hasVoted, setHasVoted] = useState(false);
   const [voterInfo, setVoterInfo] = useState<VoterInfo>({ name: '', email: '' });
   const [pollResults, setPollResults] = useState<PollResult[]>([]);
+  const [runoffResult, setRunoffResult] = useState<RunoffResult | null>(null);
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [scoreResults, setScoreResults] = useState<OptionScore[]>([]);
+  const [allocations, setAllocations] = useState<Record<string, number>>({});
+  const [quadraticResults, setQuadraticResults] = useState<OptionQuadraticTally[]>([]);
+  const [comparisons, setComparisons] = useState<PairwiseComparison[]>([]);
+  const [pairwiseResult, setPairwiseResult] = useState<PairwiseResult | null>(null);
+  const [writeIn, setWriteIn] = useState('');
+  const [writeIns, setWriteIns] = useState<WriteInGroup[]>([]);
+  const [currentVote, setCurrentVote] = useState<BallotSubmission | null>(null);
+  const [isRetracting, setIsRetracting] = useState(false);
   const [isLoadingResults, setIsLoadingResults] = useState(true);
+  const [resultsHidden, setResultsHidden] = useState(false);
+  const [turnout, setTurnout] = useState<PollTurnout | null>(null);
 
   const isExpired = Boolean(poll.expires_at && new Date(poll.expires_at) < new Date());
+  const isRanked = poll.vote_type === 'ranked';
+  const isScore = poll.vote_type === 'score';
+  const isQuadratic = poll.vote_type === 'quadratic';
+  const isPairwise = poll.vote_type === 'pairwise';
+  const isWritingIn = selectedOptions.includes(WRITE_IN_OPTION);
+  const { user, loading: isLoadingUser } = useAuth();
+  const ineligibleReason = isLoadingUser ? null : checkEligibility(poll, user);
+  const router = useRouter();
   const options = poll.poll_options || [];
+  const minSelections = poll.vote_type === 'multiple' ? poll.min_selections ?? 1 : 1;
+  const canSubmit = isScore
+    ? options.length > 0 && options.every(option => scores[option.id])
+    : isQuadratic
+      ? Object.keys(allocations).length > 0 && quadraticCost(allocations) <= poll.vote_credits
+      : isPairwise
+        ? comparisons.length > 0
+        : selectedOptions.length >= minSelections && (!isWritingIn || writeIn.trim() !== '');
+
+  /**
+   * Loads results in the shape the poll's vote type needs:
+   * runoff rounds for ranked-choice polls, rating statistics for score
+   * polls, net effective votes for quadratic polls, the pairwise ranking
+   * for pairwise polls, flat counts otherwise.
+   */
+  const loadResults = useCallback(async () => {
+    setResultsHidden(false);
+
+    if (isPairwise) {
+      const result = await getPairwiseResults(poll.id);
+      if (isHidden(result)) {
+        setResultsHidden(true);
+        return;
+      }
+      if (result.success && result.data) {
+        setPairwiseResult(result.data);
+      } else {
+        console.error('Failed to fetch pairwise results:', result.error);
+      }
+      return;
+    }
+
+    if (isQuadratic) {
+      const result = await getQuadraticResults(poll.id);
+      if (isHidden(result)) {
+        setResultsHidden(true);
+        return;
+      }
+      if (result.success && result.data) {
+        setQuadraticResults(result.data);
+      } else {
+        console.error('Failed to fetch quadratic results:', result.error);
+      }
+      return;
+    }
+
+    if (isScore) {
+      const result = await getScoreResults(poll.id);
+      if (isHidden(result)) {
+        setResultsHidden(true);
+        return;
+      }
+      if (result.success && result.data) {
+        setScoreResults(result.data.options);
+      } else {
+        console.error('Failed to fetch score results:', result.error);
+      }
+      return;
+    }
+
+    if (isRanked) {
+      const result = await getRankedChoiceResults(poll.id);
+      if (isHidden(result)) {
+        setResultsHidden(true);
+        return;
+      }
+      if (result.success && result.data) {
+        setRunoffResult(result.data);
+      } else {
+        console.error('Failed to fetch ranked-choice results:', result.error);
+      }
+      return;
+    }
+
+    const result = await getPollResults(poll.id);
+    if (isHidden(result)) {
+      setResultsHidden(true);
+      return;
+    }
+    if (result.success && result.data) {
+      setPollResults(result.data);
+    } else {
+      console.error('Failed to fetch poll results:', result.error);
+    }
+
+    if (poll.allow_write_in) {
+      const writeInResult = await getWriteInResults(poll.id);
+      if (writeInResult.success && writeInResult.data) {
+        setWriteIns(writeInResult.data);
+      } else {
+        console.error('Failed to fetch write-in answers:', writeInResult.error);
+      }
+    }
+  }, [poll.id, poll.allow_write_in, isRanked, isScore, isQuadratic, isPairwise]);
 
   // Fetch poll results on component mount
   useEffect(() => {
     const fetchResults = async () => {
       setIsLoadingResults(true);
       try {
-        const result = await getPollResults(poll.id);
-        if (result.success && result.data) {
-          setPollResults(result.data);
-        } else {
-          console.error('Failed to fetch poll results:', result.error);
-        }
+        await loadResults();
       } catch (error) {
         console.error('Error fetching poll results:', error);
       } finally {
@@ -343,7 +1166,57 @@ export function PollDetail({ poll }: PollDetailProps) {
     };
 
     fetchResults();
-  }, [poll.id]);
+  }, [loadResults]);
+
+  // Turnout is only needed to show progress towards the poll's close conditions
+  useEffect(() => {
+    if (!hasCloseConditions(poll)) {
+      return;
+    }
+
+    getPollTurnout(poll.id).then(result => setTurnout(result.data));
+  }, [poll]);
+
+  /**
+   * Fills the ballot with a stored vote, or clears it when given null.
+   */
+  const applyBallot = useCallback((ballot: BallotSubmission | null) => {
+    const optionIds = ballot?.option_ids ?? [];
+    setSelectedOptions(ballot?.write_in ? [...optionIds, WRITE_IN_OPTION] : optionIds);
+    setWriteIn(ballot?.write_in ?? '');
+    setScores(ballot?.scores ?? {});
+    setAllocations(ballot?.allocations ?? {});
+    setComparisons(ballot?.comparisons ?? []);
+  }, []);
+
+  // Preselect a signed-in voter's current vote so they can change or withdraw it
+  useEffect(() => {
+    if (!user) {
+      setCurrentVote(null);
+      return;
+    }
+
+    const fetchMyVote = async () => {
+      const result = await getMyVote(poll.id);
+      if (result.success) {
+        setCurrentVote(result.data ?? null);
+        if (result.data) {
+          applyBallot(result.data);
+        }
+      } else {
+        console.error('Failed to fetch your vote:', result.error);
+      }
+    };
+
+    fetchMyVote();
+  }, [poll.id, user, applyBallot]);
+
+  // Current ratings steer the pairwise ballot towards the closest contests
+  const pairwiseRatings = useMemo(() => {
+    const ratings: Record<string, number> = {};
+    pairwiseResult?.ranking.forEach(entry => { ratings[entry.option_id] = entry.rating; });
+    return ratings;
+  }, [pairwiseResult]);
 
   // Memoized vote statistics calculation using real data
   const voteStats = useMemo((): VoteStats => {
@@ -401,11 +1274,35 @@ export function PollDetail({ poll }: PollDetailProps) {
     setVoterInfo(prev => ({ ...prev, [field]: value }));
   }, []);
 
+  const handleRankingChange = useCallback((ranking: string[]) => {
+    setSelectedOptions(ranking);
+  }, []);
+
+  const handleScoreChange = useCallback((optionId: string, score: number) => {
+    setScores(prev => ({ ...prev, [optionId]: score }));
+  }, []);
+
+  // Options brought back to zero votes are dropped so they are not submitted
+  const handleAllocationChange = useCallback((optionId: string, votes: number) => {
+    setAllocations(prev => {
+      const { [optionId]: _previous, ...rest } = prev;
+      return votes === 0 ? rest : { ...rest, [optionId]: votes };
+    });
+  }, []);
+
   const handleSubmitVote = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (selectedOptions.length === 0) {
-      toast.error('Please select at least one option');
+    if (!canSubmit) {
+      toast.error(
+        isScore ? 'Please rate every option'
+          : isQuadratic ? 'Please allocate at least one vote'
+          : isPairwise ? 'Please compare at least one pair of options'
+          : isWritingIn && !writeIn.trim() ? 'Please enter your other answer'
+          : isRanked ? 'Please rank at least one option'
+          : minSelections > 1 ? `Please select at least ${minSelections} options`
+          : 'Please select at least one option'
+      );
       return;
     }
 
@@ -413,13 +1310,21 @@ export function PollDetail({ poll }: PollDetailProps) {
     
     try {
       const voteData = {
-        option_ids: selectedOptions,
+        option_ids: isScore ? Object.keys(scores)
+          : isQuadratic ? Object.keys(allocations)
+          : isPairwise ? Array.from(new Set(comparisons.flatMap(c => [c.winner_id, c.loser_id])))
+          : selectedOptions.filter(id => id !== WRITE_IN_OPTION),
+        write_in: isWritingIn ? writeIn : undefined,
+        scores: isScore ? scores : undefined,
+        allocations: isQuadratic ? allocations : undefined,
+        comparisons: isPairwise ? comparisons : undefined,
         voter_name: voterInfo.name || undefined,
         voter_email: voterInfo.email || undefined,
       };
 
+      // Voters with a vote on record replace it instead of casting another
       const response = await fetch(`/api/polls/${poll.id}/vote`, {
-        method: 'POST',
+        method: currentVote ? 'PUT' : 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
@@ -429,15 +1334,15 @@ export function PollDetail({ poll }: PollDetailProps) {
       const result = await response.json();
       
       if (response.ok) {
-        toast.success('Vote submitted successfully!');
+        toast.success(currentVote ? 'Vote updated successfully!' : 'Vote submitted successfully!');
+        if (result.closed) {
+          toast.info('Your vote completed the poll, so it is now closed.');
+        }
         setHasVoted(true);
         
         // Refresh poll results after successful vote
         try {
-          const resultsResponse = await getPollResults(poll.id);
-          if (resultsResponse.success && resultsResponse.data) {
-            setPollResults(resultsResponse.data);
-          }
+          await loadResults();
         } catch (error) {
           console.error('Error refreshing poll results:', error);
         }
@@ -449,7 +1354,46 @@ export function PollDetail({ poll }: PollDetailProps) {
     } finally {
       setIsSubmitting(false);
     }
-  }, [poll.id, selectedOptions, voterInfo]);
+  }, [poll.id, selectedOptions, scores, allocations, comparisons, writeIn, isWritingIn, voterInfo, canSubmit, minSelections, isRanked, isScore, isQuadratic, isPairwise, currentVote, loadResults]);
+
+  const handleRetractVote = useCallback(async () => {
+    setIsRetracting(true);
+
+    try {
+      const response = await fetch(`/api/polls/${poll.id}/vote`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (response.ok) {
+        toast.success('Your vote has been withdrawn');
+        setCurrentVote(null);
+        applyBallot(null);
+
+        try {
+          await loadResults();
+        } catch (error) {
+          console.error('Error refreshing poll results:', error);
+        }
+      } else {
+        toast.error(result.error || 'Failed to withdraw vote');
+      }
+    } catch (error) {
+      toast.error('Failed to withdraw vote. Please try again.');
+    } finally {
+      setIsRetracting(false);
+    }
+  }, [poll.id, applyBallot, loadResults]);
+
+  // Promoted answers become options on the server, so the page is refreshed to pick them up
+  const handlePromoteWriteIn = useCallback(async (text: string) => {
+    const result = await promoteWriteIn(poll.id, text);
+    if (result.success) {
+      toast.success(`"${text}" is now an option`);
+      router.refresh();
+      await loadResults();
+    } else {
+      toast.error(result.error || 'Failed to add the answer as an option');
+    }
+  }, [poll.id, router, loadResults]);
 
   if (hasVoted) {
     return <ThankYouMessage />;
@@ -457,22 +1401,82 @@ export function PollDetail({ poll }: PollDetailProps) {
 
   return (
     <div className="max-w-2xl mx-auto space-y-6">
+      {poll.is_draft && <DraftPreviewBanner poll={poll} canEdit={canEditPoll(role)} />}
       <PollHeader poll={poll} isExpired={isExpired} />
-      <VotingProgress voteStats={voteStats} />
+      {resultsHidden ? (
+        <ResultsHiddenMessage poll={poll} />
+      ) : isScore ? (
+        <ScoreResults
+          options={options}
+          scoreMax={poll.score_max}
+          scores={scoreResults}
+          isLoading={isLoadingResults}
+        />
+      ) : isPairwise ? (
+        <PairwiseResults
+          options={options}
+          result={pairwiseResult}
+          isLoading={isLoadingResults}
+        />
+      ) : isQuadratic ? (
+        <QuadraticResults
+          options={options}
+          tallies={quadraticResults}
+          isLoading={isLoadingResults}
+        />
+      ) : isRanked ? (
+        <RankedChoiceResults
+          options={options}
+          result={runoffResult}
+          isLoading={isLoadingResults}
+        />
+      ) : (
+        <VotingProgress voteStats={voteStats} />
+      )}
 
-      {!isExpired && poll.status === 'active' ? (
+      {poll.allow_write_in && !resultsHidden && writeIns.length > 0 && (
+        <WriteInResults
+          writeIns={writeIns}
+          isOwner={canEditPoll(role)}
+          onPromote={handlePromoteWriteIn}
+        />
+      )}
+
+      {!isExpired && poll.status === 'active' && currentVote && poll.lock_votes ? (
+        <VoteLockedMessage />
+      ) : !isExpired && poll.status === 'active' && ineligibleReason ? (
+        <IneligibleMessage reason={ineligibleReason} isSignedIn={Boolean(user)} />
+      ) : !isExpired && poll.status === 'active' ? (
         <VotingForm
           poll={poll}
           options={options}
           selectedOptions={selectedOptions}
+          scores={scores}
+          allocations={allocations}
+          comparisons={comparisons}
+          ratings={pairwiseRatings}
+          writeIn={writeIn}
           voterInfo={voterInfo}
           isSubmitting={isSubmitting}
+          canSubmit={canSubmit && !poll.is_draft}
+          isChangingVote={currentVote !== null}
+          isRetracting={isRetracting}
           onOptionChange={handleOptionChange}
           onVoterInfoChange={handleVoterInfoChange}
+          onRankingChange={handleRankingChange}
+          onScoreChange={handleScoreChange}
+          onAllocationChange={handleAllocationChange}
+          onComparisonsChange={setComparisons}
+          onWriteInChange={setWriteIn}
+          onRetract={handleRetractVote}
           onSubmit={handleSubmitVote}
         />
       ) : (
-        <PollClosedMessage isExpired={isExpired} />
+        <PollClosedMessage poll={poll} isExpired={isExpired} />
+      )}
+
+      {turnout && poll.status === 'active' && !isExpired && (
+        <CloseProgressCard poll={poll} turnout={turnout} />
       )}
 
       <PollInformation poll={poll} options={options} />
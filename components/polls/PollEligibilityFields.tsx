@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CreatePollData } from '@/lib/types/database';
+import { MAX_MIN_ACCOUNT_AGE_DAYS, parseEmailDomains } from '@/lib/polls/eligibility';
+
+export type PollEligibilitySettings = Pick<
+  CreatePollData,
+  'allowed_email_domains' | 'min_account_age_days' | 'require_verified_email'
+>;
+
+interface PollEligibilityFieldsProps {
+  settings: PollEligibilitySettings;
+  onChange: (patch: Partial<PollEligibilitySettings>) => void;
+}
+
+/**
+ * Rules limiting who can vote, shared by the create and edit poll forms.
+ * Any rule makes voters sign in.
+ */
+export function PollEligibilityFields({ settings, onChange }: PollEligibilityFieldsProps) {
+  const domains = (settings.allowed_email_domains ?? []).join(', ');
+  // The typed text is kept as is, so separators can be typed before the next domain
+  const [domainsText, setDomainsText] = useState(domains);
+
+  // Picks up domains set from outside, such as a poll loaded for editing
+  useEffect(() => {
+    setDomainsText(text => parseEmailDomains(text).join(', ') === domains ? text : domains);
+  }, [domains]);
+
+  const handleDomainsChange = (text: string) => {
+    setDomainsText(text);
+    onChange({ allowed_email_domains: parseEmailDomains(text) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="allowedEmailDomains">Only accounts on these email domains can vote</Label>
+        <Input
+          id="allowedEmailDomains"
+          placeholder="Any domain, e.g. ourcompany.com"
+          value={domainsText}
+          onChange={(e) => handleDomainsChange(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="minAccountAgeDays">Minimum account age (days)</Label>
+        <Input
+          id="minAccountAgeDays"
+          type="number"
+          min={1}
+          max={MAX_MIN_ACCOUNT_AGE_DAYS}
+          placeholder="No minimum"
+          value={settings.min_account_age_days ?? ''}
+          onChange={(e) => onChange({ min_account_age_days: e.target.value ? Math.floor(Number(e.target.value)) : null })}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="requireVerifiedEmail"
+            checked={Boolean(settings.require_verified_email)}
+            onCheckedChange={(checked) => onChange({ require_verified_email: checked as boolean })}
+            aria-label="Only accounts with a confirmed email can vote"
+          />
+          <Label htmlFor="requireVerifiedEmail">Only accounts with a confirmed email can vote</Label>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Any of these rules means voters have to sign in.
+        </p>
+      </div>
+    </div>
+  );
+}
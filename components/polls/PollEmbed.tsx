@@ -0,0 +1,206 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { ExternalLink } from 'lucide-react';
+import { PollWithOptions } from '@/lib/types/database';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { getPollResults, submitVote } from '@/lib/actions/polls';
+import { needsVoterCookies } from '@/lib/polls/embed';
+import { isSurvey } from '@/lib/polls/survey';
+import { selectionLimitInstructions } from '@/lib/voting/vote-types';
+
+interface PollEmbedProps {
+  poll: PollWithOptions;
+  /** Hides the description and tightens spacing for short iframes. */
+  compact: boolean;
+  /** The poll's own page, opened in a new tab for anything the embed doesn't cover. */
+  pollUrl: string;
+}
+
+interface OptionResult {
+  option_id: string;
+  option_text: string;
+  vote_count: number;
+  percentage: number;
+}
+
+/**
+ * A poll's voting form and results, sized for an iframe on another site.
+ *
+ * Only single and multiple choice polls are voted on in place; other
+ * voting methods and surveys link to the poll's page, where their ballots
+ * have room. So do polls that need to know who's voting, since the iframe
+ * gets none of the visitor's cookies. Votes go through the submitVote
+ * action rather than the vote API, so anonymous visitors can vote from the
+ * embed.
+ */
+export function PollEmbed({ poll, compact, pollUrl }: PollEmbedProps) {
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
+  const [results, setResults] = useState<OptionResult[]>([]);
+  const [resultsHidden, setResultsHidden] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [hasVoted, setHasVoted] = useState(false);
+
+  const options = poll.poll_options || [];
+  const isMultiple = poll.vote_type === 'multiple';
+  const minSelections = isMultiple ? poll.min_selections ?? 1 : 1;
+  const maxSelections = isMultiple ? poll.max_selections ?? null : 1;
+  const isExpired = Boolean(poll.expires_at && new Date(poll.expires_at) < new Date());
+  const isOpen = !isExpired && poll.status === 'active';
+  const showsResults = !isSurvey(poll) && (poll.vote_type === 'single' || isMultiple);
+  const votesInPlace = showsResults && !needsVoterCookies(poll);
+  const totalVotes = results.reduce((sum, result) => sum + Number(result.vote_count), 0);
+
+  const loadResults = useCallback(async () => {
+    const result = await getPollResults(poll.id);
+    if ('hidden' in result && result.hidden) {
+      setResultsHidden(true);
+      return;
+    }
+
+    setResultsHidden(false);
+    if (result.success && result.data) {
+      setResults(result.data);
+    } else {
+      console.error('Failed to fetch poll results:', result.error);
+    }
+  }, [poll.id]);
+
+  useEffect(() => {
+    loadResults().catch(error => console.error('Error fetching poll results:', error));
+  }, [loadResults]);
+
+  const handleOptionChange = (optionId: string, checked: boolean) => {
+    if (!isMultiple) {
+      setSelectedOptions(checked ? [optionId] : []);
+    } else if (!checked) {
+      setSelectedOptions(selectedOptions.filter(id => id !== optionId));
+    } else if (maxSelections === null || selectedOptions.length < maxSelections) {
+      setSelectedOptions([...selectedOptions, optionId]);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (selectedOptions.length < minSelections) {
+      toast.error(minSelections > 1 ? `Please select at least ${minSelections} options` : 'Please select an option');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await submitVote({ poll_id: poll.id, option_ids: selectedOptions });
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to submit vote');
+      }
+
+      setHasVoted(true);
+      await loadResults();
+    } catch (error) {
+      console.error('Error submitting vote:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to submit vote. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const showBallot = isOpen && votesInPlace && !hasVoted;
+
+  return (
+    <div className={compact ? 'space-y-3' : 'space-y-5'}>
+      <div className="space-y-1">
+        <h1 className={compact ? 'text-lg font-semibold' : 'text-2xl font-bold'}>{poll.title}</h1>
+        {!compact && poll.description && (
+          <p className="text-muted-foreground">{poll.description}</p>
+        )}
+      </div>
+
+      {showBallot ? (
+        <form onSubmit={handleSubmit} className={compact ? 'space-y-3' : 'space-y-4'}>
+          {isMultiple ? (
+            <div className={compact ? 'space-y-1' : 'space-y-2'}>
+              <p className="text-sm text-muted-foreground">
+                {selectionLimitInstructions(minSelections, maxSelections)}
+              </p>
+              {options.map((option) => (
+                <div key={option.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`embed-${option.id}`}
+                    checked={selectedOptions.includes(option.id)}
+                    onCheckedChange={(checked) => handleOptionChange(option.id, checked === true)}
+                  />
+                  <Label htmlFor={`embed-${option.id}`} className="font-normal">{option.text}</Label>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <RadioGroup
+              value={selectedOptions[0] ?? ''}
+              onValueChange={(value) => handleOptionChange(value, true)}
+              className={compact ? 'gap-1' : 'gap-2'}
+            >
+              {options.map((option) => (
+                <div key={option.id} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option.id} id={`embed-${option.id}`} />
+                  <Label htmlFor={`embed-${option.id}`} className="font-normal">{option.text}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          )}
+          <Button type="submit" size={compact ? 'sm' : 'default'} disabled={isSubmitting || selectedOptions.length < minSelections}>
+            {isSubmitting ? 'Submitting...' : 'Vote'}
+          </Button>
+        </form>
+      ) : hasVoted ? (
+        <p className="text-sm font-medium">Thank you for voting!</p>
+      ) : isOpen ? (
+        <Button asChild size={compact ? 'sm' : 'default'}>
+          <a href={pollUrl} target="_blank" rel="noopener noreferrer">
+            Vote on Pollly
+            <ExternalLink className="ml-2 h-4 w-4" />
+          </a>
+        </Button>
+      ) : (
+        <p className="text-sm text-muted-foreground">This poll is closed.</p>
+      )}
+
+      {/* Only flat counts fit the embed; other methods show their results on the poll's page */}
+      {showsResults && (resultsHidden ? (
+        <p className="text-sm text-muted-foreground">Results are hidden for now.</p>
+      ) : (!showBallot || !compact) && results.length > 0 && (
+        <div className={compact ? 'space-y-2' : 'space-y-3'}>
+          {results.map((result) => (
+            <div key={result.option_id} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span>{result.option_text}</span>
+                <span className="text-muted-foreground">
+                  {Number(result.vote_count)} ({Number(result.percentage)}%)
+                </span>
+              </div>
+              <Progress value={Number(result.percentage)} className="h-2" />
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            {totalVotes} {totalVotes === 1 ? 'vote' : 'votes'}
+          </p>
+        </div>
+      ))}
+
+      <a
+        href={pollUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-block text-xs text-muted-foreground hover:underline"
+      >
+        Powered by Pollly
+      </a>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PollMemberRole, PollMemberWithProfile } from '@/lib/types/database';
+import { POLL_MEMBER_ROLE_LABELS } from '@/lib/polls/members';
+import { addPollMember, getPollMembers, removePollMember, updatePollMemberRole } from '@/lib/actions/members';
+
+interface PollMembersPanelProps {
+  pollId: string;
+  /** Only the poll's creator can add, change and remove members. */
+  canManage: boolean;
+}
+
+/**
+ * Lists the people a poll is shared with, on the poll's edit page. The
+ * poll's creator adds members by the email address of their account and
+ * picks whether each one can edit the poll or only see its results.
+ */
+export function PollMembersPanel({ pollId, canManage }: PollMembersPanelProps) {
+  const [members, setMembers] = useState<PollMemberWithProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<PollMemberRole>('editor');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const fetchMembers = useCallback(async () => {
+    const result = await getPollMembers(pollId);
+    if (result.error) {
+      toast.error(result.error);
+    }
+    setMembers(result.members);
+  }, [pollId]);
+
+  useEffect(() => {
+    fetchMembers().finally(() => setIsLoading(false));
+  }, [fetchMembers]);
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    try {
+      const result = await addPollMember(pollId, email, role);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to share poll');
+      }
+
+      setEmail('');
+      toast.success('Poll shared');
+      await fetchMembers();
+    } catch (error) {
+      console.error('Error adding poll member:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to share poll. Please try again.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, newRole: PollMemberRole) => {
+    const result = await updatePollMemberRole(memberId, newRole);
+
+    if (result.success) {
+      setMembers(members.map(member => member.id === memberId ? { ...member, role: newRole } : member));
+    } else {
+      toast.error(result.error || 'Failed to change role');
+    }
+  };
+
+  const handleRemove = async (memberId: string) => {
+    const result = await removePollMember(memberId);
+
+    if (result.success) {
+      setMembers(members.filter(member => member.id !== memberId));
+    } else {
+      toast.error(result.error || 'Failed to remove member');
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle>Collaborators</CardTitle>
+        <CardDescription>
+          Editors can change this poll and see its results. Viewers can see its results, even while they&apos;re hidden from voters.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canManage && (
+          <div className="space-y-2">
+            <Label htmlFor="memberEmail">Share with</Label>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Input
+                id="memberEmail"
+                type="email"
+                placeholder="Email address of their account"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+              <Select value={role} onValueChange={(value) => setRole(value as PollMemberRole)}>
+                <SelectTrigger className="sm:w-44" aria-label="Role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(POLL_MEMBER_ROLE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" onClick={handleAdd} disabled={isAdding || !email.trim()}>
+                {isAdding ? 'Adding...' : 'Add'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading collaborators...</p>
+          ) : members.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This poll isn&apos;t shared with anyone yet.</p>
+          ) : (
+            members.map((member) => (
+              <div key={member.id} className="flex items-center justify-between gap-2 rounded-md border p-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium truncate">{member.name}</div>
+                  <div className="text-xs text-muted-foreground truncate">{member.email}</div>
+                </div>
+                {canManage ? (
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) => handleRoleChange(member.id, value as PollMemberRole)}
+                    >
+                      <SelectTrigger className="w-28" aria-label={`Role of ${member.name}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="editor">Editor</SelectItem>
+                        <SelectItem value="viewer">Viewer</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(member.id)}
+                      aria-label={`Remove ${member.name}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <span className="text-sm text-muted-foreground capitalize">{member.role}</span>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Lock } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { unlockPoll } from '@/lib/actions/polls';
+
+interface PollPasswordGateProps {
+  pollId: string;
+}
+
+/**
+ * Asks for the password of a password-protected poll. Once it's right the
+ * page is reloaded from the server, which now returns the poll.
+ */
+export function PollPasswordGate({ pollId }: PollPasswordGateProps) {
+  const [password, setPassword] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const router = useRouter();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    try {
+      const result = await unlockPoll(pollId, password);
+      if (result.success) {
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to unlock poll');
+      }
+    } catch (error) {
+      toast.error('Failed to unlock poll. Please try again.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Password required
+        </CardTitle>
+        <CardDescription>
+          This poll is password protected. Enter the password you were given to view it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="poll-password">Password</Label>
+            <Input
+              id="poll-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="off"
+              autoFocus
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={isUnlocking || !password}>
+            {isUnlocking ? 'Checking...' : 'Unlock Poll'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
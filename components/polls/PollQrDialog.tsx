@@ -0,0 +1,159 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PollShareWithStats } from '@/lib/types/database';
+import { getShareCodes } from '@/lib/actions/shares';
+import { shareStatus } from '@/lib/polls/shares';
+import {
+  DEFAULT_QR_OPTIONS,
+  QR_ERROR_CORRECTION_LABELS,
+  QR_SIZE_OPTIONS,
+  QrErrorCorrection,
+  QrFormat,
+  qrQuery,
+} from '@/lib/polls/qr';
+
+interface PollQrDialogProps {
+  pollId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Select value for the poll's own link, as opposed to one of its share codes
+const POLL_LINK = 'poll';
+
+/**
+ * QR code for a poll, or for one of its active share codes, with a preview
+ * and SVG and PNG downloads at the chosen size and error correction level.
+ */
+export function PollQrDialog({ pollId, open, onOpenChange }: PollQrDialogProps) {
+  const [shares, setShares] = useState<PollShareWithStats[]>([]);
+  const [target, setTarget] = useState(POLL_LINK);
+  const [size, setSize] = useState(DEFAULT_QR_OPTIONS.size);
+  const [errorCorrection, setErrorCorrection] = useState<QrErrorCorrection>(DEFAULT_QR_OPTIONS.errorCorrection);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const fetchShares = async () => {
+      const result = await getShareCodes(pollId);
+      setShares(result.shares.filter(share => shareStatus(share) === 'active'));
+    };
+
+    fetchShares();
+  }, [open, pollId]);
+
+  const qrUrl = (format: QrFormat, extra: Record<string, string> = {}) => {
+    const query = qrQuery(
+      { format, size, errorCorrection },
+      target === POLL_LINK ? extra : { ...extra, share: target }
+    );
+    return `/api/polls/${pollId}/qr?${query}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>QR code</DialogTitle>
+          <DialogDescription>
+            Put the code on slides or print so people can open the poll from their phones.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`qr-target-${pollId}`}>Link</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger id={`qr-target-${pollId}`} className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={POLL_LINK}>Poll link</SelectItem>
+                {shares.map((share) => (
+                  <SelectItem key={share.id} value={share.share_code}>
+                    {share.label || 'Unlabelled link'} (/s/{share.share_code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`qr-size-${pollId}`}>Size</Label>
+              <Select value={String(size)} onValueChange={(next) => setSize(Number(next))}>
+                <SelectTrigger id={`qr-size-${pollId}`} className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QR_SIZE_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option} × {option} px
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`qr-ec-${pollId}`}>Error correction</Label>
+              <Select value={errorCorrection} onValueChange={(next) => setErrorCorrection(next as QrErrorCorrection)}>
+                <SelectTrigger id={`qr-ec-${pollId}`} className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(QR_ERROR_CORRECTION_LABELS) as QrErrorCorrection[]).map((level) => (
+                    <SelectItem key={level} value={level}>
+                      {QR_ERROR_CORRECTION_LABELS[level]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {open && (
+            <div className="flex justify-center rounded-md border bg-white p-4">
+              <img src={qrUrl('svg')} alt="QR code for the poll" className="h-48 w-48" />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" asChild>
+            <a href={qrUrl('svg', { download: '1' })} download>
+              <Download className="mr-2 h-4 w-4" />
+              Download SVG
+            </a>
+          </Button>
+          <Button asChild>
+            <a href={qrUrl('png', { download: '1' })} download>
+              <Download className="mr-2 h-4 w-4" />
+              Download PNG
+            </a>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CreatePollData } from '@/lib/types/database';
+import { fromDateTimeLocal, toDateTimeLocal } from '@/lib/polls/schedule';
+
+export type PollScheduleSettings = Pick<CreatePollData, 'starts_at' | 'expires_at'>;
+
+interface PollScheduleFieldsProps {
+  settings: PollScheduleSettings;
+  onChange: (patch: Partial<PollScheduleSettings>) => void;
+}
+
+/**
+ * Opening and closing time inputs, shared by the create and edit poll
+ * forms. Both are optional: without an opening time the poll opens right
+ * away, and without a closing time it stays open.
+ */
+export function PollScheduleFields({ settings, onChange }: PollScheduleFieldsProps) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor="startsAt">Opens at</Label>
+        <Input
+          id="startsAt"
+          type="datetime-local"
+          value={toDateTimeLocal(settings.starts_at)}
+          onChange={(e) => onChange({ starts_at: fromDateTimeLocal(e.target.value) })}
+        />
+        <p className="text-xs text-muted-foreground">
+          Leave empty to open the poll immediately.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="expiresAt">Closes at</Label>
+        <Input
+          id="expiresAt"
+          type="datetime-local"
+          value={toDateTimeLocal(settings.expires_at)}
+          min={toDateTimeLocal(settings.starts_at) || undefined}
+          onChange={(e) => onChange({ expires_at: fromDateTimeLocal(e.target.value) })}
+        />
+        <p className="text-xs text-muted-foreground">
+          Leave empty to keep the poll open.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { PollWithOptions } from '@/lib/types/database';
+import { quadraticCost } from '@/lib/voting/quadratic';
+import { Minus, Plus } from 'lucide-react';
+
+interface QuadraticBallotProps {
+  options: PollWithOptions['poll_options'];
+  credits: number;
+  allocations: Record<string, number>;
+  onAllocationChange: (optionId: string, votes: number) => void;
+}
+
+/**
+ * Allocation ballot for quadratic polls.
+ *
+ * Voters add or remove votes per option, going negative to vote against it.
+ * The running cost of each option (votes²) and the credits left over are
+ * shown as they go, and changes that would overspend the budget are disabled.
+ */
+export function QuadraticBallot({ options, credits, allocations, onAllocationChange }: QuadraticBallotProps) {
+  const spent = quadraticCost(allocations);
+  const remaining = credits - spent;
+
+  // Moving one step further from zero on an option costs (|k| + 1)² - k²
+  const canStep = (optionId: string, step: number) => {
+    const current = allocations[optionId] ?? 0;
+    const next = current + step;
+    return spent - current * current + next * next <= credits;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">Credits remaining</span>
+          <span className={remaining === 0 ? 'text-muted-foreground' : 'font-medium'}>
+            {remaining} / {credits}
+          </span>
+        </div>
+        <Progress value={(spent / credits) * 100} className="h-2" />
+      </div>
+
+      {options.map((option) => {
+        const votes = allocations[option.id] ?? 0;
+
+        return (
+          <div key={option.id} className="flex items-center justify-between rounded-md border px-3 py-2">
+            <div className="space-y-0.5">
+              <div className="text-sm font-medium">{option.text}</div>
+              <div className="text-xs text-muted-foreground">
+                Cost: {votes * votes} credit{votes * votes !== 1 ? 's' : ''}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => onAllocationChange(option.id, votes - 1)}
+                disabled={!canStep(option.id, -1)}
+                aria-label={`Remove a vote from ${option.text}`}
+              >
+                <Minus className="h-4 w-4" />
+              </Button>
+              <span className="w-8 text-center text-sm font-semibold tabular-nums">
+                {votes > 0 ? `+${votes}` : votes}
+              </span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => onAllocationChange(option.id, votes + 1)}
+                disabled={!canStep(option.id, 1)}
+                aria-label={`Add a vote to ${option.text}`}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { PollWithOptions } from '@/lib/types/database';
+import { OptionQuadraticTally } from '@/lib/voting/quadratic';
+import { cn } from '@/lib/utils';
+
+interface QuadraticResultsProps {
+  options: PollWithOptions['poll_options'];
+  tallies: OptionQuadraticTally[];
+  isLoading: boolean;
+}
+
+/**
+ * Results for quadratic polls: net effective votes per option, with the
+ * votes for and against that make up the total.
+ */
+export function QuadraticResults({ options, tallies, isLoading }: QuadraticResultsProps) {
+  const largest = Math.max(...tallies.map(tally => Math.abs(tally.votes)), 0);
+  const best = Math.max(...tallies.map(tally => tally.votes));
+  const ranked = options
+    .map(option => ({
+      option,
+      tally: tallies.find(t => t.option_id === option.id),
+    }))
+    .sort((a, b) => (b.tally?.votes ?? 0) - (a.tally?.votes ?? 0));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Current Results</CardTitle>
+        <CardDescription>Net effective votes per option</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading results...</p>
+        ) : (
+          <div className="space-y-4">
+            {ranked.map(({ option, tally }) => {
+              const votes = tally?.votes ?? 0;
+              const width = largest > 0 ? (Math.abs(votes) / largest) * 100 : 0;
+
+              return (
+                <div key={option.id} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium">{option.text}</span>
+                      {votes > 0 && votes === best && (
+                        <Badge variant="default" className="text-xs">Leading</Badge>
+                      )}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {votes > 0 ? `+${votes}` : votes} (+{tally?.votesFor ?? 0} / −{tally?.votesAgainst ?? 0})
+                    </div>
+                  </div>
+                  <div className="w-full bg-secondary rounded-full h-2">
+                    <div
+                      className={cn('h-2 rounded-full transition-all', votes < 0 ? 'bg-red-500' : 'bg-primary')}
+                      style={{ width: `${width}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
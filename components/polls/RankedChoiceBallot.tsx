@@ -0,0 +1,113 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { PollWithOptions } from '@/lib/types/database';
+import { ChevronDown, ChevronUp, X } from 'lucide-react';
+
+interface RankedChoiceBallotProps {
+  options: PollWithOptions['poll_options'];
+  ranking: string[];
+  onRankingChange: (ranking: string[]) => void;
+}
+
+/**
+ * Ballot for ranked-choice polls.
+ *
+ * Voters add options to their ranking in order of preference and can move
+ * or remove them afterwards. Options left unranked are simply not counted
+ * once the voter's ranked choices have been eliminated.
+ */
+export function RankedChoiceBallot({ options, ranking, onRankingChange }: RankedChoiceBallotProps) {
+  const optionText = (optionId: string) =>
+    options.find(option => option.id === optionId)?.text ?? '';
+  const unranked = options.filter(option => !ranking.includes(option.id));
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= ranking.length) {
+      return;
+    }
+    const next = [...ranking];
+    [next[index], next[target]] = [next[target], next[index]];
+    onRankingChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Your ranking</h3>
+        {ranking.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Click an option below to make it your first choice.
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {ranking.map((optionId, index) => (
+              <li
+                key={optionId}
+                className="flex items-center justify-between rounded-md border px-3 py-2"
+              >
+                <span className="text-sm font-medium">
+                  {index + 1}. {optionText(optionId)}
+                </span>
+                <div className="flex items-center space-x-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${optionText(optionId)} up`}
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => move(index, 1)}
+                    disabled={index === ranking.length - 1}
+                    aria-label={`Move ${optionText(optionId)} down`}
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => onRankingChange(ranking.filter(id => id !== optionId))}
+                    aria-label={`Remove ${optionText(optionId)} from ranking`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {unranked.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Unranked options</h3>
+          <div className="flex flex-wrap gap-2">
+            {unranked.map((option) => (
+              <Button
+                key={option.id}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => onRankingChange([...ranking, option.id])}
+              >
+                {option.text}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { PollWithOptions } from '@/lib/types/database';
+import { RunoffResult } from '@/lib/voting/instant-runoff';
+
+interface RankedChoiceResultsProps {
+  options: PollWithOptions['poll_options'];
+  result: RunoffResult | null;
+  isLoading: boolean;
+}
+
+/**
+ * Round-by-round instant-runoff results for ranked-choice polls.
+ *
+ * Each round lists the options still in the race with their share of the
+ * continuing ballots, and marks the options eliminated at the end of it.
+ */
+export function RankedChoiceResults({ options, result, isLoading }: RankedChoiceResultsProps) {
+  const optionText = (optionId: string) =>
+    options.find(option => option.id === optionId)?.text ?? 'Unknown option';
+  const totalBallots = result?.totalBallots ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Current Results</CardTitle>
+        <CardDescription>
+          {totalBallots} ballot{totalBallots !== 1 ? 's' : ''} • instant runoff
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading results...</p>
+        ) : !result || result.rounds.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No ballots have been cast yet.</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="text-sm font-medium">
+              {result.winner
+                ? `Winner: ${optionText(result.winner)}`
+                : 'No winner: the remaining options are tied.'}
+            </div>
+
+            {result.rounds.map((round) => {
+              const continuing = totalBallots - round.exhausted;
+              const tallies = Object.entries(round.tallies).sort((a, b) => b[1] - a[1]);
+
+              return (
+                <div key={round.round} className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-semibold">Round {round.round}</h3>
+                    {round.exhausted > 0 && (
+                      <span className="text-xs text-muted-foreground">
+                        {round.exhausted} exhausted ballot{round.exhausted !== 1 ? 's' : ''}
+                      </span>
+                    )}
+                  </div>
+                  {tallies.map(([optionId, count]) => {
+                    const percentage = continuing > 0 ? (count / continuing) * 100 : 0;
+                    const isEliminated = round.eliminated.includes(optionId);
+                    const isWinner = result.winner === optionId
+                      && round.round === result.rounds.length;
+
+                    return (
+                      <div key={optionId} className="space-y-1">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-2">
+                            <span className="text-sm font-medium">{optionText(optionId)}</span>
+                            {isWinner && (
+                              <Badge variant="default" className="text-xs">Winner</Badge>
+                            )}
+                            {isEliminated && (
+                              <Badge variant="secondary" className="text-xs">Eliminated</Badge>
+                            )}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {count} vote{count !== 1 ? 's' : ''} ({percentage.toFixed(1)}%)
+                          </div>
+                        </div>
+                        <Progress value={percentage} className="h-2" />
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
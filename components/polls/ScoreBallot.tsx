@@ -0,0 +1,54 @@
+'use client';
+
+import { PollWithOptions } from '@/lib/types/database';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ScoreBallotProps {
+  options: PollWithOptions['poll_options'];
+  scoreMax: number;
+  scores: Record<string, number>;
+  onScoreChange: (optionId: string, score: number) => void;
+}
+
+/**
+ * Ballot for score polls: one 1..scoreMax star rating per option.
+ */
+export function ScoreBallot({ options, scoreMax, scores, onScoreChange }: ScoreBallotProps) {
+  const scale = Array.from({ length: scoreMax }, (_, index) => index + 1);
+
+  return (
+    <div className="space-y-4">
+      {options.map((option) => (
+        <div key={option.id} className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <span className="text-sm font-medium">{option.text}</span>
+          <div className="flex items-center" role="radiogroup" aria-label={`Rate ${option.text}`}>
+            {scale.map((score) => (
+              <button
+                key={score}
+                type="button"
+                role="radio"
+                aria-checked={scores[option.id] === score}
+                aria-label={`${score} out of ${scoreMax}`}
+                onClick={() => onScoreChange(option.id, score)}
+                className="p-0.5"
+              >
+                <Star
+                  className={cn(
+                    'h-5 w-5 transition-colors',
+                    score <= (scores[option.id] ?? 0)
+                      ? 'fill-yellow-400 text-yellow-400'
+                      : 'text-muted-foreground'
+                  )}
+                />
+              </button>
+            ))}
+            <span className="ml-2 w-10 text-right text-xs text-muted-foreground">
+              {scores[option.id] ? `${scores[option.id]}/${scoreMax}` : '–'}
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { PollWithOptions } from '@/lib/types/database';
+import { OptionScore } from '@/lib/voting/score';
+
+interface ScoreResultsProps {
+  options: PollWithOptions['poll_options'];
+  scoreMax: number;
+  scores: OptionScore[];
+  isLoading: boolean;
+}
+
+/**
+ * Results for score polls: average rating, rating count and the
+ * distribution of ratings for every option.
+ */
+export function ScoreResults({ options, scoreMax, scores, isLoading }: ScoreResultsProps) {
+  const totalRatings = scores.reduce((max, score) => Math.max(max, score.count), 0);
+  const bestAverage = Math.max(...scores.map(score => score.average), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Current Results</CardTitle>
+        <CardDescription>
+          {totalRatings} voter{totalRatings !== 1 ? 's' : ''} • rated 1 to {scoreMax}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading results...</p>
+        ) : (
+          <div className="space-y-6">
+            {options.map((option) => {
+              const score = scores.find(s => s.option_id === option.id);
+              const average = score?.average ?? 0;
+              const count = score?.count ?? 0;
+
+              return (
+                <div key={option.id} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium">{option.text}</span>
+                      {count > 0 && average === bestAverage && (
+                        <Badge variant="default" className="text-xs">Top rated</Badge>
+                      )}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {average.toFixed(2)} avg • {count} rating{count !== 1 ? 's' : ''}
+                    </div>
+                  </div>
+                  <Progress value={(average / scoreMax) * 100} className="h-2" />
+                  <div className="flex items-end gap-1 h-8" aria-label={`Rating distribution for ${option.text}`}>
+                    {(score?.distribution ?? Array(scoreMax).fill(0)).map((ratings: number, index: number) => (
+                      <div key={index} className="flex flex-1 flex-col items-center">
+                        <div
+                          className="w-full rounded-sm bg-primary/60"
+                          style={{ height: `${count > 0 ? (ratings / count) * 24 : 0}px` }}
+                          title={`${ratings} × ${index + 1}`}
+                        />
+                        <span className="text-[10px] text-muted-foreground">{index + 1}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
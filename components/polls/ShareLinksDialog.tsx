@@ -0,0 +1,208 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Copy } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PollShareWithStats } from '@/lib/types/database';
+import { createShareCode, getShareCodes, updateShareCode } from '@/lib/actions/shares';
+import { MAX_SHARE_LABEL_LENGTH, ShareStatus, shareStatus, shareUrl } from '@/lib/polls/shares';
+import { fromDateTimeLocal, toDateTimeLocal } from '@/lib/polls/schedule';
+
+interface ShareLinksDialogProps {
+  pollId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_BADGES: Record<ShareStatus, { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  active: { label: 'Active', variant: 'default' },
+  disabled: { label: 'Disabled', variant: 'secondary' },
+  expired: { label: 'Expired', variant: 'outline' },
+};
+
+/**
+ * Manages a poll's share codes: short /s/<code> links, one per channel the
+ * poll is shared on, with the visits and votes that came through each.
+ * Codes can be created with a label and expiry, copied, disabled,
+ * re-enabled and expired.
+ */
+export function ShareLinksDialog({ pollId, open, onOpenChange }: ShareLinksDialogProps) {
+  const [shares, setShares] = useState<PollShareWithStats[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [label, setLabel] = useState('');
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const fetchShares = async () => {
+      setIsLoading(true);
+      const result = await getShareCodes(pollId);
+      if (result.error) {
+        toast.error(result.error);
+      }
+      setShares(result.shares);
+      setIsLoading(false);
+    };
+
+    fetchShares();
+  }, [open, pollId]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const result = await createShareCode(pollId, { label, expires_at: expiresAt });
+
+      if (!result.success || !result.share) {
+        throw new Error(result.error || 'Failed to create share link');
+      }
+
+      setShares([{ ...result.share, vote_count: 0 }, ...shares]);
+      setLabel('');
+      setExpiresAt(null);
+      await navigator.clipboard.writeText(shareUrl(window.location.origin, result.share.share_code));
+      toast.success('Share link created and copied to clipboard!');
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create share link. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleUpdate = async (shareId: string, changes: { is_active?: boolean; expires_at?: string | null }) => {
+    setUpdatingId(shareId);
+    try {
+      const result = await updateShareCode(shareId, changes);
+
+      if (!result.success || !result.share) {
+        throw new Error(result.error || 'Failed to update share link');
+      }
+
+      const updated = result.share;
+      setShares(shares.map(share => share.id === shareId ? { ...share, ...updated } : share));
+    } catch (error) {
+      console.error('Error updating share link:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update share link. Please try again.');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleCopy = (shareCode: string) => {
+    navigator.clipboard.writeText(shareUrl(window.location.origin, shareCode));
+    toast.success('Share link copied to clipboard!');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Share links</DialogTitle>
+          <DialogDescription>
+            Create a short link for each place you share the poll to see where visits and votes come from.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-[1fr_auto_auto] sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor={`share-label-${pollId}`}>Label</Label>
+            <Input
+              id={`share-label-${pollId}`}
+              placeholder="e.g. Newsletter"
+              maxLength={MAX_SHARE_LABEL_LENGTH}
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`share-expires-${pollId}`}>Expires (optional)</Label>
+            <Input
+              id={`share-expires-${pollId}`}
+              type="datetime-local"
+              value={toDateTimeLocal(expiresAt)}
+              onChange={(e) => setExpiresAt(fromDateTimeLocal(e.target.value))}
+            />
+          </div>
+          <Button onClick={handleCreate} disabled={isCreating}>
+            {isCreating ? 'Creating...' : 'Create Link'}
+          </Button>
+        </div>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading share links...</p>
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No share links yet.</p>
+          ) : (
+            shares.map((share) => {
+              const status = shareStatus(share);
+              const isUpdating = updatingId === share.id;
+
+              return (
+                <div key={share.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium truncate">{share.label || 'Unlabelled link'}</span>
+                        <Badge variant={STATUS_BADGES[status].variant} className="text-xs">
+                          {STATUS_BADGES[status].label}
+                        </Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">/s/{share.share_code}</div>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleCopy(share.share_code)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="text-xs text-muted-foreground">
+                      {share.visit_count} visit{share.visit_count !== 1 ? 's' : ''} • {share.vote_count} vote{share.vote_count !== 1 ? 's' : ''}
+                      {share.expires_at && ` • ${status === 'expired' ? 'Expired' : 'Expires'} ${new Date(share.expires_at).toLocaleString()}`}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isUpdating}
+                        onClick={() => handleUpdate(share.id, { is_active: !share.is_active })}
+                      >
+                        {share.is_active ? 'Disable' : 'Enable'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isUpdating}
+                        onClick={() => handleUpdate(share.id, {
+                          // Expired links are reopened by removing the expiry
+                          expires_at: status === 'expired' ? null : new Date().toISOString(),
+                        })}
+                      >
+                        {status === 'expired' ? 'Remove Expiry' : 'Expire Now'}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Poll, PollMemberRole } from '@/lib/types/database';
+import { canEditPoll } from '@/lib/polls/members';
+
+interface SharedPollCardProps {
+  poll: Poll;
+  role: PollMemberRole;
+}
+
+/**
+ * A poll someone else shared with the current user, on the dashboard.
+ * Editors get a link to the poll's edit page; the creator's other actions,
+ * such as deleting the poll, aren't offered.
+ */
+export function SharedPollCard({ poll, role }: SharedPollCardProps) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1 min-w-0">
+          <CardTitle className="text-lg truncate">{poll.title}</CardTitle>
+          <CardDescription className="flex flex-wrap gap-2">
+            <Badge variant="outline" className="capitalize">{role}</Badge>
+            {poll.is_draft && <Badge variant="secondary">Draft</Badge>}
+            {!poll.is_draft && (
+              <Badge variant={poll.status === 'active' ? 'default' : 'secondary'}>{poll.status}</Badge>
+            )}
+          </CardDescription>
+        </div>
+        <div className="flex shrink-0 gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/polls/${poll.id}`}>View</Link>
+          </Button>
+          {canEditPoll(role) && (
+            <Button size="sm" asChild>
+              <Link href={`/polls/${poll.id}/edit`}>Edit</Link>
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+    </Card>
+  );
+}
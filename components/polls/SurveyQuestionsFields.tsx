@@ -0,0 +1,259 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SurveyQuestionData, VoteType } from '@/lib/types/database';
+import {
+  DEFAULT_SCORE_MAX,
+  DEFAULT_VOTE_CREDITS,
+  MAX_QUESTIONS,
+  MAX_VOTE_CREDITS,
+  SCORE_MAX_OPTIONS,
+  maxOptionsFor,
+} from '@/lib/polls/settings';
+import { VOTE_TYPE_LABELS } from '@/lib/voting/vote-types';
+
+export const EMPTY_QUESTION: SurveyQuestionData = {
+  prompt: '',
+  vote_type: 'single',
+  options: ['', ''],
+};
+
+interface SurveyQuestionsFieldsProps {
+  questions: SurveyQuestionData[];
+  onChange: (questions: SurveyQuestionData[]) => void;
+  /** Shows the questions without letting them be changed, as on published surveys. */
+  readOnly?: boolean;
+}
+
+/**
+ * Question builder for surveys, shared by the create and edit poll forms.
+ * Every question has a prompt, its own voting method with the method's
+ * settings, and its own options.
+ */
+export function SurveyQuestionsFields({ questions, onChange, readOnly = false }: SurveyQuestionsFieldsProps) {
+  const updateQuestion = (index: number, patch: Partial<SurveyQuestionData>) => {
+    onChange(questions.map((question, i) => i === index ? { ...question, ...patch } : question));
+  };
+
+  if (readOnly) {
+    return (
+      <div className="space-y-3">
+        <Label>Questions</Label>
+        <p className="text-xs text-muted-foreground">
+          Questions can&apos;t be changed once a survey is published. Duplicate the survey to start a new version.
+        </p>
+        {questions.map((question, index) => (
+          <div key={index} className="rounded-md border p-3 text-sm space-y-1">
+            <div className="font-medium">{index + 1}. {question.prompt}</div>
+            <div className="text-muted-foreground">
+              {VOTE_TYPE_LABELS[question.vote_type ?? 'single']} • {question.options.join(', ')}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label>
+          Questions * <span className="font-normal text-muted-foreground">(up to {MAX_QUESTIONS})</span>
+        </Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...questions, EMPTY_QUESTION])}
+          disabled={questions.length >= MAX_QUESTIONS}
+        >
+          Add Question
+        </Button>
+      </div>
+
+      {questions.map((question, index) => (
+        <SurveyQuestionFields
+          key={index}
+          index={index}
+          question={question}
+          canRemove={questions.length > 2}
+          onChange={(patch) => updateQuestion(index, patch)}
+          onRemove={() => onChange(questions.filter((_, i) => i !== index))}
+        />
+      ))}
+    </div>
+  );
+}
+
+function SurveyQuestionFields({
+  index,
+  question,
+  canRemove,
+  onChange,
+  onRemove
+}: {
+  index: number;
+  question: SurveyQuestionData;
+  canRemove: boolean;
+  onChange: (patch: Partial<SurveyQuestionData>) => void;
+  onRemove: () => void;
+}) {
+  const voteType = question.vote_type ?? 'single';
+  const maxOptions = maxOptionsFor(voteType);
+  const id = (field: string) => `question-${index}-${field}`;
+
+  return (
+    <div className="rounded-md border p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Question {index + 1}</h3>
+        {canRemove && (
+          <Button type="button" variant="outline" size="sm" onClick={onRemove}>
+            Remove Question
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={id('prompt')}>Prompt *</Label>
+        <Input
+          id={id('prompt')}
+          placeholder="What do you want to ask?"
+          value={question.prompt}
+          onChange={(e) => onChange({ prompt: e.target.value })}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={id('voteType')}>Voting method</Label>
+        <Select
+          value={voteType}
+          onValueChange={(next) => onChange({ vote_type: next as VoteType })}
+        >
+          <SelectTrigger id={id('voteType')} className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(VOTE_TYPE_LABELS) as VoteType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {VOTE_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {voteType === 'multiple' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={id('minSelections')}>Minimum selections</Label>
+            <Input
+              id={id('minSelections')}
+              type="number"
+              min={1}
+              value={question.min_selections ?? 1}
+              onChange={(e) => onChange({ min_selections: Math.max(1, Number(e.target.value) || 1) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={id('maxSelections')}>Maximum selections</Label>
+            <Input
+              id={id('maxSelections')}
+              type="number"
+              min={question.min_selections ?? 1}
+              placeholder="No limit"
+              value={question.max_selections ?? ''}
+              onChange={(e) => onChange({
+                max_selections: e.target.value === '' ? null : Number(e.target.value),
+              })}
+            />
+          </div>
+        </div>
+      )}
+
+      {voteType === 'score' && (
+        <div className="space-y-2">
+          <Label htmlFor={id('scoreMax')}>Rating scale</Label>
+          <Select
+            value={String(question.score_max ?? DEFAULT_SCORE_MAX)}
+            onValueChange={(next) => onChange({ score_max: Number(next) })}
+          >
+            <SelectTrigger id={id('scoreMax')} className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCORE_MAX_OPTIONS.map((max) => (
+                <SelectItem key={max} value={String(max)}>
+                  1 to {max}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {voteType === 'quadratic' && (
+        <div className="space-y-2">
+          <Label htmlFor={id('voteCredits')}>Credits per voter</Label>
+          <Input
+            id={id('voteCredits')}
+            type="number"
+            min={1}
+            max={MAX_VOTE_CREDITS}
+            value={question.vote_credits ?? DEFAULT_VOTE_CREDITS}
+            onChange={(e) => onChange({ vote_credits: Number(e.target.value) || DEFAULT_VOTE_CREDITS })}
+          />
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>
+            Options * <span className="font-normal text-muted-foreground">(up to {maxOptions})</span>
+          </Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ options: [...question.options, ''] })}
+            disabled={question.options.length >= maxOptions}
+          >
+            Add Option
+          </Button>
+        </div>
+
+        {question.options.map((option, optionIndex) => (
+          <div key={optionIndex} className="flex items-center space-x-2">
+            <Input
+              placeholder={`Option ${optionIndex + 1}`}
+              value={option}
+              onChange={(e) => onChange({
+                options: question.options.map((text, i) => i === optionIndex ? e.target.value : text),
+              })}
+              required
+            />
+            {question.options.length > 2 && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => onChange({ options: question.options.filter((_, i) => i !== optionIndex) })}
+              >
+                Remove
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
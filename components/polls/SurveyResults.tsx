@@ -0,0 +1,129 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { SurveyQuestion } from '@/lib/types/database';
+import { OptionCount, SurveyQuestionResult } from '@/lib/polls/survey';
+import { RankedChoiceResults } from '@/components/polls/RankedChoiceResults';
+import { ScoreResults } from '@/components/polls/ScoreResults';
+import { QuadraticResults } from '@/components/polls/QuadraticResults';
+import { PairwiseResults } from '@/components/polls/PairwiseResults';
+
+interface SurveyResultsProps {
+  questions: SurveyQuestion[];
+  results: SurveyQuestionResult[];
+  isLoading: boolean;
+}
+
+/**
+ * Results for surveys: every question under its prompt, shown the way
+ * results of a poll with the question's voting method are shown.
+ */
+export function SurveyResults({ questions, results, isLoading }: SurveyResultsProps) {
+  return (
+    <div className="space-y-6">
+      {questions.map((question, index) => {
+        const result = results.find(r => r.question_id === question.id);
+
+        return (
+          <section key={question.id} className="space-y-2">
+            <h2 className="text-base font-semibold">
+              {index + 1}. {question.prompt}
+            </h2>
+            {question.vote_type === 'ranked' ? (
+              <RankedChoiceResults
+                options={question.poll_options}
+                result={result?.vote_type === 'ranked' ? result.runoff : null}
+                isLoading={isLoading}
+              />
+            ) : question.vote_type === 'score' ? (
+              <ScoreResults
+                options={question.poll_options}
+                scoreMax={question.score_max}
+                scores={result?.vote_type === 'score' ? result.scores : []}
+                isLoading={isLoading}
+              />
+            ) : question.vote_type === 'quadratic' ? (
+              <QuadraticResults
+                options={question.poll_options}
+                tallies={result?.vote_type === 'quadratic' ? result.tallies : []}
+                isLoading={isLoading}
+              />
+            ) : question.vote_type === 'pairwise' ? (
+              <PairwiseResults
+                options={question.poll_options}
+                result={result?.vote_type === 'pairwise' ? result.pairwise : null}
+                isLoading={isLoading}
+              />
+            ) : (
+              <ChoiceResults
+                options={question.poll_options}
+                counts={result && 'counts' in result ? result.counts : []}
+                responses={result?.responses ?? 0}
+                isLoading={isLoading}
+              />
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Vote counts for a single or multiple choice question.
+ */
+function ChoiceResults({
+  options,
+  counts,
+  responses,
+  isLoading
+}: {
+  options: SurveyQuestion['poll_options'];
+  counts: OptionCount[];
+  responses: number;
+  isLoading: boolean;
+}) {
+  const maxVotes = Math.max(...counts.map(count => count.vote_count), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Current Results</CardTitle>
+        <CardDescription>
+          {responses} response{responses !== 1 ? 's' : ''}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading results...</p>
+        ) : (
+          <div className="space-y-4">
+            {options.map((option) => {
+              const count = counts.find(c => c.option_id === option.id);
+              const voteCount = count?.vote_count ?? 0;
+
+              return (
+                <div key={option.id} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium">{option.text}</span>
+                      {voteCount === maxVotes && maxVotes > 0 && (
+                        <Badge variant="default" className="text-xs">Leading</Badge>
+                      )}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {voteCount} vote{voteCount !== 1 ? 's' : ''} ({(count?.percentage ?? 0).toFixed(1)}%)
+                    </div>
+                  </div>
+                  <Progress value={count?.percentage ?? 0} className="h-2" />
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
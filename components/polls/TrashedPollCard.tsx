@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import { PollWithOptions } from '@/lib/types/database';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { deletePollPermanently, restorePoll } from '@/lib/actions/polls';
+import { daysUntilPurge } from '@/lib/polls/trash';
+
+interface TrashedPollCardProps {
+  poll: PollWithOptions;
+  retentionDays: number;
+  onPollRestored: (pollId: string) => void;
+  onPollPurged: (pollId: string) => void;
+}
+
+/**
+ * Card for a poll in the dashboard trash, with actions to restore it or
+ * delete it for good before the retention period runs out.
+ *
+ * @example
+ * ```tsx
+ * <TrashedPollCard
+ *   poll={poll}
+ *   retentionDays={30}
+ *   onPollRestored={(pollId) => reloadPolls()}
+ *   onPollPurged={(pollId) => removeFromTrash(pollId)}
+ * />
+ * ```
+ */
+export function TrashedPollCard({ poll, retentionDays, onPollRestored, onPollPurged }: TrashedPollCardProps) {
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [isPurging, setIsPurging] = useState(false);
+
+  const daysLeft = poll.deleted_at ? daysUntilPurge(poll.deleted_at, retentionDays) : retentionDays;
+  const optionCount = poll.poll_options?.length || 0;
+
+  /**
+   * Restores the poll, with its votes, to the user's polls.
+   */
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    try {
+      const result = await restorePoll(poll.id);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to restore poll');
+      }
+
+      toast.success('Poll restored');
+      onPollRestored(poll.id);
+    } catch (error) {
+      console.error('Error restoring poll:', error);
+      toast.error('Failed to restore poll. Please try again.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  /**
+   * Deletes the poll and its votes permanently, after confirmation.
+   */
+  const handlePurge = async () => {
+    if (!confirm('Delete this poll forever? Its votes will be lost and this action cannot be undone.')) {
+      return;
+    }
+
+    setIsPurging(true);
+    try {
+      const result = await deletePollPermanently(poll.id);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete poll');
+      }
+
+      toast.success('Poll deleted permanently');
+      onPollPurged(poll.id);
+    } catch (error) {
+      console.error('Error deleting poll:', error);
+      toast.error('Failed to delete poll. Please try again.');
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="text-lg text-muted-foreground">{poll.title}</CardTitle>
+            <CardDescription>
+              {optionCount} options • Deleted {poll.deleted_at ? new Date(poll.deleted_at).toLocaleDateString() : ''} •{' '}
+              {daysLeft > 0
+                ? `Deleted forever in ${daysLeft} day${daysLeft !== 1 ? 's' : ''}`
+                : 'Will be deleted forever shortly'}
+            </CardDescription>
+          </div>
+          <div className="flex shrink-0 space-x-2">
+            <Button size="sm" variant="outline" onClick={handleRestore} disabled={isRestoring || isPurging}>
+              {isRestoring ? 'Restoring...' : 'Restore'}
+            </Button>
+            <Button size="sm" variant="destructive" onClick={handlePurge} disabled={isRestoring || isPurging}>
+              {isPurging ? 'Deleting...' : 'Delete Forever'}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CreatePollData, DuplicateProtection, ResultsVisibility, VoteType } from '@/lib/types/database';
+import {
+  DEFAULT_SCORE_MAX,
+  DEFAULT_VOTE_CREDITS,
+  DUPLICATE_PROTECTION_LABELS,
+  MAX_VOTE_CREDITS,
+  RESULTS_VISIBILITY_LABELS,
+  SCORE_MAX_OPTIONS,
+} from '@/lib/polls/settings';
+import { VOTE_TYPE_LABELS, isChoiceVoteType } from '@/lib/voting/vote-types';
+
+export type VotingMethodSettings = Pick<
+  CreatePollData,
+  'vote_type' | 'allow_multiple_votes' | 'score_max' | 'min_selections' | 'max_selections' | 'vote_credits' | 'allow_write_in' | 'duplicate_protection' | 'results_visibility'
+>;
+
+interface VotingMethodFieldsProps {
+  settings: VotingMethodSettings;
+  onChange: (patch: Partial<VotingMethodSettings>) => void;
+  /** Surveys pick a voting method per question, so only the poll-wide settings are shown. */
+  isSurvey?: boolean;
+  /** Fixes the voting method, rating scale and credit budget of a poll that has votes. */
+  lockVotingMethod?: boolean;
+}
+
+/**
+ * Voting method picker and method-specific settings, shared by the create
+ * and edit poll forms.
+ */
+export function VotingMethodFields({ settings, onChange, isSurvey = false, lockVotingMethod = false }: VotingMethodFieldsProps) {
+  const voteType = settings.vote_type ?? 'single';
+
+  return (
+    <div className="space-y-4">
+      {!isSurvey && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="voteType">Voting method</Label>
+            <Select
+              value={voteType}
+              onValueChange={(next) => onChange({
+                vote_type: next as VoteType,
+                allow_multiple_votes: next === 'multiple',
+              })}
+              disabled={lockVotingMethod}
+            >
+              <SelectTrigger id="voteType" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(VOTE_TYPE_LABELS) as VoteType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {VOTE_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {lockVotingMethod && (
+              <p className="text-xs text-muted-foreground">
+                The voting method can&apos;t be changed once the poll has votes.
+              </p>
+            )}
+          </div>
+
+          {voteType === 'multiple' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="minSelections">Minimum selections</Label>
+                <Input
+                  id="minSelections"
+                  type="number"
+                  min={1}
+                  value={settings.min_selections ?? 1}
+                  onChange={(e) => onChange({ min_selections: Math.max(1, Number(e.target.value) || 1) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxSelections">Maximum selections</Label>
+                <Input
+                  id="maxSelections"
+                  type="number"
+                  min={settings.min_selections ?? 1}
+                  placeholder="No limit"
+                  value={settings.max_selections ?? ''}
+                  onChange={(e) => onChange({
+                    max_selections: e.target.value === '' ? null : Number(e.target.value),
+                  })}
+                />
+              </div>
+            </div>
+          )}
+
+          {isChoiceVoteType(voteType) && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="allowWriteIn"
+                checked={Boolean(settings.allow_write_in)}
+                onCheckedChange={(checked) => onChange({ allow_write_in: checked as boolean })}
+                aria-label="Allow write-in answers"
+              />
+              <Label htmlFor="allowWriteIn">Allow voters to write in an &quot;Other&quot; answer</Label>
+            </div>
+          )}
+
+          {voteType === 'score' && (
+            <div className="space-y-2">
+              <Label htmlFor="scoreMax">Rating scale</Label>
+              <Select
+                value={String(settings.score_max ?? DEFAULT_SCORE_MAX)}
+                onValueChange={(next) => onChange({ score_max: Number(next) })}
+                disabled={lockVotingMethod}
+              >
+                <SelectTrigger id="scoreMax" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCORE_MAX_OPTIONS.map((max) => (
+                    <SelectItem key={max} value={String(max)}>
+                      1 to {max}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {voteType === 'quadratic' && (
+            <div className="space-y-2">
+              <Label htmlFor="voteCredits">Credits per voter</Label>
+              <Input
+                id="voteCredits"
+                type="number"
+                min={1}
+                max={MAX_VOTE_CREDITS}
+                value={settings.vote_credits ?? DEFAULT_VOTE_CREDITS}
+                disabled={lockVotingMethod}
+                onChange={(e) => onChange({ vote_credits: Number(e.target.value) || DEFAULT_VOTE_CREDITS })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Casting k votes on one option costs k² credits.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="duplicateProtection">Anonymous duplicate-vote protection</Label>
+        <Select
+          value={settings.duplicate_protection ?? 'cookie'}
+          onValueChange={(next) => onChange({ duplicate_protection: next as DuplicateProtection })}
+        >
+          <SelectTrigger id="duplicateProtection" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(DUPLICATE_PROTECTION_LABELS) as DuplicateProtection[]).map((level) => (
+              <SelectItem key={level} value={level}>
+                {DUPLICATE_PROTECTION_LABELS[level]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Strict mode can block different people sharing one network and device type.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="resultsVisibility">Show results</Label>
+        <Select
+          value={settings.results_visibility ?? 'always'}
+          onValueChange={(next) => onChange({ results_visibility: next as ResultsVisibility })}
+        >
+          <SelectTrigger id="resultsVisibility" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(RESULTS_VISIBILITY_LABELS) as ResultsVisibility[]).map((visibility) => (
+              <SelectItem key={visibility} value={visibility}>
+                {RESULTS_VISIBILITY_LABELS[visibility]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          You can always see the results of your own polls.
+        </p>
+      </div>
+    </div>
+  );
+}
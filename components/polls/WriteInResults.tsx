@@ -0,0 +1,66 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { WriteInGroup } from '@/lib/voting/write-ins';
+
+interface WriteInResultsProps {
+  writeIns: WriteInGroup[];
+  isOwner: boolean;
+  onPromote: (text: string) => Promise<void>;
+}
+
+/**
+ * Write-in ("Other") answers grouped case-insensitively, most popular first.
+ *
+ * Poll owners can promote an answer to a real option; its votes move with it.
+ */
+export function WriteInResults({ writeIns, isOwner, onPromote }: WriteInResultsProps) {
+  const [promoting, setPromoting] = useState<string | null>(null);
+
+  const handlePromote = async (text: string) => {
+    setPromoting(text);
+    try {
+      await onPromote(text);
+    } finally {
+      setPromoting(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Other answers</CardTitle>
+        <CardDescription>
+          Written in by voters{isOwner ? '. Add a popular answer as an option to keep its votes.' : ''}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2">
+          {writeIns.map((writeIn) => (
+            <li key={writeIn.text} className="flex items-center justify-between">
+              <span className="text-sm font-medium">{writeIn.text}</span>
+              <div className="flex items-center space-x-3">
+                <span className="text-sm text-muted-foreground">
+                  {writeIn.count} vote{writeIn.count !== 1 ? 's' : ''}
+                </span>
+                {isOwner && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handlePromote(writeIn.text)}
+                    disabled={promoting !== null}
+                  >
+                    {promoting === writeIn.text ? 'Adding...' : 'Add as option'}
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
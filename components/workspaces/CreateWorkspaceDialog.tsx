@@ -0,0 +1,85 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { createWorkspace } from '@/lib/actions/workspaces';
+import { MAX_WORKSPACE_NAME_LENGTH } from '@/lib/workspaces/members';
+
+interface CreateWorkspaceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Creates a workspace with the current user as its owner, then opens the
+ * new workspace's dashboard.
+ */
+export function CreateWorkspaceDialog({ open, onOpenChange }: CreateWorkspaceDialogProps) {
+  const [name, setName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const router = useRouter();
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const result = await createWorkspace(name);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create workspace');
+      }
+
+      toast.success(`Created workspace "${name.trim()}"`);
+      setName('');
+      onOpenChange(false);
+      router.push(`/dashboard?workspace=${result.workspaceId}`);
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create workspace. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New workspace</DialogTitle>
+          <DialogDescription>
+            A workspace keeps a team&apos;s polls together. Everyone you add can see its polls and create new ones.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="workspaceName">Workspace name</Label>
+          <Input
+            id="workspaceName"
+            placeholder="e.g. Marketing team"
+            maxLength={MAX_WORKSPACE_NAME_LENGTH}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={isCreating || !name.trim()}>
+            {isCreating ? 'Creating...' : 'Create Workspace'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { WorkspaceMemberWithProfile, WorkspaceWithRole } from '@/lib/types/database';
+import { AssignableWorkspaceRole, WORKSPACE_ROLE_LABELS, canManageWorkspace } from '@/lib/workspaces/members';
+import {
+  addWorkspaceMember,
+  deleteWorkspace,
+  getWorkspaceMembers,
+  removeWorkspaceMember,
+  updateWorkspaceMemberRole,
+} from '@/lib/actions/workspaces';
+
+interface WorkspaceMembersDialogProps {
+  workspace: WorkspaceWithRole;
+  /** The signed-in user, to offer them leaving the workspace. */
+  userId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Lists the members of a workspace. Its owner and admins add members by
+ * the email address of their account and pick whether each one is an
+ * admin; everyone but the owner can leave, and the owner can delete the
+ * workspace. Leaving or deleting goes back to the personal dashboard.
+ */
+export function WorkspaceMembersDialog({ workspace, userId, open, onOpenChange }: WorkspaceMembersDialogProps) {
+  const [members, setMembers] = useState<WorkspaceMemberWithProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<AssignableWorkspaceRole>('member');
+  const [isAdding, setIsAdding] = useState(false);
+  const router = useRouter();
+
+  const canManage = canManageWorkspace(workspace.role);
+
+  const fetchMembers = useCallback(async () => {
+    const result = await getWorkspaceMembers(workspace.id);
+    if (result.error) {
+      toast.error(result.error);
+    }
+    setMembers(result.members);
+  }, [workspace.id]);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    setIsLoading(true);
+    fetchMembers().finally(() => setIsLoading(false));
+  }, [open, fetchMembers]);
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    try {
+      const result = await addWorkspaceMember(workspace.id, email, role);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to add member');
+      }
+
+      setEmail('');
+      toast.success('Member added');
+      await fetchMembers();
+    } catch (error) {
+      console.error('Error adding workspace member:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add member. Please try again.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, newRole: AssignableWorkspaceRole) => {
+    const result = await updateWorkspaceMemberRole(memberId, newRole);
+
+    if (result.success) {
+      setMembers(members.map(member => member.id === memberId ? { ...member, role: newRole } : member));
+    } else {
+      toast.error(result.error || 'Failed to change role');
+    }
+  };
+
+  const handleRemove = async (member: WorkspaceMemberWithProfile) => {
+    const isLeaving = member.user_id === userId;
+    if (isLeaving && !confirm(`Leave ${workspace.name}? You'll no longer see its polls.`)) {
+      return;
+    }
+
+    const result = await removeWorkspaceMember(member.id);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to remove member');
+    } else if (isLeaving) {
+      toast.success(`You left ${workspace.name}`);
+      onOpenChange(false);
+      router.push('/dashboard');
+    } else {
+      setMembers(members.filter(other => other.id !== member.id));
+    }
+  };
+
+  const handleDeleteWorkspace = async () => {
+    if (!confirm(`Delete ${workspace.name}? Its polls aren't deleted: they go back to whoever created them.`)) {
+      return;
+    }
+
+    const result = await deleteWorkspace(workspace.id);
+
+    if (result.success) {
+      toast.success('Workspace deleted');
+      onOpenChange(false);
+      router.push('/dashboard');
+    } else {
+      toast.error(result.error || 'Failed to delete workspace');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{workspace.name} members</DialogTitle>
+          <DialogDescription>
+            Members see every poll in the workspace and can create new ones. The owner and admins can also edit all of its polls and manage its members.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {canManage && (
+            <div className="space-y-2">
+              <Label htmlFor="workspaceMemberEmail">Add a member</Label>
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <Input
+                  id="workspaceMemberEmail"
+                  type="email"
+                  placeholder="Email address of their account"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+                <Select value={role} onValueChange={(value) => setRole(value as AssignableWorkspaceRole)}>
+                  <SelectTrigger className="sm:w-44" aria-label="Role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(WORKSPACE_ROLE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button type="button" onClick={handleAdd} disabled={isAdding || !email.trim()}>
+                  {isAdding ? 'Adding...' : 'Add'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="max-h-80 space-y-2 overflow-y-auto">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading members...</p>
+            ) : (
+              members.map((member) => (
+                <div key={member.id} className="flex items-center justify-between gap-2 rounded-md border p-3">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">
+                      {member.name}{member.user_id === userId && ' (you)'}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">{member.email}</div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    {canManage && member.role !== 'owner' ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => handleRoleChange(member.id, value as AssignableWorkspaceRole)}
+                      >
+                        <SelectTrigger className="w-28" aria-label={`Role of ${member.name}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="admin">Admin</SelectItem>
+                          <SelectItem value="member">Member</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className="text-sm text-muted-foreground capitalize">{member.role}</span>
+                    )}
+                    {member.role !== 'owner' && (canManage || member.user_id === userId) && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemove(member)}
+                        aria-label={member.user_id === userId ? 'Leave workspace' : `Remove ${member.name}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          {workspace.role === 'owner' && (
+            <div className="flex justify-end">
+              <Button variant="outline" className="text-red-600" onClick={handleDeleteWorkspace}>
+                Delete Workspace
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
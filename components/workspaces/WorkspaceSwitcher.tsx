@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Plus, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { WorkspaceWithRole } from '@/lib/types/database';
+import { CreateWorkspaceDialog } from '@/components/workspaces/CreateWorkspaceDialog';
+import { WorkspaceMembersDialog } from '@/components/workspaces/WorkspaceMembersDialog';
+
+// Select value for the user's own polls, outside any workspace
+const PERSONAL_DASHBOARD = 'personal';
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceWithRole[];
+  /** The workspace the dashboard shows, or null for the user's own polls. */
+  activeWorkspace: WorkspaceWithRole | null;
+  userId: string;
+}
+
+/**
+ * Switches the dashboard between the user's own polls and the polls of
+ * each of their workspaces, through the dashboard's ?workspace=<id>
+ * parameter. Also creates workspaces and opens the members of the current
+ * one.
+ */
+export function WorkspaceSwitcher({ workspaces, activeWorkspace, userId }: WorkspaceSwitcherProps) {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+  const router = useRouter();
+
+  const handleSwitch = (value: string) => {
+    router.push(value === PERSONAL_DASHBOARD ? '/dashboard' : `/dashboard?workspace=${value}`);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={activeWorkspace?.id ?? PERSONAL_DASHBOARD} onValueChange={handleSwitch}>
+        <SelectTrigger className="w-56" aria-label="Workspace">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={PERSONAL_DASHBOARD}>Personal</SelectItem>
+          {workspaces.map((workspace) => (
+            <SelectItem key={workspace.id} value={workspace.id}>
+              {workspace.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {activeWorkspace && (
+        <Button variant="outline" onClick={() => setIsMembersOpen(true)}>
+          <Users className="mr-2 h-4 w-4" />
+          Members
+        </Button>
+      )}
+      <Button variant="outline" onClick={() => setIsCreateOpen(true)}>
+        <Plus className="mr-2 h-4 w-4" />
+        New Workspace
+      </Button>
+
+      <CreateWorkspaceDialog open={isCreateOpen} onOpenChange={setIsCreateOpen} />
+      {activeWorkspace && (
+        <WorkspaceMembersDialog
+          workspace={activeWorkspace}
+          userId={userId}
+          open={isMembersOpen}
+          onOpenChange={setIsMembersOpen}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { PollInvitation, PollInvitationWithStatus } from '@/lib/types/database';
+import {
+  MAX_INVITATIONS_PER_POLL,
+  invitationEmail,
+  invitationTurnout,
+  invitationUrl,
+  parseInviteeEmails,
+} from '@/lib/polls/invitations';
+import { signInvitationToken } from '@/lib/voting/invitations';
+import { sendEmail } from '@/lib/email';
+
+// Invitation links point back at the site the owner is using
+async function requestOrigin() {
+  const headerList = await headers();
+  const host = headerList.get('x-forwarded-host') ?? headerList.get('host');
+  return headerList.get('origin') ?? `${headerList.get('x-forwarded-proto') ?? 'https'}://${host}`;
+}
+
+/**
+ * Adds invitees to one of the current user's polls.
+ *
+ * Takes a pasted list of email addresses, separated by commas, semicolons,
+ * spaces or new lines. Addresses already on the list are skipped, and
+ * removed invitations are restored. Invitations aren't emailed until
+ * sendInvitations is called.
+ *
+ * @param pollId - The poll to invite people to
+ * @param emails - The pasted list of addresses
+ * @returns Promise resolving to success/error result with the number of new invitations
+ *
+ * @example
+ * ```tsx
+ * const result = await addInvitations(poll.id, 'ana@example.com, ben@example.com');
+ *
+ * if (result.success) {
+ *   toast.success(`${result.added} people invited`);
+ * }
+ * ```
+ */
+export async function addInvitations(pollId: string, emails: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to invite people');
+    }
+
+    const { emails: addresses, invalid } = parseInviteeEmails(emails);
+    if (invalid.length > 0) {
+      throw new Error(`Not an email address: ${invalid.slice(0, 3).join(', ')}${invalid.length > 3 ? '…' : ''}`);
+    }
+    if (addresses.length === 0) {
+      throw new Error('Enter at least one email address');
+    }
+
+    const { data: poll, error: pollCheckError } = await supabase
+      .from('polls')
+      .select('created_by')
+      .eq('id', pollId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pollCheckError || !poll) {
+      throw new Error('Poll not found');
+    }
+
+    if (poll.created_by !== user.id) {
+      throw new Error('You can only invite people to your own polls');
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('poll_invitations')
+      .select('email')
+      .eq('poll_id', pollId)
+      .is('revoked_at', null);
+
+    if (existingError) {
+      throw new Error(`Failed to fetch invitations: ${existingError.message}`);
+    }
+
+    const invited = new Set((existing || []).map((invitation: Pick<PollInvitation, 'email'>) => invitation.email));
+    const newAddresses = addresses.filter(email => !invited.has(email));
+
+    if (invited.size + newAddresses.length > MAX_INVITATIONS_PER_POLL) {
+      throw new Error(`A poll can have at most ${MAX_INVITATIONS_PER_POLL} invitations`);
+    }
+
+    if (newAddresses.length > 0) {
+      // A removed invitation comes back under its old ID, so a vote cast under it still counts
+      const { error: insertError } = await supabase
+        .from('poll_invitations')
+        .upsert(
+          newAddresses.map(email => ({ poll_id: pollId, email, created_by: user.id, revoked_at: null })),
+          { onConflict: 'poll_id,email' }
+        );
+
+      if (insertError) {
+        throw new Error(`Failed to add invitations: ${insertError.message}`);
+      }
+    }
+
+    return { success: true, added: newAddresses.length };
+  } catch (error) {
+    console.error('Error adding invitations:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to add invitations'
+    };
+  }
+}
+
+/**
+ * Fetches the invitations of one of the current user's polls, in the order
+ * they were added, with each invitee's personal link and whether they have
+ * voted.
+ *
+ * @param pollId - The poll whose invitations to list
+ * @returns Promise resolving to invitations array and error state
+ *
+ * @example
+ * ```tsx
+ * const { invitations } = await getInvitations(poll.id);
+ * const nonVoters = invitations.filter(invitation => !invitation.has_voted);
+ * ```
+ */
+export async function getInvitations(pollId: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to view invitations');
+    }
+
+    const { data: poll, error: pollCheckError } = await supabase
+      .from('polls')
+      .select('created_by')
+      .eq('id', pollId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pollCheckError || !poll) {
+      throw new Error('Poll not found');
+    }
+
+    if (poll.created_by !== user.id) {
+      throw new Error('You can only view invitations of your own polls');
+    }
+
+    const { data: invitations, error: invitationsError } = await supabase
+      .from('poll_invitations')
+      .select('*')
+      .eq('poll_id', pollId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: true });
+
+    if (invitationsError) {
+      throw new Error(`Failed to fetch invitations: ${invitationsError.message}`);
+    }
+
+    const { data: votes, error: votesError } = await supabase
+      .from('votes')
+      .select('invitation_id')
+      .eq('poll_id', pollId)
+      .not('invitation_id', 'is', null);
+
+    if (votesError) {
+      throw new Error(`Failed to fetch invitation votes: ${votesError.message}`);
+    }
+
+    const origin = await requestOrigin();
+
+    return {
+      invitations: invitationTurnout(invitations || [], votes || []).map(
+        ({ secret, ...invitation }): PollInvitationWithStatus => ({
+          ...invitation,
+          url: invitationUrl(origin, signInvitationToken({ id: invitation.id, secret })),
+        })
+      ),
+      error: null
+    };
+  } catch (error) {
+    console.error('Error fetching invitations:', error);
+    return {
+      invitations: [] as PollInvitationWithStatus[],
+      error: error instanceof Error ? error.message : 'Failed to fetch invitations'
+    };
+  }
+}
+
+/**
+ * Removes an invitation from one of the current user's polls. The invitee
+ * can no longer vote; a vote they already cast is kept. The invitation is
+ * only marked revoked, so inviting the address again can't give it a
+ * second ballot.
+ *
+ * @param invitationId - The invitation to remove
+ * @returns Promise resolving to success/error result
+ *
+ * @example
+ * ```tsx
+ * const result = await removeInvitation(invitation.id);
+ * ```
+ */
+export async function removeInvitation(invitationId: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to remove an invitation');
+    }
+
+    const { data: invitation, error: invitationCheckError } = await supabase
+      .from('poll_invitations')
+      .select('poll_id')
+      .eq('id', invitationId)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (invitationCheckError || !invitation) {
+      throw new Error('Invitation not found');
+    }
+
+    const { data: poll, error: pollCheckError } = await supabase
+      .from('polls')
+      .select('created_by')
+      .eq('id', invitation.poll_id)
+      .single();
+
+    if (pollCheckError || !poll || poll.created_by !== user.id) {
+      throw new Error('You can only remove invitations of your own polls');
+    }
+
+    const { error: revokeError } = await supabase
+      .from('poll_invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', invitationId);
+
+    if (revokeError) {
+      throw new Error(`Failed to remove invitation: ${revokeError.message}`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error removing invitation:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove invitation'
+    };
+  }
+}
+
+/**
+ * Emails invitations of one of the current user's invite-only polls, each
+ * with the invitee's personal link.
+ *
+ * Without `invitationIds`, every invitee who hasn't voted yet is emailed,
+ * which is how invitations are first sent and later resent as reminders.
+ * Invitees who already voted are never emailed again.
+ *
+ * @param pollId - The poll whose invitations to send
+ * @param invitationIds - Only send these invitations
+ * @returns Promise resolving to success/error result with the number of emails sent
+ *
+ * @example
+ * ```tsx
+ * // Remind everyone who hasn't voted yet
+ * const result = await sendInvitations(poll.id);
+ * ```
+ */
+export async function sendInvitations(pollId: string, invitationIds?: string[]) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to send invitations');
+    }
+
+    const { data: poll, error: pollCheckError } = await supabase
+      .from('polls')
+      .select('title, created_by, is_draft, is_invite_only')
+      .eq('id', pollId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pollCheckError || !poll) {
+      throw new Error('Poll not found');
+    }
+
+    if (poll.created_by !== user.id) {
+      throw new Error('You can only send invitations for your own polls');
+    }
+
+    if (poll.is_draft) {
+      throw new Error('Publish the poll before sending invitations');
+    }
+
+    if (!poll.is_invite_only) {
+      throw new Error('Make the poll invite-only before sending invitations');
+    }
+
+    const { invitations, error: invitationsError } = await getInvitations(pollId);
+    if (invitationsError) {
+      throw new Error(invitationsError);
+    }
+
+    const recipients = invitations.filter(invitation =>
+      !invitation.has_voted && (!invitationIds || invitationIds.includes(invitation.id))
+    );
+    if (recipients.length === 0) {
+      throw new Error('Everyone invited has already voted');
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('name')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    const inviterName = profile?.name ?? 'Someone';
+    const sentIds: string[] = [];
+    let sendError: string | null = null;
+
+    for (const invitation of recipients) {
+      const result = await sendEmail({ to: invitation.email, ...invitationEmail(poll.title, inviterName, invitation.url) });
+      if (result.success) {
+        sentIds.push(invitation.id);
+      } else {
+        sendError = result.error;
+        // Nothing will get through when sending isn't set up at all
+        if (sentIds.length === 0 && result.error === 'Email sending is not configured') {
+          break;
+        }
+      }
+    }
+
+    if (sentIds.length === 0) {
+      throw new Error(sendError ?? 'Failed to send invitations');
+    }
+
+    const sentAt = new Date().toISOString();
+    for (const invitation of recipients.filter(recipient => sentIds.includes(recipient.id))) {
+      const { error: updateError } = await supabase
+        .from('poll_invitations')
+        .update({ sent_at: sentAt, send_count: invitation.send_count + 1 })
+        .eq('id', invitation.id);
+
+      if (updateError) {
+        console.error('Error recording sent invitation:', updateError);
+      }
+    }
+
+    revalidatePath('/dashboard');
+
+    return { success: true, sent: sentIds.length, failed: recipients.length - sentIds.length };
+  } catch (error) {
+    console.error('Error sending invitations:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send invitations'
+    };
+  }
+}
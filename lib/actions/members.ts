@@ -0,0 +1,310 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { PollMember, PollMemberRole, PollMemberWithProfile } from '@/lib/types/database';
+import { MAX_POLL_MEMBERS, POLL_MEMBER_ROLE_LABELS } from '@/lib/polls/members';
+
+/**
+ * Shares one of the current user's polls with another user.
+ *
+ * The other user needs an account, found by the email address they signed
+ * up with. Editors can change the poll and see its results; viewers can
+ * only see its results.
+ *
+ * @param pollId - The poll to share
+ * @param email - The address of the user to add
+ * @param role - What the user may do with the poll
+ * @returns Promise resolving to success/error result
+ *
+ * @example
+ * ```tsx
+ * const result = await addPollMember(poll.id, 'ana@example.com', 'editor');
+ *
+ * if (!result.success) {
+ *   toast.error(result.error);
+ * }
+ * ```
+ */
+export async function addPollMember(pollId: string, email: string, role: PollMemberRole) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to share a poll');
+    }
+
+    if (!(role in POLL_MEMBER_ROLE_LABELS)) {
+      throw new Error('Invalid role');
+    }
+
+    const { data: poll, error: pollCheckError } = await supabase
+      .from('polls')
+      .select('created_by')
+      .eq('id', pollId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pollCheckError || !poll) {
+      throw new Error('Poll not found');
+    }
+
+    if (poll.created_by !== user.id) {
+      throw new Error('You can only share your own polls');
+    }
+
+    // Profiles are private to their users, so the address is looked up with the service role
+    const { data: profile, error: profileError } = await createAdminClient()
+      .from('profiles')
+      .select('id')
+      .eq('email', email.trim().toLowerCase())
+      .maybeSingle();
+
+    if (profileError) {
+      throw new Error(`Failed to find user: ${profileError.message}`);
+    }
+
+    if (!profile) {
+      throw new Error('No user has signed up with that email address');
+    }
+
+    if (profile.id === user.id) {
+      throw new Error('You already own this poll');
+    }
+
+    const { count, error: countError } = await supabase
+      .from('poll_members')
+      .select('id', { count: 'exact', head: true })
+      .eq('poll_id', pollId);
+
+    if (countError) {
+      throw new Error(`Failed to fetch members: ${countError.message}`);
+    }
+
+    if ((count ?? 0) >= MAX_POLL_MEMBERS) {
+      throw new Error(`A poll can be shared with at most ${MAX_POLL_MEMBERS} people`);
+    }
+
+    const { error: insertError } = await supabase
+      .from('poll_members')
+      .insert({ poll_id: pollId, user_id: profile.id, role, added_by: user.id });
+
+    if (insertError) {
+      // Unique violation: the poll is already shared with this user
+      if (insertError.code === '23505') {
+        throw new Error('This poll is already shared with that user');
+      }
+      throw new Error(`Failed to share poll: ${insertError.message}`);
+    }
+
+    revalidatePath('/dashboard');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error adding poll member:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to share poll'
+    };
+  }
+}
+
+/**
+ * Fetches the members of a poll, in the order they were added, with their
+ * names and email addresses. Available to the poll's creator and members.
+ *
+ * @param pollId - The poll whose members to list
+ * @returns Promise resolving to members array and error state
+ *
+ * @example
+ * ```tsx
+ * const { members } = await getPollMembers(poll.id);
+ * const editors = members.filter(member => member.role === 'editor');
+ * ```
+ */
+export async function getPollMembers(pollId: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to view poll members');
+    }
+
+    // Row level security limits the list to the poll's creator and members
+    const { data: members, error: membersError } = await supabase
+      .from('poll_members')
+      .select('*')
+      .eq('poll_id', pollId)
+      .order('created_at', { ascending: true });
+
+    if (membersError) {
+      throw new Error(`Failed to fetch members: ${membersError.message}`);
+    }
+
+    if (!members || members.length === 0) {
+      return { members: [] as PollMemberWithProfile[], error: null };
+    }
+
+    const { data: profiles, error: profilesError } = await createAdminClient()
+      .from('profiles')
+      .select('id, name, email')
+      .in('id', members.map((member: PollMember) => member.user_id));
+
+    if (profilesError) {
+      throw new Error(`Failed to fetch members: ${profilesError.message}`);
+    }
+
+    const profilesById = new Map((profiles || []).map(profile => [profile.id, profile]));
+
+    return {
+      members: members.map((member: PollMember): PollMemberWithProfile => ({
+        ...member,
+        name: profilesById.get(member.user_id)?.name ?? 'Unknown user',
+        email: profilesById.get(member.user_id)?.email ?? '',
+      })),
+      error: null
+    };
+  } catch (error) {
+    console.error('Error fetching poll members:', error);
+    return {
+      members: [] as PollMemberWithProfile[],
+      error: error instanceof Error ? error.message : 'Failed to fetch poll members'
+    };
+  }
+}
+
+/**
+ * Changes what a member may do with one of the current user's polls.
+ *
+ * @param memberId - The membership to change
+ * @param role - The member's new role
+ * @returns Promise resolving to success/error result
+ *
+ * @example
+ * ```tsx
+ * const result = await updatePollMemberRole(member.id, 'viewer');
+ * ```
+ */
+export async function updatePollMemberRole(memberId: string, role: PollMemberRole) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to change a member\'s role');
+    }
+
+    if (!(role in POLL_MEMBER_ROLE_LABELS)) {
+      throw new Error('Invalid role');
+    }
+
+    const poll = await findMemberPoll(supabase, memberId);
+    if (!poll || poll.created_by !== user.id) {
+      throw new Error('You can only change members of your own polls');
+    }
+
+    const { error: updateError } = await supabase
+      .from('poll_members')
+      .update({ role })
+      .eq('id', memberId);
+
+    if (updateError) {
+      throw new Error(`Failed to change role: ${updateError.message}`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error changing member role:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to change role'
+    };
+  }
+}
+
+/**
+ * Stops sharing a poll with a member. The poll's creator can remove anyone;
+ * members can remove themselves to leave the poll.
+ *
+ * @param memberId - The membership to remove
+ * @returns Promise resolving to success/error result
+ *
+ * @example
+ * ```tsx
+ * const result = await removePollMember(member.id);
+ * ```
+ */
+export async function removePollMember(memberId: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to remove a member');
+    }
+
+    const { data: member, error: memberCheckError } = await supabase
+      .from('poll_members')
+      .select('user_id')
+      .eq('id', memberId)
+      .maybeSingle();
+
+    if (memberCheckError || !member) {
+      throw new Error('Member not found');
+    }
+
+    if (member.user_id !== user.id) {
+      const poll = await findMemberPoll(supabase, memberId);
+      if (!poll || poll.created_by !== user.id) {
+        throw new Error('You can only remove members of your own polls');
+      }
+    }
+
+    const { error: deleteError } = await supabase
+      .from('poll_members')
+      .delete()
+      .eq('id', memberId);
+
+    if (deleteError) {
+      throw new Error(`Failed to remove member: ${deleteError.message}`);
+    }
+
+    revalidatePath('/dashboard');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error removing poll member:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove member'
+    };
+  }
+}
+
+// The poll a membership belongs to, to check who owns it
+async function findMemberPoll(supabase: Awaited<ReturnType<typeof createClient>>, memberId: string) {
+  const { data: member } = await supabase
+    .from('poll_members')
+    .select('poll_id')
+    .eq('id', memberId)
+    .maybeSingle();
+
+  if (!member) {
+    return null;
+  }
+
+  const { data: poll } = await supabase
+    .from('polls')
+    .select('created_by')
+    .eq('id', member.poll_id)
+    .maybeSingle();
+
+  return poll;
+}
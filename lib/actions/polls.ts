@@ -1,8 +1,29 @@
 'use server';
 
+import { randomBytes } from 'crypto';
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
-import { CreatePollData } from '@/lib/types/database';
+import { CreatePollData, PollWithOptions } from '@/lib/types/database';
+import { maxOptionsFor, pollSettingsFromForm, validateDraft, validatePollSettings, validatePublishable } from '@/lib/polls/settings';
+import { pollScheduleFromForm, statusForSchedule } from '@/lib/polls/schedule';
+import { checkVotingMethodChange, countOptionVotes, syncPollOptions } from '@/lib/polls/options';
+import { templateSettingsFromPoll } from '@/lib/polls/templates';
+import { trashRetentionDays } from '@/lib/polls/trash';
+import { getShareAttribution } from '@/lib/polls/shares';
+import { canEditPoll, getPollRole } from '@/lib/polls/members';
+import { getWorkspaceRole } from '@/lib/workspaces/members';
+import { SurveyResponse, SurveyVoteRow, insertSurveyQuestions, isSurvey, questionsToForm, sortedQuestions, syncSurveyQuestions, tallySurveyQuestion } from '@/lib/polls/survey';
+import { closePollIfComplete, type PollTurnout } from '@/lib/polls/close-conditions';
+import { BallotSubmission, ballotFromRows } from '@/lib/voting/ballot';
+import { castSurveyResponse, castVote } from '@/lib/voting/cast-vote';
+import { getAnonymousVoter } from '@/lib/voting/voter-identity';
+import { getResultsAccess } from '@/lib/voting/results-access';
+import { grantPasswordAccess, hasPasswordAccess, syncPollPassword } from '@/lib/voting/poll-password';
+import { groupRankedBallots, tallyInstantRunoff } from '@/lib/voting/instant-runoff';
+import { tallyScores } from '@/lib/voting/score';
+import { tallyQuadratic } from '@/lib/voting/quadratic';
+import { tallyPairwise, toComparisons } from '@/lib/voting/pairwise';
+import { groupWriteIns, normalizeWriteIn, writeInKey } from '@/lib/voting/write-ins';
 
 /**
  * Creates a new poll with associated options in the database.
@@ -14,6 +35,16 @@ import { CreatePollData } from '@/lib/types/database';
  * 4. Handles rollback if any step fails
  * 5. Revalidates relevant cache paths
  * 
+ * With `is_draft` set the poll is saved as a draft instead: only the title
+ * is required, blank options are dropped, and the poll stays hidden and
+ * closed to votes until it is published with publishPoll.
+ * 
+ * With `questions` set the poll is created as a survey: each question is
+ * stored with its own options and voting method, and `options` is ignored.
+ * 
+ * With `workspace_id` set the poll is created in that workspace, which the
+ * user must belong to, and every member of the workspace can see it.
+ * 
  * The function ensures data integrity by using database transactions
  * and proper error handling. If poll options creation fails, the poll
  * itself is deleted to maintain consistency.
@@ -47,6 +78,13 @@ export async function createPoll(formData: CreatePollData) {
       throw new Error('You must be logged in to create a poll');
     }
 
+    // Reject too many options or selection limits no ballot could satisfy
+    const isDraft = Boolean(formData.is_draft);
+    const settingsError = isDraft ? validateDraft(formData) : validatePollSettings(formData);
+    if (settingsError) {
+      throw new Error(settingsError);
+    }
+
     // Verify user profile exists - this ensures the user has a complete profile
     // The profile is created automatically via database trigger on user signup
     const { data: profile, error: profileError } = await supabase
@@ -59,6 +97,11 @@ export async function createPoll(formData: CreatePollData) {
       throw new Error('User profile not found. Please try logging out and back in.');
     }
 
+    // Any member of a workspace can create polls in it
+    if (formData.workspace_id && !(await getWorkspaceRole(supabase, formData.workspace_id, user.id))) {
+      throw new Error('You can only create polls in workspaces you belong to');
+    }
+
     // Create the main poll record with user-provided data
     // Default values are applied for optional fields
     const { data: poll, error: pollError } = await supabase
@@ -66,9 +109,10 @@ export async function createPoll(formData: CreatePollData) {
       .insert({
         title: formData.title,
         description: formData.description,
-        is_public: formData.is_public ?? true, // Default to public
-        allow_multiple_votes: formData.allow_multiple_votes ?? false, // Default to single vote
-        expires_at: formData.expires_at,
+        ...pollSettingsFromForm(formData), // Visibility and voting method
+        ...pollScheduleFromForm(formData), // Opening and closing times, and the status they imply
+        is_draft: isDraft,
+        workspace_id: formData.workspace_id || null,
         created_by: profile.id // Link to the authenticated user
       })
       .select()
@@ -78,30 +122,60 @@ export async function createPoll(formData: CreatePollData) {
       throw new Error(`Failed to create poll: ${pollError.message}`);
     }
 
+    // The access password is hashed into its own table, which sets has_password
+    const passwordResult = await syncPollPassword(supabase, poll.id, formData.password);
+    if (!passwordResult.success) {
+      await supabase.from('polls').delete().eq('id', poll.id);
+      throw new Error(passwordResult.error);
+    }
+
+    // Surveys store their options under each question instead
+    if (formData.questions?.length) {
+      const questionsResult = await insertSurveyQuestions(supabase, poll.id, formData.questions, isDraft);
+
+      if (!questionsResult.success) {
+        await supabase.from('polls').delete().eq('id', poll.id);
+        throw new Error(questionsResult.error);
+      }
+
+      revalidatePath('/dashboard');
+      revalidatePath('/polls');
+
+      return { success: true, pollId: poll.id, redirect: isDraft ? '/dashboard' : '/polls' };
+    }
+
     // Create poll options with proper ordering
     // Each option gets an incremental order_index for consistent display
-    const optionsData = formData.options.map((text, index) => ({
+    // Drafts may still have blank options, which aren't worth keeping
+    const optionTexts = formData.options
+      .map(text => text.trim()) // Remove leading/trailing whitespace
+      .filter(text => !isDraft || text);
+
+    const optionsData = optionTexts.map((text, index) => ({
       poll_id: poll.id,
-      text: text.trim(), // Remove leading/trailing whitespace
+      text,
       order_index: index + 1 // Start ordering from 1
     }));
 
-    const { error: optionsError } = await supabase
-      .from('poll_options')
-      .insert(optionsData);
+    if (optionsData.length > 0) {
+      const { error: optionsError } = await supabase
+        .from('poll_options')
+        .insert(optionsData);
 
-    // Handle options creation failure with rollback
-    // This maintains data integrity by removing the orphaned poll
-    if (optionsError) {
-      await supabase.from('polls').delete().eq('id', poll.id);
-      throw new Error(`Failed to create poll options: ${optionsError.message}`);
+      // Handle options creation failure with rollback
+      // This maintains data integrity by removing the orphaned poll
+      if (optionsError) {
+        await supabase.from('polls').delete().eq('id', poll.id);
+        throw new Error(`Failed to create poll options: ${optionsError.message}`);
+      }
     }
 
     // Revalidate cache to ensure fresh data on next page load
     revalidatePath('/dashboard'); // User's dashboard
     revalidatePath('/polls'); // Public polls listing
     
-    return { success: true, pollId: poll.id, redirect: '/polls' };
+    // Drafts are picked up again from the dashboard
+    return { success: true, pollId: poll.id, redirect: isDraft ? '/dashboard' : '/polls' };
   } catch (error) {
     console.error('Error creating poll:', error);
     return { 
@@ -112,12 +186,13 @@ export async function createPoll(formData: CreatePollData) {
 }
 
 /**
- * Fetches all public, active polls with their options and creator information.
+ * Fetches all public, open or upcoming polls with their options and creator information.
  * 
  * This function retrieves polls that are available for public viewing and voting.
  * It includes related data like poll options and creator names through database
  * joins. The results are ordered by creation date (newest first) and filtered
- * to only show active, public polls.
+ * to only show published public polls that are active or scheduled to open. Polls past
+ * their expiry are left out even before the scheduler marks them expired.
  * 
  * The function handles potential null values in poll_options to ensure the
  * returned data structure is consistent and safe to use in components.
@@ -152,12 +227,23 @@ export async function getPolls() {
           text,
           order_index
         ),
+        poll_questions (
+          *,
+          poll_options (
+            id,
+            text,
+            order_index
+          )
+        ),
         profiles!polls_created_by_fkey (
           name
         )
       `)
       .eq('is_public', true) // Only public polls
-      .eq('status', 'active') // Only active polls
+      .eq('is_draft', false) // Drafts are only shown to their creator, on the dashboard
+      .is('deleted_at', null) // Leave out polls in the trash
+      .in('status', ['active', 'inactive']) // Open polls and scheduled ones, which show when they open
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`) // Past their expiry even if the scheduler hasn't run yet
       .order('created_at', { ascending: false }); // Newest first
 
     if (error) {
@@ -192,30 +278,52 @@ export async function updatePoll(pollId: string, formData: CreatePollData) {
       throw new Error('You must be logged in to update a poll');
     }
 
-    // Check if the poll belongs to the current user
+    const settingsError = validatePollSettings(formData);
+    if (settingsError) {
+      throw new Error(settingsError);
+    }
+
+    // Check the current user can edit the poll: its creator or an editor
     const { data: existingPoll, error: pollCheckError } = await supabase
       .from('polls')
-      .select('created_by')
+      .select('created_by, workspace_id, is_draft, status, starts_at, expires_at, vote_type, score_max, vote_credits, poll_questions ( id )')
       .eq('id', pollId)
+      .is('deleted_at', null)
       .single();
 
     if (pollCheckError || !existingPoll) {
       throw new Error('Poll not found');
     }
 
-    if (existingPoll.created_by !== user.id) {
+    if (!canEditPoll(await getPollRole(supabase, { id: pollId, created_by: existingPoll.created_by, workspace_id: existingPoll.workspace_id }, user.id))) {
       throw new Error('You can only update your own polls');
     }
 
+    // Votes already cast fix the voting method
+    if (!isSurvey(existingPoll)) {
+      const methodResult = await checkVotingMethodChange(supabase, pollId, existingPoll, formData);
+      if (!methodResult.success) {
+        throw new Error(methodResult.error);
+      }
+    }
+
+    // Apply option edits first: they stop before changing anything when
+    // removing options would delete votes the creator hasn't confirmed
+    const optionsResult = isSurvey(existingPoll)
+      ? await syncSurveyQuestions(supabase, pollId, existingPoll, formData.questions)
+      : await syncPollOptions(supabase, pollId, formData);
+    if (!optionsResult.success) {
+      throw new Error(optionsResult.error);
+    }
+
     // Update the poll
     const { error: pollError } = await supabase
       .from('polls')
       .update({
         title: formData.title,
         description: formData.description,
-        is_public: formData.is_public ?? true,
-        allow_multiple_votes: formData.allow_multiple_votes ?? false,
-        expires_at: formData.expires_at,
+        ...pollSettingsFromForm(formData),
+        ...pollScheduleFromForm(formData, existingPoll),
       })
       .eq('id', pollId);
 
@@ -223,29 +331,12 @@ export async function updatePoll(pollId: string, formData: CreatePollData) {
       throw new Error(`Failed to update poll: ${pollError.message}`);
     }
 
-    // Delete existing options
-    const { error: deleteOptionsError } = await supabase
-      .from('poll_options')
-      .delete()
-      .eq('poll_id', pollId);
-
-    if (deleteOptionsError) {
-      throw new Error(`Failed to delete existing options: ${deleteOptionsError.message}`);
-    }
-
-    // Create new poll options
-    const optionsData = formData.options.map((text, index) => ({
-      poll_id: pollId,
-      text: text.trim(),
-      order_index: index + 1
-    }));
-
-    const { error: optionsError } = await supabase
-      .from('poll_options')
-      .insert(optionsData);
+    // Lowered targets may already be met
+    await closePollIfComplete(supabase, pollId, pollSettingsFromForm(formData));
 
-    if (optionsError) {
-      throw new Error(`Failed to create poll options: ${optionsError.message}`);
+    const passwordResult = await syncPollPassword(supabase, pollId, formData.password);
+    if (!passwordResult.success) {
+      throw new Error(passwordResult.error);
     }
 
     revalidatePath('/dashboard');
@@ -261,6 +352,26 @@ export async function updatePoll(pollId: string, formData: CreatePollData) {
   }
 }
 
+/**
+ * Moves a poll to the trash.
+ * 
+ * Trashed polls disappear from every listing and can no longer be viewed
+ * or voted on, but keep their options and votes so the creator can
+ * restore them with restorePoll. They are deleted for good once they have
+ * been in the trash for longer than the retention period.
+ * 
+ * @param pollId - The poll to move to the trash
+ * @returns Promise resolving to success/error result
+ * 
+ * @example
+ * ```tsx
+ * const result = await deletePoll(poll.id);
+ * 
+ * if (result.success) {
+ *   toast.success('Poll moved to trash');
+ * }
+ * ```
+ */
 export async function deletePoll(pollId: string) {
   try {
     const supabase = await createClient();
@@ -277,16 +388,140 @@ export async function deletePoll(pollId: string) {
       .from('polls')
       .select('created_by')
       .eq('id', pollId)
+      .is('deleted_at', null)
       .single();
 
     if (pollCheckError || !existingPoll) {
       throw new Error('Poll not found');
     }
 
+    // Editors can change a poll, but only its creator can delete it
     if (existingPoll.created_by !== user.id) {
       throw new Error('You can only delete your own polls');
     }
 
+    // Move the poll to the trash; its options and votes stay for a restore
+    const { error: pollError } = await supabase
+      .from('polls')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', pollId);
+
+    if (pollError) {
+      throw new Error(`Failed to delete poll: ${pollError.message}`);
+    }
+
+    revalidatePath('/dashboard');
+    revalidatePath('/polls');
+    revalidatePath(`/polls/${pollId}`);
+    
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting poll:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to delete poll' 
+    };
+  }
+}
+
+/**
+ * Restores a poll from the trash, with its options and votes intact.
+ * 
+ * @param pollId - The trashed poll to restore
+ * @returns Promise resolving to success/error result
+ * 
+ * @example
+ * ```tsx
+ * const result = await restorePoll(poll.id);
+ * ```
+ */
+export async function restorePoll(pollId: string) {
+  try {
+    const supabase = await createClient();
+    
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    
+    if (authError || !user) {
+      throw new Error('You must be logged in to restore a poll');
+    }
+
+    const { data: trashedPoll, error: pollCheckError } = await supabase
+      .from('polls')
+      .select('created_by')
+      .eq('id', pollId)
+      .not('deleted_at', 'is', null)
+      .single();
+
+    if (pollCheckError || !trashedPoll) {
+      throw new Error('Poll not found in trash');
+    }
+
+    if (trashedPoll.created_by !== user.id) {
+      throw new Error('You can only restore your own polls');
+    }
+
+    const { error: restoreError } = await supabase
+      .from('polls')
+      .update({ deleted_at: null })
+      .eq('id', pollId);
+
+    if (restoreError) {
+      throw new Error(`Failed to restore poll: ${restoreError.message}`);
+    }
+
+    revalidatePath('/dashboard');
+    revalidatePath('/polls');
+    revalidatePath(`/polls/${pollId}`);
+    
+    return { success: true };
+  } catch (error) {
+    console.error('Error restoring poll:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to restore poll' 
+    };
+  }
+}
+
+/**
+ * Permanently deletes a poll from the trash, along with its options and
+ * votes. Only polls already in the trash can be deleted this way.
+ * 
+ * @param pollId - The trashed poll to delete
+ * @returns Promise resolving to success/error result
+ * 
+ * @example
+ * ```tsx
+ * if (confirm('Delete this poll forever?')) {
+ *   await deletePollPermanently(poll.id);
+ * }
+ * ```
+ */
+export async function deletePollPermanently(pollId: string) {
+  try {
+    const supabase = await createClient();
+    
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    
+    if (authError || !user) {
+      throw new Error('You must be logged in to delete a poll');
+    }
+
+    const { data: trashedPoll, error: pollCheckError } = await supabase
+      .from('polls')
+      .select('created_by')
+      .eq('id', pollId)
+      .not('deleted_at', 'is', null)
+      .single();
+
+    if (pollCheckError || !trashedPoll) {
+      throw new Error('Poll not found in trash');
+    }
+
+    if (trashedPoll.created_by !== user.id) {
+      throw new Error('You can only delete your own polls');
+    }
+
     // Delete poll options first (due to foreign key constraint)
     const { error: optionsError } = await supabase
       .from('poll_options')
@@ -297,7 +532,6 @@ export async function deletePoll(pollId: string) {
       throw new Error(`Failed to delete poll options: ${optionsError.message}`);
     }
 
-    // Delete the poll
     const { error: pollError } = await supabase
       .from('polls')
       .delete()
@@ -308,7 +542,6 @@ export async function deletePoll(pollId: string) {
     }
 
     revalidatePath('/dashboard');
-    revalidatePath('/polls');
     
     return { success: true };
   } catch (error) {
@@ -320,11 +553,30 @@ export async function deletePoll(pollId: string) {
   }
 }
 
-export async function getPollById(pollId: string) {
+/**
+ * Fetches the current user's trashed polls, most recently trashed first,
+ * with the number of days polls are kept in the trash.
+ * 
+ * @returns Promise resolving to polls array, retention period and error state
+ * 
+ * @example
+ * ```tsx
+ * const { polls, retentionDays } = await getTrashedPolls();
+ * ```
+ */
+export async function getTrashedPolls() {
+  const retentionDays = trashRetentionDays();
+
   try {
     const supabase = await createClient();
     
-    const { data: poll, error } = await supabase
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    
+    if (authError || !user) {
+      throw new Error('You must be logged in to view the trash');
+    }
+
+    const { data: polls, error } = await supabase
       .from('polls')
       .select(`
         *,
@@ -334,184 +586,598 @@ export async function getPollById(pollId: string) {
           order_index
         )
       `)
-      .eq('id', pollId)
-      .single();
+      .eq('created_by', user.id)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false });
 
     if (error) {
-      throw new Error(`Failed to fetch poll: ${error.message}`);
+      throw new Error(`Failed to fetch trash: ${error.message}`);
     }
 
-    return { success: true, poll };
+    return { polls: (polls || []) as PollWithOptions[], retentionDays, error: null };
   } catch (error) {
-    console.error('Error fetching poll:', error);
+    console.error('Error fetching trash:', error);
     return { 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Failed to fetch poll',
-      poll: null
+      polls: [] as PollWithOptions[],
+      retentionDays,
+      error: error instanceof Error ? error.message : 'Failed to fetch trash'
     };
   }
 }
 
 /**
- * Submits votes for a poll with comprehensive validation and security checks.
- * 
- * This server action handles the complete voting workflow:
- * 1. Validates poll exists and is active/not expired
- * 2. Verifies selected options belong to the poll
- * 3. Checks voting permissions (multiple votes, existing votes)
- * 4. Records votes with proper voter identification
- * 5. Handles both authenticated and anonymous voting
+ * Publishes a draft poll, making it visible and open to votes.
  * 
- * The function supports both single and multiple vote scenarios, with proper
- * validation to prevent duplicate votes when not allowed. It also handles
- * anonymous voting by storing voter email/name when provided.
+ * The draft is checked the same way a new poll is: it needs a title, at
+ * least two distinct options and valid settings. Its status is set from
+ * its schedule, so a draft with a future opening time becomes a scheduled
+ * poll rather than going live straight away.
  * 
- * @param voteData - Vote submission data including poll ID, option IDs, and voter info
+ * @param pollId - The draft to publish
  * @returns Promise resolving to success/error result
  * 
  * @example
  * ```tsx
- * // Authenticated user voting
- * const result = await submitVote({
- *   poll_id: "poll-123",
- *   option_ids: ["option-1", "option-2"],
- * });
+ * const result = await publishPoll(poll.id);
  * 
- * // Anonymous voting
- * const result = await submitVote({
- *   poll_id: "poll-123", 
- *   option_ids: ["option-1"],
- *   voter_name: "John Doe",
- *   voter_email: "john@example.com"
- * });
+ * if (result.success) {
+ *   toast.success('Poll published');
+ * } else {
+ *   toast.error(result.error);
+ * }
  * ```
  */
-export async function submitVote(voteData: {
-  poll_id: string;
-  option_ids: string[];
-  voter_name?: string;
-  voter_email?: string;
-}) {
+export async function publishPoll(pollId: string) {
   try {
     const supabase = await createClient();
     
-    // Get current user (optional - supports anonymous voting)
-    // Authenticated users get additional vote tracking capabilities
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
     
-    // Validate poll exists and get voting rules
-    const { data: poll, error: pollError } = await supabase
+    if (authError || !user) {
+      throw new Error('You must be logged in to publish a poll');
+    }
+
+    const { data: poll, error: pollCheckError } = await supabase
       .from('polls')
-      .select('status, expires_at, allow_multiple_votes')
-      .eq('id', voteData.poll_id)
+      .select(`
+        *,
+        poll_options (
+          text,
+          order_index
+        ),
+        poll_questions (
+          *,
+          poll_options (
+            id,
+            text,
+            order_index
+          )
+        )
+      `)
+      .eq('id', pollId)
+      .is('deleted_at', null)
       .single();
 
-    if (pollError || !poll) {
+    if (pollCheckError || !poll) {
       throw new Error('Poll not found');
     }
 
-    // Check poll is active and not expired
-    if (poll.status !== 'active') {
-      throw new Error('Poll is not active');
+    if (!canEditPoll(await getPollRole(supabase, { id: pollId, created_by: poll.created_by, workspace_id: poll.workspace_id }, user.id))) {
+      throw new Error('You can only publish your own polls');
     }
 
-    // Check expiration date if set
-    if (poll.expires_at && new Date(poll.expires_at) < new Date()) {
-      throw new Error('Poll has expired');
+    if (!poll.is_draft) {
+      throw new Error('This poll is already published');
     }
 
-    // Validate all selected options exist and belong to this poll
-    // This prevents voting on options from other polls
-    const { data: options, error: optionsError } = await supabase
-      .from('poll_options')
-      .select('id')
-      .eq('poll_id', voteData.poll_id)
-      .in('id', voteData.option_ids);
-
-    if (optionsError || options.length !== voteData.option_ids.length) {
-      throw new Error('Invalid options selected');
-    }
-
-    // Check existing votes for authenticated users
-    // This enforces single-vote restrictions when applicable
-    if (user) {
-      const { data: existingVotes, error: voteCheckError } = await supabase
-        .from('votes')
-        .select('id')
-        .eq('poll_id', voteData.poll_id)
-        .eq('voter_id', user.id);
-
-      if (voteCheckError) {
-        console.error('Error checking existing votes:', voteCheckError);
-      } else if (existingVotes && existingVotes.length > 0) {
-        // Enforce single-vote restriction if poll doesn't allow multiple votes
-        if (!poll.allow_multiple_votes) {
-          throw new Error('You have already voted on this poll');
-        }
-      }
+    const options: { text: string; order_index: number }[] = poll.poll_options || [];
+    const publishError = validatePublishable({
+      ...poll,
+      options: options
+        .slice()
+        .sort((a, b) => a.order_index - b.order_index)
+        .map(option => option.text),
+      questions: questionsToForm(poll.poll_questions),
+    });
+    if (publishError) {
+      throw new Error(publishError);
     }
 
-    // Prepare vote records for insertion
-    // Each selected option gets its own vote record
-    const votesToInsert = voteData.option_ids.map(optionId => ({
-      poll_id: voteData.poll_id,
-      option_id: optionId,
-      voter_id: user?.id || null, // Authenticated user ID or null for anonymous
-      voter_email: voteData.voter_email || null, // For anonymous voting tracking
-      voter_name: voteData.voter_name || null, // For anonymous voting display
-    }));
-
-    // Insert all votes atomically
-    const { error: insertError } = await supabase
-      .from('votes')
-      .insert(votesToInsert);
+    const { error: updateError } = await supabase
+      .from('polls')
+      .update({
+        is_draft: false,
+        status: statusForSchedule(poll),
+      })
+      .eq('id', pollId);
 
-    if (insertError) {
-      throw new Error(`Failed to submit vote: ${insertError.message}`);
+    if (updateError) {
+      throw new Error(`Failed to publish poll: ${updateError.message}`);
     }
 
-    // Revalidate the poll page to show updated results
-    revalidatePath(`/polls/${voteData.poll_id}`);
+    revalidatePath('/dashboard');
+    revalidatePath('/polls');
+    revalidatePath(`/polls/${pollId}`);
     
     return { success: true };
   } catch (error) {
-    console.error('Error submitting vote:', error);
+    console.error('Error publishing poll:', error);
     return { 
       success: false, 
-      error: error instanceof Error ? error.message : 'Failed to submit vote' 
+      error: error instanceof Error ? error.message : 'Failed to publish poll' 
     };
   }
 }
 
 /**
- * Fetches poll results with vote counts and percentages using the database function.
+ * Copies a poll into a new draft, ready to be adjusted and published.
  * 
- * This server action calls the get_poll_results() database function to retrieve
- * real-time vote statistics for a poll, including vote counts and percentages
- * for each option. The results are ordered by option order and creation time.
+ * The copy gets the original's title, description, options (or survey
+ * questions) and settings, but none of its votes and no schedule: opening
+ * and closing times are set afresh for each run of a poll.
  * 
- * @param pollId - The UUID of the poll to get results for
- * @returns Promise resolving to poll results or error
+ * @param pollId - The poll to copy
+ * @returns Promise resolving to success/error result with the draft's ID
  * 
  * @example
  * ```tsx
- * const results = await getPollResults("poll-123");
- * if (results.success) {
- *   console.log(results.data); // Array of option results with vote counts
+ * const result = await duplicatePoll(poll.id);
+ * 
+ * if (result.success) {
+ *   router.push(`/polls/${result.pollId}/edit`);
  * }
  * ```
  */
-export async function getPollResults(pollId: string) {
+export async function duplicatePoll(pollId: string) {
   try {
     const supabase = await createClient();
     
-    // Use the database function to get results
-    const { data, error } = await supabase.rpc('get_poll_results', {
-      poll_uuid: pollId
-    });
-
-    if (error) {
-      console.error('Error fetching poll results:', error);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    
+    if (authError || !user) {
+      throw new Error('You must be logged in to duplicate a poll');
+    }
+
+    const { data: original, error: pollCheckError } = await supabase
+      .from('polls')
+      .select(`
+        *,
+        poll_options (
+          text,
+          order_index,
+          question_id
+        ),
+        poll_questions (
+          *,
+          poll_options (
+            id,
+            text,
+            order_index
+          )
+        )
+      `)
+      .eq('id', pollId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pollCheckError || !original) {
+      throw new Error('Poll not found');
+    }
+
+    if (original.created_by !== user.id) {
+      throw new Error('You can only duplicate your own polls');
+    }
+
+    // The copy stays in the original's workspace, unless the user has left it
+    const workspaceId = original.workspace_id && await getWorkspaceRole(supabase, original.workspace_id, user.id)
+      ? original.workspace_id
+      : null;
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .insert({
+        title: original.title,
+        description: original.description,
+        ...templateSettingsFromPoll(original),
+        is_draft: true,
+        workspace_id: workspaceId,
+        created_by: user.id
+      })
+      .select()
+      .single();
+
+    if (pollError) {
+      throw new Error(`Failed to duplicate poll: ${pollError.message}`);
+    }
+
+    if (original.poll_questions?.length) {
+      const questionsResult = await insertSurveyQuestions(supabase, poll.id, questionsToForm(original.poll_questions), true);
+
+      if (!questionsResult.success) {
+        await supabase.from('polls').delete().eq('id', poll.id);
+        throw new Error(questionsResult.error);
+      }
+    }
+
+    // Survey options were copied with their questions
+    const options: { text: string; order_index: number; question_id: string | null }[] =
+      (original.poll_options || []).filter((option: { question_id: string | null }) => !option.question_id);
+    if (options.length > 0) {
+      const { error: optionsError } = await supabase
+        .from('poll_options')
+        .insert(options.map(option => ({
+          poll_id: poll.id,
+          text: option.text,
+          order_index: option.order_index
+        })));
+
+      if (optionsError) {
+        await supabase.from('polls').delete().eq('id', poll.id);
+        throw new Error(`Failed to copy poll options: ${optionsError.message}`);
+      }
+    }
+
+    revalidatePath('/dashboard');
+    
+    return { success: true, pollId: poll.id };
+  } catch (error) {
+    console.error('Error duplicating poll:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to duplicate poll' 
+    };
+  }
+}
+
+/**
+ * Replaces the secret link of one of the current user's unlisted polls.
+ *
+ * The old link stops working straight away, including for browsers that
+ * already opened it. Votes cast through it are kept.
+ *
+ * @param pollId - The unlisted poll whose link to replace
+ * @returns Promise resolving to success/error result with the new access token
+ *
+ * @example
+ * ```tsx
+ * const result = await resetPollAccessLink(poll.id);
+ *
+ * if (result.success) {
+ *   await navigator.clipboard.writeText(unlistedPollUrl(window.location.origin, result.accessToken));
+ * }
+ * ```
+ */
+export async function resetPollAccessLink(pollId: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to reset a poll link');
+    }
+
+    const { data: poll, error: pollCheckError } = await supabase
+      .from('polls')
+      .select('created_by, is_unlisted')
+      .eq('id', pollId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pollCheckError || !poll) {
+      throw new Error('Poll not found');
+    }
+
+    if (poll.created_by !== user.id) {
+      throw new Error('You can only reset links of your own polls');
+    }
+
+    if (!poll.is_unlisted) {
+      throw new Error('Only unlisted polls have a secret link');
+    }
+
+    const accessToken = randomBytes(32).toString('hex');
+
+    const { error: pollError } = await supabase
+      .from('polls')
+      .update({ access_token: accessToken })
+      .eq('id', pollId);
+
+    if (pollError) {
+      throw new Error(`Failed to reset poll link: ${pollError.message}`);
+    }
+
+    revalidatePath('/dashboard');
+
+    return { success: true, accessToken };
+  } catch (error) {
+    console.error('Error resetting poll link:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reset poll link'
+    };
+  }
+}
+
+/**
+ * Unlocks a password-protected poll for the current browser.
+ *
+ * A correct password sets a cookie that lets the browser view, vote on and
+ * see the results of the poll for a couple of hours, or until the creator
+ * changes the password.
+ *
+ * @param pollId - The poll to unlock
+ * @param password - The password the visitor entered
+ * @returns Promise resolving to success/error result
+ *
+ * @example
+ * ```tsx
+ * const result = await unlockPoll(pollId, password);
+ *
+ * if (result.success) {
+ *   router.refresh();
+ * }
+ * ```
+ */
+export async function unlockPoll(pollId: string, password: string) {
+  try {
+    if (!password) {
+      throw new Error('Please enter the password');
+    }
+
+    if (!(await grantPasswordAccess(pollId, password))) {
+      throw new Error('Incorrect password');
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error unlocking poll:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to unlock poll'
+    };
+  }
+}
+
+/**
+ * Fetches a poll with its options, and a survey's questions, for viewing
+ * and voting.
+ *
+ * Row level security decides who can see the poll: anyone for public
+ * polls, only the creator for private ones and drafts, and for unlisted
+ * polls only browsers that opened the poll's secret link, whose access
+ * token the Supabase client forwards. Password-protected polls are only
+ * returned to their creator and to browsers that entered the password;
+ * everyone else gets `passwordRequired` instead.
+ *
+ * @param pollId - The poll to fetch
+ * @returns Promise resolving to success/error result with the poll
+ *
+ * @example
+ * ```tsx
+ * const { success, poll } = await getPollById(params.id);
+ * ```
+ */
+export async function getPollById(pollId: string) {
+  try {
+    const supabase = await createClient();
+    
+    const { data: poll, error } = await supabase
+      .from('polls')
+      .select(`
+        *,
+        poll_options (
+          id,
+          text,
+          order_index
+        ),
+        poll_questions (
+          *,
+          poll_options (
+            id,
+            text,
+            order_index
+          )
+        )
+      `)
+      .eq('id', pollId)
+      .is('deleted_at', null)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch poll: ${error.message}`);
+    }
+
+    if (poll.has_password) {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!(await hasPasswordAccess(pollId, poll, user?.id ?? null))) {
+        return { success: false, error: 'This poll is password protected', passwordRequired: true, poll: null };
+      }
+    }
+
+    return { success: true, poll };
+  } catch (error) {
+    console.error('Error fetching poll:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to fetch poll',
+      poll: null
+    };
+  }
+}
+
+/**
+ * Submits votes for a poll with comprehensive validation and security checks.
+ * 
+ * This server action handles the complete voting workflow:
+ * 1. Validates poll exists and is active/not expired
+ * 2. Verifies selected options belong to the poll
+ * 3. Checks voting permissions (multiple votes, existing votes)
+ * 4. Records votes with proper voter identification
+ * 5. Handles both authenticated and anonymous voting
+ * 
+ * For ranked-choice polls, `option_ids` is the voter's ranking in order of
+ * preference and each vote row stores its rank position. Score polls pass
+ * a rating for every option in `scores`, quadratic polls their votes per
+ * option in `allocations` and pairwise polls their picks in `comparisons`.
+ * Polls that allow write-ins also accept a free-text `write_in` answer.
+ * 
+ * The function supports both single and multiple vote scenarios, with proper
+ * validation to prevent duplicate votes when not allowed. It also handles
+ * anonymous voting by storing voter email/name when provided.
+ * 
+ * @param voteData - Vote submission data including poll ID, option IDs, and voter info
+ * @returns Promise resolving to success/error result
+ * 
+ * @example
+ * ```tsx
+ * // Authenticated user voting
+ * const result = await submitVote({
+ *   poll_id: "poll-123",
+ *   option_ids: ["option-1", "option-2"],
+ * });
+ * 
+ * // Anonymous voting
+ * const result = await submitVote({
+ *   poll_id: "poll-123", 
+ *   option_ids: ["option-1"],
+ *   voter_name: "John Doe",
+ *   voter_email: "john@example.com"
+ * });
+ * ```
+ */
+export async function submitVote(voteData: BallotSubmission & { poll_id: string }) {
+  try {
+    const supabase = await createClient();
+    
+    // Get current user (optional - supports anonymous voting)
+    // Authenticated users get additional vote tracking capabilities
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    // Anonymous voters are identified by a signed cookie so repeat votes can be caught
+    const anonymousVoter = user ? null : await getAnonymousVoter(voteData.poll_id);
+
+    // Votes are credited to the share link the voter arrived through
+    const shareId = await getShareAttribution(supabase, voteData.poll_id);
+
+    // Validate the poll and ballot, then record one vote row per option
+    const result = await castVote(supabase, voteData.poll_id, voteData, user?.id || null, anonymousVoter, shareId);
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    // Revalidate the poll page to show updated results
+    revalidatePath(`/polls/${voteData.poll_id}`);
+
+    // A vote that met the poll's close condition also takes it off the listings
+    if (result.closed) {
+      revalidatePath('/polls');
+      revalidatePath('/dashboard');
+    }
+    
+    return { success: true, closed: Boolean(result.closed) };
+  } catch (error) {
+    console.error('Error submitting vote:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to submit vote' 
+    };
+  }
+}
+
+/**
+ * Submits a response to a survey, answering every question at once.
+ * 
+ * Each answer is a ballot for its question's voting method, shaped like the
+ * ballots submitVote takes. The answers are recorded together or not at
+ * all, with the same duplicate-vote rules as a single-question poll.
+ * 
+ * @param responseData - The survey's poll ID, the answers keyed by question ID, and voter info
+ * @returns Promise resolving to success/error result
+ * 
+ * @example
+ * ```tsx
+ * const result = await submitSurveyResponse({
+ *   poll_id: "poll-123",
+ *   answers: {
+ *     "question-1": { option_ids: ["option-1"] },
+ *     "question-2": { option_ids: ["option-4", "option-3"] },
+ *   },
+ * });
+ * ```
+ */
+export async function submitSurveyResponse(responseData: SurveyResponse & { poll_id: string }) {
+  try {
+    const supabase = await createClient();
+    
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    const anonymousVoter = user ? null : await getAnonymousVoter(responseData.poll_id);
+    const shareId = await getShareAttribution(supabase, responseData.poll_id);
+
+    const result = await castSurveyResponse(supabase, responseData.poll_id, responseData, user?.id || null, anonymousVoter, shareId);
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    revalidatePath(`/polls/${responseData.poll_id}`);
+
+    if (result.closed) {
+      revalidatePath('/polls');
+      revalidatePath('/dashboard');
+    }
+    
+    return { success: true, closed: Boolean(result.closed) };
+  } catch (error) {
+    console.error('Error submitting survey response:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to submit response' 
+    };
+  }
+}
+
+/**
+ * Fetches poll results with vote counts and percentages using the database function.
+ * 
+ * This server action calls the get_poll_results() database function to retrieve
+ * real-time vote statistics for a poll, including vote counts and percentages
+ * for each option. The results are ordered by option order and creation time.
+ * When the poll's results visibility hides them from the current viewer, no
+ * results are returned and `hidden` is set.
+ * 
+ * @param pollId - The UUID of the poll to get results for
+ * @returns Promise resolving to poll results or error
+ * 
+ * @example
+ * ```tsx
+ * const results = await getPollResults("poll-123");
+ * if (results.success) {
+ *   console.log(results.data); // Array of option results with vote counts
+ * }
+ * ```
+ */
+export async function getPollResults(pollId: string) {
+  try {
+    const supabase = await createClient();
+
+    // Polls can hide their results until the viewer has voted or the poll has closed
+    const access = await getResultsAccess(supabase, pollId);
+    if (!access.visible) {
+      return { success: true, data: [], hidden: true };
+    }
+    
+    // Use the database function to get results; it checks visibility again,
+    // recognising anonymous voters by their voter token
+    const { data, error } = await supabase.rpc('get_poll_results', {
+      poll_uuid: pollId,
+      voter_token_hash: access.voterTokenHash
+    });
+
+    if (error) {
+      console.error('Error fetching poll results:', error);
       return {
         success: false,
         error: 'Failed to fetch poll results'
@@ -520,13 +1186,643 @@ export async function getPollResults(pollId: string) {
 
     return {
       success: true,
-      data: data || []
+      data: data || []
+    };
+  } catch (error) {
+    console.error('Error in getPollResults:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch poll results'
+    };
+  }
+}
+
+/**
+ * Computes instant-runoff results for a ranked-choice poll.
+ * 
+ * Reassembles each ballot from its vote rows (grouped by ballot_id and
+ * ordered by rank) and runs the elimination rounds. Unlike get_poll_results,
+ * which only reports first preferences, this shows how votes transfer as
+ * the weakest options are eliminated.
+ * 
+ * @param pollId - The UUID of the ranked-choice poll
+ * @returns Promise resolving to the runoff rounds and winner, or an error
+ * 
+ * @example
+ * ```tsx
+ * const results = await getRankedChoiceResults("poll-123");
+ * if (results.success) {
+ *   console.log(results.data.winner, results.data.rounds.length);
+ * }
+ * ```
+ */
+export async function getRankedChoiceResults(pollId: string) {
+  try {
+    const supabase = await createClient();
+
+    // Polls can hide their results until the viewer has voted or the poll has closed
+    const access = await getResultsAccess(supabase, pollId);
+    if (!access.visible) {
+      return { success: true, data: null, hidden: true };
+    }
+
+    const { data: options, error: optionsError } = await supabase
+      .from('poll_options')
+      .select('id')
+      .eq('poll_id', pollId)
+      .order('order_index', { ascending: true });
+
+    if (optionsError) {
+      throw new Error(`Failed to fetch poll options: ${optionsError.message}`);
+    }
+
+    const { data: votes, error: votesError } = await access.client
+      .from('votes')
+      .select('ballot_id, option_id, rank')
+      .eq('poll_id', pollId);
+
+    if (votesError) {
+      throw new Error(`Failed to fetch votes: ${votesError.message}`);
+    }
+
+    const ballots = groupRankedBallots(votes || []);
+    const optionIds = (options || []).map((option: { id: string }) => option.id);
+
+    return {
+      success: true,
+      data: tallyInstantRunoff(optionIds, ballots)
+    };
+  } catch (error) {
+    console.error('Error in getRankedChoiceResults:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch ranked-choice results'
+    };
+  }
+}
+
+/**
+ * Computes per-option rating statistics for a score poll.
+ * 
+ * Returns the average rating, number of ratings and the distribution of
+ * ratings across the poll's scale for every option, in display order.
+ * 
+ * @param pollId - The UUID of the score poll
+ * @returns Promise resolving to the scale and per-option statistics, or an error
+ * 
+ * @example
+ * ```tsx
+ * const results = await getScoreResults("poll-123");
+ * if (results.success) {
+ *   results.data.options.forEach(o => console.log(o.option_id, o.average));
+ * }
+ * ```
+ */
+export async function getScoreResults(pollId: string) {
+  try {
+    const supabase = await createClient();
+
+    // Polls can hide their results until the viewer has voted or the poll has closed
+    const access = await getResultsAccess(supabase, pollId);
+    if (!access.visible) {
+      return { success: true, data: null, hidden: true };
+    }
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('score_max')
+      .eq('id', pollId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pollError || !poll) {
+      throw new Error('Poll not found');
+    }
+
+    const { data: options, error: optionsError } = await supabase
+      .from('poll_options')
+      .select('id')
+      .eq('poll_id', pollId)
+      .order('order_index', { ascending: true });
+
+    if (optionsError) {
+      throw new Error(`Failed to fetch poll options: ${optionsError.message}`);
+    }
+
+    const { data: votes, error: votesError } = await access.client
+      .from('votes')
+      .select('option_id, score')
+      .eq('poll_id', pollId);
+
+    if (votesError) {
+      throw new Error(`Failed to fetch votes: ${votesError.message}`);
+    }
+
+    const optionIds = (options || []).map((option: { id: string }) => option.id);
+
+    return {
+      success: true,
+      data: {
+        scoreMax: poll.score_max,
+        options: tallyScores(optionIds, votes || [], poll.score_max)
+      }
+    };
+  } catch (error) {
+    console.error('Error in getScoreResults:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch score results'
+    };
+  }
+}
+
+/**
+ * Aggregates effective votes for a quadratic poll.
+ * 
+ * Sums the votes bought on each option across all ballots, keeping votes
+ * for and against separately so the results can show how contested an
+ * option is, not just its net total.
+ * 
+ * @param pollId - The UUID of the quadratic poll
+ * @returns Promise resolving to per-option effective votes, or an error
+ * 
+ * @example
+ * ```tsx
+ * const results = await getQuadraticResults("poll-123");
+ * if (results.success) {
+ *   results.data.forEach(o => console.log(o.option_id, o.votes));
+ * }
+ * ```
+ */
+export async function getQuadraticResults(pollId: string) {
+  try {
+    const supabase = await createClient();
+
+    // Polls can hide their results until the viewer has voted or the poll has closed
+    const access = await getResultsAccess(supabase, pollId);
+    if (!access.visible) {
+      return { success: true, data: null, hidden: true };
+    }
+
+    const { data: options, error: optionsError } = await supabase
+      .from('poll_options')
+      .select('id')
+      .eq('poll_id', pollId)
+      .order('order_index', { ascending: true });
+
+    if (optionsError) {
+      throw new Error(`Failed to fetch poll options: ${optionsError.message}`);
+    }
+
+    const { data: votes, error: votesError } = await access.client
+      .from('votes')
+      .select('option_id, weight')
+      .eq('poll_id', pollId);
+
+    if (votesError) {
+      throw new Error(`Failed to fetch votes: ${votesError.message}`);
+    }
+
+    const optionIds = (options || []).map((option: { id: string }) => option.id);
+
+    return {
+      success: true,
+      data: tallyQuadratic(optionIds, votes || [])
     };
   } catch (error) {
-    console.error('Error in getPollResults:', error);
+    console.error('Error in getQuadraticResults:', error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to fetch poll results'
+      error: error instanceof Error ? error.message : 'Failed to fetch quadratic results'
+    };
+  }
+}
+
+/**
+ * Ranks the options of a pairwise poll from every comparison cast on it.
+ * 
+ * Condorcet winners are ranked first, one after another, and any options
+ * left once no Condorcet winner remains are ordered by their Bradley-Terry
+ * rating. The head-to-head win matrix is returned alongside the ranking.
+ * 
+ * @param pollId - The UUID of the pairwise poll
+ * @returns Promise resolving to the ranking and win matrix, or an error
+ * 
+ * @example
+ * ```tsx
+ * const results = await getPairwiseResults("poll-123");
+ * if (results.success) {
+ *   console.log(results.data.condorcetWinner, results.data.ranking);
+ * }
+ * ```
+ */
+export async function getPairwiseResults(pollId: string) {
+  try {
+    const supabase = await createClient();
+
+    // Polls can hide their results until the viewer has voted or the poll has closed
+    const access = await getResultsAccess(supabase, pollId);
+    if (!access.visible) {
+      return { success: true, data: null, hidden: true };
+    }
+
+    const { data: options, error: optionsError } = await supabase
+      .from('poll_options')
+      .select('id')
+      .eq('poll_id', pollId)
+      .order('order_index', { ascending: true });
+
+    if (optionsError) {
+      throw new Error(`Failed to fetch poll options: ${optionsError.message}`);
+    }
+
+    const { data: votes, error: votesError } = await access.client
+      .from('votes')
+      .select('option_id, opponent_id')
+      .eq('poll_id', pollId)
+      .not('opponent_id', 'is', null);
+
+    if (votesError) {
+      throw new Error(`Failed to fetch votes: ${votesError.message}`);
+    }
+
+    const optionIds = (options || []).map((option: { id: string }) => option.id);
+
+    return {
+      success: true,
+      data: tallyPairwise(optionIds, toComparisons(votes || []))
+    };
+  } catch (error) {
+    console.error('Error in getPairwiseResults:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch pairwise results'
+    };
+  }
+}
+
+/**
+ * Computes the results of a survey, question by question.
+ * 
+ * Every question is tallied with its own voting method: vote counts for
+ * single and multiple choice questions, runoff rounds for ranked ones,
+ * rating statistics for score ones, effective votes for quadratic ones and
+ * the pairwise ranking for pairwise ones. The survey's results visibility
+ * applies to all questions alike.
+ * 
+ * @param pollId - The UUID of the survey
+ * @returns Promise resolving to one result per question, in question order, or an error
+ * 
+ * @example
+ * ```tsx
+ * const results = await getSurveyResults("poll-123");
+ * if (results.success) {
+ *   results.data.forEach(q => console.log(q.question_id, q.responses));
+ * }
+ * ```
+ */
+export async function getSurveyResults(pollId: string) {
+  try {
+    const supabase = await createClient();
+
+    // Polls can hide their results until the viewer has voted or the poll has closed
+    const access = await getResultsAccess(supabase, pollId);
+    if (!access.visible) {
+      return { success: true, data: [], hidden: true };
+    }
+
+    const { data: questions, error: questionsError } = await supabase
+      .from('poll_questions')
+      .select(`
+        *,
+        poll_options (
+          id,
+          text,
+          order_index
+        )
+      `)
+      .eq('poll_id', pollId);
+
+    if (questionsError) {
+      throw new Error(`Failed to fetch survey questions: ${questionsError.message}`);
+    }
+
+    const { data: votes, error: votesError } = await access.client
+      .from('votes')
+      .select('question_id, ballot_id, option_id, rank, score, weight, opponent_id')
+      .eq('poll_id', pollId);
+
+    if (votesError) {
+      throw new Error(`Failed to fetch votes: ${votesError.message}`);
+    }
+
+    const rows: SurveyVoteRow[] = votes || [];
+
+    return {
+      success: true,
+      data: sortedQuestions(questions).map(question => tallySurveyQuestion(question, rows))
+    };
+  } catch (error) {
+    console.error('Error in getSurveyResults:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch survey results',
+      data: []
+    };
+  }
+}
+
+/**
+ * Groups the write-in ("Other") answers cast on a poll.
+ * 
+ * Answers are grouped case-insensitively and returned most popular first,
+ * each under its most common spelling.
+ * 
+ * @param pollId - The UUID of the poll
+ * @returns Promise resolving to the grouped write-in answers, or an error
+ * 
+ * @example
+ * ```tsx
+ * const results = await getWriteInResults("poll-123");
+ * if (results.success) {
+ *   results.data.forEach(w => console.log(w.text, w.count));
+ * }
+ * ```
+ */
+export async function getWriteInResults(pollId: string) {
+  try {
+    const supabase = await createClient();
+
+    // Polls can hide their results until the viewer has voted or the poll has closed
+    const access = await getResultsAccess(supabase, pollId);
+    if (!access.visible) {
+      return { success: true, data: null, hidden: true };
+    }
+
+    const { data: votes, error: votesError } = await access.client
+      .from('votes')
+      .select('write_in')
+      .eq('poll_id', pollId)
+      .not('write_in', 'is', null);
+
+    if (votesError) {
+      throw new Error(`Failed to fetch write-in answers: ${votesError.message}`);
+    }
+
+    return {
+      success: true,
+      data: groupWriteIns(votes || [])
+    };
+  } catch (error) {
+    console.error('Error in getWriteInResults:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch write-in answers'
+    };
+  }
+}
+
+/**
+ * Promotes a write-in answer to a real poll option, keeping its votes.
+ * 
+ * Every write-in matching the answer (case-insensitively) is moved onto the
+ * option. If the poll already has an option with the same text the votes
+ * are merged into it instead of creating a duplicate, and voters who chose
+ * that option as well as writing it in keep a single vote for it.
+ * 
+ * @param pollId - The UUID of the poll
+ * @param text - The write-in answer to promote
+ * @returns Promise resolving to the option ID and number of votes moved
+ * 
+ * @example
+ * ```tsx
+ * const result = await promoteWriteIn("poll-123", "Pizza");
+ * if (result.success) {
+ *   console.log(`${result.data.moved} votes now count for the new option`);
+ * }
+ * ```
+ */
+export async function promoteWriteIn(pollId: string, text: string) {
+  try {
+    const supabase = await createClient();
+    
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    
+    if (authError || !user) {
+      throw new Error('You must be logged in to promote a write-in answer');
+    }
+
+    const { data: poll, error: pollCheckError } = await supabase
+      .from('polls')
+      .select('created_by, workspace_id, vote_type')
+      .eq('id', pollId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pollCheckError || !poll) {
+      throw new Error('Poll not found');
+    }
+
+    if (!canEditPoll(await getPollRole(supabase, { id: pollId, created_by: poll.created_by, workspace_id: poll.workspace_id }, user.id))) {
+      throw new Error('You can only promote write-in answers on your own polls');
+    }
+
+    const { data: writeInVotes, error: votesError } = await supabase
+      .from('votes')
+      .select('id, write_in')
+      .eq('poll_id', pollId)
+      .not('write_in', 'is', null);
+
+    if (votesError) {
+      throw new Error(`Failed to fetch write-in answers: ${votesError.message}`);
+    }
+
+    const key = writeInKey(text);
+    const voteIds = (writeInVotes || [])
+      .filter((vote: { write_in: string }) => writeInKey(vote.write_in) === key)
+      .map((vote: { id: string }) => vote.id);
+
+    if (voteIds.length === 0) {
+      throw new Error('No write-in answers match this text');
+    }
+
+    const { data: options, error: optionsError } = await supabase
+      .from('poll_options')
+      .select('id, text, order_index')
+      .eq('poll_id', pollId);
+
+    if (optionsError) {
+      throw new Error(`Failed to fetch poll options: ${optionsError.message}`);
+    }
+
+    // Merge into an existing option with the same text rather than duplicating it
+    let optionId = (options || []).find((option: { text: string }) => writeInKey(option.text) === key)?.id;
+
+    if (!optionId) {
+      if ((options || []).length >= maxOptionsFor(poll.vote_type)) {
+        throw new Error('This poll already has the maximum number of options');
+      }
+
+      const nextIndex = Math.max(-1, ...(options || []).map((option: { order_index: number }) => option.order_index)) + 1;
+      const { data: option, error: insertError } = await supabase
+        .from('poll_options')
+        .insert({ poll_id: pollId, text: normalizeWriteIn(text), order_index: nextIndex })
+        .select('id')
+        .single();
+
+      if (insertError || !option) {
+        throw new Error(`Failed to create poll option: ${insertError?.message}`);
+      }
+      optionId = option.id;
+    }
+
+    // Votes can't be updated directly, so the database function moves the answers
+    const { data: moved, error: promoteError } = await supabase.rpc('promote_write_in', {
+      poll_uuid: pollId,
+      option_uuid: optionId,
+      vote_ids: voteIds,
+    });
+
+    if (promoteError) {
+      throw new Error(`Failed to move write-in votes: ${promoteError.message}`);
+    }
+
+    revalidatePath(`/polls/${pollId}`);
+
+    return { success: true, data: { option_id: optionId as string, moved: Number(moved ?? 0) } };
+  } catch (error) {
+    console.error('Error promoting write-in answer:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to promote write-in answer'
+    };
+  }
+}
+
+/**
+ * Fetches the current user's vote on a poll so it can be shown and changed.
+ * 
+ * The stored rows are turned back into the ballot shape the vote route
+ * accepts. Anonymous visitors and users who haven't voted get `null`.
+ * 
+ * @param pollId - The UUID of the poll
+ * @returns Promise resolving to the user's ballot (or null), or an error
+ * 
+ * @example
+ * ```tsx
+ * const result = await getMyVote("poll-123");
+ * if (result.success && result.data) {
+ *   setSelectedOptions(result.data.option_ids);
+ * }
+ * ```
+ */
+export async function getMyVote(pollId: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return { success: true, data: null };
+    }
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('vote_type')
+      .eq('id', pollId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pollError || !poll) {
+      throw new Error('Poll not found');
+    }
+
+    const { data: votes, error: votesError } = await supabase
+      .from('votes')
+      .select('option_id, rank, score, weight, opponent_id, write_in')
+      .eq('poll_id', pollId)
+      .eq('voter_id', user.id);
+
+    if (votesError) {
+      throw new Error(`Failed to fetch your vote: ${votesError.message}`);
+    }
+
+    return {
+      success: true,
+      data: votes && votes.length > 0 ? ballotFromRows(poll, votes) : null
+    };
+  } catch (error) {
+    console.error('Error in getMyVote:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch your vote'
+    };
+  }
+}
+
+/**
+ * Counts the votes cast for each option of a poll.
+ *
+ * Used by the edit form to warn before removing options that have votes,
+ * since their votes are deleted with them.
+ *
+ * @param pollId - The UUID of the poll
+ * @returns Promise resolving to vote counts keyed by option ID
+ * 
+ * @example
+ * ```tsx
+ * const { data: counts } = await getOptionVoteCounts("poll-123");
+ * const hasVotes = Object.values(counts).some(count => count > 0);
+ * ```
+ */
+export async function getOptionVoteCounts(pollId: string) {
+  try {
+    const supabase = await createClient();
+
+    return { success: true, data: await countOptionVotes(supabase, pollId) };
+  } catch (error) {
+    console.error('Error in getOptionVoteCounts:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to count votes',
+      data: {} as Record<string, number>
+    };
+  }
+}
+
+/**
+ * Fetches a poll's turnout: the ballots cast and the number of distinct
+ * voters. Used to show progress towards a poll's close conditions, so it
+ * is available even when the poll's results are hidden.
+ * 
+ * @param pollId - The UUID of the poll
+ * @returns Promise resolving to the turnout, or null when the poll isn't visible
+ * 
+ * @example
+ * ```tsx
+ * const { data: turnout } = await getPollTurnout("poll-123");
+ * console.log(`${turnout?.ballots} votes from ${turnout?.voters} voters`);
+ * ```
+ */
+export async function getPollTurnout(pollId: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase.rpc('get_poll_turnout', { poll_uuid: pollId });
+
+    if (error) {
+      throw new Error(`Failed to fetch turnout: ${error.message}`);
+    }
+
+    const turnout: PollTurnout | null = data?.[0] ?? null;
+
+    return { success: true, data: turnout };
+  } catch (error) {
+    console.error('Error in getPollTurnout:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch turnout',
+      data: null
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,249 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { PollShare, PollShareWithStats } from '@/lib/types/database';
+import { countShareVotes, validateShareSettings } from '@/lib/polls/shares';
+
+/**
+ * Creates a share code for one of the current user's polls.
+ *
+ * The code resolves to the poll at /s/<code>. A label names the channel the
+ * link is shared on, so its visits and votes can be told apart from other
+ * links, and an optional expiry stops the link from resolving afterwards.
+ *
+ * @param pollId - The poll to share
+ * @param settings - Optional label and expiry time for the code
+ * @returns Promise resolving to success/error result with the new share code
+ *
+ * @example
+ * ```tsx
+ * const result = await createShareCode(poll.id, { label: 'Newsletter' });
+ *
+ * if (result.success) {
+ *   await navigator.clipboard.writeText(shareUrl(window.location.origin, result.share.share_code));
+ * }
+ * ```
+ */
+export async function createShareCode(
+  pollId: string,
+  settings: { label?: string | null; expires_at?: string | null } = {}
+) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to share a poll');
+    }
+
+    const settingsError = validateShareSettings(settings);
+    if (settingsError) {
+      throw new Error(settingsError);
+    }
+
+    const { data: poll, error: pollCheckError } = await supabase
+      .from('polls')
+      .select('created_by, is_draft, is_public')
+      .eq('id', pollId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pollCheckError || !poll) {
+      throw new Error('Poll not found');
+    }
+
+    if (poll.created_by !== user.id) {
+      throw new Error('You can only share your own polls');
+    }
+
+    if (poll.is_draft) {
+      throw new Error('Publish the poll before sharing it');
+    }
+
+    // Share codes open the poll's public page, which other polls don't have
+    if (!poll.is_public) {
+      throw new Error('Share codes are only available for public polls');
+    }
+
+    const { data: shareCode, error: codeError } = await supabase.rpc('generate_share_code');
+
+    if (codeError || !shareCode) {
+      throw new Error(`Failed to generate share code: ${codeError?.message ?? 'no code returned'}`);
+    }
+
+    const { data: share, error: shareError } = await supabase
+      .from('poll_shares')
+      .insert({
+        poll_id: pollId,
+        share_code: shareCode,
+        label: settings.label?.trim() || null,
+        expires_at: settings.expires_at || null,
+        created_by: user.id
+      })
+      .select()
+      .single();
+
+    if (shareError) {
+      throw new Error(`Failed to create share code: ${shareError.message}`);
+    }
+
+    return { success: true, share: share as PollShare };
+  } catch (error) {
+    console.error('Error creating share code:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create share code'
+    };
+  }
+}
+
+/**
+ * Fetches the share codes of one of the current user's polls, newest
+ * first, with the number of ballots cast through each.
+ *
+ * @param pollId - The poll whose share codes to list
+ * @returns Promise resolving to share codes array and error state
+ *
+ * @example
+ * ```tsx
+ * const { shares } = await getShareCodes(poll.id);
+ * ```
+ */
+export async function getShareCodes(pollId: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to view share codes');
+    }
+
+    const { data: poll, error: pollCheckError } = await supabase
+      .from('polls')
+      .select('created_by')
+      .eq('id', pollId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pollCheckError || !poll) {
+      throw new Error('Poll not found');
+    }
+
+    if (poll.created_by !== user.id) {
+      throw new Error('You can only view share codes of your own polls');
+    }
+
+    const { data: shares, error: sharesError } = await supabase
+      .from('poll_shares')
+      .select('*')
+      .eq('poll_id', pollId)
+      .order('created_at', { ascending: false });
+
+    if (sharesError) {
+      throw new Error(`Failed to fetch share codes: ${sharesError.message}`);
+    }
+
+    const { data: votes, error: votesError } = await supabase
+      .from('votes')
+      .select('share_id, ballot_id')
+      .eq('poll_id', pollId)
+      .not('share_id', 'is', null);
+
+    if (votesError) {
+      throw new Error(`Failed to fetch share votes: ${votesError.message}`);
+    }
+
+    const voteCounts = countShareVotes(votes || []);
+
+    return {
+      shares: (shares || []).map((share: PollShare): PollShareWithStats => ({
+        ...share,
+        vote_count: voteCounts[share.id] ?? 0
+      })),
+      error: null
+    };
+  } catch (error) {
+    console.error('Error fetching share codes:', error);
+    return {
+      shares: [] as PollShareWithStats[],
+      error: error instanceof Error ? error.message : 'Failed to fetch share codes'
+    };
+  }
+}
+
+/**
+ * Disables, re-enables or changes the expiry of one of the current user's
+ * share codes. Visits and votes already recorded through the code are kept.
+ *
+ * @param shareId - The share code to update
+ * @param changes - Whether the code is active, and when it expires (null for never)
+ * @returns Promise resolving to success/error result with the updated share code
+ *
+ * @example
+ * ```tsx
+ * // Expire a link right away
+ * const result = await updateShareCode(share.id, { expires_at: new Date().toISOString() });
+ * ```
+ */
+export async function updateShareCode(
+  shareId: string,
+  changes: { is_active?: boolean; expires_at?: string | null }
+) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to update a share code');
+    }
+
+    if (changes.expires_at) {
+      const expiresAt = new Date(changes.expires_at);
+      if (Number.isNaN(expiresAt.getTime())) {
+        throw new Error('Invalid expiry time');
+      }
+    }
+
+    const { data: existingShare, error: shareCheckError } = await supabase
+      .from('poll_shares')
+      .select('poll_id')
+      .eq('id', shareId)
+      .maybeSingle();
+
+    if (shareCheckError || !existingShare) {
+      throw new Error('Share code not found');
+    }
+
+    const { data: poll, error: pollCheckError } = await supabase
+      .from('polls')
+      .select('created_by')
+      .eq('id', existingShare.poll_id)
+      .single();
+
+    if (pollCheckError || !poll || poll.created_by !== user.id) {
+      throw new Error('You can only update share codes of your own polls');
+    }
+
+    const { data: share, error: shareError } = await supabase
+      .from('poll_shares')
+      .update(changes)
+      .eq('id', shareId)
+      .select()
+      .single();
+
+    if (shareError) {
+      throw new Error(`Failed to update share code: ${shareError.message}`);
+    }
+
+    return { success: true, share: share as PollShare };
+  } catch (error) {
+    console.error('Error updating share code:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update share code'
+    };
+  }
+}
@@ -0,0 +1,190 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { PollTemplate } from '@/lib/types/database';
+import { templateSettingsFromPoll } from '@/lib/polls/templates';
+import { questionsToForm } from '@/lib/polls/survey';
+
+/**
+ * Saves an existing poll as a named personal template.
+ *
+ * The template keeps the poll's title, description, options and settings,
+ * so the create poll form can start a new poll from it later. A survey's
+ * questions are kept with its settings. Templates are private to the user
+ * who saved them.
+ *
+ * @param pollId - The poll to save as a template
+ * @param name - The name the template is listed under
+ * @returns Promise resolving to success/error result with the new template
+ *
+ * @example
+ * ```tsx
+ * const result = await savePollAsTemplate(poll.id, 'Weekly retro');
+ *
+ * if (result.success) {
+ *   toast.success(`Saved "${result.template.name}"`);
+ * }
+ * ```
+ */
+export async function savePollAsTemplate(pollId: string, name: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to save a template');
+    }
+
+    if (!name.trim()) {
+      throw new Error('Template name is required');
+    }
+
+    const { data: poll, error: pollCheckError } = await supabase
+      .from('polls')
+      .select(`
+        *,
+        poll_options (
+          text,
+          order_index,
+          question_id
+        ),
+        poll_questions (
+          *,
+          poll_options (
+            id,
+            text,
+            order_index
+          )
+        )
+      `)
+      .eq('id', pollId)
+      .is('deleted_at', null)
+      .single();
+
+    if (pollCheckError || !poll) {
+      throw new Error('Poll not found');
+    }
+
+    if (poll.created_by !== user.id) {
+      throw new Error('You can only save your own polls as templates');
+    }
+
+    // Survey options are saved with their questions instead
+    const options: { text: string; order_index: number; question_id: string | null }[] =
+      (poll.poll_options || []).filter((option: { question_id: string | null }) => !option.question_id);
+    const questions = questionsToForm(poll.poll_questions);
+
+    const { data: template, error: templateError } = await supabase
+      .from('poll_templates')
+      .insert({
+        name: name.trim(),
+        title: poll.title,
+        description: poll.description,
+        options: options
+          .slice()
+          .sort((a, b) => a.order_index - b.order_index)
+          .map(option => option.text),
+        settings: questions.length > 0
+          ? { ...templateSettingsFromPoll(poll), questions }
+          : templateSettingsFromPoll(poll),
+        created_by: user.id
+      })
+      .select()
+      .single();
+
+    if (templateError) {
+      throw new Error(`Failed to save template: ${templateError.message}`);
+    }
+
+    return { success: true, template: template as PollTemplate };
+  } catch (error) {
+    console.error('Error saving template:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save template'
+    };
+  }
+}
+
+/**
+ * Fetches the current user's saved templates, most recently saved first.
+ *
+ * @returns Promise resolving to templates array and error state
+ *
+ * @example
+ * ```tsx
+ * const { templates } = await getPollTemplates();
+ * ```
+ */
+export async function getPollTemplates() {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to view templates');
+    }
+
+    const { data: templates, error } = await supabase
+      .from('poll_templates')
+      .select('*')
+      .eq('created_by', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch templates: ${error.message}`);
+    }
+
+    return { templates: (templates || []) as PollTemplate[], error: null };
+  } catch (error) {
+    console.error('Error fetching templates:', error);
+    return {
+      templates: [] as PollTemplate[],
+      error: error instanceof Error ? error.message : 'Failed to fetch templates'
+    };
+  }
+}
+
+/**
+ * Deletes one of the current user's saved templates. Polls created from
+ * the template are unaffected.
+ *
+ * @param templateId - The template to delete
+ * @returns Promise resolving to success/error result
+ *
+ * @example
+ * ```tsx
+ * const result = await deletePollTemplate(template.id);
+ * ```
+ */
+export async function deletePollTemplate(templateId: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to delete a template');
+    }
+
+    const { error } = await supabase
+      .from('poll_templates')
+      .delete()
+      .eq('id', templateId)
+      .eq('created_by', user.id);
+
+    if (error) {
+      throw new Error(`Failed to delete template: ${error.message}`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting template:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete template'
+    };
+  }
+}
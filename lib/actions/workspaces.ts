@@ -0,0 +1,462 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { WorkspaceMember, WorkspaceMemberWithProfile, WorkspaceWithRole } from '@/lib/types/database';
+import {
+  AssignableWorkspaceRole,
+  MAX_WORKSPACE_MEMBERS,
+  WORKSPACE_ROLE_LABELS,
+  canManageWorkspace,
+  getWorkspaceRole,
+  validateWorkspaceName,
+} from '@/lib/workspaces/members';
+
+/**
+ * Creates a workspace, with the current user as its owner.
+ *
+ * @param name - The workspace's name, such as the team's
+ * @returns Promise resolving to success/error result with the workspace ID
+ *
+ * @example
+ * ```tsx
+ * const result = await createWorkspace('Marketing');
+ *
+ * if (result.success) {
+ *   router.push(`/dashboard?workspace=${result.workspaceId}`);
+ * }
+ * ```
+ */
+export async function createWorkspace(name: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to create a workspace');
+    }
+
+    const nameError = validateWorkspaceName(name);
+    if (nameError) {
+      throw new Error(nameError);
+    }
+
+    // A trigger adds the creator to the workspace as its owner
+    const { data: workspace, error: insertError } = await supabase
+      .from('workspaces')
+      .insert({ name: name.trim(), created_by: user.id })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      throw new Error(`Failed to create workspace: ${insertError.message}`);
+    }
+
+    revalidatePath('/dashboard');
+
+    return { success: true, workspaceId: workspace.id };
+  } catch (error) {
+    console.error('Error creating workspace:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create workspace'
+    };
+  }
+}
+
+/**
+ * Fetches the workspaces the current user belongs to, by name, with their
+ * role in each.
+ *
+ * @returns Promise resolving to workspaces array and error state
+ *
+ * @example
+ * ```tsx
+ * const { workspaces } = await getWorkspaces();
+ * const managed = workspaces.filter(workspace => workspace.role !== 'member');
+ * ```
+ */
+export async function getWorkspaces() {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to view your workspaces');
+    }
+
+    const { data: memberships, error: membershipsError } = await supabase
+      .from('workspace_members')
+      .select('workspace_id, role')
+      .eq('user_id', user.id);
+
+    if (membershipsError) {
+      throw new Error(`Failed to fetch workspaces: ${membershipsError.message}`);
+    }
+
+    if (!memberships || memberships.length === 0) {
+      return { workspaces: [] as WorkspaceWithRole[], error: null };
+    }
+
+    const { data: workspaces, error: workspacesError } = await supabase
+      .from('workspaces')
+      .select('*')
+      .in('id', memberships.map(membership => membership.workspace_id))
+      .order('name', { ascending: true });
+
+    if (workspacesError) {
+      throw new Error(`Failed to fetch workspaces: ${workspacesError.message}`);
+    }
+
+    const rolesById = new Map(memberships.map(membership => [membership.workspace_id, membership.role]));
+
+    return {
+      workspaces: (workspaces || []).map((workspace): WorkspaceWithRole => ({
+        ...workspace,
+        role: rolesById.get(workspace.id) ?? 'member',
+      })),
+      error: null
+    };
+  } catch (error) {
+    console.error('Error fetching workspaces:', error);
+    return {
+      workspaces: [] as WorkspaceWithRole[],
+      error: error instanceof Error ? error.message : 'Failed to fetch workspaces'
+    };
+  }
+}
+
+/**
+ * Deletes a workspace. Only its owner can. The workspace's polls aren't
+ * deleted: they go back to being personal polls of whoever created them.
+ *
+ * @param workspaceId - The workspace to delete
+ * @returns Promise resolving to success/error result
+ *
+ * @example
+ * ```tsx
+ * const result = await deleteWorkspace(workspace.id);
+ * ```
+ */
+export async function deleteWorkspace(workspaceId: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to delete a workspace');
+    }
+
+    if (await getWorkspaceRole(supabase, workspaceId, user.id) !== 'owner') {
+      throw new Error('Only the workspace\'s owner can delete it');
+    }
+
+    const { error: deleteError } = await supabase
+      .from('workspaces')
+      .delete()
+      .eq('id', workspaceId);
+
+    if (deleteError) {
+      throw new Error(`Failed to delete workspace: ${deleteError.message}`);
+    }
+
+    revalidatePath('/dashboard');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting workspace:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete workspace'
+    };
+  }
+}
+
+/**
+ * Adds a user to a workspace. The workspace's owner and admins can add
+ * members.
+ *
+ * The other user needs an account, found by the email address they signed
+ * up with.
+ *
+ * @param workspaceId - The workspace to add the user to
+ * @param email - The address of the user to add
+ * @param role - Whether the user becomes an admin or a member
+ * @returns Promise resolving to success/error result
+ *
+ * @example
+ * ```tsx
+ * const result = await addWorkspaceMember(workspace.id, 'ana@example.com', 'member');
+ *
+ * if (!result.success) {
+ *   toast.error(result.error);
+ * }
+ * ```
+ */
+export async function addWorkspaceMember(workspaceId: string, email: string, role: AssignableWorkspaceRole) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to add a member');
+    }
+
+    if (!(role in WORKSPACE_ROLE_LABELS)) {
+      throw new Error('Invalid role');
+    }
+
+    if (!canManageWorkspace(await getWorkspaceRole(supabase, workspaceId, user.id))) {
+      throw new Error('Only the workspace\'s owner and admins can add members');
+    }
+
+    // Profiles are private to their users, so the address is looked up with the service role
+    const { data: profile, error: profileError } = await createAdminClient()
+      .from('profiles')
+      .select('id')
+      .eq('email', email.trim().toLowerCase())
+      .maybeSingle();
+
+    if (profileError) {
+      throw new Error(`Failed to find user: ${profileError.message}`);
+    }
+
+    if (!profile) {
+      throw new Error('No user has signed up with that email address');
+    }
+
+    const { count, error: countError } = await supabase
+      .from('workspace_members')
+      .select('id', { count: 'exact', head: true })
+      .eq('workspace_id', workspaceId);
+
+    if (countError) {
+      throw new Error(`Failed to fetch members: ${countError.message}`);
+    }
+
+    if ((count ?? 0) >= MAX_WORKSPACE_MEMBERS) {
+      throw new Error(`A workspace can have at most ${MAX_WORKSPACE_MEMBERS} members`);
+    }
+
+    const { error: insertError } = await supabase
+      .from('workspace_members')
+      .insert({ workspace_id: workspaceId, user_id: profile.id, role });
+
+    if (insertError) {
+      // Unique violation: the user already belongs to the workspace
+      if (insertError.code === '23505') {
+        throw new Error('That user is already a member of this workspace');
+      }
+      throw new Error(`Failed to add member: ${insertError.message}`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error adding workspace member:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to add member'
+    };
+  }
+}
+
+/**
+ * Fetches the members of a workspace, owner first and then in the order
+ * they joined, with their names and email addresses. Available to the
+ * workspace's members.
+ *
+ * @param workspaceId - The workspace whose members to list
+ * @returns Promise resolving to members array and error state
+ *
+ * @example
+ * ```tsx
+ * const { members } = await getWorkspaceMembers(workspace.id);
+ * const admins = members.filter(member => member.role === 'admin');
+ * ```
+ */
+export async function getWorkspaceMembers(workspaceId: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to view workspace members');
+    }
+
+    // Row level security limits the list to the workspace's members
+    const { data: members, error: membersError } = await supabase
+      .from('workspace_members')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: true });
+
+    if (membersError) {
+      throw new Error(`Failed to fetch members: ${membersError.message}`);
+    }
+
+    if (!members || members.length === 0) {
+      return { members: [] as WorkspaceMemberWithProfile[], error: null };
+    }
+
+    const { data: profiles, error: profilesError } = await createAdminClient()
+      .from('profiles')
+      .select('id, name, email')
+      .in('id', members.map((member: WorkspaceMember) => member.user_id));
+
+    if (profilesError) {
+      throw new Error(`Failed to fetch members: ${profilesError.message}`);
+    }
+
+    const profilesById = new Map((profiles || []).map(profile => [profile.id, profile]));
+
+    return {
+      members: members
+        .sort((a: WorkspaceMember, b: WorkspaceMember) => Number(b.role === 'owner') - Number(a.role === 'owner'))
+        .map((member: WorkspaceMember): WorkspaceMemberWithProfile => ({
+          ...member,
+          name: profilesById.get(member.user_id)?.name ?? 'Unknown user',
+          email: profilesById.get(member.user_id)?.email ?? '',
+        })),
+      error: null
+    };
+  } catch (error) {
+    console.error('Error fetching workspace members:', error);
+    return {
+      members: [] as WorkspaceMemberWithProfile[],
+      error: error instanceof Error ? error.message : 'Failed to fetch workspace members'
+    };
+  }
+}
+
+/**
+ * Makes a workspace member an admin or a regular member. The workspace's
+ * owner and admins can change anyone's role but the owner's.
+ *
+ * @param memberId - The membership to change
+ * @param role - The member's new role
+ * @returns Promise resolving to success/error result
+ *
+ * @example
+ * ```tsx
+ * const result = await updateWorkspaceMemberRole(member.id, 'admin');
+ * ```
+ */
+export async function updateWorkspaceMemberRole(memberId: string, role: AssignableWorkspaceRole) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to change a member\'s role');
+    }
+
+    if (!(role in WORKSPACE_ROLE_LABELS)) {
+      throw new Error('Invalid role');
+    }
+
+    const member = await findWorkspaceMember(supabase, memberId);
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    if (member.role === 'owner') {
+      throw new Error('The workspace\'s owner can\'t be given another role');
+    }
+
+    if (!canManageWorkspace(await getWorkspaceRole(supabase, member.workspace_id, user.id))) {
+      throw new Error('Only the workspace\'s owner and admins can change roles');
+    }
+
+    const { error: updateError } = await supabase
+      .from('workspace_members')
+      .update({ role })
+      .eq('id', memberId);
+
+    if (updateError) {
+      throw new Error(`Failed to change role: ${updateError.message}`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error changing workspace member role:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to change role'
+    };
+  }
+}
+
+/**
+ * Removes a member from a workspace. The workspace's owner and admins can
+ * remove anyone but the owner; members can remove themselves to leave the
+ * workspace. Polls the member created in the workspace stay in it.
+ *
+ * @param memberId - The membership to remove
+ * @returns Promise resolving to success/error result
+ *
+ * @example
+ * ```tsx
+ * const result = await removeWorkspaceMember(member.id);
+ * ```
+ */
+export async function removeWorkspaceMember(memberId: string) {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to remove a member');
+    }
+
+    const member = await findWorkspaceMember(supabase, memberId);
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    if (member.role === 'owner') {
+      throw new Error('The workspace\'s owner can\'t leave it; delete the workspace instead');
+    }
+
+    if (member.user_id !== user.id && !canManageWorkspace(await getWorkspaceRole(supabase, member.workspace_id, user.id))) {
+      throw new Error('Only the workspace\'s owner and admins can remove members');
+    }
+
+    const { error: deleteError } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('id', memberId);
+
+    if (deleteError) {
+      throw new Error(`Failed to remove member: ${deleteError.message}`);
+    }
+
+    revalidatePath('/dashboard');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error removing workspace member:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove member'
+    };
+  }
+}
+
+// A workspace membership, to check whose it is and which workspace it belongs to
+async function findWorkspaceMember(supabase: Awaited<ReturnType<typeof createClient>>, memberId: string) {
+  const { data: member } = await supabase
+    .from('workspace_members')
+    .select('workspace_id, user_id, role')
+    .eq('id', memberId)
+    .maybeSingle();
+
+  return member;
+}
@@ -0,0 +1,48 @@
+/**
+ * Outgoing email, sent through the Resend HTTP API.
+ *
+ * Needs RESEND_API_KEY and EMAIL_FROM (a sender on a domain verified with
+ * Resend). Without them nothing is sent and callers get an error to show.
+ * Server only: never import it from client components.
+ */
+
+const RESEND_API_URL = 'https://api.resend.com/emails';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Sends a plain-text email.
+ *
+ * @returns Success, or the reason the email couldn't be sent
+ */
+export async function sendEmail(message: EmailMessage): Promise<{ success: true } | { success: false; error: string }> {
+  const apiKey = process.env.RESEND_API_KEY;
+  const from = process.env.EMAIL_FROM;
+  if (!apiKey || !from) {
+    return { success: false, error: 'Email sending is not configured' };
+  }
+
+  try {
+    const response = await fetch(RESEND_API_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ from, to: [message.to], subject: message.subject, text: message.text }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      return { success: false, error: `Failed to send email: ${body?.message ?? response.statusText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: `Failed to send email: ${error instanceof Error ? error.message : 'network error'}` };
+  }
+}
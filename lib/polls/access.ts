@@ -0,0 +1,53 @@
+/**
+ * Unlisted polls.
+ *
+ * An unlisted poll stays out of the public listings but opens for anyone
+ * holding its secret link, /u/<access token>. Opening the link leaves a
+ * cookie with the token, which the server forwards to the database in a
+ * request header so row level security lets the browser see and vote on
+ * the poll.
+ */
+
+/** Request header the database reads forwarded access tokens from. */
+export const POLL_ACCESS_HEADER = 'x-poll-access-tokens';
+
+/** How long a browser that opened a secret link keeps access to the poll. */
+export const POLL_ACCESS_COOKIE_MAX_AGE = 60 * 60 * 24 * 30;
+
+const POLL_ACCESS_COOKIE_PREFIX = 'poll_access_';
+
+// Tokens are hex, which also keeps them safe to join into the header
+const ACCESS_TOKEN_PATTERN = /^[0-9a-f]{32,128}$/;
+
+/**
+ * Name of the cookie that holds a browser's access token for a poll.
+ */
+export function pollAccessCookieName(pollId: string) {
+  return `${POLL_ACCESS_COOKIE_PREFIX}${pollId}`;
+}
+
+/**
+ * The secret link an unlisted poll opens at.
+ */
+export function unlistedPollUrl(origin: string, accessToken: string) {
+  return `${origin}/u/${accessToken}`;
+}
+
+/**
+ * Whether a value has the shape of an access token.
+ */
+export function isAccessToken(value: string) {
+  return ACCESS_TOKEN_PATTERN.test(value);
+}
+
+/**
+ * The access tokens held in a request's cookies, joined for the
+ * x-poll-access-tokens header, or null when there are none.
+ */
+export function pollAccessHeader(cookies: { name: string; value: string }[]) {
+  const tokens = cookies
+    .filter(cookie => cookie.name.startsWith(POLL_ACCESS_COOKIE_PREFIX) && isAccessToken(cookie.value))
+    .map(cookie => cookie.value);
+
+  return tokens.length > 0 ? tokens.join(',') : null;
+}
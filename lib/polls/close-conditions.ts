@@ -0,0 +1,121 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CreatePollData, Poll } from '@/lib/types/database';
+import { isChoiceVoteType } from '@/lib/voting/vote-types';
+
+/**
+ * Closing a poll on turnout rather than at a set time.
+ *
+ * Owners can close a poll after a number of ballots, after a number of
+ * distinct voters, or, on single and multiple choice polls, as soon as
+ * one option leads by more votes than could still be cast. The
+ * close_poll_if_complete database function checks the conditions after
+ * every vote and every edit of the poll, and expires the poll once one is
+ * met.
+ */
+
+/** A poll's turnout, as counted by the get_poll_turnout database function. */
+export interface PollTurnout {
+  ballots: number;
+  voters: number;
+}
+
+/** Progress towards one close condition. */
+export interface CloseProgress {
+  unit: 'votes' | 'voters';
+  current: number;
+  target: number;
+}
+
+type CloseConditions = Pick<Poll, 'close_after_votes' | 'close_after_voters' | 'close_on_decisive_lead'>;
+
+/**
+ * Whether a poll closes automatically on turnout.
+ */
+export function hasCloseConditions(poll: Partial<CloseConditions>) {
+  return Boolean(poll.close_after_votes || poll.close_after_voters);
+}
+
+/**
+ * Closes a poll that meets one of its close conditions. Callers have
+ * already recorded their change, so a failed check is logged rather than
+ * reported.
+ *
+ * @returns Whether the poll is closed
+ */
+export async function closePollIfComplete(
+  supabase: SupabaseClient,
+  pollId: string,
+  poll: Partial<CloseConditions>
+) {
+  if (!hasCloseConditions(poll)) {
+    return false;
+  }
+
+  const { data: closed, error } = await supabase.rpc('close_poll_if_complete', { poll_uuid: pollId });
+
+  if (error) {
+    console.error('Error checking close conditions:', error);
+    return false;
+  }
+
+  return Boolean(closed);
+}
+
+/**
+ * Validates a poll's close conditions before saving.
+ *
+ * @returns An error message, or null when the conditions are usable
+ */
+export function validateCloseConditions(formData: CreatePollData): string | null {
+  const isPositiveInteger = (value: number) => Number.isInteger(value) && value > 0;
+
+  if (formData.close_after_votes != null && !isPositiveInteger(formData.close_after_votes)) {
+    return 'The vote target must be a whole number of at least 1';
+  }
+
+  if (formData.close_after_voters != null && !isPositiveInteger(formData.close_after_voters)) {
+    return 'The voter target must be a whole number of at least 1';
+  }
+
+  if (formData.close_on_decisive_lead) {
+    // Polls without a vote type are single or multiple choice
+    if (formData.vote_type && !isChoiceVoteType(formData.vote_type)) {
+      return 'Closing on a decisive lead is only available for single and multiple choice polls';
+    }
+    // The lead is only decisive against a known number of remaining ballots
+    if (!formData.close_after_votes && !formData.close_after_voters) {
+      return 'Closing on a decisive lead needs a vote or voter target';
+    }
+    // Multiple choice voters can cast several ballots, so only a vote target bounds them
+    const isMultiple = formData.vote_type ? formData.vote_type === 'multiple' : formData.allow_multiple_votes;
+    if (isMultiple && !formData.close_after_votes) {
+      return 'Closing a multiple choice poll on a decisive lead needs a vote target';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Progress towards each of a poll's turnout targets.
+ */
+export function closeProgress(poll: CloseConditions, turnout: PollTurnout): CloseProgress[] {
+  const progress: CloseProgress[] = [];
+
+  if (poll.close_after_votes) {
+    progress.push({ unit: 'votes', current: turnout.ballots, target: poll.close_after_votes });
+  }
+
+  if (poll.close_after_voters) {
+    progress.push({ unit: 'voters', current: turnout.voters, target: poll.close_after_voters });
+  }
+
+  return progress;
+}
+
+/**
+ * Formats progress towards a target, such as "12/20 votes needed".
+ */
+export function formatCloseProgress({ unit, current, target }: CloseProgress) {
+  return `${Math.min(current, target)}/${target} ${unit} needed`;
+}
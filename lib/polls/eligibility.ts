@@ -0,0 +1,163 @@
+import { CreatePollData, Poll } from '@/lib/types/database';
+
+/**
+ * Voter eligibility rules.
+ *
+ * A poll can limit voting to accounts with an address on certain email
+ * domains, accounts older than a number of days, or accounts with a
+ * confirmed email address. Polls with any rule need voters to sign in.
+ * The rules are checked when a vote is cast and again by the votes insert
+ * policy through the is_eligible_voter database function; the poll page
+ * checks them up front to explain why a visitor can't vote.
+ */
+
+/** Most email domains a poll can allow. */
+export const MAX_ALLOWED_EMAIL_DOMAINS = 20;
+
+/** Longest account age a poll can require, in days. */
+export const MAX_MIN_ACCOUNT_AGE_DAYS = 3650;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DOMAIN_PATTERN = /^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+export type EligibilityRules = Pick<Poll, 'allowed_email_domains' | 'min_account_age_days' | 'require_verified_email'>;
+
+/** The parts of a signed-in account the rules look at. */
+export interface VoterAccount {
+  email?: string | null;
+  created_at: string;
+  email_confirmed_at?: string | null;
+}
+
+/**
+ * Whether a poll restricts who can vote.
+ */
+export function hasEligibilityRules(rules: Partial<EligibilityRules>) {
+  return Boolean(rules.allowed_email_domains?.length || rules.min_account_age_days || rules.require_verified_email);
+}
+
+/**
+ * Splits a typed list of email domains on commas or whitespace. Entries are
+ * lowercased and may be written as "@example.com"; duplicates are dropped.
+ */
+export function parseEmailDomains(text: string): string[] {
+  return normalizeEmailDomains(text.split(/[\s,;]+/));
+}
+
+/**
+ * Normalizes a list of email domains the way they're stored: lowercased,
+ * without a leading "@", blanks and duplicates dropped.
+ */
+export function normalizeEmailDomains(domains: string[]): string[] {
+  const normalized = domains
+    .map(domain => domain.trim().toLowerCase().replace(/^@/, ''))
+    .filter(Boolean);
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * Checks an account against a poll's eligibility rules.
+ *
+ * @param account - The signed-in account, or null for an anonymous visitor
+ * @returns Why the account can't vote, or null when it can
+ */
+export function checkEligibility(
+  rules: Partial<EligibilityRules>,
+  account: VoterAccount | null,
+  now = new Date()
+): string | null {
+  if (!hasEligibilityRules(rules)) {
+    return null;
+  }
+
+  if (!account) {
+    return 'Sign in to vote on this poll';
+  }
+
+  const domains = rules.allowed_email_domains ?? [];
+  if (domains.length > 0) {
+    const domain = account.email?.split('@').pop()?.toLowerCase();
+    if (!domain || !domains.includes(domain)) {
+      return `Only ${formatDomains(domains)} accounts can vote on this poll`;
+    }
+  }
+
+  if (rules.min_account_age_days) {
+    const ageMs = now.getTime() - new Date(account.created_at).getTime();
+    if (ageMs < rules.min_account_age_days * DAY_MS) {
+      return `Only accounts older than ${pluralDays(rules.min_account_age_days)} can vote on this poll`;
+    }
+  }
+
+  if (rules.require_verified_email && !account.email_confirmed_at) {
+    return 'Confirm your email address to vote on this poll';
+  }
+
+  return null;
+}
+
+/**
+ * Describes a poll's eligibility rules in one sentence, for poll pages.
+ *
+ * @returns The description, or null when anyone can vote
+ */
+export function describeEligibility(rules: Partial<EligibilityRules>): string | null {
+  if (!hasEligibilityRules(rules)) {
+    return null;
+  }
+
+  const requirements: string[] = [];
+  if (rules.allowed_email_domains?.length) {
+    requirements.push(`an ${formatDomains(rules.allowed_email_domains)} address`);
+  }
+  if (rules.min_account_age_days) {
+    requirements.push(`an account older than ${pluralDays(rules.min_account_age_days)}`);
+  }
+  if (rules.require_verified_email) {
+    requirements.push('a confirmed email address');
+  }
+
+  return `Voting requires ${joinList(requirements)}.`;
+}
+
+/**
+ * Validates a poll's eligibility rules before saving.
+ *
+ * @returns An error message, or null when the rules are usable
+ */
+export function validateEligibility(
+  formData: Pick<CreatePollData, 'allowed_email_domains' | 'min_account_age_days'>
+): string | null {
+  const domains = normalizeEmailDomains(formData.allowed_email_domains ?? []);
+
+  if (domains.length > MAX_ALLOWED_EMAIL_DOMAINS) {
+    return `A poll can allow at most ${MAX_ALLOWED_EMAIL_DOMAINS} email domains`;
+  }
+
+  const invalid = domains.find(domain => !DOMAIN_PATTERN.test(domain));
+  if (invalid !== undefined) {
+    return `Not an email domain: ${invalid}`;
+  }
+
+  const minAge = formData.min_account_age_days;
+  if (minAge != null && (!Number.isInteger(minAge) || minAge < 1 || minAge > MAX_MIN_ACCOUNT_AGE_DAYS)) {
+    return `The minimum account age must be a whole number of days from 1 to ${MAX_MIN_ACCOUNT_AGE_DAYS}`;
+  }
+
+  return null;
+}
+
+function formatDomains(domains: string[]) {
+  return joinList(domains.map(domain => `@${domain}`), 'or');
+}
+
+function pluralDays(days: number) {
+  return `${days} day${days !== 1 ? 's' : ''}`;
+}
+
+function joinList(items: string[], conjunction = 'and') {
+  if (items.length <= 1) {
+    return items.join('');
+  }
+  return `${items.slice(0, -1).join(', ')} ${conjunction} ${items[items.length - 1]}`;
+}
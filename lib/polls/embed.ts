@@ -0,0 +1,146 @@
+/**
+ * Embedding polls in other sites.
+ *
+ * /embed/<id> renders a poll's voting form and results without the app's
+ * header, for an iframe on a wiki or blog, in a light or dark theme and an
+ * optional compact layout. Sites that support oEmbed discover the iframe
+ * through /api/oembed?url=<poll URL>.
+ *
+ * Browsers don't send the app's SameSite=Lax cookies to a cross-site
+ * iframe, so an embed sees every visitor as a new anonymous voter. Polls
+ * whose votes depend on knowing the voter link to their own page instead.
+ */
+
+import { Poll } from '@/lib/types/database';
+import { hasEligibilityRules } from '@/lib/polls/eligibility';
+
+export type EmbedTheme = 'light' | 'dark';
+
+export interface EmbedOptions {
+  theme: EmbedTheme;
+  compact: boolean;
+}
+
+export const EMBED_THEMES: EmbedTheme[] = ['light', 'dark'];
+
+export const DEFAULT_EMBED_OPTIONS: EmbedOptions = {
+  theme: 'light',
+  compact: false,
+};
+
+/** Default iframe size in pixels; compact embeds are shorter. */
+export const EMBED_WIDTH = 600;
+export const EMBED_HEIGHT = 480;
+export const COMPACT_EMBED_HEIGHT = 320;
+
+/** Sites allowed to frame embeds when EMBED_FRAME_ANCESTORS isn't set: only this one. */
+const DEFAULT_FRAME_ANCESTORS = "'self'";
+
+// A poll's page or embed on this site, by poll ID
+const POLL_PATH_PATTERN = /^\/(?:polls|embed)\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\/?$/i;
+
+/**
+ * Reads embed options from the embed's query string (`theme` and
+ * `compact`). Unknown values fall back to the defaults, so a mistyped
+ * option still shows the poll.
+ */
+export function parseEmbedOptions(params: URLSearchParams): EmbedOptions {
+  const theme = params.get('theme');
+  const compact = params.get('compact');
+
+  return {
+    theme: EMBED_THEMES.includes(theme as EmbedTheme) ? theme as EmbedTheme : DEFAULT_EMBED_OPTIONS.theme,
+    compact: compact === null ? DEFAULT_EMBED_OPTIONS.compact : compact === '1' || compact === 'true',
+  };
+}
+
+/**
+ * The address of a poll's embed, with the options that differ from the
+ * defaults.
+ */
+export function embedUrl(origin: string, pollId: string, options: EmbedOptions = DEFAULT_EMBED_OPTIONS) {
+  const params = new URLSearchParams();
+  if (options.theme !== DEFAULT_EMBED_OPTIONS.theme) {
+    params.set('theme', options.theme);
+  }
+  if (options.compact) {
+    params.set('compact', '1');
+  }
+
+  const query = params.toString();
+  return `${origin}/embed/${pollId}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Finds the poll a URL points to: a poll page or an embed on this site.
+ *
+ * @param url - The URL to resolve, as given to the oEmbed endpoint
+ * @param origin - This site's origin
+ * @returns The poll ID, or null for anything else
+ */
+export function pollIdFromUrl(url: string, origin: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  if (parsed.origin !== origin) {
+    return null;
+  }
+
+  return POLL_PATH_PATTERN.exec(parsed.pathname)?.[1].toLowerCase() ?? null;
+}
+
+/**
+ * The iframe size for an embed, shrunk to fit the maximum size an oEmbed
+ * consumer asked for.
+ */
+export function embedSize(options: EmbedOptions, maxWidth?: number | null, maxHeight?: number | null) {
+  const height = options.compact ? COMPACT_EMBED_HEIGHT : EMBED_HEIGHT;
+
+  return {
+    width: maxWidth && maxWidth > 0 ? Math.min(EMBED_WIDTH, maxWidth) : EMBED_WIDTH,
+    height: maxHeight && maxHeight > 0 ? Math.min(height, maxHeight) : height,
+  };
+}
+
+/**
+ * Whether a poll's votes depend on cookies an embed doesn't receive:
+ * duplicate protection tracks the voter, and invitations, eligibility
+ * rules and passwords need the visitor's session or grant.
+ */
+export function needsVoterCookies(
+  poll: Pick<Poll, 'duplicate_protection' | 'is_invite_only' | 'has_password' | 'allowed_email_domains' | 'min_account_age_days' | 'require_verified_email'>
+) {
+  return poll.duplicate_protection !== 'off'
+    || poll.is_invite_only
+    || poll.has_password
+    || hasEligibilityRules(poll);
+}
+
+/**
+ * The iframe HTML that embeds a poll.
+ */
+export function embedIframeHtml(src: string, title: string, width: number, height: number) {
+  return `<iframe src="${escapeAttribute(src)}" title="${escapeAttribute(title)}" width="${width}" height="${height}" style="border:0;max-width:100%" loading="lazy"></iframe>`;
+}
+
+/**
+ * The Content-Security-Policy header for embeds. Which sites may frame
+ * them comes from EMBED_FRAME_ANCESTORS, a space-separated list of sources
+ * such as `https://wiki.example.com`, and defaults to this site only, so
+ * other sites have to be opted in.
+ */
+export function embedContentSecurityPolicy(frameAncestors = process.env.EMBED_FRAME_ANCESTORS) {
+  return `frame-ancestors ${frameAncestors?.trim() || DEFAULT_FRAME_ANCESTORS}`;
+}
+
+function escapeAttribute(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
@@ -0,0 +1,112 @@
+import { PollInvitation } from '@/lib/types/database';
+
+/**
+ * Invite-only polls.
+ *
+ * Owners paste a list of invitee email addresses, and only those people can
+ * vote: signed in with a profile under the invited address, or through the
+ * personal link each invitation is emailed with. Opening a link leaves a
+ * cookie naming the invitation, so the vote is recorded under it; the
+ * server forwards the link to the database in a request header, so row
+ * level security can check it. Owners see who has voted and can send the
+ * invitation again to those who haven't.
+ */
+
+/** Request header the database reads forwarded invitation links from. */
+export const INVITATION_HEADER = 'x-poll-invitations';
+
+/** Most invitations a poll can have. */
+export const MAX_INVITATIONS_PER_POLL = 500;
+
+/** How long opening an invitation link lets the browser vote under it. */
+export const INVITATION_COOKIE_MAX_AGE = 60 * 60 * 24 * 30;
+
+const INVITATION_COOKIE_PREFIX = 'poll_invitation_';
+
+// An invitation ID and a hex signature, which keeps links safe to join into
+// the header
+const INVITATION_TOKEN_PATTERN = /^[0-9a-f-]{36}\.[0-9a-f]{64}$/;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Name of the cookie that holds the invitation a browser opened, one per
+ * poll.
+ */
+export function invitationCookieName(pollId: string) {
+  return `${INVITATION_COOKIE_PREFIX}${pollId}`;
+}
+
+/**
+ * The invitation links held in a request's cookies, joined for the
+ * x-poll-invitations header, or null when there are none.
+ */
+export function invitationHeader(cookies: { name: string; value: string }[]) {
+  const tokens = cookies
+    .filter(cookie => cookie.name.startsWith(INVITATION_COOKIE_PREFIX) && INVITATION_TOKEN_PATTERN.test(cookie.value))
+    .map(cookie => cookie.value);
+
+  return tokens.length > 0 ? tokens.join(',') : null;
+}
+
+/**
+ * The personal link an invitation is sent with.
+ */
+export function invitationUrl(origin: string, token: string) {
+  return `${origin}/i/${token}`;
+}
+
+/**
+ * Splits a pasted list of email addresses, separated by commas, semicolons
+ * or whitespace, into unique lower-cased addresses. "Name <address>"
+ * entries as copied from mail clients are accepted too.
+ *
+ * @returns The usable addresses, and the entries that aren't addresses
+ */
+export function parseInviteeEmails(text: string) {
+  const emails: string[] = [];
+  const invalid: string[] = [];
+
+  for (const part of text.split(/[,;\n]+/)) {
+    const bracketed = part.match(/<([^>]*)>/);
+    const entries = bracketed ? [bracketed[1]] : part.split(/\s+/);
+
+    for (const entry of entries.map(value => value.trim()).filter(Boolean)) {
+      const email = entry.toLowerCase();
+      if (!EMAIL_PATTERN.test(email)) {
+        invalid.push(entry);
+      } else if (!emails.includes(email)) {
+        emails.push(email);
+      }
+    }
+  }
+
+  return { emails, invalid };
+}
+
+/**
+ * Marks which invitations have votes recorded under them.
+ */
+export function invitationTurnout<T extends Pick<PollInvitation, 'id'>>(
+  invitations: T[],
+  votes: { invitation_id: string | null }[]
+): (T & { has_voted: boolean })[] {
+  const voted = new Set(votes.map(vote => vote.invitation_id));
+  return invitations.map(invitation => ({ ...invitation, has_voted: voted.has(invitation.id) }));
+}
+
+/**
+ * The email an invitation is sent as.
+ */
+export function invitationEmail(pollTitle: string, inviterName: string, url: string) {
+  return {
+    subject: `${inviterName} invited you to vote: ${pollTitle}`,
+    text: [
+      `${inviterName} invited you to vote on "${pollTitle}".`,
+      '',
+      `Cast your vote here: ${url}`,
+      '',
+      'This link is personal to you, so please don\'t forward it.',
+    ].join('\n'),
+  };
+}
@@ -0,0 +1,78 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PollMemberRole } from '@/lib/types/database';
+import { getWorkspaceRole, pollRoleFromWorkspaceRole } from '@/lib/workspaces/members';
+
+/**
+ * Poll collaborators.
+ *
+ * A poll's creator can share it with other users. Editors change the poll
+ * and see its results like the creator does; viewers only see the
+ * results, even on private polls and polls that hide them. Deleting the
+ * poll and managing its members stay with the creator. Polls in a
+ * workspace are also shared with its members: the workspace's owner and
+ * admins as editors, everyone else as viewers. The database applies the
+ * same roles through the is_poll_member and can_edit_poll functions in its
+ * policies.
+ */
+
+/** A user's relation to a poll: its creator, or one of its members. */
+export type PollRole = 'owner' | PollMemberRole;
+
+/** Most members a poll can be shared with. */
+export const MAX_POLL_MEMBERS = 50;
+
+export const POLL_MEMBER_ROLE_LABELS: Record<PollMemberRole, string> = {
+  editor: 'Editor (can edit and see results)',
+  viewer: 'Viewer (can see results)',
+};
+
+/**
+ * Whether a role allows changing the poll: its options, settings and
+ * publishing.
+ */
+export function canEditPoll(role: PollRole | null) {
+  return role === 'owner' || role === 'editor';
+}
+
+/**
+ * Finds a user's role on a poll. Someone who is both a member of the poll
+ * and of its workspace gets the stronger of the two roles.
+ *
+ * @param supabase - A client allowed to read the poll's and workspace's members
+ * @param poll - The poll's ID, creator and workspace
+ * @param userId - The signed-in user, if any
+ * @returns The user's role, or null when the poll isn't shared with them
+ */
+export async function getPollRole(
+  supabase: SupabaseClient,
+  poll: { id: string; created_by: string; workspace_id: string | null },
+  userId: string | null
+): Promise<PollRole | null> {
+  if (!userId) {
+    return null;
+  }
+
+  if (userId === poll.created_by) {
+    return 'owner';
+  }
+
+  const { data: member, error } = await supabase
+    .from('poll_members')
+    .select('role')
+    .eq('poll_id', poll.id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking poll membership:', error);
+    return null;
+  }
+
+  if (member?.role === 'editor' || !poll.workspace_id) {
+    return member?.role ?? null;
+  }
+
+  const workspaceRole = await getWorkspaceRole(supabase, poll.workspace_id, userId);
+
+  return workspaceRole ? pollRoleFromWorkspaceRole(workspaceRole) : member?.role ?? null;
+}
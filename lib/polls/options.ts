@@ -0,0 +1,216 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CreatePollData, VoteType } from '@/lib/types/database';
+import { changesVotingMethod } from '@/lib/polls/settings';
+
+/**
+ * Editing a poll's options without losing its votes.
+ *
+ * Votes reference options by id and are deleted with them, so option
+ * edits are applied as a diff against the stored options rather than by
+ * replacing them all: renamed and reordered options keep their id and
+ * votes, new options are inserted, and only options the creator removed
+ * are deleted. Removing an option that has votes needs explicit
+ * confirmation, and the voting method is fixed once votes are cast.
+ */
+
+export interface StoredOption {
+  id: string;
+  text: string;
+  order_index: number;
+}
+
+export interface PollOptionsDiff {
+  /** Existing options to keep, with their new text and position. */
+  updates: StoredOption[];
+  /** Options to add. */
+  inserts: { text: string; order_index: number }[];
+  /** IDs of existing options to delete. */
+  removals: string[];
+}
+
+export type SyncOptionsResult =
+  | { success: true }
+  | { success: false; error: string; status: number };
+
+const fail = (error: string, status = 400): SyncOptionsResult => ({ success: false, error, status });
+
+/**
+ * Works out how to turn the stored options into the submitted ones.
+ *
+ * Submitted options are matched to stored ones by `option_ids`, aligned
+ * with `options` (null for a new option). Callers that only send option
+ * texts, such as older API clients, are matched by text instead, so an
+ * unchanged option still keeps its votes.
+ */
+export function diffPollOptions(
+  existing: StoredOption[],
+  formData: Pick<CreatePollData, 'options' | 'option_ids'>
+): PollOptionsDiff {
+  const byId = new Map(existing.map(option => [option.id, option]));
+  const byText = new Map(existing.map(option => [option.text.trim(), option]));
+  const kept = new Set<string>();
+  const diff: PollOptionsDiff = { updates: [], inserts: [], removals: [] };
+
+  formData.options.forEach((text, index) => {
+    const id = formData.option_ids ? formData.option_ids[index] : undefined;
+    const match = id !== undefined
+      ? (id ? byId.get(id) : undefined)
+      : byText.get(text.trim());
+    const orderIndex = index + 1;
+
+    if (match && !kept.has(match.id)) {
+      kept.add(match.id);
+      diff.updates.push({ id: match.id, text: text.trim(), order_index: orderIndex });
+    } else {
+      diff.inserts.push({ text: text.trim(), order_index: orderIndex });
+    }
+  });
+
+  diff.removals = existing.filter(option => !kept.has(option.id)).map(option => option.id);
+
+  return diff;
+}
+
+/**
+ * Counts the votes cast for each of a poll's options, including the
+ * comparisons an option lost on pairwise polls.
+ */
+export async function countOptionVotes(
+  supabase: SupabaseClient,
+  pollId: string
+): Promise<Record<string, number>> {
+  const { data: votes, error } = await supabase
+    .from('votes')
+    .select('option_id, opponent_id')
+    .eq('poll_id', pollId);
+
+  if (error) {
+    throw new Error(`Failed to count votes: ${error.message}`);
+  }
+
+  const counts: Record<string, number> = {};
+  for (const vote of votes ?? []) {
+    for (const optionId of [vote.option_id, vote.opponent_id]) {
+      if (optionId) {
+        counts[optionId] = (counts[optionId] ?? 0) + 1;
+      }
+    }
+  }
+  return counts;
+}
+
+/**
+ * Refuses to change a poll's voting method once it has votes, which would
+ * otherwise be tallied under a method they weren't cast with.
+ *
+ * Shared by the updatePoll server action and PUT /api/polls/[id], and run
+ * before anything is saved. Fails with a 409 like removing options with
+ * votes, but there is no confirming it: the votes have to be kept valid.
+ *
+ * @param supabase - Request-scoped Supabase client
+ * @param pollId - The poll being edited
+ * @param stored - The poll's current voting method settings
+ * @param formData - The submitted poll form
+ */
+export async function checkVotingMethodChange(
+  supabase: SupabaseClient,
+  pollId: string,
+  stored: { vote_type: VoteType; score_max: number; vote_credits: number },
+  formData: CreatePollData
+): Promise<SyncOptionsResult> {
+  if (!changesVotingMethod(stored, formData)) {
+    return { success: true };
+  }
+
+  const { count, error } = await supabase
+    .from('votes')
+    .select('id', { count: 'exact', head: true })
+    .eq('poll_id', pollId);
+
+  if (error) {
+    return fail(`Failed to count votes: ${error.message}`, 500);
+  }
+
+  if ((count ?? 0) > 0) {
+    return fail('The voting method can\'t be changed once the poll has votes', 409);
+  }
+
+  return { success: true };
+}
+
+/**
+ * Applies the submitted options to a poll, keeping the votes of every
+ * option that survives the edit.
+ *
+ * Shared by the updatePoll server action and PUT /api/polls/[id]. Fails
+ * with a 409 when options with votes would be removed and the request
+ * didn't set `confirm_option_removal`.
+ *
+ * @param supabase - Request-scoped Supabase client
+ * @param pollId - The poll being edited; ownership is checked by the caller
+ * @param formData - The submitted poll form
+ */
+export async function syncPollOptions(
+  supabase: SupabaseClient,
+  pollId: string,
+  formData: CreatePollData
+): Promise<SyncOptionsResult> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('poll_options')
+    .select('id, text, order_index')
+    .eq('poll_id', pollId)
+    .is('question_id', null); // Survey questions keep their options
+
+  if (fetchError) {
+    return fail(`Failed to load poll options: ${fetchError.message}`, 500);
+  }
+
+  const diff = diffPollOptions(existing ?? [], formData);
+
+  if (diff.removals.length > 0 && !formData.confirm_option_removal) {
+    const counts = await countOptionVotes(supabase, pollId);
+    const lostVotes = diff.removals.reduce((sum, id) => sum + (counts[id] ?? 0), 0);
+    if (lostVotes > 0) {
+      return fail(
+        `Removing these options will delete ${lostVotes} vote${lostVotes !== 1 ? 's' : ''}. Confirm the removal to continue.`,
+        409
+      );
+    }
+  }
+
+  for (const option of diff.updates) {
+    const { error: updateError } = await supabase
+      .from('poll_options')
+      .update({ text: option.text, order_index: option.order_index })
+      .eq('id', option.id)
+      .eq('poll_id', pollId);
+
+    if (updateError) {
+      return fail(`Failed to update poll options: ${updateError.message}`, 500);
+    }
+  }
+
+  if (diff.removals.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('poll_options')
+      .delete()
+      .eq('poll_id', pollId)
+      .in('id', diff.removals);
+
+    if (deleteError) {
+      return fail(`Failed to remove poll options: ${deleteError.message}`, 500);
+    }
+  }
+
+  if (diff.inserts.length > 0) {
+    const { error: insertError } = await supabase
+      .from('poll_options')
+      .insert(diff.inserts.map(option => ({ poll_id: pollId, ...option })));
+
+    if (insertError) {
+      return fail(`Failed to create poll options: ${insertError.message}`, 500);
+    }
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,65 @@
+import { CreatePollData } from '@/lib/types/database';
+
+/**
+ * Password-protected polls.
+ *
+ * A poll can require an access password. Visitors enter it on the poll's
+ * page, and a correct password leaves a short-lived cookie granting access.
+ * The poll itself, its results and voting are withheld until then; the
+ * creator never needs the password. The server forwards grants to the
+ * database in a request header, so row level security enforces them too.
+ */
+
+export const MIN_POLL_PASSWORD_LENGTH = 4;
+export const MAX_POLL_PASSWORD_LENGTH = 100;
+
+/** Request header the database reads forwarded password grants from. */
+export const POLL_PASSWORD_HEADER = 'x-poll-password-grants';
+
+/** How long a correct password keeps a browser's access to the poll. */
+export const POLL_PASSWORD_COOKIE_MAX_AGE = 60 * 60 * 2;
+
+const POLL_PASSWORD_COOKIE_PREFIX = 'poll_password_';
+
+// A poll ID, an expiry in milliseconds and a hex signature, which keeps
+// grants safe to join into the header
+const PASSWORD_GRANT_PATTERN = /^[0-9a-f-]{36}\.[1-9]\d{0,14}\.[0-9a-f]{64}$/;
+
+/**
+ * Name of the cookie that holds a browser's password grant for a poll.
+ */
+export function pollPasswordCookieName(pollId: string) {
+  return `${POLL_PASSWORD_COOKIE_PREFIX}${pollId}`;
+}
+
+/**
+ * The password grants held in a request's cookies, each prefixed with its
+ * poll's ID and joined for the x-poll-password-grants header, or null when
+ * there are none.
+ */
+export function pollPasswordHeader(cookies: { name: string; value: string }[]) {
+  const grants = cookies
+    .filter(cookie => cookie.name.startsWith(POLL_PASSWORD_COOKIE_PREFIX))
+    .map(cookie => `${cookie.name.slice(POLL_PASSWORD_COOKIE_PREFIX.length)}.${cookie.value}`)
+    .filter(grant => PASSWORD_GRANT_PATTERN.test(grant));
+
+  return grants.length > 0 ? grants.join(',') : null;
+}
+
+/**
+ * Validates a new access password. A missing password leaves the poll's
+ * current one in place and null removes it, so only strings are checked.
+ *
+ * @returns An error message, or null when the password is usable
+ */
+export function validatePollPassword(formData: Pick<CreatePollData, 'password'>): string | null {
+  if (typeof formData.password !== 'string') {
+    return null;
+  }
+
+  if (formData.password.length < MIN_POLL_PASSWORD_LENGTH || formData.password.length > MAX_POLL_PASSWORD_LENGTH) {
+    return `Passwords must be ${MIN_POLL_PASSWORD_LENGTH} to ${MAX_POLL_PASSWORD_LENGTH} characters`;
+  }
+
+  return null;
+}
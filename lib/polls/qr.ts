@@ -0,0 +1,75 @@
+/**
+ * QR codes for polls and share links, rendered on the server so they can be
+ * downloaded for slides and print.
+ */
+
+export type QrFormat = 'svg' | 'png';
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrOptions {
+  format: QrFormat;
+  size: number;
+  errorCorrection: QrErrorCorrection;
+}
+
+export const QR_FORMATS: QrFormat[] = ['svg', 'png'];
+
+/** Error correction levels with how much of a damaged code can be recovered. */
+export const QR_ERROR_CORRECTION_LABELS: Record<QrErrorCorrection, string> = {
+  L: 'Low (7%)',
+  M: 'Medium (15%)',
+  Q: 'Quartile (25%)',
+  H: 'High (30%)',
+};
+
+export const QR_SIZE_OPTIONS = [256, 512, 1024, 2048];
+export const MIN_QR_SIZE = 64;
+export const MAX_QR_SIZE = 2048;
+
+export const DEFAULT_QR_OPTIONS: QrOptions = {
+  format: 'svg',
+  size: 512,
+  errorCorrection: 'M',
+};
+
+/**
+ * Reads QR options from a request's query string (`format`, `size`, `ec`),
+ * falling back to the defaults for anything left out.
+ *
+ * @returns The options, or an error message for values that aren't supported
+ */
+export function parseQrOptions(params: URLSearchParams): { options: QrOptions; error: null } | { options: null; error: string } {
+  const format = params.get('format') ?? DEFAULT_QR_OPTIONS.format;
+  if (!QR_FORMATS.includes(format as QrFormat)) {
+    return { options: null, error: 'Format must be svg or png' };
+  }
+
+  const sizeParam = params.get('size');
+  const size = sizeParam === null ? DEFAULT_QR_OPTIONS.size : Number(sizeParam);
+  if (!Number.isInteger(size) || size < MIN_QR_SIZE || size > MAX_QR_SIZE) {
+    return { options: null, error: `Size must be a whole number of pixels from ${MIN_QR_SIZE} to ${MAX_QR_SIZE}` };
+  }
+
+  const errorCorrection = (params.get('ec') ?? DEFAULT_QR_OPTIONS.errorCorrection).toUpperCase();
+  if (!(errorCorrection in QR_ERROR_CORRECTION_LABELS)) {
+    return { options: null, error: 'Error correction must be L, M, Q or H' };
+  }
+
+  return {
+    options: { format: format as QrFormat, size, errorCorrection: errorCorrection as QrErrorCorrection },
+    error: null,
+  };
+}
+
+/**
+ * The query string requesting a QR code with the given options, for
+ * building preview and download URLs.
+ */
+export function qrQuery(options: QrOptions, extra: Record<string, string> = {}) {
+  return new URLSearchParams({
+    format: options.format,
+    size: String(options.size),
+    ec: options.errorCorrection,
+    ...extra,
+  }).toString();
+}
@@ -0,0 +1,161 @@
+import { CreatePollData, PollStatus } from '@/lib/types/database';
+
+/**
+ * Poll scheduling: opening at a set time and closing at the expiry time.
+ *
+ * A poll's status follows its schedule. It is inactive until starts_at,
+ * active until expires_at and expired afterwards. Saving a poll sets the
+ * status for the schedule as it stands; the /api/cron/poll-status route
+ * moves polls along as those times pass. Polls closed on their turnout
+ * stay closed until their schedule is changed.
+ */
+
+/** The schedule fields a status is derived from. */
+export interface PollSchedule {
+  starts_at: string | null;
+  expires_at: string | null;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Status a poll should have under a schedule at a given time.
+ */
+export function statusForSchedule(schedule: PollSchedule, now = new Date()): PollStatus {
+  if (schedule.expires_at && new Date(schedule.expires_at) <= now) {
+    return 'expired';
+  }
+  if (schedule.starts_at && new Date(schedule.starts_at) > now) {
+    return 'inactive';
+  }
+  return 'active';
+}
+
+function sameTime(a: string | null, b: string | null) {
+  return a === b || (a !== null && b !== null && new Date(a).getTime() === new Date(b).getTime());
+}
+
+/**
+ * Maps poll form data onto the schedule columns of the polls table,
+ * including the status the schedule implies.
+ *
+ * Like pollSettingsFromForm this is spread into the insert or update of
+ * every create and update path. Omitted times are left as they are on
+ * update, and null clears them. A closed poll whose times are unchanged
+ * stays closed, since it may have closed on its turnout.
+ *
+ * @param formData - The submitted poll form
+ * @param current - The poll's stored schedule and status when updating
+ */
+export function pollScheduleFromForm(
+  formData: CreatePollData,
+  current: PollSchedule & { status?: PollStatus } = { starts_at: null, expires_at: null },
+  now = new Date()
+) {
+  const schedule: PollSchedule = {
+    starts_at: formData.starts_at !== undefined ? formData.starts_at : current.starts_at,
+    expires_at: formData.expires_at !== undefined ? formData.expires_at : current.expires_at,
+  };
+  const keepsClosed = current.status === 'expired'
+    && sameTime(schedule.starts_at, current.starts_at)
+    && sameTime(schedule.expires_at, current.expires_at);
+
+  return {
+    ...schedule,
+    status: keepsClosed ? 'expired' as const : statusForSchedule(schedule, now),
+  };
+}
+
+/**
+ * Validates a poll's opening and closing times before saving.
+ *
+ * @returns An error message, or null when the schedule is usable
+ */
+export function validateSchedule(formData: CreatePollData): string | null {
+  const startsAt = formData.starts_at ? new Date(formData.starts_at) : null;
+  const expiresAt = formData.expires_at ? new Date(formData.expires_at) : null;
+
+  if (startsAt && Number.isNaN(startsAt.getTime())) {
+    return 'Invalid opening time';
+  }
+
+  if (expiresAt && Number.isNaN(expiresAt.getTime())) {
+    return 'Invalid closing time';
+  }
+
+  if (startsAt && expiresAt && expiresAt <= startsAt) {
+    return 'The poll must close after it opens';
+  }
+
+  return null;
+}
+
+/**
+ * Formats the time left until a moment, to the minute.
+ *
+ * @example
+ * ```ts
+ * formatCountdown(26 * 60 * 60 * 1000); // "1d 2h"
+ * formatCountdown(90 * 60 * 1000);      // "1h 30m"
+ * ```
+ */
+export function formatCountdown(milliseconds: number) {
+  if (milliseconds < MINUTE) {
+    return 'less than a minute';
+  }
+
+  const days = Math.floor(milliseconds / DAY);
+  const hours = Math.floor((milliseconds % DAY) / HOUR);
+  const minutes = Math.floor((milliseconds % HOUR) / MINUTE);
+
+  if (days > 0) {
+    return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  }
+  if (hours > 0) {
+    return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  }
+  return `${minutes}m`;
+}
+
+/**
+ * Describes the next change in a poll's schedule, such as "Opens in 2h 5m"
+ * or "Closes in 3d".
+ *
+ * @returns The countdown text, or null when nothing is coming up
+ */
+export function pollCountdown(poll: PollSchedule & { status: PollStatus }, now = new Date()): string | null {
+  const status = statusForSchedule(poll, now);
+
+  if (status === 'inactive' && poll.starts_at) {
+    return `Opens in ${formatCountdown(new Date(poll.starts_at).getTime() - now.getTime())}`;
+  }
+
+  if (status === 'active' && poll.status !== 'expired' && poll.expires_at) {
+    return `Closes in ${formatCountdown(new Date(poll.expires_at).getTime() - now.getTime())}`;
+  }
+
+  return null;
+}
+
+/**
+ * Converts a stored timestamp to the local-time value of a
+ * datetime-local input.
+ */
+export function toDateTimeLocal(timestamp: string | null | undefined) {
+  if (!timestamp) {
+    return '';
+  }
+  const date = new Date(timestamp);
+  const offset = date.getTimezoneOffset() * MINUTE;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+/**
+ * Converts a datetime-local input value back to a timestamp, or null when
+ * the input is empty.
+ */
+export function fromDateTimeLocal(value: string) {
+  return value ? new Date(value).toISOString() : null;
+}
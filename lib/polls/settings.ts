@@ -0,0 +1,353 @@
+import { CreatePollData, DuplicateProtection, ResultsVisibility, SurveyQuestionData, VoteType } from '@/lib/types/database';
+import { isChoiceVoteType } from '@/lib/voting/vote-types';
+import { validateSchedule } from '@/lib/polls/schedule';
+import { validateCloseConditions } from '@/lib/polls/close-conditions';
+import { validatePollPassword } from '@/lib/polls/password';
+import { normalizeEmailDomains, validateEligibility } from '@/lib/polls/eligibility';
+
+/** Default and allowed upper bounds of the rating scale on score polls. */
+export const DEFAULT_SCORE_MAX = 5;
+export const SCORE_MAX_OPTIONS = [3, 5, 7, 10];
+
+/**
+ * Most options a poll can have. Pairwise polls only ever show two options
+ * at a time, so they can hold much longer lists.
+ */
+export const MAX_OPTIONS = 10;
+export const MAX_PAIRWISE_OPTIONS = 50;
+
+/** Most questions a survey can have. */
+export const MAX_QUESTIONS = 20;
+
+/**
+ * Choices for how strictly repeat votes from anonymous voters are blocked.
+ */
+export const DUPLICATE_PROTECTION_LABELS: Record<DuplicateProtection, string> = {
+  off: 'Off (allow repeat anonymous votes)',
+  cookie: 'One vote per browser',
+  strict: 'One vote per browser or network and device',
+};
+
+/**
+ * Choices for who can see a poll's results. Poll creators always can.
+ */
+export const RESULTS_VISIBILITY_LABELS: Record<ResultsVisibility, string> = {
+  always: 'Always',
+  after_vote: 'After voting',
+  after_close: 'After the poll closes',
+  owner: 'Only me',
+};
+
+/** Default and largest per-voter credit budget on quadratic polls. */
+export const DEFAULT_VOTE_CREDITS = 100;
+export const MAX_VOTE_CREDITS = 10000;
+
+/**
+ * Derives the stored vote type from poll form settings.
+ * Callers that predate vote_type keep using allow_multiple_votes to pick
+ * single vs multiple choice.
+ */
+export function resolveVoteType(settings: { vote_type?: VoteType; allow_multiple_votes?: boolean }): VoteType {
+  if (settings.vote_type) {
+    return settings.vote_type;
+  }
+  return settings.allow_multiple_votes ? 'multiple' : 'single';
+}
+
+/**
+ * Maps poll form data onto the settings columns of the polls table.
+ *
+ * Shared by the create and update paths of both the server actions and the
+ * API routes so every entry point applies the same defaults.
+ */
+export function pollSettingsFromForm(formData: CreatePollData) {
+  // Surveys set the voting method per question, so the poll keeps the defaults
+  const isSurvey = Boolean(formData.questions?.length);
+  const voteType = isSurvey ? 'single' : resolveVoteType(formData);
+  const isMultiple = voteType === 'multiple';
+  const isPublic = formData.is_public ?? true;
+  const isUnlisted = !isPublic && Boolean(formData.is_unlisted);
+
+  return {
+    is_public: isPublic, // Default to public
+    // Only polls kept out of the public listings can be opened by secret link
+    is_unlisted: isUnlisted,
+    // Invitees have to be able to open the poll, which private polls don't allow
+    is_invite_only: (isPublic || isUnlisted) && Boolean(formData.is_invite_only),
+    allowed_email_domains: normalizeEmailDomains(formData.allowed_email_domains ?? []),
+    min_account_age_days: formData.min_account_age_days ?? null,
+    require_verified_email: formData.require_verified_email ?? false,
+    allow_multiple_votes: isMultiple, // Default to single vote
+    vote_type: voteType,
+    score_max: clampScoreMax(formData.score_max),
+    // Selection limits only apply to multiple-choice (approval) ballots
+    min_selections: isMultiple ? formData.min_selections ?? 1 : 1,
+    max_selections: isMultiple ? formData.max_selections ?? null : null,
+    vote_credits: clampVoteCredits(formData.vote_credits),
+    // Write-in answers only make sense where voters pick options outright
+    allow_write_in: isChoiceVoteType(voteType) && !isSurvey && Boolean(formData.allow_write_in),
+    lock_votes: formData.lock_votes ?? false,
+    duplicate_protection: formData.duplicate_protection ?? 'cookie',
+    results_visibility: formData.results_visibility ?? 'always',
+    close_after_votes: formData.close_after_votes ?? null,
+    close_after_voters: formData.close_after_voters ?? null,
+    // A decisive lead can only be read off single and multiple choice tallies
+    close_on_decisive_lead: isChoiceVoteType(voteType) && !isSurvey && Boolean(formData.close_on_decisive_lead),
+  };
+}
+
+/**
+ * Whether saving the form would change how a poll's ballots are read: its
+ * vote type, or the rating scale of a score poll or the credit budget of a
+ * quadratic one. Stored votes are only valid under the method they were
+ * cast with.
+ */
+export function changesVotingMethod(
+  stored: { vote_type: VoteType; score_max: number; vote_credits: number },
+  formData: CreatePollData
+) {
+  const next = pollSettingsFromForm(formData);
+
+  return next.vote_type !== stored.vote_type
+    || (stored.vote_type === 'score' && next.score_max !== stored.score_max)
+    || (stored.vote_type === 'quadratic' && next.vote_credits !== stored.vote_credits);
+}
+
+/**
+ * Maps a survey question from the poll form onto the settings columns of
+ * the poll_questions table, with the same defaults a poll gets.
+ */
+export function questionSettingsFromForm(question: SurveyQuestionData) {
+  const voteType = question.vote_type ?? 'single';
+  const isMultiple = voteType === 'multiple';
+
+  return {
+    vote_type: voteType,
+    score_max: clampScoreMax(question.score_max),
+    min_selections: isMultiple ? question.min_selections ?? 1 : 1,
+    max_selections: isMultiple ? question.max_selections ?? null : null,
+    vote_credits: clampVoteCredits(question.vote_credits),
+  };
+}
+
+/**
+ * Largest number of options allowed for a vote type.
+ */
+export function maxOptionsFor(voteType: VoteType) {
+  return voteType === 'pairwise' ? MAX_PAIRWISE_OPTIONS : MAX_OPTIONS;
+}
+
+/**
+ * Validates poll settings against the poll's options before saving:
+ * the option count allowed by the vote type, the opening and closing
+ * times, the close conditions, the access password, the eligibility rules
+ * and, for multiple-choice polls, the selection limits. Surveys have their questions checked instead of
+ * the poll's options.
+ *
+ * @returns An error message, or null when the settings are usable
+ */
+export function validatePollSettings(formData: CreatePollData): string | null {
+  const isSurvey = Boolean(formData.questions?.length);
+
+  if (isSurvey) {
+    const questionsError = validateSurveyQuestions(formData);
+    if (questionsError) {
+      return questionsError;
+    }
+  } else {
+    const maxOptions = maxOptionsFor(resolveVoteType(formData));
+    if (formData.options.length > maxOptions) {
+      return `This voting method supports at most ${maxOptions} options`;
+    }
+  }
+
+  const scheduleError = validateSchedule(formData);
+  if (scheduleError) {
+    return scheduleError;
+  }
+
+  const closeError = validateCloseConditions(formData);
+  if (closeError) {
+    return closeError;
+  }
+
+  const passwordError = validatePollPassword(formData);
+  if (passwordError) {
+    return passwordError;
+  }
+
+  const eligibilityError = validateEligibility(formData);
+  if (eligibilityError) {
+    return eligibilityError;
+  }
+
+  return isSurvey ? null : validateSelectionLimits(formData);
+}
+
+/**
+ * Validates a draft before saving. Drafts can be half-finished, so apart
+ * from the title only the checks that don't depend on a complete option
+ * list apply until the draft is published.
+ *
+ * @returns An error message, or null when the draft can be saved
+ */
+export function validateDraft(formData: CreatePollData): string | null {
+  if (!formData.title?.trim()) {
+    return 'Poll title is required';
+  }
+
+  if (formData.questions?.length) {
+    const questionsError = validateSurveyQuestions(formData, { isDraft: true });
+    if (questionsError) {
+      return questionsError;
+    }
+  } else {
+    const maxOptions = maxOptionsFor(resolveVoteType(formData));
+    if (formData.options.length > maxOptions) {
+      return `This voting method supports at most ${maxOptions} options`;
+    }
+  }
+
+  return validateSchedule(formData) ?? validatePollPassword(formData) ?? validateEligibility(formData);
+}
+
+/**
+ * Validates that a poll is complete enough to go live: it needs a title,
+ * at least two filled-in, distinct options and usable settings. Checked
+ * when publishing a draft. Surveys need complete questions instead.
+ *
+ * @returns An error message, or null when the poll can be published
+ */
+export function validatePublishable(formData: CreatePollData): string | null {
+  if (!formData.title?.trim()) {
+    return 'Poll title is required';
+  }
+
+  if (formData.questions?.length) {
+    return validatePollSettings(formData);
+  }
+
+  const options = formData.options.map(option => option.trim());
+
+  if (options.length < 2) {
+    return 'A poll needs at least 2 options';
+  }
+
+  if (options.some(option => !option)) {
+    return 'All options must be filled';
+  }
+
+  if (new Set(options).size !== options.length) {
+    return 'Options must be unique';
+  }
+
+  return validatePollSettings(formData);
+}
+
+/**
+ * Validates the min/max selection limits of a multiple-choice poll against
+ * its options. Used by the poll forms and again on the server before saving.
+ *
+ * @returns An error message, or null when the limits are usable
+ */
+export function validateSelectionLimits(formData: CreatePollData): string | null {
+  if (resolveVoteType(formData) !== 'multiple') {
+    return null;
+  }
+
+  const min = formData.min_selections ?? 1;
+  const max = formData.max_selections ?? null;
+
+  if (!Number.isInteger(min) || min < 1) {
+    return 'Minimum selections must be at least 1';
+  }
+
+  if (max !== null && (!Number.isInteger(max) || max < min)) {
+    return 'Maximum selections must be at least the minimum';
+  }
+
+  if (min > formData.options.length) {
+    return 'Minimum selections cannot exceed the number of options';
+  }
+
+  return null;
+}
+
+/**
+ * Validates a survey's questions before saving. Every question needs a
+ * prompt and at least two filled-in, distinct options within the limits
+ * of its voting method, and a survey needs at least two questions. Drafts
+ * only get the checks that don't depend on finished questions.
+ *
+ * @returns An error message, or null when the questions are usable
+ */
+export function validateSurveyQuestions(formData: CreatePollData, { isDraft = false } = {}): string | null {
+  const questions = formData.questions ?? [];
+
+  if (questions.length > MAX_QUESTIONS) {
+    return `A survey can have at most ${MAX_QUESTIONS} questions`;
+  }
+
+  if (formData.close_on_decisive_lead) {
+    return 'Closing on a decisive lead is not available for surveys';
+  }
+
+  for (const [index, question] of questions.entries()) {
+    const error = validateSurveyQuestion(question, isDraft);
+    if (error) {
+      return `Question ${index + 1}: ${error}`;
+    }
+  }
+
+  if (!isDraft && questions.length < 2) {
+    return 'A survey needs at least 2 questions';
+  }
+
+  return null;
+}
+
+function validateSurveyQuestion(question: SurveyQuestionData, isDraft: boolean): string | null {
+  const voteType = question.vote_type ?? 'single';
+  const maxOptions = maxOptionsFor(voteType);
+  if (question.options.length > maxOptions) {
+    return `This voting method supports at most ${maxOptions} options`;
+  }
+
+  if (isDraft) {
+    return null;
+  }
+
+  if (!question.prompt?.trim()) {
+    return 'Question prompt is required';
+  }
+
+  const options = question.options.map(option => option.trim());
+
+  if (options.length < 2) {
+    return 'A question needs at least 2 options';
+  }
+
+  if (options.some(option => !option)) {
+    return 'All options must be filled';
+  }
+
+  if (new Set(options).size !== options.length) {
+    return 'Options must be unique';
+  }
+
+  return validateSelectionLimits({ ...question, title: question.prompt, vote_type: voteType, options });
+}
+
+function clampVoteCredits(credits: number | undefined) {
+  if (!credits || !Number.isInteger(credits)) {
+    return DEFAULT_VOTE_CREDITS;
+  }
+  return Math.min(Math.max(credits, 1), MAX_VOTE_CREDITS);
+}
+
+function clampScoreMax(scoreMax: number | undefined) {
+  if (!scoreMax || !Number.isInteger(scoreMax)) {
+    return DEFAULT_SCORE_MAX;
+  }
+  return Math.min(Math.max(scoreMax, 2), 10);
+}
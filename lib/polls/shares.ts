@@ -0,0 +1,126 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { cookies } from 'next/headers';
+import { PollShare } from '@/lib/types/database';
+
+/**
+ * Short share links.
+ *
+ * Owners create share codes for the channels they share a poll on, each
+ * resolving to the poll at /s/<code>. Opening a link counts a visit and
+ * leaves a cookie naming the code, so votes cast from that browser are
+ * attributed to it. Codes can be disabled or given an expiry, after which
+ * they no longer resolve.
+ */
+
+export type ShareStatus = 'active' | 'disabled' | 'expired';
+
+/** How long a visit through a share link keeps attributing votes to it. */
+export const SHARE_COOKIE_MAX_AGE = 60 * 60 * 24 * 30;
+
+/** Longest label a share code can be given. */
+export const MAX_SHARE_LABEL_LENGTH = 50;
+
+/**
+ * Name of the cookie that remembers which share link a browser arrived
+ * through, one per poll.
+ */
+export function shareCookieName(pollId: string) {
+  return `poll_share_${pollId}`;
+}
+
+/**
+ * The short URL a share code resolves at.
+ */
+export function shareUrl(origin: string, shareCode: string) {
+  return `${origin}/s/${shareCode}`;
+}
+
+/**
+ * Whether a share code still resolves to its poll.
+ */
+export function shareStatus(share: Pick<PollShare, 'is_active' | 'expires_at'>, now = new Date()): ShareStatus {
+  if (!share.is_active) {
+    return 'disabled';
+  }
+  if (share.expires_at && new Date(share.expires_at) <= now) {
+    return 'expired';
+  }
+  return 'active';
+}
+
+/**
+ * Validates a new share code's label and expiry before saving.
+ *
+ * @returns An error message, or null when the settings are usable
+ */
+export function validateShareSettings(
+  settings: { label?: string | null; expires_at?: string | null },
+  now = new Date()
+): string | null {
+  if (settings.label && settings.label.trim().length > MAX_SHARE_LABEL_LENGTH) {
+    return `Labels can be at most ${MAX_SHARE_LABEL_LENGTH} characters`;
+  }
+
+  if (settings.expires_at) {
+    const expiresAt = new Date(settings.expires_at);
+    if (Number.isNaN(expiresAt.getTime())) {
+      return 'Invalid expiry time';
+    }
+    if (expiresAt <= now) {
+      return 'The expiry must be in the future';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Counts the ballots cast through each share code. Every row of a ballot
+ * carries the code, so rows are counted once per ballot ID.
+ */
+export function countShareVotes(rows: { share_id: string | null; ballot_id: string | null }[]): Record<string, number> {
+  const ballots = new Map<string, Set<string>>();
+
+  rows.forEach((row, index) => {
+    if (!row.share_id) {
+      return;
+    }
+    const shareBallots = ballots.get(row.share_id) ?? new Set<string>();
+    // Rows recorded before ballots were grouped each count on their own
+    shareBallots.add(row.ballot_id ?? `row-${index}`);
+    ballots.set(row.share_id, shareBallots);
+  });
+
+  return Object.fromEntries(Array.from(ballots, ([shareId, ids]) => [shareId, ids.size]));
+}
+
+/**
+ * The share code the current request's browser arrived through, for
+ * tagging its vote.
+ *
+ * Must be called from a server action or route handler. The cookie is only
+ * trusted once the code is confirmed to belong to the poll.
+ *
+ * @returns The share code's ID, or null when the vote didn't come through a share link
+ */
+export async function getShareAttribution(supabase: SupabaseClient, pollId: string): Promise<string | null> {
+  const cookieStore = await cookies();
+  const shareId = cookieStore.get(shareCookieName(pollId))?.value;
+  if (!shareId) {
+    return null;
+  }
+
+  const { data: share, error } = await supabase
+    .from('poll_shares')
+    .select('id')
+    .eq('id', shareId)
+    .eq('poll_id', pollId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking share link:', error);
+    return null;
+  }
+
+  return share?.id ?? null;
+}
@@ -0,0 +1,270 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PollQuestion, SurveyQuestion, SurveyQuestionData } from '@/lib/types/database';
+import { questionSettingsFromForm } from '@/lib/polls/settings';
+import type { SyncOptionsResult } from '@/lib/polls/options';
+import { BallotRules, BallotSubmission, validateBallot } from '@/lib/voting/ballot';
+import { RunoffResult, groupRankedBallots, tallyInstantRunoff } from '@/lib/voting/instant-runoff';
+import { OptionScore, tallyScores } from '@/lib/voting/score';
+import { OptionQuadraticTally, tallyQuadratic } from '@/lib/voting/quadratic';
+import { PairwiseResult, tallyPairwise, toComparisons } from '@/lib/voting/pairwise';
+
+/**
+ * Multi-question surveys.
+ *
+ * A survey is a poll with rows in poll_questions. Each question has its own
+ * prompt, options and voting method, while visibility, schedule, duplicate
+ * protection and the other poll settings are shared by all of them. A
+ * response records a ballot for every question in one insert, with the
+ * rows tagged by question and sharing one ballot ID, and results are
+ * tallied per question with the question's own voting method.
+ */
+
+/**
+ * A response to a survey: one ballot per question, keyed by question ID.
+ */
+export interface SurveyResponse {
+  answers: Record<string, BallotSubmission>;
+  voter_name?: string;
+  voter_email?: string;
+}
+
+/** The question settings an answer is validated against. */
+export type QuestionRules = BallotRules & Pick<PollQuestion, 'id' | 'order_index'>;
+
+/**
+ * A stored vote row on a survey, as read back to tally one question.
+ */
+export interface SurveyVoteRow {
+  question_id: string | null;
+  ballot_id: string | null;
+  option_id: string | null;
+  rank: number | null;
+  score: number | null;
+  weight: number | null;
+  opponent_id: string | null;
+}
+
+/** Votes for one option of a single or multiple choice question. */
+export interface OptionCount {
+  option_id: string;
+  vote_count: number;
+  percentage: number;
+}
+
+/**
+ * Results of one survey question, in the shape its voting method needs.
+ */
+export type SurveyQuestionResult = { question_id: string; responses: number } & (
+  | { vote_type: 'single' | 'multiple'; counts: OptionCount[] }
+  | { vote_type: 'ranked'; runoff: RunoffResult }
+  | { vote_type: 'score'; scores: OptionScore[] }
+  | { vote_type: 'quadratic'; tallies: OptionQuadraticTally[] }
+  | { vote_type: 'pairwise'; pairwise: PairwiseResult }
+);
+
+/**
+ * Whether a poll is a survey.
+ */
+export function isSurvey(poll: { poll_questions?: unknown[] | null }) {
+  return Boolean(poll.poll_questions?.length);
+}
+
+/**
+ * A survey's questions in display order, each with its options in order.
+ */
+export function sortedQuestions(questions: SurveyQuestion[] | null | undefined): SurveyQuestion[] {
+  return (questions ?? [])
+    .slice()
+    .sort((a, b) => a.order_index - b.order_index)
+    .map(question => ({
+      ...question,
+      poll_options: (question.poll_options ?? []).slice().sort((a, b) => a.order_index - b.order_index),
+    }));
+}
+
+/**
+ * Turns stored questions back into poll form data, for validating a draft
+ * before it is published and for copying a survey.
+ */
+export function questionsToForm(questions: SurveyQuestion[] | null | undefined): SurveyQuestionData[] {
+  return sortedQuestions(questions).map(question => ({
+    prompt: question.prompt,
+    vote_type: question.vote_type,
+    score_max: question.score_max,
+    min_selections: question.min_selections,
+    max_selections: question.max_selections,
+    vote_credits: question.vote_credits,
+    options: question.poll_options.map(option => option.text),
+  }));
+}
+
+/**
+ * Creates a survey's questions and their options.
+ *
+ * Shared by createPoll, duplicatePoll and POST /api/polls; the caller
+ * deletes the poll when this fails. Drafts may still have blank options,
+ * which aren't worth keeping.
+ *
+ * @param supabase - Request-scoped Supabase client
+ * @param pollId - The survey's poll, owned by the current user
+ * @param questions - The questions from the poll form, in order
+ * @param isDraft - Whether the survey is saved as a draft
+ */
+export async function insertSurveyQuestions(
+  supabase: SupabaseClient,
+  pollId: string,
+  questions: SurveyQuestionData[],
+  isDraft = false
+): Promise<{ success: true } | { success: false; error: string }> {
+  const { data: inserted, error: questionsError } = await supabase
+    .from('poll_questions')
+    .insert(questions.map((question, index) => ({
+      poll_id: pollId,
+      prompt: question.prompt.trim(),
+      order_index: index + 1,
+      ...questionSettingsFromForm(question),
+    })))
+    .select('id, order_index');
+
+  if (questionsError || !inserted) {
+    return { success: false, error: `Failed to create survey questions: ${questionsError?.message}` };
+  }
+
+  const questionIds = new Map<number, string>(
+    inserted.map((question: { id: string; order_index: number }) => [question.order_index, question.id])
+  );
+
+  const optionsData = questions.flatMap((question, index) => question.options
+    .map(text => text.trim())
+    .filter(text => !isDraft || text)
+    .map((text, optionIndex) => ({
+      poll_id: pollId,
+      question_id: questionIds.get(index + 1),
+      text,
+      order_index: optionIndex + 1,
+    })));
+
+  if (optionsData.length > 0) {
+    const { error: optionsError } = await supabase
+      .from('poll_options')
+      .insert(optionsData);
+
+    if (optionsError) {
+      return { success: false, error: `Failed to create poll options: ${optionsError.message}` };
+    }
+  }
+
+  return { success: true };
+}
+
+/**
+ * Applies an edit to a survey's questions.
+ *
+ * Shared by the updatePoll server action and PUT /api/polls/[id], in place
+ * of syncPollOptions. Questions can only change while the survey is a
+ * draft, which has no responses yet, so they're replaced outright. Edits
+ * that leave the questions out only change the poll settings.
+ *
+ * @param supabase - Request-scoped Supabase client
+ * @param pollId - The survey being edited; ownership is checked by the caller
+ * @param poll - The stored survey
+ * @param questions - The submitted questions, if any
+ */
+export async function syncSurveyQuestions(
+  supabase: SupabaseClient,
+  pollId: string,
+  poll: { is_draft: boolean },
+  questions: SurveyQuestionData[] | undefined
+): Promise<SyncOptionsResult> {
+  if (!questions?.length) {
+    return { success: true };
+  }
+
+  if (!poll.is_draft) {
+    return { success: false, error: 'Survey questions can only be changed while the survey is a draft', status: 409 };
+  }
+
+  // Deleting the questions deletes their options with them
+  const { error: deleteError } = await supabase
+    .from('poll_questions')
+    .delete()
+    .eq('poll_id', pollId);
+
+  if (deleteError) {
+    return { success: false, error: `Failed to update survey questions: ${deleteError.message}`, status: 500 };
+  }
+
+  const result = await insertSurveyQuestions(supabase, pollId, questions, true);
+  return result.success ? result : { ...result, status: 500 };
+}
+
+/**
+ * Checks one answer of a survey response against its question: the ballot
+ * shape for the question's voting method, and that it only uses the
+ * question's own options.
+ *
+ * @param question - The question answered
+ * @param answer - The voter's ballot for the question
+ * @param optionIds - IDs of every option of the question
+ * @returns An error message, or null when the answer can be recorded
+ */
+export function validateSurveyAnswer(question: QuestionRules, answer: BallotSubmission, optionIds: string[]): string | null {
+  const ballotError = validateBallot(question, answer);
+  if (ballotError) {
+    return ballotError;
+  }
+
+  if (answer.option_ids.some(id => !optionIds.includes(id))) {
+    return 'Invalid options selected';
+  }
+
+  // Score ballots must rate every option, not just some of them
+  if (question.vote_type === 'score' && answer.option_ids.length !== optionIds.length) {
+    return 'Please rate every option';
+  }
+
+  return null;
+}
+
+/**
+ * Tallies one survey question from the survey's vote rows.
+ *
+ * Rows of other questions are ignored: all answers of a response share a
+ * ballot ID, so they have to be told apart by question before ranked
+ * ballots are reassembled.
+ *
+ * @param question - The question, with its options in display order
+ * @param rows - Vote rows of the whole survey
+ */
+export function tallySurveyQuestion(question: SurveyQuestion, rows: SurveyVoteRow[]): SurveyQuestionResult {
+  const questionRows = rows.filter(row => row.question_id === question.id && row.option_id);
+  const optionIds = question.poll_options.map(option => option.id);
+  const base = {
+    question_id: question.id,
+    responses: new Set(questionRows.map(row => row.ballot_id)).size,
+  };
+  const optionRows = questionRows.map(row => ({ ...row, option_id: row.option_id as string }));
+
+  switch (question.vote_type) {
+    case 'ranked':
+      return { ...base, vote_type: 'ranked', runoff: tallyInstantRunoff(optionIds, groupRankedBallots(optionRows)) };
+    case 'score':
+      return { ...base, vote_type: 'score', scores: tallyScores(optionIds, optionRows, question.score_max) };
+    case 'quadratic':
+      return { ...base, vote_type: 'quadratic', tallies: tallyQuadratic(optionIds, optionRows) };
+    case 'pairwise':
+      return { ...base, vote_type: 'pairwise', pairwise: tallyPairwise(optionIds, toComparisons(optionRows)) };
+    default: {
+      const total = optionRows.length;
+      const counts = optionIds.map(id => {
+        const voteCount = optionRows.filter(row => row.option_id === id).length;
+        return {
+          option_id: id,
+          vote_count: voteCount,
+          percentage: total > 0 ? Math.round((voteCount / total) * 10000) / 100 : 0,
+        };
+      });
+      return { ...base, vote_type: question.vote_type, counts };
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { CreatePollData, Poll, PollTemplate } from '@/lib/types/database';
+import { pollSettingsFromForm } from '@/lib/polls/settings';
+
+/**
+ * Reusable poll setups: built-in starting points, personal templates saved
+ * from existing polls, and copies of a poll.
+ *
+ * A template keeps a poll's title, description, options and settings. The
+ * schedule is left out, since opening and closing times rarely carry over
+ * from one run of a poll to the next.
+ */
+
+/** The settings columns a template or duplicate carries over. */
+export type PollTemplateSettings = ReturnType<typeof pollSettingsFromForm>;
+
+/** A template offered in the create poll form. */
+export interface TemplateChoice {
+  id: string;
+  name: string;
+  poll: CreatePollData;
+}
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+
+/**
+ * Templates available to everyone. Their ids are prefixed so they can't
+ * clash with the ids of saved templates.
+ */
+export const BUILT_IN_TEMPLATES: TemplateChoice[] = [
+  {
+    id: 'builtin:yes-no-abstain',
+    name: 'Yes / No / Abstain',
+    poll: {
+      title: '',
+      description: '',
+      options: ['Yes', 'No', 'Abstain'],
+      vote_type: 'single',
+    },
+  },
+  {
+    id: 'builtin:satisfaction',
+    name: 'Satisfaction (1–5)',
+    poll: {
+      title: 'How satisfied are you?',
+      description: '',
+      options: ['1 - Very dissatisfied', '2 - Dissatisfied', '3 - Neutral', '4 - Satisfied', '5 - Very satisfied'],
+      vote_type: 'single',
+    },
+  },
+  {
+    id: 'builtin:weekday',
+    name: 'Weekday picker',
+    poll: {
+      title: 'Which days work for you?',
+      description: '',
+      options: WEEKDAYS,
+      vote_type: 'multiple',
+      allow_multiple_votes: true,
+      min_selections: 1,
+      max_selections: null,
+    },
+  },
+];
+
+/**
+ * Reads the settings a template or duplicate keeps from a stored poll.
+ */
+export function templateSettingsFromPoll(poll: Poll): PollTemplateSettings {
+  return pollSettingsFromForm({
+    ...poll,
+    description: poll.description ?? undefined,
+    options: [],
+  });
+}
+
+/**
+ * Turns a saved template into poll form data to start a new poll from.
+ * The form always shows at least two option inputs. Templates saved from
+ * a survey bring its questions along with their settings.
+ */
+export function formDataFromTemplate(template: Pick<PollTemplate, 'title' | 'description' | 'options' | 'settings'>): CreatePollData {
+  const options = [...template.options];
+  while (options.length < 2) {
+    options.push('');
+  }
+
+  return {
+    ...(template.settings as Partial<PollTemplateSettings> & Pick<CreatePollData, 'questions'>),
+    title: template.title,
+    description: template.description ?? '',
+    options,
+  };
+}
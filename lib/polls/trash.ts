@@ -0,0 +1,35 @@
+/**
+ * The poll trash: deleted polls are kept, hidden, for a retention period
+ * so their creator can restore them, and the /api/cron/purge-trash route
+ * deletes them for good afterwards.
+ */
+
+/** Days a poll stays in the trash when TRASH_RETENTION_DAYS isn't set. */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Number of days trashed polls are kept, from the TRASH_RETENTION_DAYS
+ * environment variable.
+ */
+export function trashRetentionDays(value = process.env.TRASH_RETENTION_DAYS) {
+  const days = Number(value);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * When a trashed poll will be purged.
+ */
+export function purgeDate(deletedAt: string, retentionDays: number) {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * DAY);
+}
+
+/**
+ * Whole days left before a trashed poll is purged, counting a partial day
+ * as a day.
+ */
+export function daysUntilPurge(deletedAt: string, retentionDays: number, now = new Date()) {
+  const remaining = purgeDate(deletedAt, retentionDays).getTime() - now.getTime();
+  return Math.max(0, Math.ceil(remaining / DAY));
+}
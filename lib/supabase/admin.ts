@@ -0,0 +1,19 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Supabase client using the service role key, which bypasses RLS.
+ * Only for trusted server code that runs without a user session, such as
+ * scheduled jobs. Never import it from client components.
+ */
+export function createAdminClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  )
+}
@@ -67,10 +67,19 @@ export async function updateSession(request: NextRequest) {
   } = await supabase.auth.getUser()
 
   // Check if user is authenticated and not on auth pages
+  // (scheduled jobs authenticate with their own secret instead, share,
+  // secret and invitation links resolve before visitors are asked to sign in,
+  // and embeds and their oEmbed lookups are loaded by other sites' visitors)
   if (
     !user &&
     !request.nextUrl.pathname.startsWith('/login') &&
-    !request.nextUrl.pathname.startsWith('/register')
+    !request.nextUrl.pathname.startsWith('/register') &&
+    !request.nextUrl.pathname.startsWith('/api/cron') &&
+    !request.nextUrl.pathname.startsWith('/s/') &&
+    !request.nextUrl.pathname.startsWith('/u/') &&
+    !request.nextUrl.pathname.startsWith('/i/') &&
+    !request.nextUrl.pathname.startsWith('/embed/') &&
+    !request.nextUrl.pathname.startsWith('/api/oembed')
   ) {
     // Redirect unauthenticated users to login page
     const url = request.nextUrl.clone()
@@ -1,8 +1,21 @@
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
+import { POLL_ACCESS_HEADER, pollAccessHeader } from '@/lib/polls/access'
+import { POLL_PASSWORD_HEADER, pollPasswordHeader } from '@/lib/polls/password'
+import { INVITATION_HEADER, invitationHeader } from '@/lib/polls/invitations'
 
 export async function createClient() {
   const cookieStore = await cookies()
+  // Secret links to unlisted polls, password grants and invitation links are
+  // checked by row level security
+  const accessTokens = pollAccessHeader(cookieStore.getAll())
+  const passwordGrants = pollPasswordHeader(cookieStore.getAll())
+  const invitationTokens = invitationHeader(cookieStore.getAll())
+  const headers: Record<string, string> = {
+    ...(accessTokens ? { [POLL_ACCESS_HEADER]: accessTokens } : {}),
+    ...(passwordGrants ? { [POLL_PASSWORD_HEADER]: passwordGrants } : {}),
+    ...(invitationTokens ? { [INVITATION_HEADER]: invitationTokens } : {}),
+  }
 
   return createServerClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -24,6 +37,7 @@ export async function createClient() {
           }
         },
       },
+      global: Object.keys(headers).length > 0 ? { headers } : undefined,
     }
   )
 }
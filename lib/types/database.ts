@@ -51,8 +51,31 @@ export type Database = {
           description: string | null
           status: 'active' | 'inactive' | 'expired'
           is_public: boolean
+          is_unlisted: boolean
+          access_token: string
+          has_password: boolean
+          is_invite_only: boolean
+          allowed_email_domains: string[]
+          min_account_age_days: number | null
+          require_verified_email: boolean
           allow_multiple_votes: boolean
+          vote_type: 'single' | 'multiple' | 'ranked' | 'score' | 'quadratic' | 'pairwise'
+          score_max: number
+          min_selections: number
+          max_selections: number | null
+          vote_credits: number
+          allow_write_in: boolean
+          lock_votes: boolean
+          duplicate_protection: 'off' | 'cookie' | 'strict'
+          results_visibility: 'always' | 'after_vote' | 'after_close' | 'owner'
+          is_draft: boolean
+          close_after_votes: number | null
+          close_after_voters: number | null
+          close_on_decisive_lead: boolean
+          starts_at: string | null
+          deleted_at: string | null
           expires_at: string | null
+          workspace_id: string | null
           created_by: string
           created_at: string
           updated_at: string
@@ -63,8 +86,31 @@ export type Database = {
           description?: string | null
           status?: 'active' | 'inactive' | 'expired'
           is_public?: boolean
+          is_unlisted?: boolean
+          access_token?: string
+          has_password?: boolean
+          is_invite_only?: boolean
+          allowed_email_domains?: string[]
+          min_account_age_days?: number | null
+          require_verified_email?: boolean
           allow_multiple_votes?: boolean
+          vote_type?: 'single' | 'multiple' | 'ranked' | 'score' | 'quadratic' | 'pairwise'
+          score_max?: number
+          min_selections?: number
+          max_selections?: number | null
+          vote_credits?: number
+          allow_write_in?: boolean
+          lock_votes?: boolean
+          duplicate_protection?: 'off' | 'cookie' | 'strict'
+          results_visibility?: 'always' | 'after_vote' | 'after_close' | 'owner'
+          is_draft?: boolean
+          close_after_votes?: number | null
+          close_after_voters?: number | null
+          close_on_decisive_lead?: boolean
+          starts_at?: string | null
+          deleted_at?: string | null
           expires_at?: string | null
+          workspace_id?: string | null
           created_by: string
           created_at?: string
           updated_at?: string
@@ -75,8 +121,31 @@ export type Database = {
           description?: string | null
           status?: 'active' | 'inactive' | 'expired'
           is_public?: boolean
+          is_unlisted?: boolean
+          access_token?: string
+          has_password?: boolean
+          is_invite_only?: boolean
+          allowed_email_domains?: string[]
+          min_account_age_days?: number | null
+          require_verified_email?: boolean
           allow_multiple_votes?: boolean
+          vote_type?: 'single' | 'multiple' | 'ranked' | 'score' | 'quadratic' | 'pairwise'
+          score_max?: number
+          min_selections?: number
+          max_selections?: number | null
+          vote_credits?: number
+          allow_write_in?: boolean
+          lock_votes?: boolean
+          duplicate_protection?: 'off' | 'cookie' | 'strict'
+          results_visibility?: 'always' | 'after_vote' | 'after_close' | 'owner'
+          is_draft?: boolean
+          close_after_votes?: number | null
+          close_after_voters?: number | null
+          close_on_decisive_lead?: boolean
+          starts_at?: string | null
+          deleted_at?: string | null
           expires_at?: string | null
+          workspace_id?: string | null
           created_by?: string
           created_at?: string
           updated_at?: string
@@ -88,6 +157,63 @@ export type Database = {
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "polls_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      poll_questions: {
+        Row: {
+          id: string
+          poll_id: string
+          prompt: string
+          order_index: number
+          vote_type: 'single' | 'multiple' | 'ranked' | 'score' | 'quadratic' | 'pairwise'
+          score_max: number
+          min_selections: number
+          max_selections: number | null
+          vote_credits: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          prompt: string
+          order_index?: number
+          vote_type?: 'single' | 'multiple' | 'ranked' | 'score' | 'quadratic' | 'pairwise'
+          score_max?: number
+          min_selections?: number
+          max_selections?: number | null
+          vote_credits?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          prompt?: string
+          order_index?: number
+          vote_type?: 'single' | 'multiple' | 'ranked' | 'score' | 'quadratic' | 'pairwise'
+          score_max?: number
+          min_selections?: number
+          max_selections?: number | null
+          vote_credits?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_questions_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
           }
         ]
       }
@@ -95,6 +221,7 @@ export type Database = {
         Row: {
           id: string
           poll_id: string
+          question_id: string | null
           text: string
           order_index: number
           created_at: string
@@ -103,6 +230,7 @@ export type Database = {
         Insert: {
           id?: string
           poll_id: string
+          question_id?: string | null
           text: string
           order_index?: number
           created_at?: string
@@ -111,6 +239,7 @@ export type Database = {
         Update: {
           id?: string
           poll_id?: string
+          question_id?: string | null
           text?: string
           order_index?: number
           created_at?: string
@@ -123,6 +252,13 @@ export type Database = {
             isOneToOne: false
             referencedRelation: "polls"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_options_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "poll_questions"
+            referencedColumns: ["id"]
           }
         ]
       }
@@ -130,28 +266,61 @@ export type Database = {
         Row: {
           id: string
           poll_id: string
-          option_id: string
+          option_id: string | null
+          question_id: string | null
           voter_id: string | null
           voter_email: string | null
           voter_name: string | null
+          ballot_id: string | null
+          rank: number | null
+          score: number | null
+          weight: number | null
+          opponent_id: string | null
+          write_in: string | null
+          voter_token: string | null
+          voter_fingerprint: string | null
+          share_id: string | null
+          invitation_id: string | null
           created_at: string
         }
         Insert: {
           id?: string
           poll_id: string
-          option_id: string
+          option_id?: string | null
+          question_id?: string | null
           voter_id?: string | null
           voter_email?: string | null
           voter_name?: string | null
+          ballot_id?: string | null
+          rank?: number | null
+          score?: number | null
+          weight?: number | null
+          opponent_id?: string | null
+          write_in?: string | null
+          voter_token?: string | null
+          voter_fingerprint?: string | null
+          share_id?: string | null
+          invitation_id?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           poll_id?: string
-          option_id?: string
+          option_id?: string | null
+          question_id?: string | null
           voter_id?: string | null
           voter_email?: string | null
           voter_name?: string | null
+          ballot_id?: string | null
+          rank?: number | null
+          score?: number | null
+          weight?: number | null
+          opponent_id?: string | null
+          write_in?: string | null
+          voter_token?: string | null
+          voter_fingerprint?: string | null
+          share_id?: string | null
+          invitation_id?: string | null
           created_at?: string
         }
         Relationships: [
@@ -169,6 +338,27 @@ export type Database = {
             referencedRelation: "poll_options"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "votes_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "poll_questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "votes_invitation_id_fkey"
+            columns: ["invitation_id"]
+            isOneToOne: false
+            referencedRelation: "poll_invitations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "votes_share_id_fkey"
+            columns: ["share_id"]
+            isOneToOne: false
+            referencedRelation: "poll_shares"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "votes_voter_id_fkey"
             columns: ["voter_id"]
@@ -183,7 +373,9 @@ export type Database = {
           id: string
           poll_id: string
           share_code: string
+          label: string | null
           is_active: boolean
+          visit_count: number
           created_by: string
           created_at: string
           expires_at: string | null
@@ -192,7 +384,9 @@ export type Database = {
           id?: string
           poll_id: string
           share_code: string
+          label?: string | null
           is_active?: boolean
+          visit_count?: number
           created_by: string
           created_at?: string
           expires_at?: string | null
@@ -201,7 +395,9 @@ export type Database = {
           id?: string
           poll_id?: string
           share_code?: string
+          label?: string | null
           is_active?: boolean
+          visit_count?: number
           created_by?: string
           created_at?: string
           expires_at?: string | null
@@ -223,6 +419,250 @@ export type Database = {
           }
         ]
       }
+      poll_passwords: {
+        Row: {
+          poll_id: string
+          password_hash: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          poll_id: string
+          password_hash: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          poll_id?: string
+          password_hash?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_passwords_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: true
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      poll_invitations: {
+        Row: {
+          id: string
+          poll_id: string
+          email: string
+          secret: string
+          sent_at: string | null
+          send_count: number
+          revoked_at: string | null
+          created_by: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          email: string
+          secret?: string
+          sent_at?: string | null
+          send_count?: number
+          revoked_at?: string | null
+          created_by: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          email?: string
+          secret?: string
+          sent_at?: string | null
+          send_count?: number
+          revoked_at?: string | null
+          created_by?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_invitations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_invitations_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      poll_members: {
+        Row: {
+          id: string
+          poll_id: string
+          user_id: string
+          role: 'editor' | 'viewer'
+          added_by: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          user_id: string
+          role?: 'editor' | 'viewer'
+          added_by: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          user_id?: string
+          role?: 'editor' | 'viewer'
+          added_by?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_members_added_by_fkey"
+            columns: ["added_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_members_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      workspaces: {
+        Row: {
+          id: string
+          name: string
+          created_by: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          created_by: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          created_by?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspaces_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      workspace_members: {
+        Row: {
+          id: string
+          workspace_id: string
+          user_id: string
+          role: 'owner' | 'admin' | 'member'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          workspace_id: string
+          user_id: string
+          role?: 'owner' | 'admin' | 'member'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          workspace_id?: string
+          user_id?: string
+          role?: 'owner' | 'admin' | 'member'
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      poll_templates: {
+        Row: {
+          id: string
+          name: string
+          title: string
+          description: string | null
+          options: string[]
+          settings: Json
+          created_by: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          title: string
+          description?: string | null
+          options?: string[]
+          settings?: Json
+          created_by: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          title?: string
+          description?: string | null
+          options?: string[]
+          settings?: Json
+          created_by?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -231,6 +671,7 @@ export type Database = {
       get_poll_results: {
         Args: {
           poll_uuid: string
+          voter_token_hash?: string | null
         }
         Returns: {
           option_id: string
@@ -239,6 +680,33 @@ export type Database = {
           percentage: number
         }[]
       }
+      poll_password_unlocked: {
+        Args: {
+          poll_uuid: string
+        }
+        Returns: boolean
+      }
+      can_view_poll_results: {
+        Args: {
+          poll_uuid: string
+          voter_token_hash?: string | null
+        }
+        Returns: boolean
+      }
+      has_anonymous_vote: {
+        Args: {
+          poll_uuid: string
+          token_hash: string
+          fingerprint_hash?: string | null
+        }
+        Returns: boolean
+      }
+      can_edit_poll: {
+        Args: {
+          poll_uuid: string
+        }
+        Returns: boolean
+      }
       can_user_vote: {
         Args: {
           poll_uuid: string
@@ -250,10 +718,93 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      record_share_visit: {
+        Args: {
+          code: string
+        }
+        Returns: {
+          share_id: string
+          poll_id: string
+        }[]
+      }
+      is_eligible_voter: {
+        Args: {
+          poll_uuid: string
+          user_uuid?: string
+        }
+        Returns: boolean
+      }
+      is_poll_member: {
+        Args: {
+          poll_uuid: string
+          editors_only?: boolean
+        }
+        Returns: boolean
+      }
+      is_workspace_member: {
+        Args: {
+          workspace_uuid: string
+          admins_only?: boolean
+        }
+        Returns: boolean
+      }
+      is_poll_invitation: {
+        Args: {
+          invitation_uuid: string
+          poll_uuid: string
+        }
+        Returns: boolean
+      }
+      resolve_unlisted_poll: {
+        Args: {
+          token: string
+        }
+        Returns: string | null
+      }
+      get_poll_turnout: {
+        Args: {
+          poll_uuid: string
+        }
+        Returns: {
+          ballots: number
+          voters: number
+        }[]
+      }
+      close_poll_if_complete: {
+        Args: {
+          poll_uuid: string
+        }
+        Returns: boolean
+      }
+      promote_write_in: {
+        Args: {
+          poll_uuid: string
+          option_uuid: string
+          vote_ids: string[]
+        }
+        Returns: number
+      }
+      purge_trashed_polls: {
+        Args: {
+          retention: string
+        }
+        Returns: string[]
+      }
+      transition_poll_statuses: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          poll_id: string
+          new_status: 'active' | 'inactive' | 'expired'
+        }[]
+      }
     }
     Enums: {
       poll_status: 'active' | 'inactive' | 'expired'
-      vote_type: 'single' | 'multiple'
+      vote_type: 'single' | 'multiple' | 'ranked' | 'score' | 'quadratic' | 'pairwise'
+      duplicate_protection: 'off' | 'cookie' | 'strict'
+      results_visibility: 'always' | 'after_vote' | 'after_close' | 'owner'
+      poll_member_role: 'editor' | 'viewer'
+      workspace_role: 'owner' | 'admin' | 'member'
     }
     CompositeTypes: {
       [_ in never]: never
@@ -265,8 +816,30 @@ export type Database = {
 export type Profile = Database['public']['Tables']['profiles']['Row']
 export type Poll = Database['public']['Tables']['polls']['Row']
 export type PollOption = Database['public']['Tables']['poll_options']['Row']
+export type PollQuestion = Database['public']['Tables']['poll_questions']['Row']
 export type Vote = Database['public']['Tables']['votes']['Row']
 export type PollShare = Database['public']['Tables']['poll_shares']['Row']
+// A share code as listed to the poll's owner, with the ballots cast through it
+export type PollShareWithStats = PollShare & { vote_count: number }
+export type PollInvitation = Database['public']['Tables']['poll_invitations']['Row']
+// An invitation as listed to the poll's owner, with the invitee's personal link (in place of its secret) and whether they voted
+export type PollInvitationWithStatus = Omit<PollInvitation, 'secret'> & { url: string; has_voted: boolean }
+export type PollMember = Database['public']['Tables']['poll_members']['Row']
+// A member as listed on the poll's edit page, with their profile
+export type PollMemberWithProfile = PollMember & { name: string; email: string }
+export type PollTemplate = Database['public']['Tables']['poll_templates']['Row']
+export type Workspace = Database['public']['Tables']['workspaces']['Row']
+// A workspace as listed to one of its members, with their role in it
+export type WorkspaceWithRole = Workspace & { role: WorkspaceRole }
+export type WorkspaceMember = Database['public']['Tables']['workspace_members']['Row']
+// A member as listed in the workspace's members dialog, with their profile
+export type WorkspaceMemberWithProfile = WorkspaceMember & { name: string; email: string }
+export type VoteType = Database['public']['Enums']['vote_type']
+export type DuplicateProtection = Database['public']['Enums']['duplicate_protection']
+export type PollStatus = Database['public']['Enums']['poll_status']
+export type ResultsVisibility = Database['public']['Enums']['results_visibility']
+export type PollMemberRole = Database['public']['Enums']['poll_member_role']
+export type WorkspaceRole = Database['public']['Enums']['workspace_role']
 
 export type PollWithResults = Poll & {
   options: (PollOption & {
@@ -281,11 +854,31 @@ export type PollWithOptions = Poll & {
     text: string
     order_index: number
   }[]
+  // Set on surveys, each question with its own options
+  poll_questions?: SurveyQuestion[]
   profiles?: {
     name: string
   }
 }
 
+export type SurveyQuestion = PollQuestion & {
+  poll_options: {
+    id: string
+    text: string
+    order_index: number
+  }[]
+}
+
+export type SurveyQuestionData = {
+  prompt: string
+  vote_type?: VoteType
+  score_max?: number
+  min_selections?: number
+  max_selections?: number | null
+  vote_credits?: number
+  options: string[]
+}
+
 export type PollWithVoteCounts = Poll & {
   poll_options: {
     id: string
@@ -302,18 +895,75 @@ export type CreatePollData = {
   title: string
   description?: string
   is_public?: boolean
+  is_unlisted?: boolean
+  is_invite_only?: boolean
+  // Eligibility rules; voting then requires an account that meets all of them
+  allowed_email_domains?: string[]
+  min_account_age_days?: number | null
+  require_verified_email?: boolean
   allow_multiple_votes?: boolean
-  expires_at?: string
+  vote_type?: VoteType
+  score_max?: number
+  min_selections?: number
+  max_selections?: number | null
+  vote_credits?: number
+  allow_write_in?: boolean
+  lock_votes?: boolean
+  duplicate_protection?: DuplicateProtection
+  results_visibility?: ResultsVisibility
+  close_after_votes?: number | null
+  close_after_voters?: number | null
+  close_on_decisive_lead?: boolean
+  starts_at?: string | null
+  expires_at?: string | null
+  // Creates the poll in a workspace the user belongs to instead of their personal polls
+  workspace_id?: string | null
   options: string[]
+  // Makes the poll a survey: each question has its own options and voting method, and `options` stays empty
+  questions?: SurveyQuestionData[]
+  // Save as an unpublished draft, only visible to its creator
+  is_draft?: boolean
+  // When editing: IDs of the existing options in `options`, aligned by index (null for new options)
+  option_ids?: (string | null)[]
+  // When editing: allow removing options even though votes were cast for them
+  confirm_option_removal?: boolean
+  // Access password: a string sets or replaces it, null removes it, and leaving it out keeps the current one
+  password?: string | null
 }
 
 export type EditPollFormData = {
   title: string
   description: string
   is_public: boolean
+  is_unlisted: boolean
+  is_invite_only: boolean
+  allowed_email_domains?: string[]
+  min_account_age_days?: number | null
+  require_verified_email?: boolean
   allow_multiple_votes: boolean
-  expires_at?: string
+  vote_type: VoteType
+  score_max?: number
+  min_selections?: number
+  max_selections?: number | null
+  vote_credits?: number
+  allow_write_in?: boolean
+  lock_votes?: boolean
+  duplicate_protection?: DuplicateProtection
+  results_visibility?: ResultsVisibility
+  close_after_votes?: number | null
+  close_after_voters?: number | null
+  close_on_decisive_lead?: boolean
+  starts_at?: string | null
+  expires_at?: string | null
   options: string[]
+  // When editing: IDs of the existing options in `options`, aligned by index (null for new options)
+  option_ids?: (string | null)[]
+  // When editing: allow removing options even though votes were cast for them
+  confirm_option_removal?: boolean
+  // Surveys: the questions, which can only be changed while the survey is a draft
+  questions?: SurveyQuestionData[]
+  // Access password: a string sets or replaces it, null removes it, and leaving it out keeps the current one
+  password?: string | null
 }
 
 export type VoteData = {
@@ -328,8 +978,29 @@ export interface EditPollData {
   title: string;
   description: string | null;
   options: string[];
+  option_ids: string[];
   is_public: boolean;
+  is_unlisted: boolean;
+  has_password: boolean;
+  is_invite_only: boolean;
+  allowed_email_domains: string[];
+  min_account_age_days: number | null;
+  require_verified_email: boolean;
   allow_multiple_votes: boolean;
+  vote_type: VoteType;
+  score_max: number;
+  min_selections: number;
+  max_selections: number | null;
+  vote_credits: number;
+  allow_write_in: boolean;
+  lock_votes: boolean;
+  duplicate_protection: DuplicateProtection;
+  results_visibility: ResultsVisibility;
+  close_after_votes: number | null;
+  close_after_voters: number | null;
+  close_on_decisive_lead: boolean;
+  is_draft: boolean;
+  starts_at: string | null;
   expires_at: string | null;
   created_at: string;
   updated_at: string;
@@ -0,0 +1,293 @@
+import { randomUUID } from 'crypto';
+import { VoteType } from '@/lib/types/database';
+import { quadraticCost } from '@/lib/voting/quadratic';
+import { PairwiseComparison, pairKey } from '@/lib/voting/pairwise';
+import { MAX_WRITE_IN_LENGTH, normalizeWriteIn } from '@/lib/voting/write-ins';
+import { isChoiceVoteType } from '@/lib/voting/vote-types';
+import type { AnonymousVoter } from '@/lib/voting/voter-identity';
+
+/**
+ * Ballot payload accepted by submitVote and POST /api/polls/[id]/vote.
+ *
+ * For ranked-choice polls `option_ids` is the voter's ranking, first
+ * preference first. For score polls `scores` maps each rated option to its
+ * rating. For quadratic polls `allocations` maps each option the voter spent
+ * credits on to the (possibly negative) number of votes bought. For
+ * pairwise polls `comparisons` lists the voter's picks and `option_ids`
+ * every option that appeared in them. For the other vote types
+ * `option_ids` is the set of selected options, and `write_in` an optional
+ * free-text answer counted as one more selection.
+ */
+export interface BallotSubmission {
+  option_ids: string[];
+  scores?: Record<string, number>;
+  allocations?: Record<string, number>;
+  comparisons?: PairwiseComparison[];
+  write_in?: string;
+  voter_name?: string;
+  voter_email?: string;
+}
+
+/**
+ * The poll settings a ballot is validated against.
+ */
+export interface BallotRules {
+  vote_type: VoteType;
+  score_max?: number | null;
+  min_selections?: number | null;
+  max_selections?: number | null;
+  vote_credits?: number | null;
+  allow_write_in?: boolean | null;
+}
+
+/**
+ * Checks the shape of a ballot against the poll's voting rules.
+ * Option ownership is validated separately against the database.
+ *
+ * @returns An error message, or null when the ballot is well formed
+ */
+export function validateBallot(rules: BallotRules, submission: BallotSubmission): string | null {
+  const optionIds = submission.option_ids;
+  const writeIn = submission.write_in ? normalizeWriteIn(submission.write_in) : '';
+
+  if (writeIn) {
+    if (!rules.allow_write_in || !isChoiceVoteType(rules.vote_type)) {
+      return 'Write-in answers are not allowed on this poll';
+    }
+    if (writeIn.length > MAX_WRITE_IN_LENGTH) {
+      return `Write-in answers can be at most ${MAX_WRITE_IN_LENGTH} characters`;
+    }
+  }
+
+  if (!Array.isArray(optionIds) || (optionIds.length === 0 && !writeIn)) {
+    return rules.vote_type === 'pairwise'
+      ? 'Please compare at least one pair of options'
+      : 'Please select at least one option';
+  }
+
+  if (new Set(optionIds).size !== optionIds.length) {
+    return rules.vote_type === 'ranked'
+      ? 'Each option can only be ranked once'
+      : 'Invalid options selected';
+  }
+
+  // A write-in counts as one more selected answer
+  const selected = optionIds.length + (writeIn ? 1 : 0);
+
+  if (rules.vote_type === 'single' && selected > 1) {
+    return 'Please select only one option';
+  }
+
+  if (rules.vote_type === 'multiple') {
+    const limitError = checkSelectionLimits(rules, selected);
+    if (limitError) {
+      return limitError;
+    }
+  }
+
+  if (rules.vote_type === 'score') {
+    const scoreMax = rules.score_max ?? 5;
+    const scores = submission.scores ?? {};
+    const isValidScore = (score: unknown) =>
+      Number.isInteger(score) && (score as number) >= 1 && (score as number) <= scoreMax;
+
+    if (Object.keys(scores).length !== optionIds.length || !optionIds.every(id => isValidScore(scores[id]))) {
+      return `Each rating must be a whole number from 1 to ${scoreMax}`;
+    }
+  }
+
+  if (rules.vote_type === 'quadratic') {
+    const credits = rules.vote_credits ?? 100;
+    const allocations = submission.allocations ?? {};
+    const isValidAllocation = (votes: unknown) => Number.isInteger(votes) && votes !== 0;
+
+    if (Object.keys(allocations).length !== optionIds.length || !optionIds.every(id => isValidAllocation(allocations[id]))) {
+      return 'Each allocation must be a non-zero whole number of votes';
+    }
+
+    if (quadraticCost(allocations) > credits) {
+      return `You can spend at most ${credits} credits`;
+    }
+  }
+
+  if (rules.vote_type === 'pairwise') {
+    const comparisonError = checkComparisons(optionIds, submission.comparisons);
+    if (comparisonError) {
+      return comparisonError;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Pairwise ballots must compare two different listed options per pair,
+ * never repeat a pair, and list exactly the options they compare.
+ */
+function checkComparisons(optionIds: string[], comparisons: PairwiseComparison[] | undefined): string | null {
+  if (!Array.isArray(comparisons) || comparisons.length === 0) {
+    return 'Please compare at least one pair of options';
+  }
+
+  const listed = new Set(optionIds);
+  const compared = new Set<string>();
+  const pairs = new Set<string>();
+
+  for (const { winner_id, loser_id } of comparisons) {
+    if (winner_id === loser_id || !listed.has(winner_id) || !listed.has(loser_id)) {
+      return 'Invalid options selected';
+    }
+    const key = pairKey(winner_id, loser_id);
+    if (pairs.has(key)) {
+      return 'Each pair of options can only be compared once';
+    }
+    pairs.add(key);
+    compared.add(winner_id);
+    compared.add(loser_id);
+  }
+
+  if (compared.size !== listed.size) {
+    return 'Invalid options selected';
+  }
+
+  return null;
+}
+
+/**
+ * Checks a number of approved options against a multiple-choice poll's
+ * min/max selection limits.
+ *
+ * @returns An error message, or null when the count is within the limits
+ */
+export function checkSelectionLimits(rules: BallotRules, selected: number): string | null {
+  const min = rules.min_selections ?? 1;
+  const max = rules.max_selections ?? null;
+
+  if (selected < min) {
+    return `Please select at least ${min} option${min !== 1 ? 's' : ''}`;
+  }
+
+  if (max !== null && selected > max) {
+    return `You can select at most ${max} option${max !== 1 ? 's' : ''}`;
+  }
+
+  return null;
+}
+
+/**
+ * Builds the vote rows for one ballot.
+ * All rows share a ballot_id so ranked ballots can be reassembled for the runoff.
+ * Pairwise ballots get one row per comparison instead of one per option,
+ * and a write-in answer gets a row of its own with no option.
+ * Anonymous ballots carry the voter's per-poll identity hashes. Survey
+ * responses pass one ballot ID for the answers to all their questions.
+ */
+export function buildVoteRows(
+  pollId: string,
+  rules: BallotRules,
+  submission: BallotSubmission,
+  voterId: string | null,
+  anonymousVoter: AnonymousVoter | null = null,
+  ballotId: string = randomUUID()
+) {
+  const voter = {
+    voter_id: voterId,
+    voter_email: submission.voter_email || null,
+    voter_name: submission.voter_name || null,
+    ballot_id: ballotId,
+    voter_token: anonymousVoter?.token ?? null,
+    voter_fingerprint: anonymousVoter?.fingerprint ?? null,
+  };
+
+  if (rules.vote_type === 'pairwise') {
+    return (submission.comparisons ?? []).map(comparison => ({
+      poll_id: pollId,
+      option_id: comparison.winner_id,
+      opponent_id: comparison.loser_id,
+      write_in: null,
+      ...voter,
+      rank: null,
+      score: null,
+      weight: null,
+    }));
+  }
+
+  const rows = submission.option_ids.map((optionId, index) => ({
+    poll_id: pollId,
+    option_id: optionId as string | null,
+    opponent_id: null,
+    write_in: null as string | null,
+    ...voter,
+    rank: rules.vote_type === 'ranked' ? index + 1 : null,
+    score: rules.vote_type === 'score' ? submission.scores?.[optionId] ?? null : null,
+    weight: rules.vote_type === 'quadratic' ? submission.allocations?.[optionId] ?? null : null,
+  }));
+
+  const writeIn = submission.write_in ? normalizeWriteIn(submission.write_in) : '';
+  if (writeIn) {
+    rows.push({
+      poll_id: pollId,
+      option_id: null,
+      opponent_id: null,
+      write_in: writeIn,
+      ...voter,
+      rank: null,
+      score: null,
+      weight: null,
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * A stored vote row, as read back to rebuild a voter's ballot.
+ */
+export interface StoredVoteRow {
+  option_id: string | null;
+  rank: number | null;
+  score: number | null;
+  weight: number | null;
+  opponent_id: string | null;
+  write_in: string | null;
+}
+
+/**
+ * Rebuilds a ballot from a voter's stored rows, the inverse of
+ * buildVoteRows. Used to preselect a voter's current vote so they can
+ * change it.
+ */
+export function ballotFromRows(rules: BallotRules, rows: StoredVoteRow[]): BallotSubmission {
+  const optionRows = rows.filter(row => row.option_id);
+  const writeIn = rows.find(row => row.write_in)?.write_in;
+  const submission: BallotSubmission = { option_ids: [] };
+
+  if (rules.vote_type === 'pairwise') {
+    submission.comparisons = optionRows
+      .filter(row => row.opponent_id)
+      .map(row => ({ winner_id: row.option_id as string, loser_id: row.opponent_id as string }));
+    submission.option_ids = Array.from(
+      new Set(submission.comparisons.flatMap(c => [c.winner_id, c.loser_id]))
+    );
+    return submission;
+  }
+
+  const ordered = rules.vote_type === 'ranked'
+    ? optionRows.slice().sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0))
+    : optionRows;
+  submission.option_ids = Array.from(new Set(ordered.map(row => row.option_id as string)));
+
+  if (rules.vote_type === 'score') {
+    submission.scores = Object.fromEntries(optionRows.map(row => [row.option_id as string, row.score ?? 0]));
+  }
+
+  if (rules.vote_type === 'quadratic') {
+    submission.allocations = Object.fromEntries(optionRows.map(row => [row.option_id as string, row.weight ?? 0]));
+  }
+
+  if (writeIn) {
+    submission.write_in = writeIn;
+  }
+
+  return submission;
+}
@@ -0,0 +1,596 @@
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { BallotRules, BallotSubmission, buildVoteRows, checkSelectionLimits, validateBallot } from '@/lib/voting/ballot';
+import type { AnonymousVoter } from '@/lib/voting/voter-identity';
+import { closePollIfComplete } from '@/lib/polls/close-conditions';
+import { QuestionRules, SurveyResponse, validateSurveyAnswer } from '@/lib/polls/survey';
+import { hasPasswordAccess } from '@/lib/voting/poll-password';
+import { VoterInvitation, findVoterInvitation, hasInvitationVoted } from '@/lib/voting/invitations';
+import { EligibilityRules, checkEligibility, hasEligibilityRules } from '@/lib/polls/eligibility';
+
+export type CastVoteResult =
+  | { success: true; closed?: boolean }
+  | { success: false; error: string; status: number };
+
+const POLL_RULE_COLUMNS =
+  'created_by, workspace_id, has_password, is_invite_only, allowed_email_domains, min_account_age_days, require_verified_email, is_draft, status, starts_at, expires_at, allow_multiple_votes, vote_type, score_max, min_selections, max_selections, vote_credits, allow_write_in, lock_votes, duplicate_protection, close_after_votes, close_after_voters, poll_questions (id, order_index, vote_type, score_max, min_selections, max_selections, vote_credits)';
+
+const fail = (error: string, status = 400): CastVoteResult => ({ success: false, error, status });
+
+/**
+ * Loads the voting rules of a poll that is open for voting.
+ * Returns a failure result when the poll is missing or trashed, an unpublished draft,
+ * not open yet, inactive or expired. Private polls, and unlisted polls the
+ * request holds no access token for, are hidden by row level security and
+ * count as missing. Password-protected polls need the password entered first.
+ */
+async function loadOpenPoll(supabase: SupabaseClient, pollId: string, voterId: string | null) {
+  const { data: poll, error: pollError } = await supabase
+    .from('polls')
+    .select(POLL_RULE_COLUMNS)
+    .eq('id', pollId)
+    .is('deleted_at', null)
+    .single();
+
+  if (pollError || !poll) {
+    return { poll: null, failure: fail('Poll not found', 404) };
+  }
+
+  if (poll.is_draft) {
+    return { poll: null, failure: fail('Poll is not published yet') };
+  }
+
+  if (!(await hasPasswordAccess(pollId, poll, voterId))) {
+    return { poll: null, failure: fail('This poll is password protected', 403) };
+  }
+
+  // Check poll is active and not expired
+  if (poll.status === 'inactive' && poll.starts_at && new Date(poll.starts_at) > new Date()) {
+    return { poll: null, failure: fail('Poll has not opened yet') };
+  }
+
+  if (poll.status !== 'active') {
+    return { poll: null, failure: fail('Poll is not active') };
+  }
+
+  if (poll.expires_at && new Date(poll.expires_at) < new Date()) {
+    return { poll: null, failure: fail('Poll has expired') };
+  }
+
+  return { poll, failure: null };
+}
+
+/**
+ * Finds the invitation a vote on an invite-only poll is recorded under.
+ * Returns a failure result when the voter isn't invited, or already voted
+ * under their invitation. Each invitation takes one ballot, on
+ * multiple-choice polls too, so a personal link can't be used to vote again.
+ */
+async function checkInvitation(
+  pollId: string,
+  poll: { is_invite_only: boolean },
+  voterId: string | null
+) {
+  if (!poll.is_invite_only) {
+    return { invitation: null, failure: null };
+  }
+
+  const invitation = await findVoterInvitation(pollId, voterId);
+  if (!invitation) {
+    return { invitation: null, failure: fail('Only invited people can vote on this poll', 403) };
+  }
+
+  if (await hasInvitationVoted(invitation.id)) {
+    return { invitation: null, failure: fail('You have already voted on this poll') };
+  }
+
+  return { invitation, failure: null };
+}
+
+/**
+ * Checks the signed-in voter against the poll's eligibility rules. The
+ * account is only looked up on polls that have rules.
+ *
+ * @returns A failure result explaining why the voter can't vote, or null
+ */
+async function checkVoterEligibility(
+  supabase: SupabaseClient,
+  poll: EligibilityRules
+): Promise<CastVoteResult | null> {
+  if (!hasEligibilityRules(poll)) {
+    return null;
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const reason = checkEligibility(poll, user ?? null);
+  return reason ? fail(reason, user ? 403 : 401) : null;
+}
+
+/**
+ * Columns that record a vote under an invitation. The invitee's address
+ * stays in poll_invitations: votes are readable by everyone who can see the
+ * results, so no address is stored on them, not even one the voter typed.
+ */
+function invitationColumns(invitation: Pick<VoterInvitation, 'id'> | null) {
+  return invitation ? { invitation_id: invitation.id, voter_email: null } : {};
+}
+
+/**
+ * Checks a ballot against the poll's rules and its options in the database.
+ *
+ * @returns A failure result, or null when the ballot can be recorded
+ */
+async function checkBallot(
+  supabase: SupabaseClient,
+  pollId: string,
+  poll: BallotRules,
+  submission: BallotSubmission
+): Promise<CastVoteResult | null> {
+  // Validate the ballot shape for this poll's vote type
+  const ballotError = validateBallot(poll, submission);
+  if (ballotError) {
+    return fail(ballotError);
+  }
+
+  // Validate all selected options exist and belong to this poll
+  // This prevents voting on options from other polls
+  // (a ballot with only a write-in answer has no options to check)
+  if (submission.option_ids.length > 0) {
+    const { data: options, error: optionsError } = await supabase
+      .from('poll_options')
+      .select('id')
+      .eq('poll_id', pollId)
+      .in('id', submission.option_ids);
+
+    if (optionsError || options.length !== submission.option_ids.length) {
+      return fail('Invalid options selected');
+    }
+  }
+
+  // Score ballots must rate every option, not just some of them
+  if (poll.vote_type === 'score') {
+    const { count, error: countError } = await supabase
+      .from('poll_options')
+      .select('id', { count: 'exact', head: true })
+      .eq('poll_id', pollId);
+
+    if (countError || count !== submission.option_ids.length) {
+      return fail('Please rate every option');
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks that an anonymous voter hasn't voted on the poll before. With
+ * duplicate protection on, anonymous voters get one ballot on every poll,
+ * including multiple-choice polls, where a second ballot would otherwise
+ * get around the poll's maximum selections.
+ *
+ * Anonymous voters are recognised by their browser cookie and, in strict
+ * mode, also by their IP address and user agent. Votes on polls with
+ * hidden results aren't readable, so the database function does the lookup.
+ * A failed lookup rejects the vote rather than risk a duplicate.
+ *
+ * @returns A failure result, or null when the vote can be recorded
+ */
+async function checkAnonymousRepeat(
+  supabase: SupabaseClient,
+  pollId: string,
+  poll: { duplicate_protection: string },
+  anonymousVoter: AnonymousVoter,
+  repeatError: string
+): Promise<CastVoteResult | null> {
+  if (poll.duplicate_protection === 'off') {
+    return null;
+  }
+
+  const { data: hasVoted, error: voteCheckError } = await supabase.rpc('has_anonymous_vote', {
+    poll_uuid: pollId,
+    token_hash: anonymousVoter.token,
+    fingerprint_hash: poll.duplicate_protection === 'strict' ? anonymousVoter.fingerprint : null,
+  });
+
+  if (voteCheckError) {
+    console.error('Error checking existing anonymous votes:', voteCheckError);
+    return fail('Failed to check for an earlier vote. Please try again.', 500);
+  }
+
+  return hasVoted ? fail(repeatError) : null;
+}
+
+/**
+ * Closes the poll when the vote just recorded meets one of its close
+ * conditions.
+ */
+async function closeIfComplete(
+  supabase: SupabaseClient,
+  pollId: string,
+  poll: { close_after_votes: number | null; close_after_voters: number | null }
+): Promise<CastVoteResult> {
+  return await closePollIfComplete(supabase, pollId, poll) ? { success: true, closed: true } : { success: true };
+}
+
+/**
+ * Validates and records one ballot for a poll.
+ *
+ * This is the shared core of the submitVote server action and the
+ * POST /api/polls/[id]/vote route:
+ * 1. Validates the poll exists and is active/not expired
+ * 2. Checks the voter against the poll's eligibility rules
+ * 3. Checks the ballot shape against the poll's vote type
+ * 4. Verifies the selected options belong to the poll
+ * 5. Enforces single-vote restrictions for authenticated voters, and one
+ *    ballot per anonymous voter under the poll's duplicate protection
+ * 6. On invite-only polls, finds the voter's invitation and allows one
+ *    ballot per invitation
+ * 7. Inserts one vote row per selected option (per comparison on pairwise polls),
+ *    tagged with the share link the voter arrived through and their invitation
+ * 8. Closes the poll when the vote meets one of its close conditions,
+ *    reported as `closed` on the result
+ *
+ * Failures are returned rather than thrown, with the HTTP status the API
+ * route should respond with.
+ *
+ * @param supabase - Request-scoped Supabase client
+ * @param pollId - The poll being voted on
+ * @param submission - The voter's ballot and optional contact details
+ * @param voterId - The authenticated user's ID, or null for anonymous voters
+ * @param anonymousVoter - The anonymous voter's per-poll identity, when not signed in
+ * @param shareId - The share link the voter arrived through, if any
+ */
+export async function castVote(
+  supabase: SupabaseClient,
+  pollId: string,
+  submission: BallotSubmission,
+  voterId: string | null,
+  anonymousVoter: AnonymousVoter | null = null,
+  shareId: string | null = null
+): Promise<CastVoteResult> {
+  const { poll, failure } = await loadOpenPoll(supabase, pollId, voterId);
+  if (!poll) {
+    return failure;
+  }
+
+  const eligibilityFailure = await checkVoterEligibility(supabase, poll);
+  if (eligibilityFailure) {
+    return eligibilityFailure;
+  }
+
+  // Surveys take a ballot per question, recorded by castSurveyResponse
+  if (poll.poll_questions?.length) {
+    return fail('Please answer every question of this survey');
+  }
+
+  const ballotFailure = await checkBallot(supabase, pollId, poll, submission);
+  if (ballotFailure) {
+    return ballotFailure;
+  }
+
+  // Check existing votes for authenticated users
+  // This enforces single-vote restrictions when applicable
+  if (voterId) {
+    const { data: existingVotes, error: voteCheckError } = await supabase
+      .from('votes')
+      .select('id')
+      .eq('poll_id', pollId)
+      .eq('voter_id', voterId);
+
+    if (voteCheckError) {
+      console.error('Error checking existing votes:', voteCheckError);
+    } else if (existingVotes && existingVotes.length > 0) {
+      if (!poll.allow_multiple_votes) {
+        return fail('You have already voted on this poll');
+      }
+
+      // Approvals from earlier submissions count towards the maximum
+      if (poll.max_selections !== null && poll.max_selections !== undefined) {
+        const limitError = checkSelectionLimits(
+          { ...poll, min_selections: 1 },
+          existingVotes.length + submission.option_ids.length + (submission.write_in?.trim() ? 1 : 0)
+        );
+        if (limitError) {
+          return fail(limitError);
+        }
+      }
+    }
+  }
+
+  if (!voterId && anonymousVoter) {
+    const repeatFailure = await checkAnonymousRepeat(supabase, pollId, poll, anonymousVoter, 'You have already voted on this poll');
+    if (repeatFailure) {
+      return repeatFailure;
+    }
+  }
+
+  const { invitation, failure: invitationFailure } = await checkInvitation(pollId, poll, voterId);
+  if (invitationFailure) {
+    return invitationFailure;
+  }
+
+  // Each selected option gets its own vote record, grouped by a shared ballot ID
+  const votesToInsert = buildVoteRows(pollId, poll, submission, voterId, anonymousVoter)
+    .map(row => ({ ...row, ...(shareId ? { share_id: shareId } : {}), ...invitationColumns(invitation) }));
+
+  const { error: insertError } = await supabase
+    .from('votes')
+    .insert(votesToInsert);
+
+  if (insertError) {
+    return fail(`Failed to submit vote: ${insertError.message}`, 500);
+  }
+
+  // Polls with a turnout target close themselves once it is reached
+  return closeIfComplete(supabase, pollId, poll);
+}
+
+/**
+ * Validates and records one response to a survey: a ballot for every
+ * question, inserted together so a response is never half recorded.
+ *
+ * Backs POST /api/polls/[id]/vote when the body carries `answers`, and the
+ * submitSurveyResponse server action. The poll, eligibility and
+ * duplicate-vote checks are those of castVote; each answer is then checked against its own
+ * question's voting method and options. Every row is tagged with its
+ * question and all of them share one ballot ID, so a response counts as a
+ * single ballot towards the poll's turnout.
+ *
+ * @param supabase - Request-scoped Supabase client
+ * @param pollId - The survey being answered
+ * @param response - The voter's answers and optional contact details
+ * @param voterId - The authenticated user's ID, or null for anonymous voters
+ * @param anonymousVoter - The anonymous voter's per-poll identity, when not signed in
+ * @param shareId - The share link the voter arrived through, if any
+ */
+export async function castSurveyResponse(
+  supabase: SupabaseClient,
+  pollId: string,
+  response: SurveyResponse,
+  voterId: string | null,
+  anonymousVoter: AnonymousVoter | null = null,
+  shareId: string | null = null
+): Promise<CastVoteResult> {
+  const { poll, failure } = await loadOpenPoll(supabase, pollId, voterId);
+  if (!poll) {
+    return failure;
+  }
+
+  const eligibilityFailure = await checkVoterEligibility(supabase, poll);
+  if (eligibilityFailure) {
+    return eligibilityFailure;
+  }
+
+  const questions: QuestionRules[] = (poll.poll_questions ?? [])
+    .slice()
+    .sort((a: QuestionRules, b: QuestionRules) => a.order_index - b.order_index);
+
+  if (questions.length === 0) {
+    return fail('This poll is not a survey');
+  }
+
+  const answers = response.answers ?? {};
+  if (Object.keys(answers).some(id => !questions.some(question => question.id === id))) {
+    return fail('Invalid question answered');
+  }
+
+  const { data: options, error: optionsError } = await supabase
+    .from('poll_options')
+    .select('id, question_id')
+    .eq('poll_id', pollId);
+
+  if (optionsError) {
+    return fail(`Failed to load survey options: ${optionsError.message}`, 500);
+  }
+
+  for (const [index, question] of questions.entries()) {
+    const answer = answers[question.id];
+    if (!answer) {
+      return fail(`Please answer question ${index + 1}`);
+    }
+
+    const optionIds = (options ?? [])
+      .filter((option: { question_id: string | null }) => option.question_id === question.id)
+      .map((option: { id: string }) => option.id);
+    const answerError = validateSurveyAnswer(question, answer, optionIds);
+    if (answerError) {
+      return fail(`Question ${index + 1}: ${answerError}`);
+    }
+  }
+
+  if (voterId && !poll.allow_multiple_votes) {
+    const { data: existingVotes, error: voteCheckError } = await supabase
+      .from('votes')
+      .select('id')
+      .eq('poll_id', pollId)
+      .eq('voter_id', voterId)
+      .limit(1);
+
+    if (voteCheckError) {
+      console.error('Error checking existing votes:', voteCheckError);
+    } else if (existingVotes && existingVotes.length > 0) {
+      return fail('You have already answered this survey');
+    }
+  }
+
+  if (!voterId && anonymousVoter) {
+    const repeatFailure = await checkAnonymousRepeat(supabase, pollId, poll, anonymousVoter, 'You have already answered this survey');
+    if (repeatFailure) {
+      return repeatFailure;
+    }
+  }
+
+  const { invitation, failure: invitationFailure } = await checkInvitation(pollId, poll, voterId);
+  if (invitationFailure) {
+    return invitationFailure;
+  }
+
+  const ballotId = randomUUID();
+  const votesToInsert = questions.flatMap(question => buildVoteRows(
+    pollId,
+    question,
+    { ...answers[question.id], voter_name: response.voter_name, voter_email: response.voter_email },
+    voterId,
+    anonymousVoter,
+    ballotId
+  ).map(row => ({
+    ...row,
+    question_id: question.id,
+    ...(shareId ? { share_id: shareId } : {}),
+    ...invitationColumns(invitation),
+  })));
+
+  const { error: insertError } = await supabase
+    .from('votes')
+    .insert(votesToInsert);
+
+  if (insertError) {
+    return fail(`Failed to submit response: ${insertError.message}`, 500);
+  }
+
+  return closeIfComplete(supabase, pollId, poll);
+}
+
+/**
+ * Replaces an authenticated voter's vote with a new ballot.
+ *
+ * Backs PUT /api/polls/[id]/vote. The poll must still be open and must not
+ * lock votes once cast, and the voter must still meet its eligibility rules
+ * and, on invite-only polls, still hold their invitation. The voter's existing rows are removed and the new
+ * ballot inserted, still credited to the share link and invitation of the
+ * original vote; if the insert fails the previous rows are put back so the voter never
+ * ends up without a vote.
+ *
+ * @param supabase - Request-scoped Supabase client
+ * @param pollId - The poll being voted on
+ * @param submission - The voter's new ballot
+ * @param voterId - The authenticated user's ID
+ */
+export async function changeVote(
+  supabase: SupabaseClient,
+  pollId: string,
+  submission: BallotSubmission,
+  voterId: string | null
+): Promise<CastVoteResult> {
+  if (!voterId) {
+    return fail('You must be logged in to change your vote', 401);
+  }
+
+  const { poll, failure } = await loadOpenPoll(supabase, pollId, voterId);
+  if (!poll) {
+    return failure;
+  }
+
+  const eligibilityFailure = await checkVoterEligibility(supabase, poll);
+  if (eligibilityFailure) {
+    return eligibilityFailure;
+  }
+
+  if (poll.lock_votes) {
+    return fail('Votes on this poll are locked once cast', 403);
+  }
+
+  if (poll.poll_questions?.length) {
+    return fail('Survey answers can\'t be changed. Withdraw them and answer again instead.');
+  }
+
+  const ballotFailure = await checkBallot(supabase, pollId, poll, submission);
+  if (ballotFailure) {
+    return ballotFailure;
+  }
+
+  const { data: previousVotes, error: fetchError } = await supabase
+    .from('votes')
+    .select('*')
+    .eq('poll_id', pollId)
+    .eq('voter_id', voterId);
+
+  if (fetchError) {
+    return fail(`Failed to change vote: ${fetchError.message}`, 500);
+  }
+
+  if (!previousVotes || previousVotes.length === 0) {
+    return fail('You have not voted on this poll', 404);
+  }
+
+  // The vote stays under the invitation it was cast with, which must still stand
+  const invitationId: string | null = previousVotes[0].invitation_id ?? null;
+  if (poll.is_invite_only) {
+    const invitation = await findVoterInvitation(pollId, voterId);
+    if (!invitation || invitation.id !== invitationId) {
+      return fail('Only invited people can vote on this poll', 403);
+    }
+  }
+
+  const { error: deleteError } = await supabase
+    .from('votes')
+    .delete()
+    .eq('poll_id', pollId)
+    .eq('voter_id', voterId);
+
+  if (deleteError) {
+    return fail(`Failed to change vote: ${deleteError.message}`, 500);
+  }
+
+  const { error: insertError } = await supabase
+    .from('votes')
+    .insert(buildVoteRows(pollId, poll, submission, voterId).map(row => ({
+      ...row,
+      share_id: previousVotes[0].share_id ?? null,
+      ...invitationColumns(invitationId ? { id: invitationId } : null),
+    })));
+
+  if (insertError) {
+    // Restore the previous ballot so a failed change doesn't lose the vote
+    await supabase.from('votes').insert(previousVotes);
+    return fail(`Failed to change vote: ${insertError.message}`, 500);
+  }
+
+  return { success: true };
+}
+
+/**
+ * Withdraws an authenticated voter's vote from a poll.
+ *
+ * Backs DELETE /api/polls/[id]/vote, with the same open-poll and vote-lock
+ * checks as changing a vote.
+ *
+ * @param supabase - Request-scoped Supabase client
+ * @param pollId - The poll the vote was cast on
+ * @param voterId - The authenticated user's ID
+ */
+export async function retractVote(
+  supabase: SupabaseClient,
+  pollId: string,
+  voterId: string | null
+): Promise<CastVoteResult> {
+  if (!voterId) {
+    return fail('You must be logged in to withdraw your vote', 401);
+  }
+
+  const { poll, failure } = await loadOpenPoll(supabase, pollId, voterId);
+  if (!poll) {
+    return failure;
+  }
+
+  if (poll.lock_votes) {
+    return fail('Votes on this poll are locked once cast', 403);
+  }
+
+  const { data: deleted, error: deleteError } = await supabase
+    .from('votes')
+    .delete()
+    .eq('poll_id', pollId)
+    .eq('voter_id', voterId)
+    .select('id');
+
+  if (deleteError) {
+    return fail(`Failed to withdraw vote: ${deleteError.message}`, 500);
+  }
+
+  if (!deleted || deleted.length === 0) {
+    return fail('You have not voted on this poll', 404);
+  }
+
+  return { success: true };
+}
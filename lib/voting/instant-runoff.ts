@@ -0,0 +1,117 @@
+/**
+ * Instant-runoff tallying for ranked-choice polls.
+ *
+ * Each ballot is an ordered list of option IDs (first preference first).
+ * Every round counts each ballot towards its highest-ranked option that is
+ * still in the race. If an option holds a strict majority of the continuing
+ * ballots it wins; otherwise the option(s) with the fewest votes are
+ * eliminated and their ballots transfer to the next preference. Ballots with
+ * no remaining preferences are counted as exhausted.
+ */
+
+export interface RankedVoteRow {
+  ballot_id: string | null;
+  option_id: string;
+  rank: number | null;
+}
+
+export interface RunoffRound {
+  round: number;
+  tallies: Record<string, number>;
+  eliminated: string[];
+  exhausted: number;
+}
+
+export interface RunoffResult {
+  rounds: RunoffRound[];
+  winner: string | null;
+  totalBallots: number;
+}
+
+/**
+ * Groups stored vote rows into ordered ballots.
+ *
+ * Rows sharing a ballot_id belong to the same submission and are ordered by
+ * rank. Rows without a ballot_id cannot be grouped and are treated as
+ * single-preference ballots.
+ */
+export function groupRankedBallots(rows: RankedVoteRow[]): string[][] {
+  const ballots = new Map<string, RankedVoteRow[]>();
+  const ungrouped: string[][] = [];
+
+  for (const row of rows) {
+    if (!row.ballot_id) {
+      ungrouped.push([row.option_id]);
+      continue;
+    }
+    const ballot = ballots.get(row.ballot_id) ?? [];
+    ballot.push(row);
+    ballots.set(row.ballot_id, ballot);
+  }
+
+  const grouped = Array.from(ballots.values()).map(ballot =>
+    ballot
+      .slice()
+      .sort((a, b) => (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER))
+      .map(row => row.option_id)
+  );
+
+  return [...grouped, ...ungrouped];
+}
+
+/**
+ * Runs an instant-runoff election over the given ballots.
+ *
+ * When every remaining option is tied the count stops without a winner,
+ * since eliminating all of them would leave nothing to elect.
+ *
+ * @param optionIds - All options on the poll, in display order
+ * @param ballots - Ordered preferences per ballot, first choice first
+ * @returns The rounds of the count and the winning option ID, if any
+ */
+export function tallyInstantRunoff(optionIds: string[], ballots: string[][]): RunoffResult {
+  const active = new Set(optionIds);
+  const rounds: RunoffRound[] = [];
+
+  if (ballots.length === 0 || active.size === 0) {
+    return { rounds, winner: null, totalBallots: ballots.length };
+  }
+
+  while (active.size > 0) {
+    const tallies: Record<string, number> = {};
+    active.forEach(id => { tallies[id] = 0; });
+
+    let exhausted = 0;
+    for (const ballot of ballots) {
+      const choice = ballot.find(id => active.has(id));
+      if (choice) {
+        tallies[choice] += 1;
+      } else {
+        exhausted += 1;
+      }
+    }
+
+    const continuing = ballots.length - exhausted;
+    const round: RunoffRound = { round: rounds.length + 1, tallies, eliminated: [], exhausted };
+    rounds.push(round);
+
+    const counts = Object.entries(tallies);
+    const leader = counts.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+
+    if (active.size === 1 || (continuing > 0 && leader[1] * 2 > continuing)) {
+      return { rounds, winner: leader[0], totalBallots: ballots.length };
+    }
+
+    const fewest = Math.min(...counts.map(([, count]) => count));
+    const trailing = counts.filter(([, count]) => count === fewest).map(([id]) => id);
+
+    if (trailing.length === active.size) {
+      return { rounds, winner: null, totalBallots: ballots.length };
+    }
+
+    round.eliminated = trailing;
+    trailing.forEach(id => active.delete(id));
+  }
+
+  return { rounds, winner: null, totalBallots: ballots.length };
+}
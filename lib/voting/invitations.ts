@@ -0,0 +1,147 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { invitationCookieName } from '@/lib/polls/invitations';
+import { PollInvitation } from '@/lib/types/database';
+
+/**
+ * Server side of invite-only polls.
+ *
+ * Invitation links carry the invitation's ID with an HMAC keyed by a secret
+ * kept with the invitation, so they can't be made up for other invitations
+ * and the database can check them too. Voters can't read the invitation
+ * list, so invitations are looked up with the service role.
+ */
+
+/** The invitation a vote is recorded under. */
+export interface VoterInvitation {
+  id: string;
+  email: string;
+}
+
+type SignedInvitation = Pick<PollInvitation, 'id' | 'secret'>;
+
+// Matches the signature the database computes in is_poll_invitation
+function invitationSignature(invitation: SignedInvitation) {
+  return createHmac('sha256', invitation.secret).update(`invitation:${invitation.id}`).digest('hex');
+}
+
+/**
+ * Signs an invitation's ID for its personal link.
+ */
+export function signInvitationToken(invitation: SignedInvitation) {
+  return `${invitation.id}.${invitationSignature(invitation)}`;
+}
+
+/**
+ * The invitation an invitation link or cookie names, before its signature
+ * is checked.
+ *
+ * @returns The invitation ID, or null when the token is missing or malformed
+ */
+export function invitationIdFromToken(value: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const separator = value.lastIndexOf('.');
+  return separator > 0 ? value.slice(0, separator) : null;
+}
+
+/**
+ * Checks an invitation link's or cookie's signature against the invitation
+ * it names.
+ */
+export function verifyInvitationToken(value: string | undefined, invitation: SignedInvitation) {
+  if (!value || invitationIdFromToken(value) !== invitation.id) {
+    return false;
+  }
+
+  const signature = Buffer.from(value.slice(invitation.id.length + 1));
+  const expected = Buffer.from(invitationSignature(invitation));
+
+  return signature.length === expected.length && timingSafeEqual(signature, expected);
+}
+
+/**
+ * Finds the invitation the current request may vote under on an
+ * invite-only poll: the one for the signed-in voter's confirmed email
+ * address, or else the one whose link the browser opened.
+ * Must be called from a server action or route handler.
+ *
+ * @param voterId - The signed-in user, if any
+ * @returns The invitation, or null when the voter isn't invited
+ */
+export async function findVoterInvitation(pollId: string, voterId: string | null): Promise<VoterInvitation | null> {
+  const supabase = createAdminClient();
+
+  if (voterId) {
+    const { data: { user }, error: userError } = await supabase.auth.admin.getUserById(voterId);
+
+    if (userError) {
+      throw new Error(`Failed to check invitation: ${userError.message}`);
+    }
+
+    // The database only accepts the address once it's confirmed
+    if (user?.email && user.email_confirmed_at) {
+      const { data: invitation, error } = await supabase
+        .from('poll_invitations')
+        .select('id, email')
+        .eq('poll_id', pollId)
+        .eq('email', user.email.toLowerCase())
+        .is('revoked_at', null)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to check invitation: ${error.message}`);
+      }
+
+      if (invitation) {
+        return invitation;
+      }
+    }
+  }
+
+  const cookieStore = await cookies();
+  const token = cookieStore.get(invitationCookieName(pollId))?.value;
+  const invitationId = invitationIdFromToken(token);
+  if (!invitationId) {
+    return null;
+  }
+
+  const { data: invitation, error } = await supabase
+    .from('poll_invitations')
+    .select('id, email, secret')
+    .eq('id', invitationId)
+    .eq('poll_id', pollId)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check invitation: ${error.message}`);
+  }
+
+  if (!invitation || !verifyInvitationToken(token, invitation)) {
+    return null;
+  }
+
+  return { id: invitation.id, email: invitation.email };
+}
+
+/**
+ * Whether a vote was already recorded under an invitation. Votes of polls
+ * with hidden results aren't readable by voters, so the service role
+ * reads them.
+ */
+export async function hasInvitationVoted(invitationId: string) {
+  const { count, error } = await createAdminClient()
+    .from('votes')
+    .select('id', { count: 'exact', head: true })
+    .eq('invitation_id', invitationId);
+
+  if (error) {
+    throw new Error(`Failed to check invitation: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
@@ -0,0 +1,241 @@
+/**
+ * Pairwise comparison tallying and pair selection.
+ *
+ * Voters are shown two options at a time and pick the one they prefer, so
+ * long option lists never have to be ranked in one go. Each comparison is
+ * stored as a vote row for the preferred option with the other option as
+ * its opponent.
+ *
+ * The ranking is built by repeatedly taking the Condorcet winner of the
+ * options still unranked: the option that beats every other one head to
+ * head. Once no such option exists (a preference cycle, or pairs nobody
+ * has compared yet) the rest are ordered by Bradley-Terry strength,
+ * reported on the familiar Elo scale.
+ */
+
+export interface PairwiseComparison {
+  winner_id: string;
+  loser_id: string;
+}
+
+export interface PairwiseVoteRow {
+  option_id: string;
+  opponent_id: string | null;
+}
+
+/** Head-to-head wins: matrix[a][b] is how often a was preferred over b. */
+export type WinMatrix = Record<string, Record<string, number>>;
+
+export interface PairwiseRanking {
+  option_id: string;
+  /** Bradley-Terry strength on the Elo scale (1500 = average). */
+  rating: number;
+  wins: number;
+  losses: number;
+  /** Whether the option was placed as the Condorcet winner of the options below it. */
+  condorcet: boolean;
+}
+
+export interface PairwiseResult {
+  ranking: PairwiseRanking[];
+  condorcetWinner: string | null;
+  matrix: WinMatrix;
+  totalComparisons: number;
+}
+
+const ELO_BASE = 1500;
+const ELO_SCALE = 400;
+const BRADLEY_TERRY_ITERATIONS = 100;
+
+/**
+ * Turns stored vote rows back into comparisons.
+ * Rows without an opponent were not cast on a pairwise ballot and are skipped.
+ */
+export function toComparisons(rows: PairwiseVoteRow[]): PairwiseComparison[] {
+  return rows
+    .filter(row => row.opponent_id)
+    .map(row => ({ winner_id: row.option_id, loser_id: row.opponent_id as string }));
+}
+
+/**
+ * Counts head-to-head wins between every pair of options.
+ * Comparisons involving unknown options are ignored.
+ */
+export function buildWinMatrix(optionIds: string[], comparisons: PairwiseComparison[]): WinMatrix {
+  const matrix: WinMatrix = {};
+  optionIds.forEach(a => {
+    matrix[a] = {};
+    optionIds.forEach(b => {
+      if (a !== b) {
+        matrix[a][b] = 0;
+      }
+    });
+  });
+
+  for (const { winner_id, loser_id } of comparisons) {
+    if (matrix[winner_id] && loser_id in matrix[winner_id]) {
+      matrix[winner_id][loser_id] += 1;
+    }
+  }
+
+  return matrix;
+}
+
+/**
+ * Finds the option that beats every other candidate head to head.
+ *
+ * @param candidates - The options to consider
+ * @returns The Condorcet winner, or null if there is none
+ */
+export function findCondorcetWinner(candidates: string[], matrix: WinMatrix): string | null {
+  return candidates.find(a =>
+    candidates.every(b => a === b || matrix[a][b] > matrix[b][a])
+  ) ?? null;
+}
+
+/**
+ * Estimates Bradley-Terry strengths with the MM algorithm and converts them
+ * to Elo-style ratings.
+ *
+ * Every option gets one virtual win and one virtual loss against an average
+ * opponent, which keeps options that never won (or never lost) at a finite
+ * rating and pulls sparsely compared options towards the middle.
+ */
+export function bradleyTerryRatings(optionIds: string[], matrix: WinMatrix): Record<string, number> {
+  const strength: Record<string, number> = {};
+  optionIds.forEach(id => { strength[id] = 1; });
+
+  for (let iteration = 0; iteration < BRADLEY_TERRY_ITERATIONS; iteration++) {
+    const next: Record<string, number> = {};
+
+    for (const a of optionIds) {
+      let wins = 1;
+      let denominator = 2 / (strength[a] + 1);
+      for (const b of optionIds) {
+        if (a === b) {
+          continue;
+        }
+        wins += matrix[a][b];
+        const games = matrix[a][b] + matrix[b][a];
+        if (games > 0) {
+          denominator += games / (strength[a] + strength[b]);
+        }
+      }
+      next[a] = wins / denominator;
+    }
+
+    // Normalise to a geometric mean of 1 so the average option sits at the base rating
+    const logMean = optionIds.reduce((sum, id) => sum + Math.log(next[id]), 0) / optionIds.length;
+    optionIds.forEach(id => { strength[id] = next[id] / Math.exp(logMean); });
+  }
+
+  const ratings: Record<string, number> = {};
+  optionIds.forEach(id => {
+    ratings[id] = Math.round(ELO_BASE + ELO_SCALE * Math.log10(strength[id]));
+  });
+  return ratings;
+}
+
+/**
+ * Ranks all options from the stored comparisons.
+ *
+ * @param optionIds - All options on the poll, in display order
+ * @param comparisons - Every comparison cast on the poll
+ * @returns The full ranking, the overall Condorcet winner and the win matrix
+ */
+export function tallyPairwise(optionIds: string[], comparisons: PairwiseComparison[]): PairwiseResult {
+  const matrix = buildWinMatrix(optionIds, comparisons);
+  const ratings = bradleyTerryRatings(optionIds, matrix);
+
+  const entry = (id: string, condorcet: boolean): PairwiseRanking => ({
+    option_id: id,
+    rating: ratings[id],
+    wins: Object.values(matrix[id]).reduce((sum, count) => sum + count, 0),
+    losses: optionIds.reduce((sum, other) => sum + (other === id ? 0 : matrix[other][id]), 0),
+    condorcet,
+  });
+
+  const ranking: PairwiseRanking[] = [];
+  let remaining = [...optionIds];
+
+  while (remaining.length > 0) {
+    const winner = comparisons.length > 0 ? findCondorcetWinner(remaining, matrix) : null;
+    if (!winner) {
+      break;
+    }
+    ranking.push(entry(winner, true));
+    remaining = remaining.filter(id => id !== winner);
+  }
+
+  remaining
+    .sort((a, b) => ratings[b] - ratings[a])
+    .forEach(id => ranking.push(entry(id, false)));
+
+  return {
+    ranking,
+    condorcetWinner: ranking[0]?.condorcet ? ranking[0].option_id : null,
+    matrix,
+    totalComparisons: comparisons.length,
+  };
+}
+
+/**
+ * Key identifying an unordered pair of options.
+ */
+export function pairKey(a: string, b: string) {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * Picks the next pair to show a voter.
+ *
+ * Pairs the voter has already seen are never repeated. Among the rest the
+ * pair whose options have appeared least often on this ballot wins, so
+ * every option gets shown early on; ties go to the pair whose current
+ * ratings are closest, since that is the comparison the results are least
+ * sure about.
+ *
+ * @param optionIds - All options on the poll
+ * @param seen - Pair keys the voter has already compared or skipped
+ * @param ratings - Current ratings from the poll results, if loaded
+ * @returns The next pair, or null when every pair has been seen
+ */
+export function selectNextPair(
+  optionIds: string[],
+  seen: Set<string>,
+  ratings: Record<string, number> = {}
+): [string, string] | null {
+  const appearances: Record<string, number> = {};
+  optionIds.forEach(id => { appearances[id] = 0; });
+  seen.forEach(key => {
+    key.split(':').forEach(id => {
+      if (id in appearances) {
+        appearances[id] += 1;
+      }
+    });
+  });
+
+  let best: [string, string] | null = null;
+  let bestExposure = Infinity;
+  let bestGap = Infinity;
+
+  for (let i = 0; i < optionIds.length; i++) {
+    for (let j = i + 1; j < optionIds.length; j++) {
+      const a = optionIds[i];
+      const b = optionIds[j];
+      if (seen.has(pairKey(a, b))) {
+        continue;
+      }
+
+      const exposure = appearances[a] + appearances[b];
+      const gap = Math.abs((ratings[a] ?? ELO_BASE) - (ratings[b] ?? ELO_BASE));
+      if (exposure < bestExposure || (exposure === bestExposure && gap < bestGap)) {
+        best = [a, b];
+        bestExposure = exposure;
+        bestGap = gap;
+      }
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,171 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { cookies } from 'next/headers';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { POLL_PASSWORD_COOKIE_MAX_AGE, pollPasswordCookieName } from '@/lib/polls/password';
+import { getPollRole } from '@/lib/polls/members';
+
+/**
+ * Server side of password-protected polls.
+ *
+ * Passwords are stored as salted scrypt hashes in poll_passwords, which
+ * only the poll's creator and the service role can read. A correct password
+ * earns a cookie holding an expiry and an HMAC keyed by the stored hash, so
+ * grants can't be forged without the hash and stop working as soon as the
+ * password changes.
+ */
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 32;
+
+/**
+ * Hashes an access password for storage.
+ */
+export async function hashPollPassword(password: string) {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * Checks a password against a stored hash.
+ */
+export async function verifyPollPasswordHash(password: string, storedHash: string) {
+  const [scheme, salt, hash] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function grantSignature(pollId: string, passwordHash: string, expiresAt: number) {
+  return createHmac('sha256', passwordHash).update(`${pollId}:${expiresAt}`).digest('hex');
+}
+
+/**
+ * Signs a grant of access to a poll until `expiresAt` (milliseconds since
+ * the epoch), for storage in the password cookie.
+ */
+export function signPasswordGrant(pollId: string, passwordHash: string, expiresAt: number) {
+  return `${expiresAt}.${grantSignature(pollId, passwordHash, expiresAt)}`;
+}
+
+/**
+ * Checks a password cookie's grant: it must be signed with the poll's
+ * current password hash and not have expired.
+ */
+export function verifyPasswordGrant(value: string, pollId: string, passwordHash: string, now = Date.now()) {
+  const separator = value.indexOf('.');
+  const expiresAt = Number(value.slice(0, separator));
+  if (separator <= 0 || !Number.isFinite(expiresAt) || expiresAt <= now) {
+    return false;
+  }
+
+  const signature = Buffer.from(value.slice(separator + 1));
+  const expected = Buffer.from(grantSignature(pollId, passwordHash, expiresAt));
+  return signature.length === expected.length && timingSafeEqual(signature, expected);
+}
+
+async function readPasswordHash(pollId: string): Promise<string | null> {
+  const { data, error } = await createAdminClient()
+    .from('poll_passwords')
+    .select('password_hash')
+    .eq('poll_id', pollId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check poll password: ${error.message}`);
+  }
+
+  return data?.password_hash ?? null;
+}
+
+/**
+ * Sets, replaces or removes a poll's access password, following the
+ * `password` field of the poll form: a string sets it, null removes it and
+ * undefined leaves it as it is.
+ *
+ * @param supabase - Request-scoped Supabase client of the poll's creator
+ */
+export async function syncPollPassword(
+  supabase: SupabaseClient,
+  pollId: string,
+  password: string | null | undefined
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (password === undefined) {
+    return { success: true };
+  }
+
+  const { error } = password === null
+    ? await supabase.from('poll_passwords').delete().eq('poll_id', pollId)
+    : await supabase
+      .from('poll_passwords')
+      .upsert({ poll_id: pollId, password_hash: await hashPollPassword(password) }, { onConflict: 'poll_id' });
+
+  if (error) {
+    return { success: false, error: `Failed to save poll password: ${error.message}` };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Whether the current request may open a poll that has a password: the
+ * creator and the poll's members always can, everyone else once they
+ * entered the password.
+ * Must be called from a server action or route handler.
+ *
+ * @param poll - The poll's creator, workspace and whether it has a password
+ * @param userId - The signed-in user, if any
+ */
+export async function hasPasswordAccess(
+  pollId: string,
+  poll: { created_by: string; workspace_id: string | null; has_password: boolean },
+  userId: string | null
+) {
+  if (!poll.has_password || userId === poll.created_by) {
+    return true;
+  }
+
+  if (userId && await getPollRole(createAdminClient(), { id: pollId, created_by: poll.created_by, workspace_id: poll.workspace_id }, userId)) {
+    return true;
+  }
+
+  const cookieStore = await cookies();
+  const grant = cookieStore.get(pollPasswordCookieName(pollId))?.value;
+  if (!grant) {
+    return false;
+  }
+
+  const passwordHash = await readPasswordHash(pollId);
+  return passwordHash !== null && verifyPasswordGrant(grant, pollId, passwordHash);
+}
+
+/**
+ * Checks a visitor's password for a poll and, when it's right, grants
+ * their browser access for a while.
+ * Must be called from a server action or route handler.
+ *
+ * @returns Whether the password was right
+ */
+export async function grantPasswordAccess(pollId: string, password: string) {
+  const passwordHash = await readPasswordHash(pollId);
+  if (!passwordHash || !(await verifyPollPasswordHash(password, passwordHash))) {
+    return false;
+  }
+
+  const expiresAt = Date.now() + POLL_PASSWORD_COOKIE_MAX_AGE * 1000;
+  const cookieStore = await cookies();
+  cookieStore.set(pollPasswordCookieName(pollId), signPasswordGrant(pollId, passwordHash, expiresAt), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: POLL_PASSWORD_COOKIE_MAX_AGE,
+    path: '/',
+  });
+  return true;
+}
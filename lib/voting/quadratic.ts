@@ -0,0 +1,57 @@
+/**
+ * Quadratic voting for budget-style prioritisation.
+ *
+ * Each voter has a fixed credit budget. Casting k votes on one option costs
+ * k² credits, so strong preferences get expensive quickly. Votes may be
+ * negative to vote against an option, at the same quadratic cost.
+ */
+
+export interface QuadraticVoteRow {
+  option_id: string;
+  weight: number | null;
+}
+
+export interface OptionQuadraticTally {
+  option_id: string;
+  /** Net effective votes: votes for minus votes against. */
+  votes: number;
+  votesFor: number;
+  votesAgainst: number;
+  voters: number;
+}
+
+/**
+ * Total credits spent by one ballot's allocation.
+ */
+export function quadraticCost(allocations: Record<string, number>): number {
+  return Object.values(allocations).reduce((sum, votes) => sum + votes * votes, 0);
+}
+
+/**
+ * Aggregates effective votes per option across all ballots.
+ *
+ * @param optionIds - All options on the poll, in display order
+ * @param rows - Stored vote rows carrying the number of votes bought
+ * @returns One entry per option, in the order of `optionIds`
+ */
+export function tallyQuadratic(optionIds: string[], rows: QuadraticVoteRow[]): OptionQuadraticTally[] {
+  const tallies = new Map<string, OptionQuadraticTally>(
+    optionIds.map(id => [id, { option_id: id, votes: 0, votesFor: 0, votesAgainst: 0, voters: 0 }])
+  );
+
+  for (const row of rows) {
+    const tally = tallies.get(row.option_id);
+    if (!tally || !row.weight) {
+      continue;
+    }
+    tally.votes += row.weight;
+    if (row.weight > 0) {
+      tally.votesFor += row.weight;
+    } else {
+      tally.votesAgainst -= row.weight;
+    }
+    tally.voters += 1;
+  }
+
+  return optionIds.map(id => tallies.get(id)!);
+}
@@ -0,0 +1,73 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { readAnonymousVoterToken } from '@/lib/voting/voter-identity';
+import { hasPasswordAccess } from '@/lib/voting/poll-password';
+
+/**
+ * Whether the current request may see a poll's results, and the client to
+ * read its votes with.
+ */
+export interface ResultsAccess {
+  visible: boolean;
+  client: SupabaseClient;
+  /** The anonymous voter's token hash, when their vote is what makes the results visible. */
+  voterTokenHash: string | null;
+}
+
+/**
+ * Checks a poll's results visibility for the current request.
+ *
+ * Polls can hide results until the viewer has voted, until the poll closes
+ * or from everyone but the creator. The database applies the same rule in
+ * get_poll_results and the votes select policy, so signed-in viewers read
+ * results with their own client. Anonymous voters are only recognised by
+ * their voter cookie, which the database can't read: once their vote is
+ * confirmed, the votes are read with the service role instead. Results of
+ * password-protected polls stay hidden until the password was entered.
+ *
+ * @param supabase - Request-scoped Supabase client
+ * @param pollId - The poll whose results are requested
+ */
+export async function getResultsAccess(supabase: SupabaseClient, pollId: string): Promise<ResultsAccess> {
+  const hidden: ResultsAccess = { visible: false, client: supabase, voterTokenHash: null };
+
+  const { data: poll, error: pollError } = await supabase
+    .from('polls')
+    .select('created_by, workspace_id, has_password')
+    .eq('id', pollId)
+    .maybeSingle();
+  if (pollError) {
+    throw new Error(`Failed to check results visibility: ${pollError.message}`);
+  }
+  if (poll?.has_password) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!(await hasPasswordAccess(pollId, poll, user?.id ?? null))) {
+      return hidden;
+    }
+  }
+
+  const { data: visible, error } = await supabase.rpc('can_view_poll_results', { poll_uuid: pollId });
+  if (error) {
+    throw new Error(`Failed to check results visibility: ${error.message}`);
+  }
+  if (visible) {
+    return { visible: true, client: supabase, voterTokenHash: null };
+  }
+
+  const voterTokenHash = await readAnonymousVoterToken(pollId);
+  if (!voterTokenHash) {
+    return hidden;
+  }
+
+  const { data: votedVisible, error: voterError } = await supabase.rpc('can_view_poll_results', {
+    poll_uuid: pollId,
+    voter_token_hash: voterTokenHash,
+  });
+  if (voterError) {
+    throw new Error(`Failed to check results visibility: ${voterError.message}`);
+  }
+
+  return votedVisible
+    ? { visible: true, client: createAdminClient(), voterTokenHash }
+    : hidden;
+}
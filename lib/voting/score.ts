@@ -0,0 +1,51 @@
+/**
+ * Score (rating) tallying for score polls.
+ *
+ * Every voter rates each option on a 1..scoreMax scale. Options are compared
+ * by their average rating; the distribution shows how the ratings spread.
+ */
+
+export interface ScoreVoteRow {
+  option_id: string;
+  score: number | null;
+}
+
+export interface OptionScore {
+  option_id: string;
+  average: number;
+  count: number;
+  /** Number of ratings per score, where index 0 holds the 1-star ratings. */
+  distribution: number[];
+}
+
+/**
+ * Aggregates ratings per option.
+ *
+ * Rows without a score, or with a score outside the scale, are ignored so
+ * stray rows can't skew the averages.
+ *
+ * @param optionIds - All options on the poll, in display order
+ * @param rows - Stored vote rows carrying a score
+ * @param scoreMax - Upper bound of the rating scale
+ * @returns One entry per option, in the order of `optionIds`
+ */
+export function tallyScores(optionIds: string[], rows: ScoreVoteRow[], scoreMax: number): OptionScore[] {
+  const tallies = new Map<string, OptionScore>(
+    optionIds.map(id => [id, { option_id: id, average: 0, count: 0, distribution: Array(scoreMax).fill(0) }])
+  );
+
+  for (const row of rows) {
+    const tally = tallies.get(row.option_id);
+    if (!tally || row.score === null || row.score < 1 || row.score > scoreMax) {
+      continue;
+    }
+    tally.distribution[row.score - 1] += 1;
+    tally.count += 1;
+  }
+
+  return optionIds.map(id => {
+    const tally = tallies.get(id)!;
+    const total = tally.distribution.reduce((sum, count, index) => sum + count * (index + 1), 0);
+    return { ...tally, average: tally.count > 0 ? total / tally.count : 0 };
+  });
+}
@@ -0,0 +1,62 @@
+import { VoteType } from '@/lib/types/database';
+
+/**
+ * Display labels for each voting method, in the order they are offered
+ * when creating or editing a poll.
+ */
+export const VOTE_TYPE_LABELS: Record<VoteType, string> = {
+  single: 'Single choice',
+  multiple: 'Multiple choice (approval)',
+  ranked: 'Ranked choice (instant runoff)',
+  score: 'Score (rate every option)',
+  quadratic: 'Quadratic (spend a credit budget)',
+  pairwise: 'Pairwise comparison (pick between two)',
+};
+
+/**
+ * Short explanation shown to voters above the ballot.
+ */
+export const VOTE_TYPE_INSTRUCTIONS: Record<VoteType, string> = {
+  single: 'Please select one option',
+  multiple: 'You can select multiple options',
+  ranked: 'Rank the options in order of preference. You can leave options unranked.',
+  score: 'Rate every option. Higher is better.',
+  quadratic: 'Spend your credits across the options. k votes on one option cost k² credits; votes can be negative.',
+  pairwise: 'Pick the option you prefer from each pair. Compare as many pairs as you like, then submit.',
+};
+
+/**
+ * Instruction for multiple-choice ballots that spells out the poll's
+ * selection limits, e.g. "Select 1 to 3 options".
+ */
+export function selectionLimitInstructions(min: number, max: number | null) {
+  if (max === null) {
+    return min > 1
+      ? `Select at least ${min} options`
+      : VOTE_TYPE_INSTRUCTIONS.multiple;
+  }
+  if (min === max) {
+    return `Select exactly ${max} option${max !== 1 ? 's' : ''}`;
+  }
+  return `Select ${min} to ${max} options`;
+}
+
+/**
+ * Compact labels for the badges on poll cards.
+ */
+export const VOTE_TYPE_BADGES: Record<VoteType, string> = {
+  single: 'Single choice',
+  multiple: 'Multiple votes',
+  ranked: 'Ranked choice',
+  score: 'Score voting',
+  quadratic: 'Quadratic voting',
+  pairwise: 'Pairwise',
+};
+
+/**
+ * Whether the vote type is a plain pick-the-options poll whose results
+ * are the flat counts from get_poll_results.
+ */
+export function isChoiceVoteType(voteType: VoteType | undefined) {
+  return !voteType || voteType === 'single' || voteType === 'multiple';
+}
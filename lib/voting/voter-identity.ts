@@ -0,0 +1,124 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { cookies, headers } from 'next/headers';
+
+/**
+ * Identity of an anonymous voter, used to stop repeat votes from the same
+ * browser or device.
+ *
+ * Every browser gets a random token in a signed, http-only cookie that
+ * survives reloads. Neither the token nor the voter's IP address is stored
+ * as-is: votes carry HMACs scoped to the poll, so the public votes table
+ * can't be used to follow a voter from poll to poll.
+ */
+export interface AnonymousVoter {
+  /** Per-poll hash of the browser's cookie token. */
+  token: string;
+  /** Per-poll hash of the voter's IP address and user agent. */
+  fingerprint: string;
+}
+
+export const VOTER_COOKIE = 'poll_voter';
+const VOTER_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * Key for the HMACs the app signs its cookies and links with.
+ */
+export function tokenSecret() {
+  const key = process.env.VOTER_TOKEN_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!key) {
+    throw new Error('VOTER_TOKEN_SECRET is not configured');
+  }
+  return key;
+}
+
+function hmac(value: string) {
+  return createHmac('sha256', tokenSecret()).update(value).digest('hex');
+}
+
+/**
+ * Signs a browser token for storage in the voter cookie.
+ */
+export function signVoterToken(token: string) {
+  return `${token}.${hmac(token)}`;
+}
+
+/**
+ * Checks a voter cookie's signature.
+ *
+ * @returns The token, or null when the cookie is missing or was tampered with
+ */
+export function verifyVoterToken(value: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const separator = value.lastIndexOf('.');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const token = value.slice(0, separator);
+  const signature = Buffer.from(value.slice(separator + 1));
+  const expected = Buffer.from(hmac(token));
+
+  return signature.length === expected.length && timingSafeEqual(signature, expected) ? token : null;
+}
+
+function pollTokenHash(pollId: string, token: string) {
+  return hmac(`token:${pollId}:${token}`);
+}
+
+/**
+ * Derives the per-poll identity stored on an anonymous vote.
+ */
+export function anonymousVoterFor(pollId: string, token: string, ip: string, userAgent: string): AnonymousVoter {
+  return {
+    token: pollTokenHash(pollId, token),
+    fingerprint: hmac(`fingerprint:${pollId}:${ip}:${userAgent}`),
+  };
+}
+
+/**
+ * Resolves the current request's anonymous voter for a poll, issuing a new
+ * voter cookie when the browser doesn't have a valid one yet.
+ *
+ * Must be called from a server action or route handler, where cookies can
+ * be set.
+ */
+export async function getAnonymousVoter(pollId: string): Promise<AnonymousVoter> {
+  const cookieStore = await cookies();
+  const headerList = await headers();
+
+  let token = verifyVoterToken(cookieStore.get(VOTER_COOKIE)?.value);
+  if (!token) {
+    token = randomUUID();
+    cookieStore.set(VOTER_COOKIE, signVoterToken(token), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: VOTER_COOKIE_MAX_AGE,
+      path: '/',
+    });
+  }
+
+  // The first x-forwarded-for entry is the client when running behind a proxy
+  const ip = headerList.get('x-forwarded-for')?.split(',')[0].trim()
+    || headerList.get('x-real-ip')
+    || 'unknown';
+  const userAgent = headerList.get('user-agent') || 'unknown';
+
+  return anonymousVoterFor(pollId, token, ip, userAgent);
+}
+
+/**
+ * Reads the current request's per-poll voter token hash without issuing a
+ * cookie, for read-only checks such as whether an anonymous visitor has
+ * voted.
+ *
+ * @returns The token hash, or null when the browser has no valid voter cookie
+ */
+export async function readAnonymousVoterToken(pollId: string): Promise<string | null> {
+  const cookieStore = await cookies();
+  const token = verifyVoterToken(cookieStore.get(VOTER_COOKIE)?.value);
+  return token ? pollTokenHash(pollId, token) : null;
+}
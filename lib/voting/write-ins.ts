@@ -0,0 +1,60 @@
+/**
+ * Write-in ("Other") answers on single and multiple choice polls.
+ *
+ * A write-in is stored as a vote row with no option and the voter's text.
+ * Answers are grouped case-insensitively, ignoring surrounding and repeated
+ * whitespace, so "Pizza", "pizza " and "PIZZA" count as one answer.
+ */
+
+/** Longest write-in answer accepted, matching the column check in the schema. */
+export const MAX_WRITE_IN_LENGTH = 100;
+
+export interface WriteInVoteRow {
+  write_in: string | null;
+}
+
+export interface WriteInGroup {
+  /** The most common spelling of the answer, used for display and promotion. */
+  text: string;
+  count: number;
+}
+
+/**
+ * Trims a write-in and collapses inner whitespace.
+ */
+export function normalizeWriteIn(text: string) {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Grouping key for a write-in answer.
+ */
+export function writeInKey(text: string) {
+  return normalizeWriteIn(text).toLowerCase();
+}
+
+/**
+ * Groups write-in rows case-insensitively, most popular answer first.
+ */
+export function groupWriteIns(rows: WriteInVoteRow[]): WriteInGroup[] {
+  const groups = new Map<string, { count: number; spellings: Map<string, number> }>();
+
+  for (const row of rows) {
+    if (!row.write_in || !normalizeWriteIn(row.write_in)) {
+      continue;
+    }
+    const text = normalizeWriteIn(row.write_in);
+    const key = text.toLowerCase();
+    const group = groups.get(key) ?? { count: 0, spellings: new Map<string, number>() };
+    group.count += 1;
+    group.spellings.set(text, (group.spellings.get(text) ?? 0) + 1);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values())
+    .map(group => ({
+      text: Array.from(group.spellings.entries()).reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0],
+      count: group.count,
+    }))
+    .sort((a, b) => b.count - a.count || a.text.localeCompare(b.text));
+}
@@ -0,0 +1,91 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PollMemberRole, WorkspaceRole } from '@/lib/types/database';
+
+/**
+ * Workspace membership.
+ *
+ * A workspace is a team that owns polls together. Every member sees the
+ * polls created in it and can create new ones there; the owner and admins
+ * can also edit all of them and manage who belongs to the workspace. Only
+ * the owner, who created the workspace, can delete it. The database
+ * applies the same roles through the is_workspace_member function in its
+ * policies.
+ */
+
+/** Roles that can be given to members; the owner is whoever created the workspace. */
+export type AssignableWorkspaceRole = Exclude<WorkspaceRole, 'owner'>;
+
+/** Most members a workspace can have, its owner included. */
+export const MAX_WORKSPACE_MEMBERS = 100;
+
+/** Longest workspace name, in characters. */
+export const MAX_WORKSPACE_NAME_LENGTH = 60;
+
+export const WORKSPACE_ROLE_LABELS: Record<AssignableWorkspaceRole, string> = {
+  admin: 'Admin (can edit all polls and manage members)',
+  member: 'Member (can create polls and see all of them)',
+};
+
+/**
+ * Whether a role allows managing the workspace: renaming it, managing its
+ * members and editing every poll in it.
+ */
+export function canManageWorkspace(role: WorkspaceRole | null) {
+  return role === 'owner' || role === 'admin';
+}
+
+/**
+ * The access a workspace role gives to the workspace's polls, in terms of
+ * poll member roles: the owner and admins edit them, members see them and
+ * their results.
+ */
+export function pollRoleFromWorkspaceRole(role: WorkspaceRole): PollMemberRole {
+  return canManageWorkspace(role) ? 'editor' : 'viewer';
+}
+
+/**
+ * Checks a workspace name.
+ *
+ * @returns An error message, or null when the name can be used
+ */
+export function validateWorkspaceName(name: string) {
+  const trimmed = name.trim();
+
+  if (!trimmed) {
+    return 'Workspace name is required';
+  }
+
+  if (trimmed.length > MAX_WORKSPACE_NAME_LENGTH) {
+    return `Workspace names can be at most ${MAX_WORKSPACE_NAME_LENGTH} characters long`;
+  }
+
+  return null;
+}
+
+/**
+ * Finds a user's role in a workspace.
+ *
+ * @param supabase - A client allowed to read the workspace's members
+ * @param workspaceId - The workspace
+ * @param userId - The signed-in user
+ * @returns The user's role, or null when they don't belong to the workspace
+ */
+export async function getWorkspaceRole(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceRole | null> {
+  const { data: member, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking workspace membership:', error);
+    return null;
+  }
+
+  return member?.role ?? null;
+}
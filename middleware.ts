@@ -1,8 +1,16 @@
 import { type NextRequest } from 'next/server'
 import { updateSession } from '@/lib/supabase/middleware'
+import { embedContentSecurityPolicy } from '@/lib/polls/embed'
 
 export async function middleware(request: NextRequest) {
-  return await updateSession(request)
+  const response = await updateSession(request)
+
+  // Embeds are meant to be framed by other sites, within EMBED_FRAME_ANCESTORS
+  if (request.nextUrl.pathname.startsWith('/embed/')) {
+    response.headers.set('Content-Security-Policy', embedContentSecurityPolicy())
+  }
+
+  return response
 }
 
 export const config = {
@@ -1,9 +1,14 @@
 -- Enable necessary extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
 
 -- Create custom types
 CREATE TYPE poll_status AS ENUM ('active', 'inactive', 'expired');
-CREATE TYPE vote_type AS ENUM ('single', 'multiple');
+CREATE TYPE vote_type AS ENUM ('single', 'multiple', 'ranked', 'score', 'quadratic', 'pairwise');
+CREATE TYPE duplicate_protection AS ENUM ('off', 'cookie', 'strict');
+CREATE TYPE results_visibility AS ENUM ('always', 'after_vote', 'after_close', 'owner');
+CREATE TYPE poll_member_role AS ENUM ('editor', 'viewer');
+CREATE TYPE workspace_role AS ENUM ('owner', 'admin', 'member');
 
 -- Users table (extends Supabase auth.users)
 CREATE TABLE public.profiles (
@@ -15,6 +20,27 @@ CREATE TABLE public.profiles (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Workspaces table. A workspace is a team: its members all see the polls
+-- created in it, and its owner and admins can edit them and manage who
+-- belongs to it. The creator joins as the owner when it is created.
+CREATE TABLE public.workspaces (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Workspace members table
+CREATE TABLE public.workspace_members (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    role workspace_role NOT NULL DEFAULT 'member',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (workspace_id, user_id)
+);
+
 -- Polls table
 CREATE TABLE public.polls (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -22,10 +48,54 @@ CREATE TABLE public.polls (
     description TEXT,
     status poll_status DEFAULT 'active',
     is_public BOOLEAN DEFAULT true,
+    is_unlisted BOOLEAN NOT NULL DEFAULT false, -- Hidden from listings, but open to anyone holding the poll's secret link
+    access_token TEXT NOT NULL UNIQUE DEFAULT replace(uuid_generate_v4()::text || uuid_generate_v4()::text, '-', ''), -- Unguessable secret in an unlisted poll's link
+    has_password BOOLEAN NOT NULL DEFAULT false, -- Visitors must enter the access password kept in poll_passwords; maintained by trigger
+    is_invite_only BOOLEAN NOT NULL DEFAULT false, -- Only people on the poll's invitation list can vote
+    allowed_email_domains TEXT[] NOT NULL DEFAULT '{}', -- Only signed-in accounts with an address on one of these domains can vote (empty = any)
+    min_account_age_days INTEGER CHECK (min_account_age_days > 0), -- Only accounts at least this many days old can vote (NULL = no limit)
+    require_verified_email BOOLEAN NOT NULL DEFAULT false, -- Only accounts with a confirmed email address can vote
     allow_multiple_votes BOOLEAN DEFAULT false,
+    vote_type vote_type DEFAULT 'single',
+    score_max INTEGER NOT NULL DEFAULT 5 CHECK (score_max BETWEEN 2 AND 10), -- Top of the 1..N rating scale on score polls
+    min_selections INTEGER NOT NULL DEFAULT 1 CHECK (min_selections >= 1), -- Fewest options a multiple-choice ballot may approve
+    max_selections INTEGER CHECK (max_selections IS NULL OR max_selections >= min_selections), -- Most options a multiple-choice ballot may approve (NULL = no limit)
+    vote_credits INTEGER NOT NULL DEFAULT 100 CHECK (vote_credits > 0), -- Per-voter budget on quadratic polls (k votes cost k² credits)
+    allow_write_in BOOLEAN NOT NULL DEFAULT false, -- Offer a free-text "Other" answer on single/multiple choice polls
+    lock_votes BOOLEAN NOT NULL DEFAULT false, -- Stop voters from changing or withdrawing a vote once cast
+    duplicate_protection duplicate_protection NOT NULL DEFAULT 'cookie', -- How anonymous repeat votes are detected: not at all, by browser cookie, or by cookie or IP/user agent
+    results_visibility results_visibility NOT NULL DEFAULT 'always', -- Who sees results: everyone, voters, everyone once closed, or only the creator
+    is_draft BOOLEAN NOT NULL DEFAULT false, -- Drafts are only visible to their creator and can't be voted on until published
+    close_after_votes INTEGER CHECK (close_after_votes > 0), -- Close once this many ballots have been cast (NULL = no limit)
+    close_after_voters INTEGER CHECK (close_after_voters > 0), -- Close once this many different people have voted (NULL = no limit)
+    close_on_decisive_lead BOOLEAN NOT NULL DEFAULT false, -- Close early once no remaining votes could change the leading option
+    starts_at TIMESTAMP WITH TIME ZONE, -- Scheduled opening; the poll stays inactive until then
+    deleted_at TIMESTAMP WITH TIME ZONE, -- Set when the poll is moved to the trash; only its creator can still see it
     expires_at TIMESTAMP WITH TIME ZONE,
+    workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL, -- The team that owns the poll; deleting the workspace hands its polls back to their creators
     created_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (starts_at IS NULL OR expires_at IS NULL OR expires_at > starts_at), -- A poll must close after it opens
+    CHECK (NOT (is_public AND is_unlisted)), -- Unlisted polls are never listed publicly
+    CHECK (NOT is_invite_only OR is_public OR is_unlisted) -- Invitees must be able to open an invite-only poll
+);
+
+-- Survey questions table. A poll with questions is a survey: each question
+-- has its own options and voting method, and voters answer all of them in
+-- one submission. The poll itself keeps the settings shared by every
+-- question, such as visibility, schedule and duplicate protection.
+CREATE TABLE public.poll_questions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    prompt TEXT NOT NULL,
+    order_index INTEGER NOT NULL DEFAULT 0,
+    vote_type vote_type NOT NULL DEFAULT 'single',
+    score_max INTEGER NOT NULL DEFAULT 5 CHECK (score_max BETWEEN 2 AND 10),
+    min_selections INTEGER NOT NULL DEFAULT 1 CHECK (min_selections >= 1),
+    max_selections INTEGER CHECK (max_selections IS NULL OR max_selections >= min_selections),
+    vote_credits INTEGER NOT NULL DEFAULT 100 CHECK (vote_credits > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -33,45 +103,131 @@ CREATE TABLE public.polls (
 CREATE TABLE public.poll_options (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
     poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    question_id UUID REFERENCES public.poll_questions(id) ON DELETE CASCADE, -- The survey question the option answers (NULL on single-question polls)
     text TEXT NOT NULL,
     order_index INTEGER NOT NULL DEFAULT 0,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
--- Votes table
-CREATE TABLE public.votes (
+-- Poll passwords table. The hash is kept out of the polls table, which
+-- visitors can read; the application verifies passwords with the service
+-- role.
+CREATE TABLE public.poll_passwords (
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE PRIMARY KEY,
+    password_hash TEXT NOT NULL, -- scrypt$<salt>$<hash>
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Poll invitations table. Invite-only polls take votes from the invited
+-- email addresses only: from the profile signed in with the address, or
+-- through the invitee's personal /i/<token> link.
+CREATE TABLE public.poll_invitations (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
     poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
-    option_id UUID REFERENCES public.poll_options(id) ON DELETE CASCADE NOT NULL,
-    voter_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
-    voter_email TEXT, -- For anonymous voting
-    voter_name TEXT, -- For anonymous voting
+    email TEXT NOT NULL CHECK (email = lower(email)),
+    secret TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'), -- Key the invitation's personal link is signed with
+    sent_at TIMESTAMP WITH TIME ZONE, -- Last time the invitation was emailed
+    send_count INTEGER NOT NULL DEFAULT 0, -- Times the invitation was emailed
+    revoked_at TIMESTAMP WITH TIME ZONE, -- Set when the owner removes the invitation; kept so its vote still counts if the address is invited again
+    created_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (poll_id, email)
+);
+
+-- Poll members table. The creator can share a poll with other users:
+-- editors can change it and see its results like the creator does, and
+-- viewers can see its results, even on private polls. Only the creator can
+-- delete the poll or manage its members.
+CREATE TABLE public.poll_members (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    role poll_member_role NOT NULL DEFAULT 'viewer',
+    added_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    UNIQUE(poll_id, option_id, voter_id, voter_email) -- Prevent duplicate votes
+    UNIQUE (poll_id, user_id)
 );
 
--- Poll shares table (for QR codes and sharing)
+-- Poll shares table (short /s/<code> links, one per channel a poll is shared on)
 CREATE TABLE public.poll_shares (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
     poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
     share_code TEXT UNIQUE NOT NULL,
+    label TEXT, -- Where the link is shared, such as "Newsletter"
     is_active BOOLEAN DEFAULT true,
+    visit_count INTEGER NOT NULL DEFAULT 0, -- Times the link was opened, counted by record_share_visit
     created_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     expires_at TIMESTAMP WITH TIME ZONE
 );
 
+-- Votes table
+CREATE TABLE public.votes (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    option_id UUID REFERENCES public.poll_options(id) ON DELETE CASCADE, -- NULL for write-in answers
+    question_id UUID REFERENCES public.poll_questions(id) ON DELETE CASCADE, -- The survey question answered (NULL on single-question polls)
+    voter_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+    voter_email TEXT, -- For anonymous voting
+    voter_name TEXT, -- For anonymous voting
+    ballot_id UUID, -- Groups the rows recorded by a single submission
+    rank INTEGER CHECK (rank > 0), -- Preference position on ranked-choice ballots (1 = first choice)
+    score INTEGER CHECK (score > 0), -- Rating given on score polls
+    weight INTEGER CHECK (weight <> 0), -- Votes bought on quadratic polls (negative = votes against)
+    opponent_id UUID REFERENCES public.poll_options(id) ON DELETE CASCADE, -- Option the voted option was preferred over on pairwise polls
+    write_in TEXT CHECK (char_length(write_in) <= 100), -- Free-text "Other" answer, in place of an option
+    voter_token TEXT, -- Per-poll hash of an anonymous voter's browser cookie
+    voter_fingerprint TEXT, -- Per-poll hash of an anonymous voter's IP address and user agent
+    share_id UUID REFERENCES public.poll_shares(id) ON DELETE SET NULL, -- Share link the voter arrived through
+    invitation_id UUID REFERENCES public.poll_invitations(id) ON DELETE SET NULL, -- Invitation the vote was cast under on invite-only polls
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (opponent_id IS NULL OR opponent_id <> option_id),
+    CHECK ((option_id IS NULL) <> (write_in IS NULL)) -- Each row votes for an option or carries a write-in, never both
+);
+
+-- Poll templates table (named poll setups a user can start new polls from)
+CREATE TABLE public.poll_templates (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    name TEXT NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT,
+    options TEXT[] NOT NULL DEFAULT '{}',
+    settings JSONB NOT NULL DEFAULT '{}', -- Voting method and visibility settings, as sent by the poll form
+    created_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Indexes for performance
 CREATE INDEX idx_polls_created_by ON public.polls(created_by);
 CREATE INDEX idx_polls_status ON public.polls(status);
 CREATE INDEX idx_polls_public ON public.polls(is_public) WHERE is_public = true;
+CREATE INDEX idx_polls_starts_at ON public.polls(starts_at) WHERE status = 'inactive';
+CREATE INDEX idx_polls_expires_at ON public.polls(expires_at) WHERE status <> 'expired';
+CREATE INDEX idx_polls_deleted_at ON public.polls(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_polls_workspace_id ON public.polls(workspace_id) WHERE workspace_id IS NOT NULL;
+CREATE INDEX idx_poll_questions_poll_id ON public.poll_questions(poll_id);
 CREATE INDEX idx_poll_options_poll_id ON public.poll_options(poll_id);
+CREATE INDEX idx_poll_options_question_id ON public.poll_options(question_id) WHERE question_id IS NOT NULL;
 CREATE INDEX idx_votes_poll_id ON public.votes(poll_id);
 CREATE INDEX idx_votes_option_id ON public.votes(option_id);
 CREATE INDEX idx_votes_voter_id ON public.votes(voter_id);
+CREATE INDEX idx_votes_ballot_id ON public.votes(ballot_id);
+CREATE INDEX idx_votes_voter_token ON public.votes(poll_id, voter_token) WHERE voter_token IS NOT NULL;
+CREATE INDEX idx_votes_voter_fingerprint ON public.votes(poll_id, voter_fingerprint) WHERE voter_fingerprint IS NOT NULL;
+-- Prevent duplicate votes. Pairwise ballots store several rows per winning
+-- option, so their rows are unique per compared pair instead.
+CREATE UNIQUE INDEX idx_votes_unique_choice ON public.votes(poll_id, option_id, voter_id, voter_email) WHERE opponent_id IS NULL;
+CREATE UNIQUE INDEX idx_votes_unique_comparison ON public.votes(poll_id, option_id, opponent_id, voter_id, voter_email) WHERE opponent_id IS NOT NULL;
 CREATE INDEX idx_poll_shares_poll_id ON public.poll_shares(poll_id);
 CREATE INDEX idx_poll_shares_code ON public.poll_shares(share_code);
+CREATE INDEX idx_votes_share_id ON public.votes(share_id) WHERE share_id IS NOT NULL;
+CREATE INDEX idx_votes_invitation_id ON public.votes(invitation_id) WHERE invitation_id IS NOT NULL;
+CREATE INDEX idx_poll_templates_created_by ON public.poll_templates(created_by);
+CREATE INDEX idx_poll_members_user_id ON public.poll_members(user_id);
+CREATE INDEX idx_workspace_members_user_id ON public.workspace_members(user_id);
 
 -- Functions for automatic timestamps
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -97,16 +253,146 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- Function to give a poll a fresh access token whenever it becomes
+-- unlisted, so a token read while the poll was public doesn't open it
+CREATE OR REPLACE FUNCTION rotate_poll_access_token()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_unlisted AND NOT OLD.is_unlisted THEN
+        NEW.access_token = replace(uuid_generate_v4()::text || uuid_generate_v4()::text, '-', '');
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Function to keep polls.has_password in step with poll_passwords. Runs
+-- as the definer so it doesn't depend on the caller's update rights.
+CREATE OR REPLACE FUNCTION sync_poll_has_password()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.polls
+    SET has_password = (TG_OP = 'INSERT')
+    WHERE id = COALESCE(NEW.poll_id, OLD.poll_id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to keep what only a poll's creator may do out of its editors'
+-- hands: editors and workspace admins can update the poll, but not hand it
+-- over to someone else, move it in or out of a workspace, or move it to the
+-- trash.
+CREATE OR REPLACE FUNCTION guard_poll_creator_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Requests without a user come from the service role
+    IF auth.uid() IS NOT NULL AND auth.uid() <> OLD.created_by
+        AND (NEW.created_by IS DISTINCT FROM OLD.created_by
+            OR NEW.workspace_id IS DISTINCT FROM OLD.workspace_id
+            OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at) THEN
+        RAISE EXCEPTION 'Only the poll''s creator can do this';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Function to keep a workspace's admins to renaming it: its owner, which
+-- decides who may delete it, can't be changed.
+CREATE OR REPLACE FUNCTION guard_workspace_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Requests without a user come from the service role
+    IF auth.uid() IS NOT NULL
+        AND (NEW.id IS DISTINCT FROM OLD.id
+            OR NEW.created_by IS DISTINCT FROM OLD.created_by
+            OR NEW.created_at IS DISTINCT FROM OLD.created_at) THEN
+        RAISE EXCEPTION 'Only a workspace''s name can be changed';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Function to keep a profile's email address the user's sign-in address.
+-- Invitations and adding members by email trust it, so users can't set it
+-- themselves: their writes always get the address from auth.users. Runs as
+-- the definer to read auth.users.
+CREATE OR REPLACE FUNCTION guard_profile_email()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Requests without a user come from the service role and the auth triggers
+    IF auth.uid() IS NOT NULL THEN
+        NEW.email = (SELECT email FROM auth.users WHERE id = NEW.id);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to carry a changed sign-in address over to the user's profile.
+-- Supabase only changes auth.users.email once the new address is confirmed.
+CREATE OR REPLACE FUNCTION sync_profile_email()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.profiles SET email = NEW.email WHERE id = NEW.id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to hold each invitation to one ballot, whoever records it. Locks
+-- the invitation first, so concurrent submissions under it can't both get
+-- through. Runs as the definer to see votes hidden from the voter.
+CREATE OR REPLACE FUNCTION check_invitation_ballot()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM 1 FROM public.poll_invitations WHERE id = NEW.invitation_id FOR UPDATE;
+
+    IF EXISTS (
+        SELECT 1 FROM public.votes
+        WHERE invitation_id = NEW.invitation_id
+            AND ballot_id IS DISTINCT FROM NEW.ballot_id
+    ) THEN
+        RAISE EXCEPTION 'This invitation has already been used to vote';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to make a workspace's creator its owner. Runs as the definer
+-- because nobody is a member yet when the workspace is created.
+CREATE OR REPLACE FUNCTION add_workspace_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.workspace_members (workspace_id, user_id, role)
+    VALUES (NEW.id, NEW.created_by, 'owner');
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
 -- Triggers for automatic timestamps
 CREATE TRIGGER update_profiles_updated_at BEFORE UPDATE ON public.profiles FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER guard_profiles_email BEFORE INSERT OR UPDATE ON public.profiles FOR EACH ROW EXECUTE FUNCTION guard_profile_email();
 CREATE TRIGGER update_polls_updated_at BEFORE UPDATE ON public.polls FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_poll_questions_updated_at BEFORE UPDATE ON public.poll_questions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_poll_options_updated_at BEFORE UPDATE ON public.poll_options FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_poll_templates_updated_at BEFORE UPDATE ON public.poll_templates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER rotate_polls_access_token BEFORE UPDATE ON public.polls FOR EACH ROW EXECUTE FUNCTION rotate_poll_access_token();
+CREATE TRIGGER guard_polls_creator_columns BEFORE UPDATE ON public.polls FOR EACH ROW EXECUTE FUNCTION guard_poll_creator_columns();
+CREATE TRIGGER update_poll_passwords_updated_at BEFORE UPDATE ON public.poll_passwords FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER sync_poll_passwords_has_password AFTER INSERT OR DELETE ON public.poll_passwords FOR EACH ROW EXECUTE FUNCTION sync_poll_has_password();
+CREATE TRIGGER update_workspaces_updated_at BEFORE UPDATE ON public.workspaces FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER guard_workspaces_columns BEFORE UPDATE ON public.workspaces FOR EACH ROW EXECUTE FUNCTION guard_workspace_columns();
+CREATE TRIGGER add_workspaces_owner AFTER INSERT ON public.workspaces FOR EACH ROW EXECUTE FUNCTION add_workspace_owner();
+CREATE TRIGGER check_votes_invitation_ballot BEFORE INSERT ON public.votes FOR EACH ROW WHEN (NEW.invitation_id IS NOT NULL) EXECUTE FUNCTION check_invitation_ballot();
 
 -- Trigger to automatically create profile when user signs up
 CREATE TRIGGER on_auth_user_created
   AFTER INSERT ON auth.users
   FOR EACH ROW EXECUTE FUNCTION handle_new_user();
 
+-- Trigger to keep profile email addresses in step with sign-in addresses
+CREATE TRIGGER on_auth_user_email_changed
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW WHEN (NEW.email IS DISTINCT FROM OLD.email)
+  EXECUTE FUNCTION sync_profile_email();
+
 -- Function to generate share codes
 CREATE OR REPLACE FUNCTION generate_share_code()
 RETURNS TEXT AS $$
@@ -115,8 +401,294 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Function to resolve a share code for the /s/<code> route, counting the
+-- visit. Visitors can't update poll_shares themselves, so this runs as the
+-- definer. Disabled and expired codes, and codes of polls in the trash,
+-- resolve to nothing.
+CREATE OR REPLACE FUNCTION record_share_visit(code TEXT)
+RETURNS TABLE (share_id UUID, poll_id UUID) AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.poll_shares s
+    SET visit_count = s.visit_count + 1
+    WHERE s.share_code = code
+        AND s.is_active = true
+        AND (s.expires_at IS NULL OR s.expires_at > NOW())
+        AND EXISTS (SELECT 1 FROM public.polls p WHERE p.id = s.poll_id AND p.deleted_at IS NULL)
+    RETURNING s.id, s.poll_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Access tokens of the unlisted polls the requesting browser holds secret
+-- links to. The application forwards them in the x-poll-access-tokens
+-- request header, comma-separated.
+CREATE OR REPLACE FUNCTION request_poll_access_tokens()
+RETURNS TEXT[] AS $$
+    SELECT COALESCE(
+        string_to_array(NULLIF(current_setting('request.headers', true)::json->>'x-poll-access-tokens', ''), ','),
+        '{}'
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Function to check whether a poll is open to everyone making the request:
+-- public polls always are, unlisted polls only when the request carries
+-- the poll's access token. Drafts, trashed polls and ownership are checked
+-- separately by the callers.
+CREATE OR REPLACE FUNCTION poll_is_reachable(poll_is_public BOOLEAN, poll_is_unlisted BOOLEAN, poll_access_token TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT poll_is_public OR (poll_is_unlisted AND poll_access_token = ANY(request_poll_access_tokens()));
+$$ LANGUAGE sql STABLE;
+
+-- Function to find the unlisted poll a secret link points to. Visitors
+-- can't read the poll before its token is forwarded, so this runs as the
+-- definer. Drafts and trashed polls resolve to nothing.
+CREATE OR REPLACE FUNCTION resolve_unlisted_poll(token TEXT)
+RETURNS UUID AS $$
+    SELECT id FROM public.polls
+    WHERE access_token = token
+        AND is_unlisted
+        AND NOT is_draft
+        AND deleted_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Personal invitation links the requesting browser opened. The application
+-- forwards them in the x-poll-invitations request header, comma-separated,
+-- as <invitation ID>.<signature>.
+CREATE OR REPLACE FUNCTION request_poll_invitation_tokens()
+RETURNS TEXT[] AS $$
+    SELECT COALESCE(
+        string_to_array(NULLIF(current_setting('request.headers', true)::json->>'x-poll-invitations', ''), ','),
+        '{}'
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Function to check that a vote on an invite-only poll is cast under one
+-- of the poll's invitations by its invitee: signed in under the invited,
+-- confirmed address, or holding the invitation's personal link. Invitation
+-- IDs show on readable votes, so an ID alone proves nothing. Voters can't
+-- read the invitation list or auth.users, so this runs as the definer.
+CREATE OR REPLACE FUNCTION is_poll_invitation(invitation_uuid UUID, poll_uuid UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.poll_invitations i
+        WHERE i.id = invitation_uuid
+            AND i.poll_id = poll_uuid
+            AND i.revoked_at IS NULL
+            AND (
+                EXISTS (
+                    SELECT 1 FROM auth.users u
+                    WHERE u.id = auth.uid()
+                        AND u.email_confirmed_at IS NOT NULL
+                        AND lower(u.email) = i.email
+                )
+                OR encode(hmac('invitation:' || i.id::TEXT, i.secret, 'sha256'), 'hex') IN (
+                    SELECT split_part(t.value, '.', 2)
+                    FROM unnest(request_poll_invitation_tokens()) AS t(value)
+                    WHERE split_part(t.value, '.', 1) = i.id::TEXT
+                )
+            )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+-- Function to check that a user meets a poll's eligibility rules: an
+-- email address on one of the allowed domains, an account old enough and a
+-- confirmed address. Polls without rules accept everyone, anonymous voters
+-- included; polls with rules require an account. Reads auth.users, so this
+-- runs as the definer.
+CREATE OR REPLACE FUNCTION is_eligible_voter(poll_uuid UUID, user_uuid UUID DEFAULT auth.uid())
+RETURNS BOOLEAN AS $$
+DECLARE
+    poll_record RECORD;
+    user_record RECORD;
+BEGIN
+    SELECT allowed_email_domains, min_account_age_days, require_verified_email
+    INTO poll_record FROM public.polls WHERE id = poll_uuid;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    IF cardinality(poll_record.allowed_email_domains) = 0
+        AND poll_record.min_account_age_days IS NULL
+        AND NOT poll_record.require_verified_email THEN
+        RETURN TRUE;
+    END IF;
+
+    SELECT email, created_at, email_confirmed_at INTO user_record FROM auth.users WHERE id = user_uuid;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    IF cardinality(poll_record.allowed_email_domains) > 0
+        AND lower(split_part(user_record.email, '@', 2)) <> ALL(poll_record.allowed_email_domains) THEN
+        RETURN FALSE;
+    END IF;
+
+    IF poll_record.min_account_age_days IS NOT NULL
+        AND user_record.created_at > NOW() - make_interval(days => poll_record.min_account_age_days) THEN
+        RETURN FALSE;
+    END IF;
+
+    IF poll_record.require_verified_email AND user_record.email_confirmed_at IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Function to check whether the current user is a member of a poll, in
+-- any role or only as an editor. Policies on the polls table and its child
+-- tables use these; they run as the definer so checking membership doesn't
+-- go back through the policies of poll_members.
+CREATE OR REPLACE FUNCTION is_poll_member(poll_uuid UUID, editors_only BOOLEAN DEFAULT false)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.poll_members
+        WHERE poll_id = poll_uuid
+            AND user_id = auth.uid()
+            AND (NOT editors_only OR role = 'editor')
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Function to check whether the current user belongs to a workspace, in
+-- any role or only as its owner or an admin. Runs as the definer for the
+-- same reason as is_poll_member.
+CREATE OR REPLACE FUNCTION is_workspace_member(workspace_uuid UUID, admins_only BOOLEAN DEFAULT false)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.workspace_members
+        WHERE workspace_id = workspace_uuid
+            AND user_id = auth.uid()
+            AND (NOT admins_only OR role IN ('owner', 'admin'))
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Password grants the requesting browser holds. The application forwards
+-- them in the x-poll-password-grants request header, comma-separated, as
+-- <poll ID>.<expiry in milliseconds>.<signature>.
+CREATE OR REPLACE FUNCTION request_poll_password_grants()
+RETURNS TEXT[] AS $$
+    SELECT COALESCE(
+        string_to_array(NULLIF(current_setting('request.headers', true)::json->>'x-poll-password-grants', ''), ','),
+        '{}'
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Function to check whether the request may see past a poll's access
+-- password: polls without one, their creators, members and workspace
+-- members always can, everyone else needs an unexpired grant signed with
+-- the poll's password hash. Runs as the definer to read the hash.
+CREATE OR REPLACE FUNCTION poll_password_unlocked(poll_uuid UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.polls p
+        WHERE p.id = poll_uuid
+            AND (NOT p.has_password OR p.created_by = auth.uid() OR is_workspace_member(p.workspace_id))
+    ) OR is_poll_member(poll_uuid) OR EXISTS (
+        SELECT 1
+        FROM public.poll_passwords pp,
+            unnest(request_poll_password_grants()) AS g(value)
+        WHERE pp.poll_id = poll_uuid
+            AND split_part(g.value, '.', 1) = poll_uuid::TEXT
+            -- Malformed grants are skipped before the expiry is cast
+            AND CASE WHEN g.value ~ '^[0-9a-f-]{36}\.[1-9][0-9]{0,14}\.[0-9a-f]{64}$'
+                THEN split_part(g.value, '.', 2)::BIGINT > (extract(epoch FROM NOW()) * 1000)::BIGINT
+                ELSE FALSE
+            END
+            AND encode(
+                hmac(poll_uuid::TEXT || ':' || split_part(g.value, '.', 2), pp.password_hash, 'sha256'),
+                'hex'
+            ) = split_part(g.value, '.', 3)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+-- Function to check whether the current user can change a poll: its
+-- creator, its editors and the owner and admins of its workspace can.
+CREATE OR REPLACE FUNCTION can_edit_poll(poll_uuid UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.polls
+        WHERE id = poll_uuid
+            AND (created_by = auth.uid() OR is_workspace_member(workspace_id, true))
+    ) OR is_poll_member(poll_uuid, true);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Function to check whether the current user may see a poll's results.
+-- Creators, the poll's members and the members of its workspace always can. Everyone else depends on the poll's results
+-- visibility: always, after voting, once the poll has closed, or never.
+-- Signed-in voters are recognised by user ID and anonymous voters by the
+-- per-poll voter token hash the application passes in. Polls that show
+-- results after voting show them to everyone once they close.
+CREATE OR REPLACE FUNCTION can_view_poll_results(poll_uuid UUID, voter_token_hash TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+    poll_record RECORD;
+    is_closed BOOLEAN;
+BEGIN
+    SELECT * INTO poll_record FROM public.polls WHERE id = poll_uuid;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    -- Trashed polls keep their votes for a restore, but nobody sees them meanwhile
+    IF poll_record.deleted_at IS NOT NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    IF auth.uid() = poll_record.created_by OR is_poll_member(poll_uuid) OR is_workspace_member(poll_record.workspace_id) THEN
+        RETURN TRUE;
+    END IF;
+
+    IF NOT poll_is_reachable(poll_record.is_public, poll_record.is_unlisted, poll_record.access_token) OR poll_record.is_draft
+        OR NOT poll_password_unlocked(poll_uuid) THEN
+        RETURN FALSE;
+    END IF;
+
+    is_closed := poll_record.status = 'expired'
+        OR (poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW());
+
+    RETURN CASE poll_record.results_visibility
+        WHEN 'always' THEN TRUE
+        WHEN 'after_close' THEN is_closed
+        WHEN 'after_vote' THEN is_closed OR EXISTS (
+            SELECT 1 FROM public.votes v
+            WHERE v.poll_id = poll_uuid
+            AND (
+                (auth.uid() IS NOT NULL AND v.voter_id = auth.uid())
+                OR (voter_token_hash IS NOT NULL AND v.voter_token = voter_token_hash)
+            )
+        )
+        ELSE FALSE
+    END;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Function to check for an earlier anonymous vote by voter token or, in
+-- strict mode, by fingerprint. Votes on polls with hidden results aren't
+-- readable by voters, so the duplicate check can't query them directly.
+CREATE OR REPLACE FUNCTION has_anonymous_vote(poll_uuid UUID, token_hash TEXT, fingerprint_hash TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1 FROM public.votes
+        WHERE poll_id = poll_uuid
+        AND (
+            voter_token = token_hash
+            OR (fingerprint_hash IS NOT NULL AND voter_fingerprint = fingerprint_hash)
+        )
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
 -- Function to get poll results with vote counts
-CREATE OR REPLACE FUNCTION get_poll_results(poll_uuid UUID)
+-- Ranked-choice ballots only count their first preference here; the
+-- round-by-round runoff is computed in the application. Write-in answers
+-- count towards the total but are grouped in the application. Fails when
+-- the poll's results visibility hides the results from the caller.
+CREATE OR REPLACE FUNCTION get_poll_results(poll_uuid UUID, voter_token_hash TEXT DEFAULT NULL)
 RETURNS TABLE (
     option_id UUID,
     option_text TEXT,
@@ -124,32 +696,43 @@ RETURNS TABLE (
     percentage NUMERIC
 ) AS $$
 BEGIN
+    IF NOT can_view_poll_results(poll_uuid, voter_token_hash) THEN
+        RAISE EXCEPTION 'Results for this poll are hidden' USING ERRCODE = '42501';
+    END IF;
+
     RETURN QUERY
     SELECT 
         po.id as option_id,
         po.text as option_text,
         COUNT(v.id) as vote_count,
         CASE 
-            WHEN (SELECT COUNT(*) FROM public.votes WHERE poll_id = poll_uuid) > 0 
-            THEN ROUND((COUNT(v.id)::NUMERIC / (SELECT COUNT(*) FROM public.votes WHERE poll_id = poll_uuid)::NUMERIC) * 100, 2)
+            WHEN (SELECT COUNT(*) FROM public.votes WHERE poll_id = poll_uuid AND (rank IS NULL OR rank = 1)) > 0 
+            THEN ROUND((COUNT(v.id)::NUMERIC / (SELECT COUNT(*) FROM public.votes WHERE poll_id = poll_uuid AND (rank IS NULL OR rank = 1))::NUMERIC) * 100, 2)
             ELSE 0 
         END as percentage
     FROM public.poll_options po
-    LEFT JOIN public.votes v ON po.id = v.option_id
+    LEFT JOIN public.votes v ON po.id = v.option_id AND (v.rank IS NULL OR v.rank = 1)
     WHERE po.poll_id = poll_uuid
     GROUP BY po.id, po.text
     ORDER BY po.order_index, po.created_at;
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
 
 -- Row Level Security (RLS) Policies
 
 -- Enable RLS on all tables
 ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_questions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.poll_options ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_passwords ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_members ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.poll_shares ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
 
 -- Profiles policies
 CREATE POLICY "Users can view their own profile" ON public.profiles
@@ -162,60 +745,117 @@ CREATE POLICY "Users can insert their own profile" ON public.profiles
     FOR INSERT WITH CHECK (auth.uid() = id);
 
 -- Polls policies
+-- Unlisted polls are visible to requests carrying their access token, and
+-- every poll to its members and the members of its workspace. Polls can
+-- only be created in, or moved to, a workspace the user belongs to.
 CREATE POLICY "Anyone can view public polls" ON public.polls
-    FOR SELECT USING (is_public = true OR auth.uid() = created_by);
+    FOR SELECT USING ((poll_is_reachable(is_public, is_unlisted, access_token) AND is_draft = false AND deleted_at IS NULL) OR auth.uid() = created_by OR is_poll_member(id) OR is_workspace_member(workspace_id));
 
 CREATE POLICY "Users can create polls" ON public.polls
-    FOR INSERT WITH CHECK (auth.uid() = created_by);
+    FOR INSERT WITH CHECK (auth.uid() = created_by AND (workspace_id IS NULL OR is_workspace_member(workspace_id)));
 
 CREATE POLICY "Users can update their own polls" ON public.polls
-    FOR UPDATE USING (auth.uid() = created_by);
+    FOR UPDATE USING (auth.uid() = created_by OR is_poll_member(id, true) OR is_workspace_member(workspace_id, true))
+    WITH CHECK (workspace_id IS NULL OR is_workspace_member(workspace_id));
 
 CREATE POLICY "Users can delete their own polls" ON public.polls
     FOR DELETE USING (auth.uid() = created_by);
 
--- Poll options policies
-CREATE POLICY "Anyone can view poll options for public polls" ON public.poll_options
+-- Survey questions policies (same access as the poll's options)
+CREATE POLICY "Anyone can view questions for public polls" ON public.poll_questions
     FOR SELECT USING (
         EXISTS (
             SELECT 1 FROM public.polls 
             WHERE id = poll_id 
-            AND (is_public = true OR auth.uid() = created_by)
+            AND ((poll_is_reachable(is_public, is_unlisted, access_token) AND is_draft = false AND deleted_at IS NULL AND poll_password_unlocked(id)) OR auth.uid() = created_by OR is_poll_member(id) OR is_workspace_member(workspace_id))
         )
     );
 
-CREATE POLICY "Users can manage options for their own polls" ON public.poll_options
-    FOR ALL USING (
+CREATE POLICY "Users can manage questions for their own polls" ON public.poll_questions
+    FOR ALL USING (can_edit_poll(poll_id));
+
+-- Poll options policies
+CREATE POLICY "Anyone can view poll options for public polls" ON public.poll_options
+    FOR SELECT USING (
         EXISTS (
             SELECT 1 FROM public.polls 
             WHERE id = poll_id 
-            AND auth.uid() = created_by
+            AND ((poll_is_reachable(is_public, is_unlisted, access_token) AND is_draft = false AND deleted_at IS NULL AND poll_password_unlocked(id)) OR auth.uid() = created_by OR is_poll_member(id) OR is_workspace_member(workspace_id))
         )
     );
 
+CREATE POLICY "Users can manage options for their own polls" ON public.poll_options
+    FOR ALL USING (can_edit_poll(poll_id));
+
 -- Votes policies
+-- Voters always see their own votes; other votes only where the poll's
+-- results are visible to the viewer
 CREATE POLICY "Anyone can view votes for public polls" ON public.votes
     FOR SELECT USING (
-        EXISTS (
-            SELECT 1 FROM public.polls 
-            WHERE id = poll_id 
-            AND (is_public = true OR auth.uid() = created_by)
-        )
+        auth.uid() = voter_id
+        OR can_view_poll_results(poll_id)
     );
 
+-- Votes are recorded under the caller's own account, or none when anonymous,
+-- so eligibility can't be borrowed from another voter's readable ID
 CREATE POLICY "Anyone can vote on public polls" ON public.votes
     FOR INSERT WITH CHECK (
-        EXISTS (
+        votes.voter_id IS NOT DISTINCT FROM auth.uid()
+        AND EXISTS (
             SELECT 1 FROM public.polls 
             WHERE id = poll_id 
-            AND is_public = true
+            AND poll_is_reachable(is_public, is_unlisted, access_token)
+            AND poll_password_unlocked(id)
+            AND is_draft = false
+            AND deleted_at IS NULL
             AND status = 'active'
             AND (expires_at IS NULL OR expires_at > NOW())
+            AND (NOT is_invite_only OR is_poll_invitation(votes.invitation_id, votes.poll_id))
+            -- Invitees' addresses stay in poll_invitations, out of readable votes
+            AND (votes.invitation_id IS NULL OR votes.voter_email IS NULL)
+            AND is_eligible_voter(votes.poll_id, auth.uid())
         )
     );
 
 CREATE POLICY "Users can vote on their own polls" ON public.votes
     FOR INSERT WITH CHECK (
+        votes.voter_id IS NOT DISTINCT FROM auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM public.polls 
+            WHERE id = poll_id 
+            AND auth.uid() = created_by
+            AND is_draft = false
+            AND deleted_at IS NULL
+        )
+    );
+
+-- Lets voters change or withdraw their vote while the poll is open,
+-- unless the owner locks votes once cast
+CREATE POLICY "Voters can delete their own votes" ON public.votes
+    FOR DELETE USING (
+        auth.uid() = voter_id
+        AND EXISTS (
+            SELECT 1 FROM public.polls 
+            WHERE id = poll_id 
+            AND status = 'active'
+            AND deleted_at IS NULL
+            AND NOT lock_votes
+            AND (expires_at IS NULL OR expires_at > NOW())
+        )
+    );
+
+-- Votes are never updated in place: write-in answers are moved onto a
+-- promoted option by promote_write_in, which changes nothing else
+
+-- Poll passwords policies (owners and editors set and remove passwords;
+-- nobody else can read the hashes)
+CREATE POLICY "Users can manage passwords for their own polls" ON public.poll_passwords
+    FOR ALL USING (can_edit_poll(poll_id));
+
+-- Poll invitations policies (the invitation list is only visible to the
+-- poll's creator)
+CREATE POLICY "Users can manage invitations for their own polls" ON public.poll_invitations
+    FOR ALL USING (
         EXISTS (
             SELECT 1 FROM public.polls 
             WHERE id = poll_id 
@@ -223,6 +863,59 @@ CREATE POLICY "Users can vote on their own polls" ON public.votes
         )
     );
 
+-- Poll members policies (members see who else the poll is shared with;
+-- only the creator adds, changes and removes members, and members can
+-- leave)
+CREATE POLICY "Members can view the members of their polls" ON public.poll_members
+    FOR SELECT USING (
+        is_poll_member(poll_id)
+        OR EXISTS (
+            SELECT 1 FROM public.polls 
+            WHERE id = poll_id 
+            AND auth.uid() = created_by
+        )
+    );
+
+CREATE POLICY "Users can manage members of their own polls" ON public.poll_members
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.polls 
+            WHERE id = poll_id 
+            AND auth.uid() = created_by
+        )
+    );
+
+CREATE POLICY "Members can leave polls" ON public.poll_members
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Workspaces policies (members see their workspaces; the owner and admins
+-- rename them and only the owner deletes them)
+CREATE POLICY "Members can view their workspaces" ON public.workspaces
+    FOR SELECT USING (auth.uid() = created_by OR is_workspace_member(id));
+
+CREATE POLICY "Users can create workspaces" ON public.workspaces
+    FOR INSERT WITH CHECK (auth.uid() = created_by);
+
+-- Admins can only rename a workspace (see guard_workspace_columns)
+CREATE POLICY "Admins can update their workspaces" ON public.workspaces
+    FOR UPDATE USING (is_workspace_member(id, true))
+    WITH CHECK (is_workspace_member(id, true));
+
+CREATE POLICY "Owners can delete their workspaces" ON public.workspaces
+    FOR DELETE USING (auth.uid() = created_by);
+
+-- Workspace members policies (members see each other; the owner and admins
+-- add, change and remove everyone but the owner, and members can leave)
+CREATE POLICY "Members can view the members of their workspaces" ON public.workspace_members
+    FOR SELECT USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Admins can manage workspace members" ON public.workspace_members
+    FOR ALL USING (is_workspace_member(workspace_id, true) AND role <> 'owner')
+    WITH CHECK (is_workspace_member(workspace_id, true) AND role <> 'owner');
+
+CREATE POLICY "Members can leave workspaces" ON public.workspace_members
+    FOR DELETE USING (auth.uid() = user_id AND role <> 'owner');
+
 -- Poll shares policies
 CREATE POLICY "Anyone can view active share codes" ON public.poll_shares
     FOR SELECT USING (is_active = true AND (expires_at IS NULL OR expires_at > NOW()));
@@ -245,6 +938,29 @@ CREATE POLICY "Users can manage share codes for their polls" ON public.poll_shar
         )
     );
 
+-- Owners also see their disabled and expired codes, with their statistics
+CREATE POLICY "Users can view share codes for their polls" ON public.poll_shares
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.polls 
+            WHERE id = poll_id 
+            AND auth.uid() = created_by
+        )
+    );
+
+-- Poll templates policies (templates are personal)
+CREATE POLICY "Users can view their own templates" ON public.poll_templates
+    FOR SELECT USING (auth.uid() = created_by);
+
+CREATE POLICY "Users can create templates" ON public.poll_templates
+    FOR INSERT WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Users can update their own templates" ON public.poll_templates
+    FOR UPDATE USING (auth.uid() = created_by);
+
+CREATE POLICY "Users can delete their own templates" ON public.poll_templates
+    FOR DELETE USING (auth.uid() = created_by);
+
 -- Function to handle new user registration
 CREATE OR REPLACE FUNCTION public.handle_new_user()
 RETURNS TRIGGER AS $$
@@ -274,8 +990,8 @@ BEGIN
         RETURN FALSE;
     END IF;
     
-    -- Check if poll is active and not expired
-    IF poll_record.status != 'active' OR (poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW()) THEN
+    -- Check if poll is published, not trashed, active and not expired
+    IF poll_record.is_draft OR poll_record.deleted_at IS NOT NULL OR poll_record.status != 'active' OR (poll_record.expires_at IS NOT NULL AND poll_record.expires_at <= NOW()) THEN
         RETURN FALSE;
     END IF;
     
@@ -289,10 +1005,206 @@ BEGIN
         RETURN FALSE;
     END IF;
     
+    -- Check the poll's eligibility rules
+    IF NOT is_eligible_voter(poll_uuid, user_uuid) THEN
+        RETURN FALSE;
+    END IF;
+    
     RETURN TRUE;
 END;
 $$ LANGUAGE plpgsql;
 
+-- Function to count a poll's turnout: ballots cast, and distinct voters
+-- (signed-in users, anonymous browsers or email addresses). A survey
+-- response shares one ballot ID across its questions, so it counts once.
+-- Runs as the definer so the counts are available even where results are
+-- hidden.
+CREATE OR REPLACE FUNCTION get_poll_turnout(poll_uuid UUID)
+RETURNS TABLE (
+    ballots INTEGER,
+    voters INTEGER
+) AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.polls p
+        WHERE p.id = poll_uuid
+        AND ((poll_is_reachable(p.is_public, p.is_unlisted, p.access_token) AND NOT p.is_draft AND p.deleted_at IS NULL AND poll_password_unlocked(p.id)) OR p.created_by = auth.uid() OR is_poll_member(p.id) OR is_workspace_member(p.workspace_id))
+    ) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        COUNT(DISTINCT COALESCE(v.ballot_id, v.id))::INTEGER,
+        COUNT(DISTINCT COALESCE(v.voter_id::TEXT, v.voter_token, v.voter_email, COALESCE(v.ballot_id, v.id)::TEXT))::INTEGER
+    FROM public.votes v
+    WHERE v.poll_id = poll_uuid;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Function to close a poll once one of its close conditions is met: a
+-- number of ballots, a number of distinct voters, or an option leading the
+-- runner-up by more votes than are still to come. Called after every vote;
+-- returns whether the poll is closed. It only applies conditions the
+-- poll's creator set, so any voter may call it.
+CREATE OR REPLACE FUNCTION close_poll_if_complete(poll_uuid UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+    poll_record RECORD;
+    turnout RECORD;
+    remaining INTEGER;
+    tallies INTEGER[];
+    should_close BOOLEAN := FALSE;
+BEGIN
+    -- Lock the poll so concurrent votes don't both try to close it
+    SELECT * INTO poll_record FROM public.polls WHERE id = poll_uuid FOR UPDATE;
+
+    IF NOT FOUND OR poll_record.status <> 'active' THEN
+        RETURN FOUND AND poll_record.status = 'expired';
+    END IF;
+
+    IF poll_record.close_after_votes IS NULL AND poll_record.close_after_voters IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT
+        COUNT(DISTINCT COALESCE(v.ballot_id, v.id))::INTEGER AS ballots,
+        COUNT(DISTINCT COALESCE(v.voter_id::TEXT, v.voter_token, v.voter_email, COALESCE(v.ballot_id, v.id)::TEXT))::INTEGER AS voters
+    INTO turnout
+    FROM public.votes v
+    WHERE v.poll_id = poll_uuid;
+
+    IF turnout.ballots >= poll_record.close_after_votes OR turnout.voters >= poll_record.close_after_voters THEN
+        should_close := TRUE;
+    ELSIF poll_record.close_on_decisive_lead AND poll_record.vote_type IN ('single', 'multiple')
+        -- Survey tallies are per question, so no single lead decides them
+        AND NOT EXISTS (SELECT 1 FROM public.poll_questions q WHERE q.poll_id = poll_uuid) THEN
+        -- Each ballot still to come adds at most one vote to any option.
+        -- Without a ballot target the remaining ballots are only known when
+        -- every voter gets a single ballot.
+        remaining := LEAST(
+            poll_record.close_after_votes - turnout.ballots,
+            CASE WHEN NOT poll_record.allow_multiple_votes THEN poll_record.close_after_voters - turnout.voters END
+        );
+
+        tallies := ARRAY(
+            SELECT COUNT(v.id)::INTEGER
+            FROM public.poll_options o
+            LEFT JOIN public.votes v ON v.option_id = o.id
+            WHERE o.poll_id = poll_uuid
+            GROUP BY o.id
+            ORDER BY 1 DESC
+            LIMIT 2
+        );
+
+        should_close := remaining IS NOT NULL
+            AND array_length(tallies, 1) = 2
+            AND tallies[1] - tallies[2] > remaining;
+    END IF;
+
+    IF should_close THEN
+        UPDATE public.polls SET status = 'expired' WHERE id = poll_uuid;
+    END IF;
+
+    RETURN should_close;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to move write-in answers onto the option they were promoted
+-- to, for the poll's owner and editors. Only write_in and option_id change.
+-- Voters whose ballot already chose the option lose the write-in instead,
+-- so nobody is counted twice and the unique choice index holds. Returns the
+-- number of answers moved.
+CREATE OR REPLACE FUNCTION promote_write_in(poll_uuid UUID, option_uuid UUID, vote_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+    moved INTEGER;
+BEGIN
+    IF NOT can_edit_poll(poll_uuid) THEN
+        RAISE EXCEPTION 'Only the poll''s owner and editors can do this' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.poll_options WHERE id = option_uuid AND poll_id = poll_uuid) THEN
+        RAISE EXCEPTION 'Option does not belong to this poll';
+    END IF;
+
+    -- The same voter's ballot already has the option, or another of the
+    -- answers being moved
+    DELETE FROM public.votes w
+    WHERE w.id = ANY(vote_ids)
+        AND w.poll_id = poll_uuid
+        AND w.write_in IS NOT NULL
+        AND EXISTS (
+            SELECT 1 FROM public.votes v
+            WHERE v.poll_id = poll_uuid
+                AND v.opponent_id IS NULL
+                AND v.question_id IS NOT DISTINCT FROM w.question_id
+                AND (v.option_id = option_uuid OR (v.id = ANY(vote_ids) AND v.write_in IS NOT NULL AND v.id < w.id))
+                AND (v.ballot_id = w.ballot_id OR (v.voter_id = w.voter_id AND v.voter_email = w.voter_email))
+        );
+
+    UPDATE public.votes
+    SET option_id = option_uuid, write_in = NULL
+    WHERE id = ANY(vote_ids)
+        AND poll_id = poll_uuid
+        AND option_id IS NULL
+        AND write_in IS NOT NULL;
+
+    GET DIAGNOSTICS moved = ROW_COUNT;
+    RETURN moved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to move polls through their schedule: scheduled (inactive) polls
+-- open once starts_at has passed, and open or scheduled polls expire once
+-- expires_at has passed. Called by the /api/cron/poll-status route; returns
+-- the polls whose status changed so their pages can be revalidated.
+CREATE OR REPLACE FUNCTION transition_poll_statuses()
+RETURNS TABLE (
+    poll_id UUID,
+    new_status poll_status
+) AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.polls p
+    SET status = 'expired'
+    WHERE p.status <> 'expired'
+        AND p.expires_at IS NOT NULL
+        AND p.expires_at <= NOW()
+    RETURNING p.id, p.status;
+
+    RETURN QUERY
+    UPDATE public.polls p
+    SET status = 'active'
+    WHERE p.status = 'inactive'
+        AND p.starts_at IS NOT NULL
+        AND p.starts_at <= NOW()
+    RETURNING p.id, p.status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Transitions only ever apply what the schedule already says, but keep the
+-- function to the scheduler's service role
+REVOKE EXECUTE ON FUNCTION transition_poll_statuses() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION transition_poll_statuses() TO service_role;
+
+-- Function to permanently delete polls that have been in the trash for
+-- longer than the retention period, along with their options and votes.
+-- Called by the /api/cron/purge-trash route; returns the purged poll IDs.
+CREATE OR REPLACE FUNCTION purge_trashed_polls(retention INTERVAL)
+RETURNS SETOF UUID AS $$
+BEGIN
+    RETURN QUERY
+    DELETE FROM public.polls p
+    WHERE p.deleted_at IS NOT NULL
+        AND p.deleted_at <= NOW() - retention
+    RETURNING p.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION purge_trashed_polls(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION purge_trashed_polls(INTERVAL) TO service_role;
+
 -- Sample data will be inserted after user registration
 -- You can run the following queries manually after creating your first user:
 